@@ -6,7 +6,7 @@
  * Domain: bonnesantemedicals.com
  */
 
-const CACHE_VERSION = 'v3';
+const CACHE_VERSION = 'v4';
 const CACHE_NAME = `astrowound-${CACHE_VERSION}`;
 const DATA_CACHE = `astrowound-data-${CACHE_VERSION}`;
 const AI_MODEL_CACHE = `astrowound-ai-${CACHE_VERSION}`;
@@ -25,6 +25,8 @@ const STATIC_ASSETS = [
 const AI_MODEL_ASSETS = [
   // TensorFlow.js core
   'https://cdn.jsdelivr.net/npm/@tensorflow/tfjs@4.17.0/dist/tf.min.js',
+  // Segmentation model manifest (weights live under a versioned path and are cached on first load)
+  '/models/astrowound-unet-lite/manifest.json',
 ];
 
 // Install event - pre-cache static assets and AI models
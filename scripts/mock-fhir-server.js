@@ -0,0 +1,155 @@
+/**
+ * AstroWound-MEASURE Mock FHIR Server
+ * In-memory FHIR R4 endpoint for exercising the sync service locally
+ *
+ * Usage: node scripts/mock-fhir-server.js [port]
+ *   MOCK_FHIR_FAIL=503  respond to every transaction with that status (test retry backoff)
+ *
+ * Resources are versioned and If-Match is honoured, so edits from two app
+ * instances against the same server produce 412 conflicts. PUT a resource
+ * directly (e.g. with curl) to simulate an edit from another device.
+ */
+
+import http from 'node:http';
+
+const port = Number(process.argv[2] || process.env.PORT || 8090);
+const failStatus = Number(process.env.MOCK_FHIR_FAIL || 0);
+const resources = new Map(); // "Type/id" -> resource
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/fhir+json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Accept, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body, null, 2));
+};
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const etag = (resource) => `W/"${resource.meta.versionId}"`;
+
+const store = (key, resource) => {
+  const previous = resources.get(key);
+  const versionId = String(previous ? Number(previous.meta.versionId) + 1 : 1);
+  const saved = { ...resource, meta: { versionId, lastUpdated: new Date().toISOString() } };
+  resources.set(key, saved);
+  return saved;
+};
+
+const checkIfMatch = (key, ifMatch) => {
+  const current = resources.get(key);
+  if (ifMatch && current && ifMatch !== etag(current)) {
+    throw new HttpError(412, `${key} has changed: expected ${ifMatch}, server has ${etag(current)}`);
+  }
+};
+
+const outcome = (diagnostics) => ({
+  resourceType: 'OperationOutcome',
+  issue: [{ severity: 'error', code: 'processing', diagnostics }],
+});
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let data = '';
+  req.on('data', chunk => { data += chunk; });
+  req.on('end', () => resolve(data));
+  req.on('error', reject);
+});
+
+const handleTransaction = (bundle) => {
+  if (bundle.resourceType !== 'Bundle' || bundle.type !== 'transaction') {
+    throw new Error('Expected a transaction Bundle');
+  }
+
+  const entries = bundle.entry ?? [];
+  const results = entries.map(({ request, resource }) => {
+    if (!request?.url) throw new Error('Bundle entry without request.url');
+    const [type, id] = request.url.split('/');
+
+    switch (request.method) {
+      case 'PUT':
+        if (!resource || resource.resourceType !== type || resource.id !== id) {
+          throw new Error(`Resource does not match ${request.url}`);
+        }
+        checkIfMatch(request.url, request.ifMatch);
+        return { key: request.url, resource, status: resources.has(request.url) ? '200 OK' : '201 Created' };
+      case 'DELETE':
+        return { key: request.url, resource: null, status: '204 No Content' };
+      default:
+        throw new Error(`Unsupported method ${request.method}`);
+    }
+  });
+
+  // All entries validated: apply atomically
+  const responses = results.map(({ key, resource, status }) => {
+    if (!resource) {
+      resources.delete(key);
+      return { status, location: key };
+    }
+    const saved = store(key, resource);
+    return { status, location: `${key}/_history/${saved.meta.versionId}`, etag: etag(saved) };
+  });
+
+  console.log(`[mock-fhir] transaction: ${results.map(r => `${r.status.split(' ')[0]} ${r.key}`).join(', ')}`);
+  return {
+    resourceType: 'Bundle',
+    type: 'transaction-response',
+    entry: responses.map(response => ({ response })),
+  };
+};
+
+http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${port}`);
+  const parts = url.pathname.split('/').filter(Boolean);
+
+  try {
+    if (req.method === 'OPTIONS') return send(res, 204);
+
+    if (req.method === 'GET' && parts[0] === 'metadata') {
+      return send(res, 200, {
+        resourceType: 'CapabilityStatement',
+        status: 'active',
+        kind: 'instance',
+        fhirVersion: '4.0.1',
+        format: ['application/fhir+json'],
+      });
+    }
+
+    if (req.method === 'POST' && parts.length === 0) {
+      if (failStatus) return send(res, failStatus, outcome('Simulated failure (MOCK_FHIR_FAIL)'));
+      return send(res, 200, handleTransaction(JSON.parse(await readBody(req))));
+    }
+
+    if (req.method === 'PUT' && parts.length === 2) {
+      const key = `${parts[0]}/${parts[1]}`;
+      checkIfMatch(key, req.headers['if-match']);
+      const saved = store(key, JSON.parse(await readBody(req)));
+      console.log(`[mock-fhir] PUT ${key} -> version ${saved.meta.versionId}`);
+      return send(res, 200, saved);
+    }
+
+    if (req.method === 'GET' && parts.length === 2) {
+      const resource = resources.get(`${parts[0]}/${parts[1]}`);
+      return resource ? send(res, 200, resource) : send(res, 404, outcome('Not found'));
+    }
+
+    if (req.method === 'GET' && parts.length === 1) {
+      const matches = [...resources.entries()]
+        .filter(([key]) => key.startsWith(`${parts[0]}/`))
+        .map(([, resource]) => ({ resource }));
+      return send(res, 200, { resourceType: 'Bundle', type: 'searchset', total: matches.length, entry: matches });
+    }
+
+    send(res, 404, outcome(`No route for ${req.method} ${url.pathname}`));
+  } catch (error) {
+    send(res, error.status ?? 400, outcome(error.message));
+  }
+}).listen(port, () => {
+  console.log(`[mock-fhir] FHIR R4 mock listening on http://localhost:${port}`);
+});
@@ -5,6 +5,9 @@
 import React, { useEffect, Suspense, lazy } from 'react';
 import { Routes, Route, Navigate } from 'react-router-dom';
 import { useAppStore } from './store';
+import * as db from './store/database';
+import { getSyncService } from './store/syncService';
+import { ENCRYPTION_SPEC } from './lib/encryption';
 import { Loader2, Activity } from 'lucide-react';
 
 // Lazy load components for better performance
@@ -14,14 +17,24 @@ const PatientDetail = lazy(() => import('./components/PatientDetail').then(m =>
 const PatientTimelinePage = lazy(() => import('./components/PatientTimelinePage').then(m => ({ default: m.default })));
 // WoundCapture is used within CaptureFlow
 const CaptureFlow = lazy(() => import('./components/CaptureFlow').then(m => ({ default: m.CaptureFlow })));
+const AssessmentComparison = lazy(() => import('./components/AssessmentComparison').then(m => ({ default: m.AssessmentComparison })));
 const CalibrationRuler = lazy(() => import('./components/CalibrationRuler').then(m => ({ default: m.CalibrationRuler })));
+const DeviceValidation = lazy(() => import('./components/DeviceValidation').then(m => ({ default: m.DeviceValidation })));
 const ReportModulePage = lazy(() => import('./components/ReportModulePage').then(m => ({ default: m.default })));
 const Settings = lazy(() => import('./components/Settings').then(m => ({ default: m.Settings })));
+const VerificationQueue = lazy(() => import('./components/VerificationQueue').then(m => ({ default: m.VerificationQueue })));
+const AssessmentReview = lazy(() => import('./components/AssessmentReview').then(m => ({ default: m.AssessmentReview })));
+const AuditTrail = lazy(() => import('./components/AuditTrail').then(m => ({ default: m.AuditTrail })));
+const SyncConflicts = lazy(() => import('./components/SyncConflicts').then(m => ({ default: m.SyncConflicts })));
 const UserGuide = lazy(() => import('./components/UserGuide').then(m => ({ default: m.UserGuide })));
+const LockScreen = lazy(() => import('./components/LockScreen').then(m => ({ default: m.LockScreen })));
+const SignInScreen = lazy(() => import('./components/SignInScreen').then(m => ({ default: m.SignInScreen })));
 
 // Clinical Workflow Components
 const PainAssessment = lazy(() => import('./components/PainAssessment').then(m => ({ default: m.default })));
 const DressingProtocol = lazy(() => import('./components/DressingProtocol').then(m => ({ default: m.default })));
+const PainPlanRecord = lazy(() => import('./components/PainPlanRecord').then(m => ({ default: m.PainPlanRecord })));
+const DressingSessionRecord = lazy(() => import('./components/DressingSessionRecord').then(m => ({ default: m.DressingSessionRecord })));
 import Watermark from './components/Watermark';
 
 // Loading component
@@ -83,12 +96,28 @@ class ErrorBoundary extends React.Component<
   }
 }
 
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart', 'wheel'] as const;
+
+const syncNow = () => {
+  getSyncService().run().catch(error => console.error('[Sync] Failed:', error));
+};
+
 const App: React.FC = () => {
-  const { setOnlineStatus } = useAppStore();
+  const { setOnlineStatus, encryptionState, setEncryptionState, currentUser } = useAppStore();
+
+  // Nothing is shown until we know whether a PIN is set up
+  useEffect(() => {
+    db.getEncryptionState()
+      .then(setEncryptionState)
+      .catch(error => console.error('Failed to read encryption state:', error));
+  }, [setEncryptionState]);
 
-  // Handle online/offline status
+  // Handle online/offline status; drain the sync queue whenever we reconnect
   useEffect(() => {
-    const handleOnline = () => setOnlineStatus(true);
+    const handleOnline = () => {
+      setOnlineStatus(true);
+      syncNow();
+    };
     const handleOffline = () => setOnlineStatus(false);
 
     document.addEventListener('app:online', handleOnline);
@@ -103,6 +132,83 @@ const App: React.FC = () => {
     };
   }, [setOnlineStatus]);
 
+  // The queue is encrypted, so sync starts once the database is unlocked
+  useEffect(() => {
+    if (encryptionState === 'unlocked') syncNow();
+  }, [encryptionState]);
+
+  // Lock after a period without interaction. Timers can be suspended with
+  // the page hidden, so elapsed time is also checked when it is shown again.
+  useEffect(() => {
+    if (encryptionState !== 'unlocked') return;
+
+    let timeoutMs = ENCRYPTION_SPEC.defaultAutoLockMinutes * 60 * 1000;
+    let lastActivity = Date.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const lock = () => {
+      db.lockDatabase();
+      setEncryptionState('locked');
+    };
+    const schedule = () => {
+      clearTimeout(timer);
+      timer = setTimeout(lock, timeoutMs - (Date.now() - lastActivity));
+    };
+    const handleActivity = () => {
+      lastActivity = Date.now();
+      schedule();
+    };
+    const handleVisibility = () => {
+      if (document.visibilityState !== 'visible') return;
+      if (Date.now() - lastActivity >= timeoutMs) lock();
+    };
+    const handleTimeoutChange = (e: Event) => {
+      timeoutMs = (e as CustomEvent<number>).detail * 60 * 1000;
+      schedule();
+    };
+
+    db.getSettings()
+      .then(settings => {
+        if (settings?.autoLockMinutes) {
+          timeoutMs = settings.autoLockMinutes * 60 * 1000;
+          schedule();
+        }
+      })
+      .catch(error => console.error('Failed to load auto-lock setting:', error));
+
+    ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibility);
+    document.addEventListener('app:autolockchange', handleTimeoutChange);
+    schedule();
+
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, handleActivity));
+      document.removeEventListener('visibilitychange', handleVisibility);
+      document.removeEventListener('app:autolockchange', handleTimeoutChange);
+    };
+  }, [encryptionState, setEncryptionState]);
+
+  if (encryptionState === null) {
+    return <LoadingScreen />;
+  }
+
+  if (encryptionState !== 'unlocked') {
+    return (
+      <Suspense fallback={<LoadingScreen />}>
+        <LockScreen />
+      </Suspense>
+    );
+  }
+
+  if (!currentUser) {
+    return (
+      <Suspense fallback={<LoadingScreen />}>
+        <SignInScreen />
+      </Suspense>
+    );
+  }
+
   return (
     <ErrorBoundary>
       <Watermark />
@@ -116,20 +222,28 @@ const App: React.FC = () => {
           <Route path="/patients/:id" element={<PatientDetail />} />
           <Route path="/patients/:id/edit" element={<PatientForm />} />
           <Route path="/patients/:id/timeline" element={<PatientTimelinePage />} />
+          <Route path="/patients/:id/audit" element={<AuditTrail />} />
 
           {/* Wound Capture */}
           <Route path="/capture" element={<CaptureFlow />} />
           <Route path="/wounds/:woundId/capture" element={<CaptureFlow />} />
 
           {/* Reports */}
+          <Route path="/wounds/:woundId/compare" element={<AssessmentComparison />} />
           <Route path="/wounds/:woundId/report" element={<ReportModulePage />} />
           <Route path="/assessments/:assessmentId/report" element={<ReportModulePage />} />
 
+          {/* Verification */}
+          <Route path="/verification" element={<VerificationQueue />} />
+          <Route path="/assessments/:assessmentId/review" element={<AssessmentReview />} />
+
           {/* Calibration */}
           <Route path="/calibration" element={<CalibrationRuler />} />
+          <Route path="/calibration/validation" element={<DeviceValidation />} />
 
           {/* Settings */}
           <Route path="/settings" element={<Settings />} />
+          <Route path="/sync/conflicts" element={<SyncConflicts />} />
 
           {/* User Guide */}
           <Route path="/guide" element={<UserGuide />} />
@@ -140,6 +254,8 @@ const App: React.FC = () => {
           <Route path="/clinical/pain-assessment/:patientId/:woundId" element={<PainAssessment />} />
           <Route path="/clinical/dressing-protocol" element={<DressingProtocol />} />
           <Route path="/clinical/dressing-protocol/:patientId/:woundId" element={<DressingProtocol />} />
+          <Route path="/clinical/pain-plans/:planId" element={<PainPlanRecord />} />
+          <Route path="/clinical/dressing-sessions/:sessionId" element={<DressingSessionRecord />} />
 
           {/* Fallback */}
           <Route path="*" element={<Navigate to="/" replace />} />
@@ -0,0 +1,49 @@
+/**
+ * AstroWound-MEASURE Analgesic Dose Details
+ * Calculated dose, daily limit and hard stops for a recommended agent
+ */
+
+import React from 'react';
+import { XOctagon, Calculator } from 'lucide-react';
+import type { AnalgesicDoseCalculation } from '@/types';
+
+interface AnalgesicDoseDetailsProps {
+  dosing: AnalgesicDoseCalculation;
+}
+
+export const AnalgesicDoseDetails: React.FC<AnalgesicDoseDetailsProps> = ({ dosing }) => {
+  if (dosing.hardStops.length > 0) {
+    return (
+      <div className="mt-2 p-3 rounded-lg border bg-red-50 border-red-200 text-sm">
+        <p className="flex items-center gap-2 font-medium text-red-800">
+          <XOctagon className="w-4 h-4" />
+          Hard stop: do not give {dosing.agent}
+        </p>
+        <ul className="mt-1 ml-6 list-disc text-red-700">
+          {dosing.hardStops.map(stop => <li key={stop}>{stop}</li>)}
+        </ul>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-2 p-3 rounded-lg border bg-gray-50 border-gray-200 text-sm">
+      <p className="flex items-center gap-2 font-medium text-gray-800">
+        <Calculator className="w-4 h-4 text-astro-600" />
+        {dosing.agent} {dosing.dose} {dosing.unit} <span className="capitalize">{dosing.route}</span>
+      </p>
+      <p className="text-gray-600 ml-6">
+        {dosing.frequency}
+        {dosing.maxDailyDose !== undefined && ` · max ${dosing.maxDailyDose} ${dosing.unit}/day`}
+      </p>
+      <p className="text-xs text-gray-500 ml-6">{dosing.doseBasis}</p>
+      {dosing.adjustments.length > 0 && (
+        <ul className="mt-1 ml-10 list-disc text-xs text-amber-700">
+          {dosing.adjustments.map(adjustment => <li key={adjustment}>{adjustment}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AnalgesicDoseDetails;
@@ -0,0 +1,371 @@
+/**
+ * AstroWound-MEASURE Assessment Comparison
+ * Side-by-side, swipe and onion-skin review of two aligned assessments
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ArrowLeft, Columns, SplitSquareHorizontal, Layers, Loader2 } from 'lucide-react';
+import * as db from '@/store/database';
+import { computeAssessmentAlignment, compareMeasurements } from '@/engine';
+import type { AlignmentAnchor, AssessmentAlignment, Point, Wound, WoundAssessment } from '@/types';
+
+type ComparisonMode = 'side_by_side' | 'swipe' | 'onion_skin';
+
+const MODES: { id: ComparisonMode; label: string; icon: React.ElementType }[] = [
+  { id: 'side_by_side', label: 'Side by side', icon: Columns },
+  { id: 'swipe', label: 'Swipe', icon: SplitSquareHorizontal },
+  { id: 'onion_skin', label: 'Onion skin', icon: Layers },
+];
+
+const BASELINE_COLOR = '#0ea5e9';
+const FOLLOW_UP_COLOR = '#f97316';
+
+interface ImageSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Natural size of an image source, or null while loading
+ */
+const useImageSize = (src?: string): ImageSize | null => {
+  const [size, setSize] = useState<ImageSize | null>(null);
+
+  useEffect(() => {
+    setSize(null);
+    if (!src) return;
+    const img = new Image();
+    img.onload = () => setSize({ width: img.naturalWidth, height: img.naturalHeight });
+    img.src = src;
+  }, [src]);
+
+  return size;
+};
+
+const contourPath = (contour: Point[]): string =>
+  contour.length > 0
+    ? `M ${contour.map(p => `${p.x} ${p.y}`).join(' L ')} Z`
+    : '';
+
+const formatDate = (date: Date) => format(new Date(date), 'MMM d, yyyy');
+
+export const AssessmentComparison: React.FC = () => {
+  const { woundId } = useParams<{ woundId: string }>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+
+  const [wound, setWound] = useState<Wound | null>(null);
+  const [assessments, setAssessments] = useState<WoundAssessment[]>([]);
+  const [baselineId, setBaselineId] = useState<string>('');
+  const [followUpId, setFollowUpId] = useState<string>('');
+  const [mode, setMode] = useState<ComparisonMode>('side_by_side');
+  const [anchor, setAnchor] = useState<AlignmentAnchor>('marker');
+  const [swipePosition, setSwipePosition] = useState(50);
+  const [opacity, setOpacity] = useState(50);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (woundId) {
+      loadData(woundId);
+    }
+  }, [woundId]);
+
+  const loadData = async (id: string) => {
+    setLoading(true);
+    try {
+      const [woundData, assessmentData] = await Promise.all([
+        db.getWound(id),
+        db.getAssessmentsForWound(id),
+      ]);
+      assessmentData.sort((a, b) => new Date(a.capturedAt).getTime() - new Date(b.capturedAt).getTime());
+      setWound(woundData ?? null);
+      setAssessments(assessmentData);
+
+      const requested = (key: string) => assessmentData.find(a => a.id === searchParams.get(key))?.id;
+      setBaselineId(requested('a') ?? assessmentData[0]?.id ?? '');
+      setFollowUpId(requested('b') ?? assessmentData[assessmentData.length - 1]?.id ?? '');
+    } catch (error) {
+      console.error('Failed to load assessments:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Always align the later assessment onto the earlier one
+  const [baseline, followUp] = useMemo(() => {
+    const a = assessments.find(x => x.id === baselineId);
+    const b = assessments.find(x => x.id === followUpId);
+    if (!a || !b) return [a, b];
+    return new Date(a.capturedAt).getTime() <= new Date(b.capturedAt).getTime() ? [a, b] : [b, a];
+  }, [assessments, baselineId, followUpId]);
+
+  const alignment = useMemo<AssessmentAlignment | null>(
+    () => (baseline && followUp ? computeAssessmentAlignment(baseline, followUp, anchor) : null),
+    [baseline, followUp, anchor]
+  );
+  const deltas = useMemo(
+    () => (baseline && followUp ? compareMeasurements(baseline, followUp) : []),
+    [baseline, followUp]
+  );
+
+  const baselineSize = useImageSize(baseline?.originalImage);
+  const followUpSize = useImageSize(followUp?.originalImage);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-astro-500 animate-spin" />
+      </div>
+    );
+  }
+
+  const sameAssessment = baseline && followUp && baseline.id === followUp.id;
+  const ready = baseline && followUp && alignment && baselineSize && followUpSize && !sameAssessment;
+  const transform = alignment ? `matrix(${alignment.matrix.join(' ')})` : undefined;
+
+  const renderView = (layers: 'baseline' | 'follow_up' | 'overlay') => {
+    if (!ready) return null;
+    const { width, height } = baselineSize;
+    const clipId = `swipe-clip-${layers}`;
+
+    return (
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto bg-black rounded-lg">
+        {mode === 'swipe' && (
+          <defs>
+            <clipPath id={clipId}>
+              <rect x={(width * swipePosition) / 100} y={0} width={width} height={height} />
+            </clipPath>
+          </defs>
+        )}
+
+        {layers !== 'follow_up' && (
+          <image href={baseline.originalImage} width={width} height={height} />
+        )}
+        {layers !== 'baseline' && (
+          <g
+            clipPath={mode === 'swipe' ? `url(#${clipId})` : undefined}
+            opacity={mode === 'onion_skin' ? opacity / 100 : 1}
+          >
+            <image
+              href={followUp.originalImage}
+              width={followUpSize.width}
+              height={followUpSize.height}
+              transform={transform}
+            />
+          </g>
+        )}
+
+        <path
+          d={contourPath(baseline.segmentationResult.contour)}
+          fill="none"
+          stroke={BASELINE_COLOR}
+          strokeWidth={Math.max(2, width / 300)}
+        />
+        <path
+          d={contourPath(followUp.segmentationResult.contour)}
+          transform={transform}
+          fill="none"
+          stroke={FOLLOW_UP_COLOR}
+          strokeWidth={Math.max(2, width / 300) / alignment.scale}
+          strokeDasharray={`${width / 80} ${width / 160}`}
+        />
+
+        {mode === 'swipe' && (
+          <line
+            x1={(width * swipePosition) / 100}
+            x2={(width * swipePosition) / 100}
+            y1={0}
+            y2={height}
+            stroke="white"
+            strokeWidth={Math.max(2, width / 300)}
+          />
+        )}
+      </svg>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm sticky top-0 z-40">
+        <div className="max-w-4xl mx-auto px-4 py-4 flex items-center gap-4">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg"
+            title="Go back"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-lg font-semibold text-gray-900">Compare Assessments</h1>
+            {wound && (
+              <p className="text-sm text-gray-500">
+                {wound.location}{wound.locationDetail ? ` - ${wound.locationDetail}` : ''}
+              </p>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto p-4 space-y-6">
+        {assessments.length < 2 ? (
+          <div className="bg-white rounded-xl shadow-sm p-6 text-center text-gray-500">
+            At least two assessments are needed for a comparison.
+          </div>
+        ) : (
+          <>
+            {/* Selection */}
+            <div className="bg-white rounded-xl shadow-sm p-6 grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {[
+                { id: 'compare-a', label: 'Assessment A', value: baselineId, onSelect: setBaselineId, color: BASELINE_COLOR },
+                { id: 'compare-b', label: 'Assessment B', value: followUpId, onSelect: setFollowUpId, color: FOLLOW_UP_COLOR },
+              ].map(select => (
+                <div key={select.id}>
+                  <label htmlFor={select.id} className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-1">
+                    <span className="w-3 h-3 rounded-full" style={{ backgroundColor: select.color }} />
+                    {select.label}
+                  </label>
+                  <select
+                    id={select.id}
+                    value={select.value}
+                    onChange={(e) => select.onSelect(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  >
+                    {assessments.map(a => (
+                      <option key={a.id} value={a.id}>
+                        {format(new Date(a.capturedAt), 'MMM d, yyyy HH:mm')} · {a.measurement.area} cm²
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            {sameAssessment ? (
+              <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 text-sm text-amber-800">
+                Select two different assessments to compare.
+              </div>
+            ) : (
+              <>
+                {/* View */}
+                <div className="bg-white rounded-xl shadow-sm p-6 space-y-4">
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div className="flex gap-2">
+                      {MODES.map(({ id, label, icon: Icon }) => (
+                        <button
+                          key={id}
+                          onClick={() => setMode(id)}
+                          className={`flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium ${
+                            mode === id ? 'bg-astro-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                          }`}
+                        >
+                          <Icon className="w-4 h-4" />
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className="text-gray-500">Align on</span>
+                      {(['marker', 'wound'] as AlignmentAnchor[]).map(option => (
+                        <button
+                          key={option}
+                          onClick={() => setAnchor(option)}
+                          className={`px-2 py-1 rounded ${
+                            anchor === option ? 'bg-astro-100 text-astro-700 font-medium' : 'text-gray-600 hover:bg-gray-100'
+                          }`}
+                        >
+                          {option === 'marker' ? 'Marker' : 'Wound centre'}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {!ready ? (
+                    <div className="h-64 flex items-center justify-center">
+                      <Loader2 className="w-6 h-6 text-astro-500 animate-spin" />
+                    </div>
+                  ) : mode === 'side_by_side' ? (
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        {renderView('baseline')}
+                        <p className="mt-1 text-xs text-center text-gray-500">{formatDate(baseline.capturedAt)}</p>
+                      </div>
+                      <div>
+                        {renderView('follow_up')}
+                        <p className="mt-1 text-xs text-center text-gray-500">{formatDate(followUp.capturedAt)}</p>
+                      </div>
+                    </div>
+                  ) : (
+                    <div>
+                      {renderView('overlay')}
+                      <label className="mt-3 flex items-center gap-3 text-sm text-gray-600">
+                        <span className="w-24">{mode === 'swipe' ? 'Swipe' : 'Opacity'}</span>
+                        <input
+                          type="range"
+                          min={0}
+                          max={100}
+                          value={mode === 'swipe' ? swipePosition : opacity}
+                          onChange={(e) => (mode === 'swipe' ? setSwipePosition : setOpacity)(Number(e.target.value))}
+                          className="flex-1"
+                        />
+                      </label>
+                    </div>
+                  )}
+
+                  {alignment && (
+                    <p className="text-xs text-gray-500">
+                      {alignment.anchor === 'marker' ? 'Aligned on calibration marker' : 'Aligned on wound centre'}
+                      {' · '}scale ×{alignment.scale.toFixed(2)}
+                      {alignment.scaleFromCalibration ? ' (calibration)' : ' (uncalibrated)'}
+                      {' · '}rotation {alignment.rotation.toFixed(1)}°
+                      {!alignment.rotationFromMarker && ' (no marker orientation)'}
+                      {anchor === 'marker' && alignment.anchor === 'wound' && ' · marker position unavailable'}
+                    </p>
+                  )}
+                </div>
+
+                {/* Deltas */}
+                {baseline && followUp && (
+                  <div className="bg-white rounded-xl shadow-sm p-6">
+                    <h3 className="font-semibold mb-1">Measurement Changes</h3>
+                    <p className="text-sm text-gray-500 mb-4">
+                      {formatDate(baseline.capturedAt)} to {formatDate(followUp.capturedAt)}
+                    </p>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500 border-b">
+                          <th className="py-2 font-medium">Measure</th>
+                          <th className="py-2 font-medium text-right">Before</th>
+                          <th className="py-2 font-medium text-right">After</th>
+                          <th className="py-2 font-medium text-right">Change</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {deltas.map(delta => (
+                          <tr key={delta.key} className="border-b border-gray-100">
+                            <td className="py-2 text-gray-700">{delta.label}</td>
+                            <td className="py-2 text-right">{delta.before} {delta.unit}</td>
+                            <td className="py-2 text-right">{delta.after} {delta.unit}</td>
+                            <td className={`py-2 text-right font-medium ${
+                              delta.change < 0 ? 'text-clinical-success' : delta.change > 0 ? 'text-clinical-danger' : 'text-gray-500'
+                            }`}>
+                              {delta.change > 0 ? '+' : ''}{delta.change} {delta.unit}
+                              {delta.changePercent !== undefined && ` (${delta.changePercent > 0 ? '+' : ''}${delta.changePercent}%)`}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AssessmentComparison;
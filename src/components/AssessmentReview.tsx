@@ -0,0 +1,324 @@
+/**
+ * AstroWound-MEASURE Assessment Review
+ * Image, mask and measurements for verification, with signed amendments
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ArrowLeft, CheckCircle, AlertCircle, FileEdit, Loader2, Clock } from 'lucide-react';
+import { useAppStore, useAssessmentsStore } from '@/store';
+import * as db from '@/store/database';
+import { hasPermission } from '@/lib/permissions';
+import { SIGNATURE_MEANINGS, formatSignature } from '@/lib/verification';
+import { describeWoundBed } from '@/lib/woundBed';
+import { SignatureCapture } from './SignatureCapture';
+import { WoundBedForm } from './WoundBedForm';
+import type { ESignature, Patient, Point, Wound, WoundAssessment, WoundBedObservations } from '@/types';
+
+const contourPath = (contour: Point[]): string =>
+  contour.length > 0
+    ? `M ${contour.map(p => `${p.x} ${p.y}`).join(' L ')} Z`
+    : '';
+
+const formatChangeValue = (value: unknown): string =>
+  value === undefined || value === null || value === '' ? '—' : String(value);
+
+const SignatureBlock: React.FC<{ signature: ESignature }> = ({ signature }) => (
+  <div className="space-y-1">
+    {signature.image && (
+      <img src={signature.image} alt={`Signature of ${signature.signerName}`} className="h-16 bg-gray-50 rounded border border-gray-200" />
+    )}
+    <p className="text-xs text-gray-500">{formatSignature(signature)}</p>
+  </div>
+);
+
+export const AssessmentReview: React.FC = () => {
+  const { assessmentId } = useParams<{ assessmentId: string }>();
+  const navigate = useNavigate();
+  const { currentUser } = useAppStore();
+  const { verifyAssessment, amendAssessment } = useAssessmentsStore();
+  const canVerify = hasPermission(currentUser, 'verify_assessment');
+  const canAmend = hasPermission(currentUser, 'amend_assessment');
+
+  const [assessment, setAssessment] = useState<WoundAssessment | null>(null);
+  const [wound, setWound] = useState<Wound | null>(null);
+  const [patient, setPatient] = useState<Patient | null>(null);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [amending, setAmending] = useState(false);
+  const [draft, setDraft] = useState<WoundBedObservations & Pick<WoundAssessment, 'notes'>>({});
+  const [reason, setReason] = useState('');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    loadAssessment();
+  }, [assessmentId]);
+
+  const loadAssessment = async () => {
+    if (!assessmentId) return;
+    setLoading(true);
+    try {
+      const record = await db.getAssessment(assessmentId);
+      setAssessment(record ?? null);
+      if (record) {
+        const woundData = await db.getWound(record.woundId);
+        setWound(woundData ?? null);
+        if (woundData) setPatient((await db.getPatient(woundData.patientId)) ?? null);
+      }
+    } catch (error) {
+      console.error('Failed to load assessment:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startAmending = () => {
+    if (!assessment) return;
+    setDraft({
+      inflammationSigns: assessment.inflammationSigns,
+      exudate: assessment.exudate,
+      odor: assessment.odor,
+      woundEdge: assessment.woundEdge,
+      periWoundCondition: assessment.periWoundCondition,
+      pain: assessment.pain,
+      notes: assessment.notes,
+    });
+    setReason('');
+    setMessage(null);
+    setAmending(true);
+  };
+
+  const handleVerify = async (signature: ESignature) => {
+    if (!assessment) return;
+    const verified = await verifyAssessment(assessment, signature);
+    setAssessment(verified);
+    setMessage({ type: 'success', text: 'Assessment verified and locked' });
+  };
+
+  const handleAmend = async (signature: ESignature) => {
+    if (!assessment) return;
+    if (!reason.trim()) throw new Error('Enter the reason for the amendment');
+    const amended = await amendAssessment({ ...assessment, ...draft }, reason.trim(), signature);
+    setAssessment(amended);
+    setAmending(false);
+    setMessage({ type: 'success', text: 'Amendment recorded' });
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-astro-600" />
+      </div>
+    );
+  }
+
+  if (!assessment) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center gap-4">
+        <p className="text-gray-500">Assessment not found</p>
+        <button onClick={() => navigate('/verification')} className="btn-primary">
+          Back to verification queue
+        </button>
+      </div>
+    );
+  }
+
+  const { measurement, segmentationResult, qualityCheck } = assessment;
+  const measurementRows: [string, string][] = [
+    ['Area', `${measurement.area} cm²`],
+    ['Length', `${measurement.length} cm`],
+    ['Width', `${measurement.width} cm`],
+    ['Perimeter', `${measurement.perimeter} cm`],
+    ...(measurement.depth !== undefined ? [['Depth', `${measurement.depth} cm`] as [string, string]] : []),
+    ...(measurement.volume !== undefined ? [['Volume', `${measurement.volume} cm³`] as [string, string]] : []),
+    ['Mask confidence', `${Math.round(segmentationResult.confidence * 100)}%`],
+    ['Boundary', assessment.boundarySource === 'manual' ? 'Drawn by clinician'
+      : assessment.boundarySource === 'ai_edited' ? 'AI, edited' : 'AI'],
+    ['Image quality', qualityCheck.passed ? 'Passed' : 'Below threshold'],
+  ];
+  const woundBedRows = describeWoundBed(assessment);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm sticky top-0 z-40">
+        <div className="max-w-3xl mx-auto px-4 py-4 flex items-center gap-4">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg"
+            title="Go back"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div className="min-w-0">
+            <h1 className="text-lg font-semibold text-gray-900">Review Assessment</h1>
+            <p className="text-sm text-gray-500 truncate">
+              {patient ? `${patient.firstName} ${patient.lastName} · MRN ${patient.mrn}` : 'Unknown patient'}
+              {wound && ` · ${wound.location.replace(/_/g, ' ')}`}
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto p-4 space-y-4">
+        {message && (
+          <div className={`p-4 rounded-lg flex items-center gap-3 ${
+            message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}>
+            {message.type === 'success' ? <CheckCircle className="w-5 h-5" /> : <AlertCircle className="w-5 h-5" />}
+            <span>{message.text}</span>
+          </div>
+        )}
+
+        {/* Image and mask */}
+        <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+          <img
+            src={assessment.originalImage}
+            alt=""
+            className="hidden"
+            onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+          />
+          {imageSize && (
+            <svg viewBox={`0 0 ${imageSize.width} ${imageSize.height}`} className="w-full h-auto bg-black">
+              <image href={assessment.originalImage} width={imageSize.width} height={imageSize.height} />
+              <path
+                d={contourPath(segmentationResult.contour)}
+                fill="rgba(14, 165, 233, 0.2)"
+                stroke="#0ea5e9"
+                strokeWidth={Math.max(2, imageSize.width / 300)}
+              />
+            </svg>
+          )}
+          <div className="p-4 text-sm text-gray-500">
+            Captured {format(new Date(assessment.capturedAt), 'MMM d, yyyy HH:mm')} by {assessment.capturedBy}
+          </div>
+        </div>
+
+        {/* Measurements */}
+        <div className="bg-white rounded-xl shadow-sm p-4">
+          <h2 className="font-semibold text-gray-900 mb-3">Measurements</h2>
+          <dl className="grid grid-cols-2 sm:grid-cols-3 gap-3 text-sm">
+            {measurementRows.map(([label, value]) => (
+              <div key={label}>
+                <dt className="text-gray-500">{label}</dt>
+                <dd className="font-medium text-gray-900">{value}</dd>
+              </div>
+            ))}
+          </dl>
+          {(woundBedRows.length > 0 || assessment.notes) && (
+            <div className="mt-4 pt-4 border-t border-gray-100 space-y-1 text-sm text-gray-700">
+              {woundBedRows.map(([label, value]) => (
+                <p key={label}><span className="text-gray-500">{label}:</span> {value}</p>
+              ))}
+              {assessment.notes && <p className="whitespace-pre-wrap">{assessment.notes}</p>}
+            </div>
+          )}
+        </div>
+
+        {/* Verification */}
+        <div className="bg-white rounded-xl shadow-sm p-4 space-y-3">
+          <h2 className="font-semibold text-gray-900">Verification</h2>
+          {assessment.clinicianVerified ? (
+            <>
+              <p className="flex items-center gap-2 text-sm text-clinical-success">
+                <CheckCircle className="w-4 h-4" />
+                Verified by {assessment.verifiedBy}
+                {assessment.verifiedAt && ` on ${format(new Date(assessment.verifiedAt), 'MMM d, yyyy HH:mm')}`}
+              </p>
+              {assessment.verificationSignature && <SignatureBlock signature={assessment.verificationSignature} />}
+              <p className="text-xs text-gray-500">
+                Verified assessments are locked. Corrections are recorded as signed amendments.
+              </p>
+            </>
+          ) : canVerify ? (
+            <SignatureCapture
+              meaning={SIGNATURE_MEANINGS.verification}
+              submitLabel="Verify and sign"
+              onSign={handleVerify}
+            />
+          ) : (
+            <p className="flex items-center gap-2 text-sm text-clinical-warning">
+              <Clock className="w-4 h-4" />
+              Awaiting review by a wound specialist or physician
+            </p>
+          )}
+        </div>
+
+        {/* Amendments */}
+        {assessment.clinicianVerified && (
+          <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+            <div className="p-4 border-b border-gray-100 flex items-center justify-between">
+              <h2 className="font-semibold text-gray-900">Amendments</h2>
+              {canAmend && !amending && (
+                <button
+                  onClick={startAmending}
+                  className="flex items-center gap-1.5 text-sm font-medium text-astro-600 hover:text-astro-700"
+                >
+                  <FileEdit className="w-4 h-4" />
+                  Amend
+                </button>
+              )}
+            </div>
+
+            {amending && (
+              <div className="p-4 border-b border-gray-100 space-y-3">
+                <WoundBedForm value={draft} onChange={(bed) => setDraft({ ...draft, ...bed })} />
+                <textarea
+                  value={draft.notes ?? ''}
+                  onChange={(e) => setDraft({ ...draft, notes: e.target.value || undefined })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  rows={3}
+                  placeholder="Clinical notes"
+                />
+                <input
+                  type="text"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  placeholder="Reason for amendment (required)"
+                />
+                <SignatureCapture
+                  meaning={SIGNATURE_MEANINGS.amendment}
+                  submitLabel="Sign amendment"
+                  onSign={handleAmend}
+                  disabled={!reason.trim()}
+                />
+                <button
+                  onClick={() => setAmending(false)}
+                  className="w-full px-4 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-lg"
+                >
+                  Cancel
+                </button>
+              </div>
+            )}
+
+            {(assessment.amendments ?? []).length === 0 ? (
+              <p className="p-4 text-sm text-gray-500">No amendments.</p>
+            ) : (
+              <div className="divide-y divide-gray-100">
+                {[...assessment.amendments!].reverse().map(amendment => (
+                  <div key={amendment.id} className="p-4 space-y-2 text-sm">
+                    <p className="font-medium text-gray-900">{amendment.reason}</p>
+                    <p className="text-gray-500">
+                      {amendment.amendedBy} · {format(new Date(amendment.amendedAt), 'MMM d, yyyy HH:mm')}
+                    </p>
+                    <ul className="text-gray-700">
+                      {amendment.changes.map(change => (
+                        <li key={change.path}>
+                          {change.path}: {formatChangeValue(change.before)} → {formatChangeValue(change.after)}
+                        </li>
+                      ))}
+                    </ul>
+                    {amendment.signature && <SignatureBlock signature={amendment.signature} />}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AssessmentReview;
@@ -0,0 +1,207 @@
+/**
+ * AstroWound-MEASURE Audit Trail
+ * Per-patient history of every record change, including deletions
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ArrowLeft, ShieldCheck, ShieldAlert, Download, Loader2, Trash2 } from 'lucide-react';
+import { useAppStore } from '@/store';
+import * as db from '@/store/database';
+import { hasPermission } from '@/lib/permissions';
+import { AUDIT_ACTION_LABELS, auditToCsv } from '@/lib/audit';
+import type { AuditEntry, AuditValue } from '@/types';
+
+const TABLE_LABELS: Record<string, string> = {
+  patients: 'Patient',
+  wounds: 'Wound',
+  assessments: 'Assessment',
+  reports: 'Report',
+  images: 'Image',
+  dressingSessions: 'Dressing session',
+  painAssessments: 'Pain assessment',
+  sterileFieldChecklists: 'Sterile field checklist',
+  materialsChecklists: 'Materials checklist',
+  postDressingCare: 'Post-dressing care',
+  painManagementPlans: 'Pain management plan',
+  analgesicAdministrations: 'Analgesic administration',
+};
+
+const ACTION_STYLES: Record<AuditEntry['action'], string> = {
+  create: 'bg-green-100 text-green-700',
+  update: 'bg-blue-100 text-blue-700',
+  delete: 'bg-red-100 text-red-700',
+  clear: 'bg-red-100 text-red-700',
+};
+
+const formatValue = (value: AuditValue | undefined): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+const downloadFile = (content: string, type: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+export const AuditTrail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { currentUser } = useAppStore();
+  const canView = hasPermission(currentUser, 'view_audit');
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+
+  useEffect(() => {
+    if (!id || !canView) return;
+    db.getAuditLogForPatient(id)
+      .then(setEntries)
+      .catch(error => {
+        console.error('Failed to load audit trail:', error);
+        setEntries([]);
+      });
+  }, [id, canView]);
+
+  // The patient may have been deleted, so the name comes from the log
+  const patientLabel = useMemo(() => {
+    const name: Record<string, AuditValue | undefined> = {};
+    for (const entry of entries ?? []) {
+      if (entry.table !== 'patients') continue;
+      for (const change of entry.changes) {
+        if (['firstName', 'lastName', 'mrn'].includes(change.path)) name[change.path] = change.after;
+      }
+    }
+    return name.lastName ? `${name.firstName ?? ''} ${name.lastName} · MRN ${name.mrn ?? '—'}` : id;
+  }, [entries, id]);
+
+  const isDeleted = entries?.some(e => e.table === 'patients' && e.action === 'delete') ?? false;
+  const newestFirst = useMemo(() => [...(entries ?? [])].reverse(), [entries]);
+
+  const handleExport = (kind: 'json' | 'csv') => {
+    if (!entries || !id) return;
+    const stamp = new Date().toISOString().split('T')[0];
+    if (kind === 'json') {
+      downloadFile(JSON.stringify(entries, null, 2), 'application/json', `audit-${id}-${stamp}.json`);
+    } else {
+      downloadFile(auditToCsv(entries), 'text/csv', `audit-${id}-${stamp}.csv`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm sticky top-0 z-40">
+        <div className="max-w-3xl mx-auto px-4 py-4 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4 min-w-0">
+            <button
+              onClick={() => navigate(-1)}
+              className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg"
+              title="Go back"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </button>
+            <div className="min-w-0">
+              <h1 className="text-lg font-semibold text-gray-900">Audit Trail</h1>
+              <p className="text-sm text-gray-500 truncate">
+                {patientLabel}
+                {isDeleted && ' · deleted'}
+              </p>
+            </div>
+          </div>
+          {canView && entries && entries.length > 0 && (
+            <div className="flex items-center gap-2 flex-shrink-0">
+              <button
+                onClick={() => handleExport('csv')}
+                className="flex items-center gap-1.5 px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg"
+              >
+                <Download className="w-4 h-4" />
+                CSV
+              </button>
+              <button
+                onClick={() => handleExport('json')}
+                className="flex items-center gap-1.5 px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg"
+              >
+                <Download className="w-4 h-4" />
+                JSON
+              </button>
+            </div>
+          )}
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto p-4 space-y-4">
+        {!canView ? (
+          <div className="bg-white rounded-xl shadow-sm p-6 text-center text-gray-500">
+            <ShieldAlert className="w-8 h-8 text-gray-300 mx-auto mb-2" />
+            Your role does not include access to the audit trail.
+          </div>
+        ) : entries === null ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-astro-600" />
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="bg-white rounded-xl shadow-sm p-6 text-center text-gray-500">
+            No changes recorded for this patient.
+          </div>
+        ) : (
+          <>
+            <div className="bg-blue-50 border border-blue-200 rounded-xl p-4 text-sm text-blue-800 flex gap-3">
+              <ShieldCheck className="w-5 h-5 flex-shrink-0" />
+              <p>
+                Every change to this patient's records is logged here and cannot be edited.
+                Deleted records are kept and remain listed with who deleted them.
+              </p>
+            </div>
+
+            {newestFirst.map(entry => (
+              <div key={entry.id} className="bg-white rounded-xl shadow-sm overflow-hidden">
+                <div className="p-4 border-b border-gray-100 flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ACTION_STYLES[entry.action]}`}>
+                        {AUDIT_ACTION_LABELS[entry.action]}
+                      </span>
+                      <p className="font-medium text-gray-900">{TABLE_LABELS[entry.table] ?? entry.table}</p>
+                      {entry.action === 'delete' && <Trash2 className="w-4 h-4 text-red-500" />}
+                    </div>
+                    <p className="text-sm text-gray-500 mt-1">
+                      {entry.actor.name} · {format(new Date(entry.at), 'MMM d, yyyy HH:mm:ss')}
+                    </p>
+                  </div>
+                  <span className="text-xs text-gray-400 flex-shrink-0">#{entry.sequence}</span>
+                </div>
+
+                {entry.changes.length > 0 && (
+                  <table className="w-full text-sm table-fixed">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="p-3 font-medium w-1/3">Field</th>
+                        <th className="p-3 font-medium">Before</th>
+                        <th className="p-3 font-medium">After</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {entry.changes.map(change => (
+                        <tr key={change.path} className="border-b border-gray-100 last:border-0">
+                          <td className="p-3 text-gray-700 break-words">{change.path}</td>
+                          <td className="p-3 text-gray-500 break-words">{formatValue(change.before)}</td>
+                          <td className="p-3 text-gray-900 break-words">{formatValue(change.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            ))}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AuditTrail;
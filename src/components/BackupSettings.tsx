@@ -0,0 +1,335 @@
+/**
+ * AstroWound-MEASURE Backup Settings
+ * Full backup download and restore with merge or replace
+ */
+
+import React, { useRef, useState } from 'react';
+import { Download, Upload, AlertCircle, AlertTriangle, Check, Loader2, KeyRound } from 'lucide-react';
+import { useAppStore, usePatientsStore } from '@/store';
+import * as db from '@/store/database';
+import { assertPermission, formatUserIdentity, hasPermission } from '@/lib/permissions';
+import {
+  BACKUP_SPEC,
+  BACKUP_TABLES,
+  BACKUP_TABLE_LABELS,
+  BackupError,
+  decodeBackup,
+  encodeBackup,
+} from '@/lib/backup';
+import type { BackupArchive, RestoreMode, RestorePreview } from '@/types';
+
+export const BackupSettings: React.FC = () => {
+  const { currentUser } = useAppStore();
+  const { loadPatients } = usePatientsStore();
+  // Replacing wipes the device's records first, as Clear All Data does
+  const canReplace = hasPermission(currentUser, 'clear_data');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [filePassword, setFilePassword] = useState('');
+  const [needsPassword, setNeedsPassword] = useState(false);
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [preview, setPreview] = useState<RestorePreview | null>(null);
+  const [confirmReplace, setConfirmReplace] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<{ ok: boolean; text: string; details?: string[] } | null>(null);
+
+  const resetRestore = () => {
+    setFile(null);
+    setFilePassword('');
+    setNeedsPassword(false);
+    setArchive(null);
+    setPreview(null);
+    setConfirmReplace(false);
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  const handleBackup = async () => {
+    setStatus(null);
+    if (password && password.length < BACKUP_SPEC.minPasswordLength) {
+      setStatus({ ok: false, text: `Use a password of at least ${BACKUP_SPEC.minPasswordLength} characters` });
+      return;
+    }
+    if (password !== confirmPassword) {
+      setStatus({ ok: false, text: 'The password entries do not match' });
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const settings = await db.getSettings();
+      const archive: BackupArchive = {
+        format: BACKUP_SPEC.format,
+        version: BACKUP_SPEC.version,
+        createdAt: new Date(),
+        createdBy: currentUser ? formatUserIdentity(currentUser) : undefined,
+        deviceId: await db.getDeviceId(),
+        clinicName: settings?.clinicName,
+        data: await db.exportAllData(),
+      };
+      const blob = await encodeBackup(archive, password || undefined);
+
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `astrowound-backup-${new Date().toISOString().split('T')[0]}${password ? '-encrypted' : ''}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+
+      setPassword('');
+      setConfirmPassword('');
+      setStatus({ ok: true, text: `Backup created with ${archive.data.patients.length} patients` });
+    } catch (error) {
+      console.error('Failed to create backup:', error);
+      setStatus({ ok: false, text: 'Failed to create backup' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openBackup = async (selected: File, pass?: string) => {
+    setStatus(null);
+    setBusy(true);
+    try {
+      const decoded = await decodeBackup(selected, pass);
+      setArchive(decoded);
+      setNeedsPassword(false);
+      setPreview(await db.previewRestore(decoded.data));
+    } catch (error) {
+      if (error instanceof BackupError && error.reason === 'password_required') {
+        setNeedsPassword(true);
+      } else if (error instanceof BackupError) {
+        setStatus({ ok: false, text: error.message, details: error.problems });
+        if (error.reason === 'invalid') resetRestore();
+      } else {
+        console.error('Failed to read backup:', error);
+        setStatus({ ok: false, text: 'Failed to read backup' });
+        resetRestore();
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    resetRestore();
+    setFile(selected);
+    openBackup(selected);
+  };
+
+  const handleRestore = async (mode: RestoreMode) => {
+    if (!archive) return;
+    setStatus(null);
+    setBusy(true);
+    try {
+      if (mode === 'replace') assertPermission(currentUser, 'clear_data');
+      const result = await db.restoreBackup(archive.data, mode);
+      await loadPatients();
+      const total = Object.values(result.restored).reduce((sum, n) => sum + n, 0);
+      setStatus({
+        ok: true,
+        text: `Restored ${total} records (${result.restored.patients} patients)` +
+          (result.skipped > 0 ? `; ${result.skipped} skipped` : ''),
+        details: result.conflicts.map(c => `MRN ${c.mrn}: kept ${c.existingName} on this device, skipped ${c.backupName} from the backup`),
+      });
+      resetRestore();
+    } catch (error) {
+      console.error('Failed to restore backup:', error);
+      setStatus({ ok: false, text: (error as Error).message });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+      <div className="p-4 border-b border-gray-100">
+        <h2 className="font-semibold text-gray-900">Backup & Restore</h2>
+      </div>
+      <div className="divide-y divide-gray-100">
+        {/* Backup */}
+        <div className="p-4 space-y-3">
+          <div className="flex items-center gap-3">
+            <Download className="w-5 h-5 text-astro-600" />
+            <div>
+              <p className="font-medium text-gray-900">Back up all data</p>
+              <p className="text-sm text-gray-500">Patients, wounds, assessments, reports, images and dressing records</p>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg"
+              placeholder="Password (optional)"
+              autoComplete="new-password"
+            />
+            <input
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg"
+              placeholder="Confirm password"
+              autoComplete="new-password"
+            />
+          </div>
+          <p className="text-xs text-gray-500">
+            Without a password the file holds patient data in clear. Store it as you would paper records.
+          </p>
+          <button
+            onClick={handleBackup}
+            disabled={busy}
+            className="flex items-center gap-2 px-3 py-2 bg-astro-500 text-white rounded-lg text-sm font-medium hover:bg-astro-600 disabled:opacity-50"
+          >
+            {busy && !file ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            Download backup
+          </button>
+        </div>
+
+        {/* Restore */}
+        <div className="p-4 space-y-3">
+          <div className="flex items-center gap-3">
+            <Upload className="w-5 h-5 text-astro-600" />
+            <div>
+              <p className="font-medium text-gray-900">Restore from backup</p>
+              <p className="text-sm text-gray-500">Review the contents before anything is changed</p>
+            </div>
+          </div>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileChange}
+            className="block w-full text-sm text-gray-600 file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-gray-100 file:text-gray-700"
+            aria-label="Backup file"
+          />
+
+          {needsPassword && file && (
+            <div className="flex gap-2">
+              <input
+                type="password"
+                value={filePassword}
+                onChange={(e) => setFilePassword(e.target.value)}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg"
+                placeholder="Backup password"
+                autoComplete="off"
+              />
+              <button
+                onClick={() => openBackup(file, filePassword)}
+                disabled={busy || !filePassword}
+                className="flex items-center gap-2 px-3 py-2 bg-astro-500 text-white rounded-lg text-sm font-medium hover:bg-astro-600 disabled:opacity-50"
+              >
+                {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <KeyRound className="w-4 h-4" />}
+                Open
+              </button>
+            </div>
+          )}
+
+          {archive && preview && (
+            <div className="space-y-3">
+              <div className="p-3 bg-gray-50 rounded-lg text-sm">
+                <p className="font-medium text-gray-900">
+                  Backup of {new Date(archive.createdAt).toLocaleString()}
+                  {archive.createdBy && ` by ${archive.createdBy}`}
+                </p>
+                <ul className="mt-2 grid grid-cols-2 gap-x-4 text-gray-600">
+                  {BACKUP_TABLES.filter(table => preview.counts[table] > 0).map(table => (
+                    <li key={table} className="flex justify-between">
+                      <span>{BACKUP_TABLE_LABELS[table]}</span>
+                      <span className="font-medium text-gray-900">{preview.counts[table]}</span>
+                    </li>
+                  ))}
+                </ul>
+                <p className="mt-2 text-gray-600">
+                  {preview.newPatients} new patients, {preview.existingPatients} already on this device
+                </p>
+              </div>
+
+              {preview.conflicts.length > 0 && (
+                <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                  <p className="flex items-center gap-2 font-medium">
+                    <AlertTriangle className="w-4 h-4" />
+                    {preview.conflicts.length} MRN conflict{preview.conflicts.length === 1 ? '' : 's'}
+                  </p>
+                  <ul className="mt-1 space-y-0.5">
+                    {preview.conflicts.map(c => (
+                      <li key={c.backupPatientId}>
+                        MRN {c.mrn}: {c.backupName} in the backup, {c.existingName} on this device
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="mt-1">Merging keeps this device's patient and skips the backup's, with their records.</p>
+                </div>
+              )}
+
+              {confirmReplace ? (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800 space-y-2">
+                  <p>
+                    Replace deletes every patient, wound and assessment on this device before restoring.
+                    The audit log is kept.
+                  </p>
+                  <div className="flex gap-2">
+                    <button onClick={() => setConfirmReplace(false)} className="btn-secondary flex-1">
+                      Cancel
+                    </button>
+                    <button onClick={() => handleRestore('replace')} disabled={busy} className="btn-danger flex-1">
+                      {busy ? 'Restoring...' : 'Replace'}
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleRestore('merge')}
+                    disabled={busy}
+                    className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-astro-500 text-white rounded-lg text-sm font-medium hover:bg-astro-600 disabled:opacity-50"
+                  >
+                    {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+                    Merge
+                  </button>
+                  {canReplace && (
+                    <button
+                      onClick={() => setConfirmReplace(true)}
+                      disabled={busy}
+                      className="flex-1 px-3 py-2 border border-red-300 text-red-700 rounded-lg text-sm font-medium hover:bg-red-50 disabled:opacity-50"
+                    >
+                      Replace
+                    </button>
+                  )}
+                  <button
+                    onClick={resetRestore}
+                    disabled={busy}
+                    className="px-3 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-lg"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {status && (
+            <div className={`text-sm ${status.ok ? 'text-green-700' : 'text-red-700'}`}>
+              <p className="flex items-center gap-2">
+                {status.ok ? <Check className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+                {status.text}
+              </p>
+              {status.details && status.details.length > 0 && (
+                <ul className="mt-1 ml-6 list-disc text-xs">
+                  {status.details.map(detail => <li key={detail}>{detail}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupSettings;
@@ -3,15 +3,36 @@
  * Clinical-grade calibration template with instructions
  */
 
-import React, { useRef } from 'react';
+import React, { useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, Printer, Download, Info, CheckCircle, Scissors } from 'lucide-react';
+import { ArrowLeft, Printer, Download, Info, CheckCircle, Scissors, QrCode, Target, ChevronRight } from 'lucide-react';
 import html2canvas from 'html2canvas';
 import { jsPDF } from 'jspdf';
+import { FIDUCIAL_SPEC, encodeFiducial, VALIDATION_SPEC, VALIDATION_TARGETS } from '@/engine';
+
+/**
+ * SVG of a fiducial marker with its white quiet zone (1 module per side)
+ */
+const FiducialMarkerSvg: React.FC<{ id: number }> = ({ id }) => {
+  const matrix = encodeFiducial(id);
+  const size = FIDUCIAL_SPEC.modules + 2;
+
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} className="fiducial-marker" shapeRendering="crispEdges">
+      <rect x="0" y="0" width={size} height={size} fill="white" />
+      {matrix.map((row, r) =>
+        row.map((cell, c) =>
+          cell ? <rect key={`${r}-${c}`} x={c + 1} y={r + 1} width="1" height="1" fill="black" /> : null
+        )
+      )}
+    </svg>
+  );
+};
 
 export const CalibrationRuler: React.FC = () => {
   const navigate = useNavigate();
   const rulerRef = useRef<HTMLDivElement>(null);
+  const [markerBatchId, setMarkerBatchId] = useState(1);
 
   const handlePrint = () => {
     window.print();
@@ -144,6 +165,196 @@ export const CalibrationRuler: React.FC = () => {
     }
   };
 
+  // Generate a sheet of fiducial markers for one print batch
+  const handleDownloadFiducialPDF = () => {
+    try {
+      const pdf = new jsPDF('p', 'mm', 'a4');
+      const pageWidth = pdf.internal.pageSize.getWidth();
+      const pageHeight = pdf.internal.pageSize.getHeight();
+      const margin = 15;
+      const markerSize = FIDUCIAL_SPEC.sizeCm * 10; // mm
+      const moduleSize = markerSize / FIDUCIAL_SPEC.modules;
+      const quietZone = FIDUCIAL_SPEC.quietZoneCm * 10;
+      const cellWidth = markerSize + 2 * quietZone;
+      const cellHeight = cellWidth + 6; // room for the label
+      const matrix = encodeFiducial(markerBatchId);
+
+      pdf.setFontSize(14);
+      pdf.setFont('helvetica', 'bold');
+      pdf.setTextColor(14, 165, 233);
+      pdf.text('BONNESANTE MEDICALS', pageWidth / 2, 12, { align: 'center' });
+
+      pdf.setFontSize(8);
+      pdf.setFont('helvetica', 'normal');
+      pdf.setTextColor(100);
+      pdf.text(
+        `Fiducial Calibration Markers - Batch ${markerBatchId} - ${FIDUCIAL_SPEC.sizeCm} cm - Print at 100% Scale`,
+        pageWidth / 2,
+        18,
+        { align: 'center' }
+      );
+
+      const cols = Math.floor((pageWidth - 2 * margin) / cellWidth);
+      const rows = Math.floor((pageHeight - 60) / cellHeight);
+      const startX = (pageWidth - cols * cellWidth) / 2;
+      const startY = 26;
+
+      for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+          const x = startX + col * cellWidth;
+          const y = startY + row * cellHeight;
+
+          // Cutting guide around the quiet zone
+          pdf.setDrawColor(150);
+          pdf.setLineWidth(0.1);
+          pdf.setLineDashPattern([1, 1], 0);
+          pdf.rect(x, y, cellWidth, cellWidth);
+          pdf.setLineDashPattern([], 0);
+
+          pdf.setFillColor(0, 0, 0);
+          matrix.forEach((cells, r) => {
+            cells.forEach((cell, c) => {
+              if (cell) {
+                pdf.rect(x + quietZone + c * moduleSize, y + quietZone + r * moduleSize, moduleSize, moduleSize, 'F');
+              }
+            });
+          });
+
+          pdf.setFontSize(6);
+          pdf.setTextColor(120);
+          pdf.text(`ID ${markerBatchId} · ${FIDUCIAL_SPEC.sizeCm.toFixed(1)} cm`, x + cellWidth / 2, y + cellWidth + 4, { align: 'center' });
+        }
+      }
+
+      // Print verification square
+      const verifyY = pageHeight - 28;
+      pdf.setDrawColor(0);
+      pdf.setLineWidth(0.3);
+      pdf.rect(margin, verifyY, 10, 10);
+      pdf.setFontSize(7);
+      pdf.setTextColor(100);
+      pdf.text(
+        `PRINT VERIFICATION: the square must measure exactly 1 cm and each marker's black edge exactly ${FIDUCIAL_SPEC.sizeCm} cm`,
+        margin + 14,
+        verifyY + 6
+      );
+
+      pdf.setFontSize(6);
+      pdf.text('© BonneSante Medicals - wound.bonnesantemedicals.com', pageWidth / 2, pageHeight - 5, { align: 'center' });
+
+      pdf.save(`BonneSante-Fiducial-Markers-Batch-${markerBatchId}.pdf`);
+    } catch (error) {
+      console.error('Failed to generate fiducial marker PDF:', error);
+    }
+  };
+
+  // Generate the accuracy self-test sheet: one card per known-area target,
+  // each with its own fiducial marker so it can be photographed alone
+  const handleDownloadValidationPDF = () => {
+    try {
+      const pdf = new jsPDF('p', 'mm', 'a4');
+      const pageWidth = pdf.internal.pageSize.getWidth();
+      const pageHeight = pdf.internal.pageSize.getHeight();
+      const margin = 15;
+      const markerSize = FIDUCIAL_SPEC.sizeCm * 10; // mm
+      const moduleSize = markerSize / FIDUCIAL_SPEC.modules;
+      const quietZone = FIDUCIAL_SPEC.quietZoneCm * 10;
+      const padding = 5;
+      const shapeGap = 10;
+      const maxShapeWidth = Math.max(...VALIDATION_TARGETS.map(t => t.widthCm)) * 10;
+      const cardWidth = 2 * padding + markerSize + 2 * quietZone + shapeGap + maxShapeWidth;
+      const cardHeight = 2 * padding + markerSize + 2 * quietZone + 6; // room for the label
+      const cardGap = 8;
+      const matrix = encodeFiducial(markerBatchId);
+      const [red, green, blue] = VALIDATION_SPEC.targetColor;
+
+      pdf.setFontSize(14);
+      pdf.setFont('helvetica', 'bold');
+      pdf.setTextColor(14, 165, 233);
+      pdf.text('BONNESANTE MEDICALS', pageWidth / 2, 12, { align: 'center' });
+
+      pdf.setFontSize(8);
+      pdf.setFont('helvetica', 'normal');
+      pdf.setTextColor(100);
+      pdf.text(
+        `Accuracy Self-Test Targets - Marker Batch ${markerBatchId} - Print at 100% Scale`,
+        pageWidth / 2,
+        18,
+        { align: 'center' }
+      );
+
+      const startX = (pageWidth - cardWidth) / 2;
+      const startY = 26;
+
+      VALIDATION_TARGETS.forEach((target, index) => {
+        const x = startX;
+        const y = startY + index * (cardHeight + cardGap);
+
+        // Cutting guide
+        pdf.setDrawColor(150);
+        pdf.setLineWidth(0.1);
+        pdf.setLineDashPattern([1, 1], 0);
+        pdf.rect(x, y, cardWidth, cardHeight);
+        pdf.setLineDashPattern([], 0);
+
+        // Fiducial marker
+        const markerX = x + padding + quietZone;
+        const markerY = y + padding + quietZone;
+        pdf.setFillColor(0, 0, 0);
+        matrix.forEach((cells, r) => {
+          cells.forEach((cell, c) => {
+            if (cell) {
+              pdf.rect(markerX + c * moduleSize, markerY + r * moduleSize, moduleSize, moduleSize, 'F');
+            }
+          });
+        });
+
+        // Target shape, vertically centred beside the marker
+        const shapeWidth = target.widthCm * 10;
+        const shapeHeight = target.heightCm * 10;
+        const shapeX = markerX + markerSize + quietZone + shapeGap;
+        const shapeY = markerY + (markerSize - shapeHeight) / 2;
+        pdf.setFillColor(red, green, blue);
+        if (target.shape === 'circle') {
+          pdf.circle(shapeX + shapeWidth / 2, shapeY + shapeHeight / 2, shapeWidth / 2, 'F');
+        } else if (target.shape === 'triangle') {
+          pdf.triangle(shapeX, shapeY + shapeHeight, shapeX + shapeWidth, shapeY + shapeHeight, shapeX, shapeY, 'F');
+        } else {
+          pdf.rect(shapeX, shapeY, shapeWidth, shapeHeight, 'F');
+        }
+
+        pdf.setFontSize(7);
+        pdf.setTextColor(100);
+        pdf.text(
+          `${target.label} - true area ${target.areaCm2.toFixed(2)} cm² - marker ID ${markerBatchId}`,
+          x + cardWidth / 2,
+          y + cardHeight - 3,
+          { align: 'center' }
+        );
+      });
+
+      // Print verification square
+      const verifyY = pageHeight - 28;
+      pdf.setDrawColor(0);
+      pdf.setLineWidth(0.3);
+      pdf.rect(margin, verifyY, 10, 10);
+      pdf.setFontSize(7);
+      pdf.setTextColor(100);
+      pdf.text(
+        'PRINT VERIFICATION: the square must measure exactly 1 cm before the targets are used',
+        margin + 14,
+        verifyY + 6
+      );
+
+      pdf.setFontSize(6);
+      pdf.text('© BonneSante Medicals - wound.bonnesantemedicals.com', pageWidth / 2, pageHeight - 5, { align: 'center' });
+
+      pdf.save(`BonneSante-Accuracy-Test-Targets-Batch-${markerBatchId}.pdf`);
+    } catch (error) {
+      console.error('Failed to generate test target PDF:', error);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header - Hidden in print */}
@@ -185,6 +396,22 @@ export const CalibrationRuler: React.FC = () => {
               <Scissors className="w-4 h-4" />
               5cm Rulers
             </button>
+            <button
+              onClick={handleDownloadFiducialPDF}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-800 text-white rounded-lg hover:bg-gray-900"
+              title="Download a sheet of fiducial markers for this batch"
+            >
+              <QrCode className="w-4 h-4" />
+              Markers
+            </button>
+            <button
+              onClick={handleDownloadValidationPDF}
+              className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
+              title="Download known-area targets for the accuracy self-test"
+            >
+              <Target className="w-4 h-4" />
+              Test Targets
+            </button>
           </div>
         </div>
       </header>
@@ -225,6 +452,25 @@ export const CalibrationRuler: React.FC = () => {
         </div>
       </div>
 
+      {/* Accuracy self-test - Hidden in print */}
+      <div className="max-w-4xl mx-auto px-4 print:hidden">
+        <button
+          onClick={() => navigate('/calibration/validation')}
+          className="w-full bg-white rounded-xl shadow-sm p-4 flex items-center justify-between hover:bg-gray-50"
+        >
+          <div className="flex items-center gap-3">
+            <Target className="w-5 h-5 text-red-600" />
+            <div className="text-left">
+              <p className="font-medium text-gray-900">Accuracy Self-Test</p>
+              <p className="text-sm text-gray-500">
+                Photograph the printed test targets to record this device's measurement error
+              </p>
+            </div>
+          </div>
+          <ChevronRight className="w-5 h-5 text-gray-400" />
+        </button>
+      </div>
+
       {/* Printable Ruler */}
       <div className="max-w-4xl mx-auto p-4">
         <div
@@ -422,6 +668,38 @@ export const CalibrationRuler: React.FC = () => {
             </div>
           </div>
 
+          {/* Fiducial Markers */}
+          <div className="mb-8">
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">
+              FIDUCIAL MARKERS ({FIDUCIAL_SPEC.sizeCm} cm, with perspective correction)
+            </h3>
+            <div className="flex items-center gap-2 mb-3 print:hidden">
+              <label htmlFor="marker-batch" className="text-sm text-gray-600">Batch ID</label>
+              <input
+                id="marker-batch"
+                type="number"
+                min={0}
+                max={FIDUCIAL_SPEC.maxId}
+                value={markerBatchId}
+                onChange={(e) => {
+                  const value = Math.round(Number(e.target.value));
+                  setMarkerBatchId(Math.max(0, Math.min(FIDUCIAL_SPEC.maxId, isNaN(value) ? 0 : value)));
+                }}
+                className="w-20 px-2 py-1 border rounded-lg text-sm"
+              />
+            </div>
+            <div className="flex gap-8">
+              <div className="text-center">
+                <FiducialMarkerSvg id={markerBatchId} />
+                <p className="text-xs text-gray-600 mt-1">ID {markerBatchId} · {FIDUCIAL_SPEC.sizeCm} cm</p>
+              </div>
+              <div className="text-center">
+                <FiducialMarkerSvg id={markerBatchId} />
+                <p className="text-xs text-gray-600 mt-1">ID {markerBatchId} · {FIDUCIAL_SPEC.sizeCm} cm</p>
+              </div>
+            </div>
+          </div>
+
           {/* L-Shaped Ruler */}
           <div className="mb-8">
             <h3 className="text-sm font-semibold text-gray-700 mb-2">
@@ -15,6 +15,7 @@ import {
 } from 'lucide-react';
 // CameraModule is used within WoundCapture
 import { WoundCapture } from './WoundCapture';
+import { describeWound } from './WoundCandidateAssignment';
 import { usePatientsStore, useWoundsStore, useAppStore } from '@/store';
 import * as db from '@/store/database';
 import type { Patient, Wound, WoundType, WoundLocation, WoundAssessment } from '@/types';
@@ -31,7 +32,7 @@ export const CaptureFlow: React.FC = () => {
   const [selectedWound, setSelectedWound] = useState<Wound | null>(null);
   const [isNewWound, setIsNewWound] = useState(false);
   const [patientSearch, setPatientSearch] = useState('');
-  const [completedAssessment, setCompletedAssessment] = useState<WoundAssessment | null>(null);
+  const [completedAssessments, setCompletedAssessments] = useState<WoundAssessment[]>([]);
 
   // New wound form state
   const [newWoundData, setNewWoundData] = useState({
@@ -132,8 +133,8 @@ export const CaptureFlow: React.FC = () => {
     setStep('capture');
   };
 
-  const handleCaptureComplete = (assessment: WoundAssessment) => {
-    setCompletedAssessment(assessment);
+  const handleCaptureComplete = (assessments: WoundAssessment[]) => {
+    setCompletedAssessments(assessments);
     setStep('complete');
   };
 
@@ -359,36 +360,45 @@ export const CaptureFlow: React.FC = () => {
         </div>
         <h2 className="text-2xl font-bold text-gray-900 mb-2">Assessment Complete</h2>
         <p className="text-gray-500 mb-6">
-          The wound assessment has been saved successfully.
+          {completedAssessments.length > 1
+            ? `${completedAssessments.length} wound assessments have been saved successfully.`
+            : 'The wound assessment has been saved successfully.'}
         </p>
 
-        {completedAssessment && (
-          <div className="bg-gray-50 rounded-xl p-4 mb-6 text-left">
-            <h3 className="font-medium text-gray-900 mb-2">Measurements</h3>
-            <div className="grid grid-cols-2 gap-3 text-sm">
-              <div>
-                <span className="text-gray-500">Area:</span>
-                <span className="ml-2 font-semibold">{completedAssessment.measurement.area.toFixed(2)} cm²</span>
-              </div>
-              <div>
-                <span className="text-gray-500">Perimeter:</span>
-                <span className="ml-2 font-semibold">{completedAssessment.measurement.perimeter.toFixed(2)} cm</span>
-              </div>
-              <div>
-                <span className="text-gray-500">Length:</span>
-                <span className="ml-2 font-semibold">{completedAssessment.measurement.length.toFixed(2)} cm</span>
-              </div>
-              <div>
-                <span className="text-gray-500">Width:</span>
-                <span className="ml-2 font-semibold">{completedAssessment.measurement.width.toFixed(2)} cm</span>
+        {completedAssessments.map((assessment) => {
+          const wound = wounds.find(w => w.id === assessment.woundId);
+          return (
+            <div key={assessment.id} className="bg-gray-50 rounded-xl p-4 mb-6 text-left">
+              <h3 className="font-medium text-gray-900 mb-2">
+                {completedAssessments.length > 1 && wound
+                  ? describeWound(wound)
+                  : 'Measurements'}
+              </h3>
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <div>
+                  <span className="text-gray-500">Area:</span>
+                  <span className="ml-2 font-semibold">{assessment.measurement.area.toFixed(2)} cm²</span>
+                </div>
+                <div>
+                  <span className="text-gray-500">Perimeter:</span>
+                  <span className="ml-2 font-semibold">{assessment.measurement.perimeter.toFixed(2)} cm</span>
+                </div>
+                <div>
+                  <span className="text-gray-500">Length:</span>
+                  <span className="ml-2 font-semibold">{assessment.measurement.length.toFixed(2)} cm</span>
+                </div>
+                <div>
+                  <span className="text-gray-500">Width:</span>
+                  <span className="ml-2 font-semibold">{assessment.measurement.width.toFixed(2)} cm</span>
+                </div>
               </div>
             </div>
-          </div>
-        )}
+          );
+        })}
 
         <div className="flex flex-col gap-3">
           <button
-            onClick={() => navigate(`/wounds/${selectedWound?.id}/report`)}
+            onClick={() => navigate(`/wounds/${completedAssessments[0]?.woundId ?? selectedWound?.id}/report`)}
             className="btn-primary w-full"
           >
             View Report
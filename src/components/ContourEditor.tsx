@@ -0,0 +1,278 @@
+/**
+ * AstroWound-MEASURE Contour Editor
+ * Manual correction of the wound boundary before measurement
+ */
+
+import React, { useRef, useState, useCallback } from 'react';
+import { X, Check, Move, PenTool, Pencil, Undo2, Trash2 } from 'lucide-react';
+import type { Point } from '@/types';
+
+type EditorMode = 'adjust' | 'polygon' | 'freehand';
+
+interface ContourEditorProps {
+  imageSrc: string;
+  width: number;
+  height: number;
+  initialContour: Point[];
+  onApply: (contour: Point[], redrawn: boolean) => void;
+  onCancel: () => void;
+}
+
+// Number of editable vertices generated from a dense AI contour
+const MAX_EDIT_VERTICES = 60;
+
+/**
+ * Reduce a dense contour to evenly spaced vertices for editing
+ */
+function toEditableVertices(contour: Point[]): Point[] {
+  if (contour.length <= MAX_EDIT_VERTICES) return contour.map(({ x, y }) => ({ x, y }));
+  const step = contour.length / MAX_EDIT_VERTICES;
+  const vertices: Point[] = [];
+  for (let i = 0; i < MAX_EDIT_VERTICES; i++) {
+    const { x, y } = contour[Math.floor(i * step)];
+    vertices.push({ x, y });
+  }
+  return vertices;
+}
+
+export const ContourEditor: React.FC<ContourEditorProps> = ({
+  imageSrc,
+  width,
+  height,
+  initialContour,
+  onApply,
+  onCancel,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [mode, setMode] = useState<EditorMode>(initialContour.length >= 3 ? 'adjust' : 'polygon');
+  const [vertices, setVertices] = useState<Point[]>(() => toEditableVertices(initialContour));
+  const [history, setHistory] = useState<Point[][]>([]);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [isDrawing, setIsDrawing] = useState(false);
+  const [redrawn, setRedrawn] = useState(initialContour.length < 3);
+
+  const handleRadius = Math.max(width, height) / 120;
+  const strokeWidth = Math.max(width, height) / 400;
+
+  /** Convert a pointer event to image pixel coordinates */
+  const toImagePoint = useCallback((e: React.PointerEvent): Point | null => {
+    const svg = svgRef.current;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return null;
+    const pt = svg.createSVGPoint();
+    pt.x = e.clientX;
+    pt.y = e.clientY;
+    const { x, y } = pt.matrixTransform(ctm.inverse());
+    return {
+      x: Math.max(0, Math.min(width - 1, Math.round(x))),
+      y: Math.max(0, Math.min(height - 1, Math.round(y))),
+    };
+  }, [width, height]);
+
+  const pushHistory = () => setHistory(prev => [...prev.slice(-19), vertices]);
+
+  const startNewOutline = (nextMode: EditorMode) => {
+    pushHistory();
+    setVertices([]);
+    setRedrawn(true);
+    setMode(nextMode);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    const point = toImagePoint(e);
+    if (!point) return;
+
+    if (mode === 'polygon') {
+      pushHistory();
+      setVertices(prev => [...prev, point]);
+    } else if (mode === 'freehand') {
+      pushHistory();
+      setVertices([point]);
+      setRedrawn(true);
+      setIsDrawing(true);
+      (e.target as Element).setPointerCapture?.(e.pointerId);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const point = toImagePoint(e);
+    if (!point) return;
+
+    if (mode === 'adjust' && dragIndex !== null) {
+      setVertices(prev => prev.map((v, i) => (i === dragIndex ? point : v)));
+    } else if (mode === 'freehand' && isDrawing) {
+      setVertices(prev => {
+        const last = prev[prev.length - 1];
+        // Skip points closer than a couple of pixels to keep the outline light
+        if (last && Math.hypot(last.x - point.x, last.y - point.y) < handleRadius / 2) return prev;
+        return [...prev, point];
+      });
+    }
+  };
+
+  const handlePointerUp = () => {
+    setDragIndex(null);
+    if (isDrawing) {
+      setIsDrawing(false);
+      setVertices(prev => toEditableVertices(prev));
+      setMode('adjust');
+    }
+  };
+
+  const handleVertexDown = (index: number) => (e: React.PointerEvent) => {
+    if (mode !== 'adjust') return;
+    e.stopPropagation();
+    pushHistory();
+    setDragIndex(index);
+    (e.target as Element).setPointerCapture?.(e.pointerId);
+  };
+
+  const handleVertexDoubleClick = (index: number) => () => {
+    if (mode !== 'adjust' || vertices.length <= 3) return;
+    pushHistory();
+    setVertices(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleMidpointDown = (index: number) => (e: React.PointerEvent) => {
+    if (mode !== 'adjust') return;
+    e.stopPropagation();
+    pushHistory();
+    const a = vertices[index];
+    const b = vertices[(index + 1) % vertices.length];
+    const mid = { x: Math.round((a.x + b.x) / 2), y: Math.round((a.y + b.y) / 2) };
+    setVertices(prev => [...prev.slice(0, index + 1), mid, ...prev.slice(index + 1)]);
+    setDragIndex(index + 1);
+    (e.target as Element).setPointerCapture?.(e.pointerId);
+  };
+
+  const handleUndo = () => {
+    if (history.length === 0) return;
+    setVertices(history[history.length - 1]);
+    setHistory(prev => prev.slice(0, -1));
+  };
+
+  const pathData = vertices.length > 0
+    ? `M ${vertices[0].x} ${vertices[0].y} ` +
+      vertices.slice(1).map(p => `L ${p.x} ${p.y}`).join(' ') +
+      (mode === 'polygon' || isDrawing ? '' : ' Z')
+    : '';
+
+  const modeButton = (id: EditorMode, label: string, icon: React.ReactNode, onClick: () => void) => (
+    <button
+      onClick={onClick}
+      className={`flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+        mode === id ? 'bg-astro-500 text-white' : 'bg-white/10 text-white hover:bg-white/20'
+      }`}
+    >
+      {icon}
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black flex flex-col">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 bg-gray-900">
+        <button onClick={onCancel} className="p-2 text-white hover:bg-white/10 rounded-lg">
+          <X className="w-6 h-6" />
+        </button>
+        <h2 className="text-white font-semibold">Edit Wound Boundary</h2>
+        <button
+          onClick={() => onApply(vertices, redrawn)}
+          disabled={vertices.length < 3 || isDrawing}
+          className="flex items-center gap-1.5 px-3 py-2 bg-astro-500 text-white rounded-lg font-medium disabled:bg-gray-600"
+        >
+          <Check className="w-5 h-5" />
+          Apply
+        </button>
+      </div>
+
+      {/* Canvas */}
+      <div className="flex-1 relative overflow-hidden touch-none">
+        <img
+          src={imageSrc}
+          alt="Wound"
+          className="absolute inset-0 w-full h-full object-contain select-none"
+          draggable={false}
+        />
+        <svg
+          ref={svgRef}
+          className="absolute inset-0 w-full h-full"
+          viewBox={`0 0 ${width} ${height}`}
+          preserveAspectRatio="xMidYMid meet"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+        >
+          <path
+            d={pathData}
+            fill={mode === 'polygon' || isDrawing ? 'none' : 'rgba(239, 68, 68, 0.25)'}
+            stroke="#ef4444"
+            strokeWidth={strokeWidth}
+          />
+
+          {mode === 'adjust' && vertices.length >= 3 && vertices.map((v, i) => {
+            const next = vertices[(i + 1) % vertices.length];
+            return (
+              <circle
+                key={`mid-${i}`}
+                cx={(v.x + next.x) / 2}
+                cy={(v.y + next.y) / 2}
+                r={handleRadius * 0.6}
+                fill="rgba(255, 255, 255, 0.5)"
+                onPointerDown={handleMidpointDown(i)}
+              />
+            );
+          })}
+
+          {(mode === 'adjust' || mode === 'polygon') && vertices.map((v, i) => (
+            <circle
+              key={`v-${i}`}
+              cx={v.x}
+              cy={v.y}
+              r={handleRadius}
+              fill={i === 0 && mode === 'polygon' ? '#10b981' : '#ffffff'}
+              stroke="#ef4444"
+              strokeWidth={strokeWidth}
+              onPointerDown={handleVertexDown(i)}
+              onDoubleClick={handleVertexDoubleClick(i)}
+            />
+          ))}
+        </svg>
+      </div>
+
+      {/* Toolbar */}
+      <div className="bg-gray-900 px-4 py-3 space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          {modeButton('adjust', 'Adjust', <Move className="w-4 h-4" />, () => setMode('adjust'))}
+          {modeButton('polygon', 'Polygon', <PenTool className="w-4 h-4" />, () => startNewOutline('polygon'))}
+          {modeButton('freehand', 'Freehand', <Pencil className="w-4 h-4" />, () => startNewOutline('freehand'))}
+          <div className="flex-1" />
+          <button
+            onClick={handleUndo}
+            disabled={history.length === 0}
+            className="p-2 text-white hover:bg-white/10 rounded-lg disabled:opacity-40"
+            title="Undo"
+          >
+            <Undo2 className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => startNewOutline(mode === 'freehand' ? 'freehand' : 'polygon')}
+            className="p-2 text-white hover:bg-white/10 rounded-lg"
+            title="Clear outline"
+          >
+            <Trash2 className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-xs text-gray-400">
+          {mode === 'adjust' && 'Drag points to move them. Drag a small dot to add a point. Double-tap a point to remove it.'}
+          {mode === 'polygon' && 'Tap around the wound edge to place points, then switch to Adjust or Apply.'}
+          {mode === 'freehand' && 'Trace the wound edge with your finger or mouse in one stroke.'}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ContourEditor;
@@ -21,17 +21,22 @@ import {
   Stethoscope,
   Scissors,
   ClipboardList,
+  LogOut,
+  ShieldCheck,
 } from 'lucide-react';
 import { usePatientsStore, useAppStore } from '@/store';
 import * as db from '@/store/database';
-import type { Patient, Wound } from '@/types';
+import { formatUserIdentity, hasPermission } from '@/lib/permissions';
+import type { Patient, Wound, VerificationQueueItem } from '@/types';
 
 export const Dashboard: React.FC = () => {
   const navigate = useNavigate();
   const { patients, loading, loadPatients, searchPatients } = usePatientsStore();
-  const { isOnline, isModelLoaded, setModelLoaded, pendingSync } = useAppStore();
+  const { isOnline, isModelLoaded, setModelLoaded, pendingSync, currentUser, signOut } = useAppStore();
   const [searchQuery, setSearchQuery] = useState('');
   const [recentWounds, setRecentWounds] = useState<Array<{ wound: Wound; patient: Patient }>>([]);
+  const [pendingVerification, setPendingVerification] = useState<VerificationQueueItem[]>([]);
+  const canVerify = hasPermission(currentUser, 'verify_assessment');
   const [stats, setStats] = useState({
     totalPatients: 0,
     activeWounds: 0,
@@ -55,7 +60,7 @@ export const Dashboard: React.FC = () => {
       const { getSegmentationEngine } = await import('@/engine');
       const engine = getSegmentationEngine();
       await engine.initialize();
-      setModelLoaded(true);
+      setModelLoaded(engine.isReady());
     } catch (error) {
       console.error('Failed to initialize AI model:', error);
     }
@@ -87,6 +92,7 @@ export const Dashboard: React.FC = () => {
       );
 
       setRecentWounds(woundsWithPatients.slice(0, 5));
+      setPendingVerification(await db.getVerificationQueue());
       setStats({
         totalPatients: allPatients.length,
         activeWounds: totalActiveWounds,
@@ -142,6 +148,18 @@ export const Dashboard: React.FC = () => {
                 </div>
               )}
 
+              {/* Signed-in user; switching returns to the sign-in screen */}
+              {currentUser && (
+                <button
+                  onClick={signOut}
+                  className="flex items-center gap-2 px-2 py-1 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg"
+                  title="Switch user"
+                >
+                  <span className="hidden sm:inline">{formatUserIdentity(currentUser)}</span>
+                  <LogOut className="w-4 h-4" />
+                </button>
+              )}
+
               {/* User Guide */}
               <Link
                 to="/guide"
@@ -308,6 +326,43 @@ export const Dashboard: React.FC = () => {
           />
         </div>
 
+        {/* Pending Verification */}
+        {canVerify && pendingVerification.length > 0 && (
+          <div className="bg-white rounded-xl shadow-sm">
+            <div className="px-6 py-4 border-b flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <ShieldCheck className="w-5 h-5 text-clinical-warning" />
+                <h2 className="font-semibold text-gray-900">Pending Verification</h2>
+              </div>
+              <Link to="/verification" className="text-sm text-astro-600 hover:text-astro-700 font-medium">
+                View all ({pendingVerification.length})
+              </Link>
+            </div>
+            <div className="divide-y">
+              {pendingVerification.slice(0, 3).map(({ assessment, wound, patient }) => (
+                <button
+                  key={assessment.id}
+                  onClick={() => navigate(`/assessments/${assessment.id}/review`)}
+                  className="w-full px-6 py-4 flex items-center gap-4 hover:bg-gray-50 transition-colors text-left"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900">
+                      {patient?.firstName} {patient?.lastName}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {wound?.location} · {assessment.measurement.area} cm² · {assessment.capturedBy}
+                    </p>
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    {format(new Date(assessment.capturedAt), 'MMM d')}
+                  </p>
+                  <ChevronRight className="w-5 h-5 text-gray-400" />
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Recent Wounds */}
         {recentWounds.length > 0 && (
           <div className="bg-white rounded-xl shadow-sm">
@@ -0,0 +1,222 @@
+/**
+ * AstroWound-MEASURE Depth Probe Form
+ * Structured depth, undermining and tunnelling entry by clock position
+ */
+
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import type { ClockPosition, DepthProbeRecord, DepthReading } from '@/types';
+
+interface DepthProbeFormProps {
+  value: DepthProbeRecord;
+  onChange: (value: DepthProbeRecord) => void;
+}
+
+const CLOCK_POSITIONS: ClockPosition[] = [12, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+
+/**
+ * Empty probe record for a new assessment
+ */
+export const emptyDepthProbe = (): DepthProbeRecord => ({
+  readings: [],
+  undermining: [],
+  tunnels: [],
+  maxDepth: 0,
+});
+
+const parseDepth = (value: string): number => Math.max(0, Math.round((Number(value) || 0) * 10) / 10);
+
+export const DepthProbeForm: React.FC<DepthProbeFormProps> = ({ value, onChange }) => {
+  const update = (next: Omit<DepthProbeRecord, 'maxDepth'>) => {
+    onChange({
+      ...next,
+      maxDepth: next.readings.reduce((max, r) => Math.max(max, r.depth), 0),
+    });
+  };
+
+  const usedPositions = new Set(value.readings.map(r => r.position));
+  const nextPosition = (['centre', ...CLOCK_POSITIONS] as DepthReading['position'][])
+    .find(p => !usedPositions.has(p));
+
+  const clockSelect = (
+    current: ClockPosition,
+    onSelect: (clock: ClockPosition) => void,
+    label: string
+  ) => (
+    <select
+      value={current}
+      onChange={(e) => onSelect(Number(e.target.value) as ClockPosition)}
+      className="px-2 py-1.5 border rounded-lg text-sm"
+      aria-label={label}
+    >
+      {CLOCK_POSITIONS.map(c => (
+        <option key={c} value={c}>{c} o'clock</option>
+      ))}
+    </select>
+  );
+
+  const depthInput = (depth: number, onInput: (depth: number) => void, label: string) => (
+    <div className="flex items-center gap-1">
+      <input
+        type="number"
+        step="0.1"
+        min="0"
+        value={depth || ''}
+        onChange={(e) => onInput(parseDepth(e.target.value))}
+        placeholder="0.0"
+        className="w-20 px-2 py-1.5 border rounded-lg text-sm text-right"
+        aria-label={label}
+      />
+      <span className="text-sm text-gray-500">cm</span>
+    </div>
+  );
+
+  const removeButton = (onRemove: () => void) => (
+    <button
+      onClick={onRemove}
+      className="p-1.5 text-gray-400 hover:text-red-600"
+      title="Remove"
+    >
+      <Trash2 className="w-4 h-4" />
+    </button>
+  );
+
+  const addButton = (label: string, onAdd: () => void, disabled = false) => (
+    <button
+      onClick={onAdd}
+      disabled={disabled}
+      className="flex items-center gap-1 text-sm text-astro-600 hover:text-astro-700 disabled:text-gray-300"
+    >
+      <Plus className="w-4 h-4" />
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="space-y-5">
+      <p className="text-xs text-gray-500">
+        Clock positions are read with 12 o'clock toward the patient's head (top of the image).
+      </p>
+
+      {/* Wound bed depths */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-medium text-gray-700">Depth readings</h4>
+          {addButton('Add reading', () => nextPosition && update({
+            ...value,
+            readings: [...value.readings, { position: nextPosition, depth: 0 }],
+          }), !nextPosition)}
+        </div>
+        {value.readings.length === 0 && (
+          <p className="text-sm text-gray-400">No depth recorded (superficial wound).</p>
+        )}
+        <div className="space-y-2">
+          {value.readings.map((reading, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <select
+                value={reading.position}
+                onChange={(e) => {
+                  const position = e.target.value === 'centre'
+                    ? 'centre'
+                    : Number(e.target.value) as ClockPosition;
+                  update({
+                    ...value,
+                    readings: value.readings.map((r, i) => (i === index ? { ...r, position } : r)),
+                  });
+                }}
+                className="px-2 py-1.5 border rounded-lg text-sm"
+                aria-label="Probe position"
+              >
+                {(['centre', ...CLOCK_POSITIONS] as DepthReading['position'][]).map(p => (
+                  <option
+                    key={p}
+                    value={p}
+                    disabled={p !== reading.position && usedPositions.has(p)}
+                  >
+                    {p === 'centre' ? 'Centre' : `${p} o'clock`}
+                  </option>
+                ))}
+              </select>
+              {depthInput(reading.depth, (depth) => update({
+                ...value,
+                readings: value.readings.map((r, i) => (i === index ? { ...r, depth } : r)),
+              }), 'Depth')}
+              <div className="flex-1" />
+              {removeButton(() => update({
+                ...value,
+                readings: value.readings.filter((_, i) => i !== index),
+              }))}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Undermining */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-medium text-gray-700">Undermining</h4>
+          {addButton('Add', () => update({
+            ...value,
+            undermining: [...value.undermining, { fromClock: 12, toClock: 3, depth: 0 }],
+          }))}
+        </div>
+        <div className="space-y-2">
+          {value.undermining.map((entry, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2">
+              {clockSelect(entry.fromClock, (fromClock) => update({
+                ...value,
+                undermining: value.undermining.map((u, i) => (i === index ? { ...u, fromClock } : u)),
+              }), 'Undermining from')}
+              <span className="text-sm text-gray-500">to</span>
+              {clockSelect(entry.toClock, (toClock) => update({
+                ...value,
+                undermining: value.undermining.map((u, i) => (i === index ? { ...u, toClock } : u)),
+              }), 'Undermining to')}
+              {depthInput(entry.depth, (depth) => update({
+                ...value,
+                undermining: value.undermining.map((u, i) => (i === index ? { ...u, depth } : u)),
+              }), 'Undermining extent')}
+              <div className="flex-1" />
+              {removeButton(() => update({
+                ...value,
+                undermining: value.undermining.filter((_, i) => i !== index),
+              }))}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Tunnelling */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-medium text-gray-700">Tunnelling / sinus tracts</h4>
+          {addButton('Add', () => update({
+            ...value,
+            tunnels: [...value.tunnels, { clock: 12, depth: 0 }],
+          }))}
+        </div>
+        <div className="space-y-2">
+          {value.tunnels.map((tunnel, index) => (
+            <div key={index} className="flex items-center gap-2">
+              {clockSelect(tunnel.clock, (clock) => update({
+                ...value,
+                tunnels: value.tunnels.map((t, i) => (i === index ? { ...t, clock } : t)),
+              }), 'Tunnel position')}
+              {depthInput(tunnel.depth, (depth) => update({
+                ...value,
+                tunnels: value.tunnels.map((t, i) => (i === index ? { ...t, depth } : t)),
+              }), 'Tunnel depth')}
+              <div className="flex-1" />
+              {removeButton(() => update({
+                ...value,
+                tunnels: value.tunnels.filter((_, i) => i !== index),
+              }))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DepthProbeForm;
@@ -0,0 +1,316 @@
+/**
+ * AstroWound-MEASURE Device Validation
+ * Accuracy self-test with printed targets of known area
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import {
+  ArrowLeft,
+  Camera,
+  Check,
+  AlertCircle,
+  Loader2,
+  Save,
+  Target,
+  Printer,
+  History,
+} from 'lucide-react';
+import { CameraModule } from './CameraModule';
+import * as db from '@/store/database';
+import {
+  getValidationEngine,
+  getSegmentationEngine,
+  CLASSICAL_PIPELINE_VERSION,
+  VALIDATION_SPEC,
+  VALIDATION_TARGETS,
+} from '@/engine';
+import type { DeviceValidationRecord, ValidationShapeResult, ValidationTarget } from '@/types';
+
+export const DeviceValidation: React.FC = () => {
+  const navigate = useNavigate();
+  const [activeTarget, setActiveTarget] = useState<ValidationTarget | null>(null);
+  const [measuringId, setMeasuringId] = useState<string | null>(null);
+  const [results, setResults] = useState<Record<string, ValidationShapeResult>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [performedBy, setPerformedBy] = useState('');
+  const [notes, setNotes] = useState('');
+  const [history, setHistory] = useState<DeviceValidationRecord[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    loadHistory();
+  }, []);
+
+  const loadHistory = async () => {
+    try {
+      setHistory(await db.getDeviceValidations());
+    } catch (error) {
+      console.error('Failed to load validation history:', error);
+    }
+  };
+
+  const handleCapture = async (imageData: ImageData) => {
+    const target = activeTarget;
+    setActiveTarget(null);
+    if (!target) return;
+
+    setMeasuringId(target.id);
+    setErrors(prev => ({ ...prev, [target.id]: '' }));
+
+    try {
+      const result = await getValidationEngine().measureTarget(imageData, target);
+      setResults(prev => ({ ...prev, [target.id]: result }));
+    } catch (error) {
+      console.error('Validation measurement failed:', error);
+      setErrors(prev => ({ ...prev, [target.id]: (error as Error).message }));
+    } finally {
+      setMeasuringId(null);
+    }
+  };
+
+  const measured = VALIDATION_TARGETS.filter(t => results[t.id]).map(t => results[t.id]);
+  const allMeasured = measured.length === VALIDATION_TARGETS.length;
+  const preview = measured.length > 0
+    ? getValidationEngine().createRecord(measured, {
+        userAgent: navigator.userAgent,
+        platform: navigator.platform,
+        screenWidth: window.screen.width,
+        screenHeight: window.screen.height,
+        pixelRatio: window.devicePixelRatio,
+      }, performedBy.trim())
+    : null;
+
+  const handleSave = async () => {
+    if (!preview || !allMeasured) return;
+    if (!performedBy.trim()) {
+      setMessage({ type: 'error', text: 'Enter the name of the person performing the validation' });
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+
+    try {
+      const segEngine = getSegmentationEngine();
+      const record: DeviceValidationRecord = {
+        ...preview,
+        modelVersion: segEngine.isReady() ? segEngine.getConfig().version : CLASSICAL_PIPELINE_VERSION,
+        notes: notes.trim() || undefined,
+      };
+      await db.createDeviceValidation(record);
+      setResults({});
+      setNotes('');
+      setMessage({
+        type: record.passed ? 'success' : 'error',
+        text: record.passed
+          ? `Validation saved: mean area error ${record.meanAbsolutePercentError}%`
+          : `Validation saved as FAILED: max area error ${record.maxAbsolutePercentError}% exceeds ${record.tolerancePercent}%`,
+      });
+      await loadHistory();
+    } catch (error) {
+      console.error('Failed to save validation:', error);
+      setMessage({ type: 'error', text: 'Failed to save validation record' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const withinTolerance = (result: ValidationShapeResult) =>
+    Math.abs(result.percentError) <= VALIDATION_SPEC.tolerancePercent;
+
+  if (activeTarget) {
+    return (
+      <CameraModule
+        onCapture={(imageData) => handleCapture(imageData)}
+        onClose={() => setActiveTarget(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm sticky top-0 z-40">
+        <div className="max-w-2xl mx-auto px-4 py-4 flex items-center gap-4">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg"
+            title="Go back"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="text-lg font-semibold text-gray-900">Accuracy Self-Test</h1>
+        </div>
+      </header>
+
+      <main className="max-w-2xl mx-auto p-4 space-y-6">
+        {message && (
+          <div className={`p-4 rounded-lg flex items-center gap-3 ${
+            message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}>
+            {message.type === 'success' ? <Check className="w-5 h-5" /> : <AlertCircle className="w-5 h-5" />}
+            <span>{message.text}</span>
+          </div>
+        )}
+
+        {/* Instructions */}
+        <div className="bg-blue-50 border border-blue-200 rounded-xl p-4">
+          <p className="text-sm text-blue-800">
+            Print the test targets from the Calibration Kit at 100% scale. Photograph each card with its
+            fiducial marker in view, as you would a wound. Each photo is measured by the same pipeline used
+            for patients, and a run passes when every target is within ±{VALIDATION_SPEC.tolerancePercent}% of its true area.
+          </p>
+          <button
+            onClick={() => navigate('/calibration')}
+            className="mt-3 flex items-center gap-2 text-sm font-medium text-blue-700 hover:text-blue-900"
+          >
+            <Printer className="w-4 h-4" />
+            Print test targets
+          </button>
+        </div>
+
+        {/* Targets */}
+        <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+          <div className="p-4 border-b border-gray-100">
+            <h2 className="font-semibold text-gray-900">Targets</h2>
+          </div>
+          <div className="divide-y divide-gray-100">
+            {VALIDATION_TARGETS.map(target => {
+              const result = results[target.id];
+              const error = errors[target.id];
+              return (
+                <div key={target.id} className="p-4 flex items-center gap-3">
+                  <Target className="w-5 h-5 text-astro-600 flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900">{target.label}</p>
+                    <p className="text-sm text-gray-500">True area {target.areaCm2.toFixed(2)} cm²</p>
+                    {result && (
+                      <p className="text-sm text-gray-700">
+                        Measured {result.measuredAreaCm2.toFixed(2)} cm² · error {result.absoluteErrorCm2.toFixed(2)} cm²
+                        ({result.percentError > 0 ? '+' : ''}{result.percentError}%)
+                        {result.perspectiveCorrected && ' · rectified'}
+                      </p>
+                    )}
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+                  </div>
+                  {result && (
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                      withinTolerance(result) ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+                    }`}>
+                      {withinTolerance(result) ? 'Pass' : 'Fail'}
+                    </span>
+                  )}
+                  <button
+                    onClick={() => setActiveTarget(target)}
+                    disabled={measuringId !== null}
+                    className="flex items-center gap-1.5 px-3 py-2 bg-astro-500 text-white rounded-lg text-sm font-medium hover:bg-astro-600 disabled:opacity-50"
+                  >
+                    {measuringId === target.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Camera className="w-4 h-4" />
+                    )}
+                    {result ? 'Retake' : 'Capture'}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Summary & save */}
+        {preview && (
+          <div className="bg-white rounded-xl shadow-sm p-6 space-y-4">
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <p className="text-2xl font-bold text-gray-900">{preview.meanAbsolutePercentError}%</p>
+                <p className="text-xs text-gray-500">Mean |error|</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-gray-900">{preview.maxAbsolutePercentError}%</p>
+                <p className="text-xs text-gray-500">Max |error|</p>
+              </div>
+              <div>
+                <p className={`text-2xl font-bold ${preview.passed ? 'text-green-600' : 'text-red-600'}`}>
+                  {preview.passed ? 'PASS' : 'FAIL'}
+                </p>
+                <p className="text-xs text-gray-500">{measured.length}/{VALIDATION_TARGETS.length} targets</p>
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="validation-performed-by" className="block text-sm font-medium text-gray-700 mb-1">
+                Performed by
+              </label>
+              <input
+                id="validation-performed-by"
+                type="text"
+                value={performedBy}
+                onChange={(e) => setPerformedBy(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                placeholder="Name and role"
+              />
+            </div>
+            <div>
+              <label htmlFor="validation-notes" className="block text-sm font-medium text-gray-700 mb-1">
+                Notes
+              </label>
+              <textarea
+                id="validation-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                placeholder="Lighting, printer, marker batch..."
+              />
+            </div>
+
+            <button
+              onClick={handleSave}
+              disabled={!allMeasured || saving}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-astro-500 text-white rounded-lg font-medium hover:bg-astro-600 disabled:bg-gray-300"
+            >
+              {saving ? <Loader2 className="w-5 h-5 animate-spin" /> : <Save className="w-5 h-5" />}
+              {allMeasured ? 'Save Validation Record' : 'Measure all targets to save'}
+            </button>
+          </div>
+        )}
+
+        {/* History */}
+        <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+          <div className="p-4 border-b border-gray-100 flex items-center gap-2">
+            <History className="w-5 h-5 text-gray-400" />
+            <h2 className="font-semibold text-gray-900">Validation History</h2>
+          </div>
+          {history.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">This device has not been validated yet.</p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {history.map(record => (
+                <div key={record.id} className="p-4 flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {format(new Date(record.performedAt), 'MMM d, yyyy HH:mm')}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      Mean {record.meanAbsolutePercentError}% · max {record.maxAbsolutePercentError}% · {record.performedBy}
+                    </p>
+                  </div>
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                    record.passed ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+                  }`}>
+                    {record.passed ? 'Passed' : 'Failed'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default DeviceValidation;
@@ -5,7 +5,10 @@
 
 import { useState, useEffect } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
 import { usePainManagementStore, type DressingStep } from '@/store/painManagementStore';
+import { useAppStore } from '@/store';
+import { formatUserIdentity } from '@/lib/permissions';
 import {
   WOUND_PHASE_CONFIG,
   PHASE_MATERIALS,
@@ -13,7 +16,20 @@ import {
   INFECTION_SIGNS,
   ESCALATION_CRITERIA,
 } from '@/lib/clinicalConstants';
-import type { WoundPhase } from '@/types';
+import { buildMaterialItems, buildPostDressingCare } from '@/lib/dressingSession';
+import { REASSESSMENT_POINTS, buildReassessment, isPainEscalating } from '@/lib/painReassessment';
+import { QuickPainScore } from './QuickPainScore';
+import { toDressingTissueTypes } from '@/engine';
+import * as db from '@/store/database';
+import type {
+  WoundPhase,
+  DressingWoundAssessment,
+  DressingSession,
+  SterileFieldChecklist,
+  MaterialsChecklist,
+  DressingPainAssessment,
+  PainReassessmentPoint,
+} from '@/types';
 import {
   ArrowLeft,
   ArrowRight,
@@ -39,6 +55,16 @@ const STEPS: { id: DressingStep; label: string; icon: React.ReactNode }[] = [
   { id: 'documentation', label: 'Documentation', icon: <FileText className="w-4 h-4" /> },
 ];
 
+// A pain assessment this recent is linked to the session as its pre-dressing check
+const PAIN_ASSESSMENT_LINK_HOURS = 24;
+
+const TISSUE_OPTIONS: { id: DressingWoundAssessment['tissueType'][number]; label: string }[] = [
+  { id: 'necrotic', label: 'Necrotic' },
+  { id: 'slough', label: 'Slough' },
+  { id: 'granulating', label: 'Granulating' },
+  { id: 'epithelializing', label: 'Epithelializing' },
+];
+
 export default function DressingProtocol() {
   const navigate = useNavigate();
   const { patientId, woundId } = useParams<{ patientId?: string; woundId?: string }>();
@@ -49,6 +75,7 @@ export default function DressingProtocol() {
     sterileFieldChecklist,
     materialsChecklist: _materialsChecklist,
     currentDressingSession,
+    dressingWoundAssessment,
     nextDressingStep,
     prevDressingStep,
     setDressingStep,
@@ -56,30 +83,102 @@ export default function DressingProtocol() {
     setSterileFieldChecklist,
     setMaterialsChecklist: _setMaterialsChecklist,
     setCurrentDressingSession,
+    setDressingWoundAssessment,
+    updateDressingWoundAssessment,
     resetDressingSession,
   } = usePainManagementStore();
+  const currentUser = useAppStore(state => state.currentUser);
 
   // Local state
   const [localWoundPhase, setLocalWoundPhase] = useState<WoundPhase | null>(selectedWoundPhase);
   const [sterileChecks, setSterileChecks] = useState<Record<string, boolean>>({});
   const [materialChecks, setMaterialChecks] = useState<Record<string, boolean>>({});
   const [notes, setNotes] = useState('');
+  const [tissuePrefilledFrom, setTissuePrefilledFrom] = useState<Date | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [preDressingPain, setPreDressingPain] = useState<DressingPainAssessment | null>(null);
+  const [sessionPain, setSessionPain] = useState<DressingPainAssessment[]>([]);
 
-  // Initialize session on mount
+  // Initialize session on mount; a finished session or one for another
+  // wound left in the store is discarded
   useEffect(() => {
-    if (!currentDressingSession) {
+    const stale = currentDressingSession && (
+      currentDressingSession.status !== 'in-progress' ||
+      currentDressingSession.patientId !== (patientId || '') ||
+      currentDressingSession.woundId !== woundId
+    );
+    if (!currentDressingSession || stale) {
+      if (stale) resetDressingSession();
       setCurrentDressingSession({
         id: crypto.randomUUID(),
         patientId: patientId || '',
         woundId: woundId,
-        clinicianName: '',
+        clinicianName: currentUser ? formatUserIdentity(currentUser) : '',
+        clinicianUserId: currentUser?.id,
         status: 'in-progress',
         startedAt: new Date(),
         createdAt: new Date(),
         updatedAt: new Date(),
       });
     }
-  }, [patientId, woundId, currentDressingSession, setCurrentDressingSession]);
+  }, [patientId, woundId, currentDressingSession, setCurrentDressingSession, resetDressingSession, currentUser]);
+
+  // Pre-fill wound bed tissue from the latest wound capture
+  useEffect(() => {
+    if (!woundId || !currentDressingSession?.id) return;
+    if (dressingWoundAssessment?.sessionId === currentDressingSession.id) return;
+
+    const sessionId = currentDressingSession.id;
+    const prefill = async () => {
+      try {
+        const assessments = await db.getAssessmentsForWound(woundId);
+        const latest = assessments
+          .filter(a => a.tissueTypes)
+          .sort((a, b) => new Date(b.capturedAt).getTime() - new Date(a.capturedAt).getTime())[0];
+
+        setDressingWoundAssessment({
+          id: crypto.randomUUID(),
+          patientId: patientId || '',
+          sessionId,
+          tissueType: latest?.tissueTypes ? toDressingTissueTypes(latest.tissueTypes) : [],
+          size: latest ? {
+            length: latest.measurement.length,
+            width: latest.measurement.width,
+            depth: latest.measurement.depth,
+            unit: 'cm',
+          } : undefined,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        });
+        setTissuePrefilledFrom(latest ? new Date(latest.capturedAt) : null);
+      } catch (error) {
+        console.error('Failed to load wound assessment:', error);
+      }
+    };
+    prefill();
+  }, [woundId, patientId, currentDressingSession?.id, dressingWoundAssessment?.sessionId, setDressingWoundAssessment]);
+
+  // Link the latest recent pain assessment as the pre-dressing check;
+  // readings taken in another dressing session do not count
+  useEffect(() => {
+    if (!patientId || !currentDressingSession?.id) return;
+    const sessionId = currentDressingSession.id;
+    const since = currentDressingSession.startedAt
+      ? new Date(currentDressingSession.startedAt).getTime() - PAIN_ASSESSMENT_LINK_HOURS * 3600000
+      : 0;
+    const loadPain = async () => {
+      try {
+        const latest = (await db.getPainAssessmentsForPatient(patientId))
+          .filter(a => (!a.sessionId || a.sessionId === sessionId) && new Date(a.timestamp).getTime() >= since)
+          .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
+        setPreDressingPain(latest ?? null);
+      } catch (error) {
+        console.error('Failed to load pain assessment:', error);
+      }
+    };
+    loadPain();
+  }, [patientId, currentDressingSession?.id, currentDressingSession?.startedAt]);
 
   // Initialize sterile field checks when step changes
   useEffect(() => {
@@ -118,6 +217,17 @@ export default function DressingProtocol() {
     setSelectedWoundPhase(phase);
   };
 
+  const handleTissueToggle = (tissue: DressingWoundAssessment['tissueType'][number]) => {
+    const current = dressingWoundAssessment?.tissueType || [];
+    updateDressingWoundAssessment({
+      sessionId: currentDressingSession?.id || '',
+      tissueType: current.includes(tissue)
+        ? current.filter(t => t !== tissue)
+        : [...current, tissue],
+      updatedAt: new Date(),
+    });
+  };
+
   const handleSterileCheck = (id: string, checked: boolean) => {
     setSterileChecks(prev => ({ ...prev, [id]: checked }));
     
@@ -363,6 +473,9 @@ export default function DressingProtocol() {
     <div class="phase-info">
       <div class="phase-name">${phaseConfig.displayName}</div>
       <div class="phase-desc">${phaseConfig.description}</div>
+      ${dressingWoundAssessment?.tissueType?.length ? `
+      <div class="phase-desc">Wound bed tissue: ${dressingWoundAssessment.tissueType.join(', ')}</div>
+      ` : ''}
     </div>
   </div>
   ` : ''}
@@ -477,17 +590,76 @@ export default function DressingProtocol() {
     }
   };
 
-  const handleFinish = () => {
-    // Update session as completed
-    if (currentDressingSession) {
+  const handleFinish = async () => {
+    if (!currentDressingSession?.id) return;
+
+    // Sessions are only kept when the workflow was started from a wound
+    if (!patientId) {
       setCurrentDressingSession({
         ...currentDressingSession,
         status: 'completed',
         completedAt: new Date(),
         notes,
       });
+      navigate(-1);
+      return;
+    }
+
+    setSaving(true);
+    setSaveError(null);
+    try {
+      const completedAt = new Date();
+      const sessionId = currentDressingSession.id;
+      const session = {
+        ...currentDressingSession,
+        patientId,
+        woundId,
+        woundPhase: localWoundPhase ?? undefined,
+        tissueTypes: dressingWoundAssessment?.tissueType,
+        status: 'completed',
+        completedAt,
+        notes,
+        updatedAt: completedAt,
+      } as DressingSession;
+
+      const sterileField: SterileFieldChecklist | undefined = Object.keys(sterileChecks).length > 0 ? {
+        id: sterileFieldChecklist?.id || crypto.randomUUID(),
+        sessionId,
+        cleanWorkingSurface: sterileChecks.cleanWorkingSurface ?? false,
+        handHygienePerformed: sterileChecks.handHygienePerformed ?? false,
+        sterileGloves: sterileChecks.sterileGloves ?? false,
+        dressingTrolleyPrepared: sterileChecks.dressingTrolleyPrepared ?? false,
+        wasteDisposalBagAvailable: sterileChecks.wasteDisposalBagAvailable ?? false,
+        adequateLightingEnsured: sterileChecks.adequateLightingEnsured ?? false,
+        allConfirmed: allSterileChecksComplete,
+        confirmedAt: allSterileChecksComplete ? completedAt : undefined,
+        confirmedBy: allSterileChecksComplete ? session.clinicianName : undefined,
+      } : undefined;
+
+      const materials: MaterialsChecklist | undefined = localWoundPhase ? {
+        id: crypto.randomUUID(),
+        sessionId,
+        woundPhase: localWoundPhase,
+        items: buildMaterialItems(localWoundPhase, materialChecks),
+        createdAt: completedAt,
+      } : undefined;
+
+      await db.saveDressingSessionRecord({
+        session,
+        sterileField,
+        materials,
+        postCare: localWoundPhase ? buildPostDressingCare(sessionId, localWoundPhase, completedAt) : undefined,
+        painAssessment: preDressingPain ?? undefined,
+        painReassessments: sessionPain,
+      });
+      resetDressingSession();
+      navigate(-1);
+    } catch (error) {
+      console.error('Failed to save dressing session:', error);
+      setSaveError((error as Error).message);
+    } finally {
+      setSaving(false);
     }
-    navigate(-1);
   };
 
   const handleReset = () => {
@@ -496,6 +668,54 @@ export default function DressingProtocol() {
     setSterileChecks({});
     setMaterialChecks({});
     setNotes('');
+    setTissuePrefilledFrom(null);
+    setSessionPain([]);
+  };
+
+  const handleRecordPain = (
+    point: PainReassessmentPoint,
+    reading: Parameters<typeof buildReassessment>[0]
+  ) => {
+    setSessionPain(prev => [...prev, buildReassessment(reading, point, {
+      patientId,
+      sessionId: currentDressingSession?.id,
+      baseline: preDressingPain ?? undefined,
+    })]);
+  };
+
+  const painEscalating = isPainEscalating([...(preDressingPain ? [preDressingPain] : []), ...sessionPain]);
+
+  // Pain score during or after the dressing, saved with the session
+  const renderPainCheck = (point: PainReassessmentPoint) => {
+    const readings = sessionPain.filter(a => a.reassessmentPoint === point);
+    return (
+      <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+        <h4 className="font-semibold text-gray-800">Pain {REASSESSMENT_POINTS[point].label.toLowerCase()}</h4>
+        {preDressingPain && (
+          <p className="text-sm text-gray-500">
+            Before dressing: {preDressingPain.score} / {preDressingPain.maxScore} ({preDressingPain.scaleUsed})
+          </p>
+        )}
+        {readings.map(reading => (
+          <p key={reading.id} className="text-sm text-gray-700">
+            {format(new Date(reading.timestamp), 'HH:mm')}:{' '}
+            <span className="font-medium">{reading.score} / {reading.maxScore}</span> ({reading.severity})
+          </p>
+        ))}
+        {painEscalating && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700 flex items-start gap-2">
+            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            Pain is rising. Pause if needed, give breakthrough analgesia as prescribed and escalate.
+          </div>
+        )}
+        <QuickPainScore
+          key={readings.length}
+          scale={preDressingPain?.scaleUsed ?? 'NRS'}
+          saveLabel={readings.length > 0 ? 'Record another score' : 'Record pain score'}
+          onSave={reading => handleRecordPain(point, reading)}
+        />
+      </div>
+    );
   };
 
   const currentStepIndex = STEPS.findIndex(s => s.id === currentDressingStep);
@@ -540,6 +760,33 @@ export default function DressingProtocol() {
               </div>
             </div>
 
+            <div className="bg-white border border-gray-200 rounded-lg p-6">
+              <h3 className="font-semibold text-gray-800 mb-1">Wound Bed Tissue</h3>
+              <p className="text-sm text-gray-500 mb-4">
+                {tissuePrefilledFrom
+                  ? `Pre-filled from wound capture on ${tissuePrefilledFrom.toLocaleDateString()}. Confirm or adjust.`
+                  : 'Select all tissue types present in the wound bed.'}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {TISSUE_OPTIONS.map(option => {
+                  const selected = dressingWoundAssessment?.tissueType?.includes(option.id) ?? false;
+                  return (
+                    <button
+                      key={option.id}
+                      onClick={() => handleTissueToggle(option.id)}
+                      className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+                        selected
+                          ? 'bg-astro-500 border-astro-500 text-white'
+                          : 'bg-white border-gray-300 text-gray-700 hover:border-gray-400'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
             <button
               onClick={nextDressingStep}
               className="w-full bg-astro-500 hover:bg-astro-600 text-white py-3 rounded-lg font-medium flex items-center justify-center gap-2 transition-colors"
@@ -888,6 +1135,8 @@ export default function DressingProtocol() {
               </div>
             </div>
 
+            {renderPainCheck('during_dressing')}
+
             <button
               onClick={nextDressingStep}
               className="w-full bg-astro-500 hover:bg-astro-600 text-white py-3 rounded-lg font-medium flex items-center justify-center gap-2 transition-colors"
@@ -918,6 +1167,8 @@ export default function DressingProtocol() {
               </div>
             </div>
 
+            {renderPainCheck('post_dressing')}
+
             {/* Infection Signs to Watch */}
             <div className="bg-white border border-gray-200 rounded-lg p-4">
               <h4 className="font-semibold text-gray-800 mb-3 flex items-center gap-2">
@@ -970,6 +1221,19 @@ export default function DressingProtocol() {
               Download Dressing Protocol PDF
             </button>
 
+            {!patientId && (
+              <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-700">
+                Not linked to a patient. Start the dressing protocol from a wound on the patient's record to save the session.
+              </div>
+            )}
+
+            {saveError && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700 flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4" />
+                {saveError}
+              </div>
+            )}
+
             <div className="flex gap-3">
               <button
                 onClick={handleReset}
@@ -979,10 +1243,11 @@ export default function DressingProtocol() {
               </button>
               <button
                 onClick={handleFinish}
-                className="flex-1 bg-astro-500 hover:bg-astro-600 text-white py-3 rounded-lg font-medium flex items-center justify-center gap-2 transition-colors"
+                disabled={saving}
+                className="flex-1 bg-astro-500 hover:bg-astro-600 disabled:opacity-50 text-white py-3 rounded-lg font-medium flex items-center justify-center gap-2 transition-colors"
               >
                 <Save className="w-5 h-5" />
-                Save & Close
+                {patientId ? (saving ? 'Saving...' : 'Save & Close') : 'Close'}
               </button>
             </div>
           </div>
@@ -0,0 +1,244 @@
+/**
+ * AstroWound-MEASURE Dressing Session Record
+ * Read-only view of a saved dressing session and its checklists
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ArrowLeft, Loader2, Lock, Shield, Package, ClipboardCheck, CheckCircle2, X, Activity } from 'lucide-react';
+import * as db from '@/store/database';
+import { STERILE_FIELD_ITEMS, WOUND_PHASE_CONFIG } from '@/lib/clinicalConstants';
+import { REASSESSMENT_POINTS } from '@/lib/painReassessment';
+import { PainTrendChart } from './PainTrendChart';
+import type {
+  AnalgesicAdministration,
+  DressingSessionRecord as SessionRecord,
+  MaterialItem,
+  Patient,
+  Wound,
+} from '@/types';
+
+const CheckMark: React.FC<{ checked: boolean }> = ({ checked }) => (
+  checked
+    ? <CheckCircle2 className="w-4 h-4 text-green-600 flex-shrink-0" />
+    : <X className="w-4 h-4 text-red-500 flex-shrink-0" />
+);
+
+export const DressingSessionRecord: React.FC = () => {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const navigate = useNavigate();
+  const [record, setRecord] = useState<SessionRecord | null>(null);
+  const [patient, setPatient] = useState<Patient | null>(null);
+  const [wound, setWound] = useState<Wound | null>(null);
+  const [administrations, setAdministrations] = useState<AnalgesicAdministration[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadSession = async () => {
+      if (!sessionId) return;
+      setLoading(true);
+      try {
+        const found = await db.getDressingSessionRecord(sessionId);
+        setRecord(found ?? null);
+        if (found) {
+          setPatient((await db.getPatient(found.session.patientId)) ?? null);
+          if (found.session.woundId) setWound((await db.getWound(found.session.woundId)) ?? null);
+          setAdministrations(await db.getAnalgesicAdministrationsForPatient(found.session.patientId));
+        }
+      } catch (error) {
+        console.error('Failed to load dressing session:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadSession();
+  }, [sessionId]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-astro-600" />
+      </div>
+    );
+  }
+
+  if (!record) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center gap-4">
+        <p className="text-gray-500">Dressing session not found</p>
+        <button onClick={() => navigate(-1)} className="btn-primary">
+          Go back
+        </button>
+      </div>
+    );
+  }
+
+  const { session, sterileField, materials, postCare, painAssessment, painReassessments = [] } = record;
+  const painReadings = [...(painAssessment ? [painAssessment] : []), ...painReassessments];
+  const phase = session.woundPhase ? WOUND_PHASE_CONFIG[session.woundPhase] : null;
+  // Items carry their checklist group in notes
+  const materialGroups = (materials?.items ?? []).reduce<Record<string, MaterialItem[]>>((groups, item) => {
+    const group = item.notes ?? 'Materials';
+    groups[group] = [...(groups[group] ?? []), item];
+    return groups;
+  }, {});
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm sticky top-0 z-40">
+        <div className="max-w-3xl mx-auto px-4 py-4 flex items-center gap-4">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg"
+            title="Go back"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div className="min-w-0 flex-1">
+            <h1 className="text-lg font-semibold text-gray-900">Dressing Session</h1>
+            <p className="text-sm text-gray-500 truncate">
+              {patient ? `${patient.firstName} ${patient.lastName} · MRN ${patient.mrn}` : 'Unknown patient'}
+              {wound && ` · ${wound.location.replace(/_/g, ' ')}`}
+            </p>
+          </div>
+          <span className="flex items-center gap-1 px-2 py-1 rounded bg-gray-100 text-xs font-medium text-gray-600">
+            <Lock className="w-3 h-3" />
+            Read-only
+          </span>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto p-4 space-y-4">
+        {/* Session */}
+        <div className="bg-white rounded-xl shadow-sm p-4">
+          <h2 className="font-semibold text-gray-900 mb-3 flex items-center gap-2">
+            <ClipboardCheck className="w-5 h-5 text-gray-500" />
+            Session
+          </h2>
+          <dl className="grid grid-cols-2 gap-3 text-sm">
+            <div>
+              <dt className="text-gray-500">Started</dt>
+              <dd className="font-medium text-gray-900">{format(new Date(session.startedAt), 'MMM d, yyyy HH:mm')}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Completed</dt>
+              <dd className="font-medium text-gray-900">
+                {session.completedAt ? format(new Date(session.completedAt), 'MMM d, yyyy HH:mm') : session.status}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Clinician</dt>
+              <dd className="font-medium text-gray-900">{session.clinicianName || '—'}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Pain before dressing</dt>
+              <dd className="font-medium text-gray-900">
+                {painAssessment ? `${painAssessment.score} / ${painAssessment.maxScore} (${painAssessment.scaleUsed})` : 'Not linked'}
+              </dd>
+            </div>
+          </dl>
+          {phase && (
+            <div className={`mt-4 p-3 rounded-lg border ${phase.bgColor} ${phase.borderColor}`}>
+              <p className={`font-medium ${phase.color}`}>{phase.name}</p>
+              <p className="text-sm text-gray-600">{phase.description}</p>
+              {session.tissueTypes && session.tissueTypes.length > 0 && (
+                <p className="text-sm text-gray-600 mt-1 capitalize">Wound bed: {session.tissueTypes.join(', ')}</p>
+              )}
+            </div>
+          )}
+          {session.notes && <p className="mt-3 text-sm text-gray-700 whitespace-pre-wrap">{session.notes}</p>}
+        </div>
+
+        {/* Pain through the session */}
+        {painReassessments.length > 0 && (
+          <div className="bg-white rounded-xl shadow-sm p-4">
+            <h2 className="font-semibold text-gray-900 mb-3 flex items-center gap-2">
+              <Activity className="w-5 h-5 text-gray-500" />
+              Pain During Session
+            </h2>
+            <PainTrendChart assessments={painReadings} administrations={administrations} />
+            <ul className="mt-3 space-y-1 text-sm">
+              {painReassessments.map(reading => (
+                <li key={reading.id} className="flex justify-between gap-3">
+                  <span className="text-gray-600">
+                    {format(new Date(reading.timestamp), 'HH:mm')} ·{' '}
+                    {reading.reassessmentPoint ? REASSESSMENT_POINTS[reading.reassessmentPoint].label : 'Reassessment'}
+                  </span>
+                  <span className="font-medium text-gray-900">
+                    {reading.score} / {reading.maxScore} ({reading.severity})
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Sterile field */}
+        {sterileField && (
+          <div className="bg-white rounded-xl shadow-sm p-4">
+            <h2 className="font-semibold text-gray-900 mb-3 flex items-center gap-2">
+              <Shield className="w-5 h-5 text-gray-500" />
+              Sterile Field
+            </h2>
+            <ul className="space-y-1 text-sm">
+              {STERILE_FIELD_ITEMS.map(item => (
+                <li key={item.id} className="flex items-center gap-2 text-gray-700">
+                  <CheckMark checked={Boolean(sterileField[item.id as keyof typeof sterileField])} />
+                  {item.label}
+                </li>
+              ))}
+            </ul>
+            {sterileField.confirmedAt && (
+              <p className="mt-2 text-xs text-gray-500">
+                Confirmed {format(new Date(sterileField.confirmedAt), 'MMM d, yyyy HH:mm')}
+                {sterileField.confirmedBy && ` by ${sterileField.confirmedBy}`}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Materials */}
+        {materials && (
+          <div className="bg-white rounded-xl shadow-sm p-4">
+            <h2 className="font-semibold text-gray-900 mb-3 flex items-center gap-2">
+              <Package className="w-5 h-5 text-gray-500" />
+              Materials
+            </h2>
+            <div className="grid sm:grid-cols-2 gap-4 text-sm">
+              {Object.entries(materialGroups).map(([group, items]) => (
+                <div key={group}>
+                  <p className="font-medium text-gray-700 mb-1">{group}</p>
+                  <ul className="space-y-1">
+                    {items.map(item => (
+                      <li key={item.name} className="flex items-center gap-2 text-gray-600">
+                        <CheckMark checked={item.checked} />
+                        {item.name}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Post-dressing care */}
+        {postCare && (
+          <div className="bg-white rounded-xl shadow-sm p-4 space-y-2 text-sm">
+            <h2 className="font-semibold text-gray-900">Post-Dressing Care</h2>
+            <p className="text-gray-700">
+              Next dressing due {format(new Date(postCare.nextDressingDue), 'MMM d, yyyy')} ({postCare.dressingChangeFrequency.toLowerCase()})
+            </p>
+            <p className="text-gray-600">Expected progress: {postCare.expectedProgress}</p>
+            <ul className="ml-5 list-disc text-gray-600">
+              {postCare.patientInstructions.map(instruction => <li key={instruction}>{instruction}</li>)}
+            </ul>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default DressingSessionRecord;
@@ -0,0 +1,155 @@
+/**
+ * AstroWound-MEASURE Infection Screen Panel
+ * NERDS and STONEES criteria with auto-derived answers and escalation advice
+ */
+
+import React from 'react';
+import { ShieldAlert, AlertCircle, AlertTriangle, TrendingUp } from 'lucide-react';
+import {
+  INFECTION_RISK_CONFIG,
+  INFECTION_SCREEN_ITEMS,
+  INFECTION_SCREEN_SPEC,
+  INFECTION_SCREEN_TOOLS,
+  computeInfectionScreen,
+  deriveInfectionScreenItems,
+  type InfectionScreenInput,
+} from '@/lib/infectionScreen';
+import type { InfectionScreenTool } from '@/types';
+
+interface InfectionScreenPanelProps {
+  input: InfectionScreenInput;
+  responses: Record<string, boolean>;
+  onChange: (responses: Record<string, boolean>) => void;
+}
+
+const TOOLS: InfectionScreenTool[] = ['nerds', 'stonees'];
+
+const RISK_STYLES = {
+  none: 'bg-green-50 border-green-200 text-green-800',
+  superficial: 'bg-amber-50 border-amber-200 text-amber-800',
+  deep: 'bg-red-50 border-red-200 text-red-800',
+} as const;
+
+export const InfectionScreenPanel: React.FC<InfectionScreenPanelProps> = ({ input, responses, onChange }) => {
+  const derived = deriveInfectionScreenItems(input);
+  const screen = computeInfectionScreen(input, responses);
+
+  const setResponse = (itemId: string, present: boolean | null) => {
+    const next = { ...responses };
+    if (present === null) {
+      delete next[itemId];
+    } else {
+      next[itemId] = present;
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6">
+      <div className="flex items-center gap-2 mb-1">
+        <ShieldAlert className="w-5 h-5 text-gray-500" />
+        <h3 className="font-semibold">Infection Screen</h3>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        {TOOLS.map(tool => `${INFECTION_SCREEN_TOOLS[tool].name}: ${INFECTION_SCREEN_TOOLS[tool].description.toLowerCase()}`).join('; ')}.
+        {' '}{INFECTION_SCREEN_SPEC.positiveThreshold} or more criteria is positive.
+      </p>
+
+      {/* Items */}
+      <div className="space-y-2">
+        {INFECTION_SCREEN_ITEMS.map(item => {
+          const response = responses[item.id];
+          const auto = derived[item.id];
+          const value = response ?? auto;
+          const missing = value === undefined;
+
+          return (
+            <div
+              key={item.id}
+              className={`rounded-lg p-3 flex items-center gap-3 ${missing ? 'bg-amber-50 border border-amber-200' : 'bg-gray-50'}`}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="text-sm font-medium text-gray-700">{item.label}</p>
+                  {item.tools.map(tool => (
+                    <span key={tool} className="px-1.5 py-0.5 rounded bg-gray-200 text-[10px] font-semibold text-gray-600">
+                      {INFECTION_SCREEN_TOOLS[tool].name}
+                    </span>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500">{item.hint}</p>
+              </div>
+
+              {response !== undefined && auto !== undefined ? (
+                <button
+                  onClick={() => setResponse(item.id, null)}
+                  className="text-xs text-astro-600 hover:text-astro-700"
+                >
+                  Use auto ({auto ? 'yes' : 'no'})
+                </button>
+              ) : response === undefined && auto !== undefined ? (
+                <span className="text-xs px-2 py-0.5 rounded-full bg-astro-100 text-astro-700">Auto</span>
+              ) : missing ? (
+                <span className="flex items-center gap-1 text-xs text-amber-700">
+                  <AlertCircle className="w-3 h-3" />
+                  Required
+                </span>
+              ) : null}
+
+              <div className="flex rounded-lg border border-gray-200 overflow-hidden text-sm">
+                {([true, false] as const).map(option => (
+                  <button
+                    key={String(option)}
+                    type="button"
+                    onClick={() => setResponse(item.id, option)}
+                    aria-pressed={value === option}
+                    className={`px-3 py-1 ${
+                      value === option
+                        ? option ? 'bg-red-500 text-white' : 'bg-gray-600 text-white'
+                        : 'bg-white text-gray-600 hover:bg-gray-50'
+                    }`}
+                  >
+                    {option ? 'Yes' : 'No'}
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Supporting trends */}
+      {screen.signals.length > 0 && (
+        <div className="mt-4 space-y-1">
+          {screen.signals.map(signal => (
+            <p key={signal} className="flex items-center gap-2 text-sm text-gray-700">
+              <TrendingUp className="w-4 h-4 text-clinical-warning" />
+              {signal}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {/* Result */}
+      <div className={`mt-4 p-3 rounded-lg border ${RISK_STYLES[screen.risk]}`}>
+        <div className="flex items-center justify-between gap-3">
+          <p className="flex items-center gap-2 font-medium">
+            {screen.risk !== 'none' && <AlertTriangle className="w-4 h-4" />}
+            {INFECTION_RISK_CONFIG[screen.risk].label}
+          </p>
+          <p className="text-sm">
+            {TOOLS.map(tool => `${INFECTION_SCREEN_TOOLS[tool].name} ${screen.totals[tool]}`).join(' · ')}
+          </p>
+        </div>
+        <p className="mt-1 text-sm">{INFECTION_RISK_CONFIG[screen.risk].action}</p>
+        {!screen.complete && (
+          <p className="mt-1 text-xs">
+            {screen.missingItems.length} item{screen.missingItems.length === 1 ? '' : 's'} still to answer
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InfectionScreenPanel;
@@ -0,0 +1,178 @@
+/**
+ * AstroWound-MEASURE Lock Screen
+ * PIN/passphrase setup and unlock for the encrypted local database
+ */
+
+import React, { useState } from 'react';
+import { Lock, Loader2, AlertCircle, Trash2, ShieldCheck } from 'lucide-react';
+import { useAppStore } from '@/store';
+import * as db from '@/store/database';
+import { ENCRYPTION_SPEC } from '@/lib/encryption';
+
+export const LockScreen: React.FC = () => {
+  const { encryptionState, setEncryptionState } = useAppStore();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showErase, setShowErase] = useState(false);
+  const isSetup = encryptionState === 'unconfigured';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (isSetup) {
+      if (passphrase.length < ENCRYPTION_SPEC.minPassphraseLength) {
+        setError(`Use at least ${ENCRYPTION_SPEC.minPassphraseLength} characters`);
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError('The two entries do not match');
+        return;
+      }
+    }
+
+    setBusy(true);
+    try {
+      if (isSetup) {
+        await db.setupEncryption(passphrase);
+      } else if (!(await db.unlockDatabase(passphrase))) {
+        setError('Incorrect PIN or passphrase');
+        return;
+      }
+      setPassphrase('');
+      setConfirmation('');
+      setEncryptionState('unlocked');
+    } catch (err) {
+      console.error('Failed to unlock database:', err);
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleErase = async () => {
+    setBusy(true);
+    try {
+      await db.eraseEncryptedData();
+      setShowErase(false);
+      setPassphrase('');
+      setEncryptionState('unconfigured');
+    } catch (err) {
+      console.error('Failed to erase data:', err);
+      setError('Failed to erase data');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-astro-500 to-astro-700 flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-xl max-w-sm w-full p-6 space-y-4">
+        <div className="text-center">
+          <div className="w-16 h-16 rounded-full bg-astro-100 flex items-center justify-center mx-auto mb-3">
+            {isSetup ? <ShieldCheck className="w-8 h-8 text-astro-600" /> : <Lock className="w-8 h-8 text-astro-600" />}
+          </div>
+          <h1 className="text-xl font-bold text-gray-900">
+            {isSetup ? 'Protect patient data' : 'AstroWound-MEASURE is locked'}
+          </h1>
+          <p className="text-sm text-gray-500 mt-1">
+            {isSetup
+              ? 'Choose a PIN or passphrase. Patient records and wound photos on this device are encrypted with it. It cannot be recovered if forgotten.'
+              : 'Enter the PIN or passphrase for this device'}
+          </p>
+        </div>
+
+        <div>
+          <label htmlFor="lock-passphrase" className="block text-sm font-medium text-gray-700 mb-1">
+            PIN or passphrase
+          </label>
+          <input
+            id="lock-passphrase"
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            autoComplete={isSetup ? 'new-password' : 'current-password'}
+            autoFocus
+          />
+        </div>
+        {isSetup && (
+          <div>
+            <label htmlFor="lock-confirmation" className="block text-sm font-medium text-gray-700 mb-1">
+              Confirm
+            </label>
+            <input
+              id="lock-confirmation"
+              type="password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              autoComplete="new-password"
+            />
+          </div>
+        )}
+
+        {error && (
+          <p className="flex items-center gap-2 text-sm text-red-700">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </p>
+        )}
+
+        <button
+          type="submit"
+          disabled={busy || !passphrase}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-astro-500 text-white rounded-lg font-medium hover:bg-astro-600 disabled:opacity-50"
+        >
+          {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+          {isSetup ? 'Set PIN and encrypt' : 'Unlock'}
+        </button>
+
+        {!isSetup && (
+          <button
+            type="button"
+            onClick={() => setShowErase(true)}
+            className="w-full text-sm text-gray-500 hover:text-gray-700"
+          >
+            Forgot PIN?
+          </button>
+        )}
+      </form>
+
+      {/* Erase Confirmation Modal */}
+      {showErase && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-2xl shadow-xl max-w-sm w-full p-6">
+            <div className="w-16 h-16 rounded-full bg-red-100 flex items-center justify-center mx-auto mb-4">
+              <Trash2 className="w-8 h-8 text-red-600" />
+            </div>
+            <h3 className="text-xl font-bold text-gray-900 text-center mb-2">Erase this device?</h3>
+            <p className="text-gray-500 text-center mb-6">
+              Without the PIN the encrypted records cannot be read. Erasing deletes all patients,
+              wounds, assessments and photos on this device, including changes not yet synced.
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={() => setShowErase(false)}
+                className="flex-1 btn-secondary"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleErase}
+                disabled={busy}
+                className="flex-1 btn-danger"
+              >
+                {busy ? 'Erasing...' : 'Erase'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LockScreen;
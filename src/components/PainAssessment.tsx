@@ -6,7 +6,9 @@
 import { useState, useEffect } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { usePainManagementStore, type PainAssessmentStep } from '@/store/painManagementStore';
-import { useAppStore } from '@/store';
+import { useAppStore, usePatientsStore } from '@/store';
+import * as db from '@/store/database';
+import { formatUserIdentity } from '@/lib/permissions';
 import {
   PAIN_SCALES,
   COMORBIDITY_INFO,
@@ -15,8 +17,11 @@ import {
 } from '@/lib/clinicalConstants';
 import { getComorbidityOptions } from '@/lib/comorbidityEngine';
 import { getWHOStep, getSuitabilityBadge } from '@/lib/analgesicEngine';
+import { getScaleSeverity, isItemisedPainScale, scorePainScaleItems } from '@/lib/painScales';
 import { getRedFlagBadge } from '@/lib/safetyModule';
-import type { PainScaleType, PainType, PatientCategory, PainContext } from '@/types';
+import { PainScaleItems } from './PainScaleItems';
+import { AnalgesicDoseDetails } from './AnalgesicDoseDetails';
+import type { PainScaleType, PainType, PatientCategory, PainContext, DressingPainAssessment, Patient } from '@/types';
 import {
   ArrowLeft,
   ArrowRight,
@@ -40,16 +45,32 @@ const STEPS: { id: PainAssessmentStep; label: string; icon: React.ReactNode }[]
   { id: 'summary', label: 'Summary', icon: <FileText className="w-4 h-4" /> },
 ];
 
+const ageInYears = (patient: Patient | null) =>
+  patient?.dateOfBirth
+    ? Math.floor((Date.now() - new Date(patient.dateOfBirth).getTime()) / 31557600000)
+    : 45;
+
+const initialsOf = (patient: Patient | null) =>
+  patient ? `${patient.firstName[0]}${patient.lastName[0]}` : '';
+
+const splitList = (value: string) => value.split(',').map(s => s.trim()).filter(Boolean);
+
+const sameList = (a: string[] = [], b: string[] = []) =>
+  a.length === b.length && a.every((item, i) => item === b[i]);
+
 export default function PainAssessment() {
   const navigate = useNavigate();
-  const { patientId } = useParams<{ patientId?: string; woundId?: string }>();
+  const { patientId, woundId } = useParams<{ patientId?: string; woundId?: string }>();
   
   const {
     currentPainStep,
+    patientInfo,
     comorbidities,
     currentAssessment,
     riskFlags,
     recommendations,
+    analgesicPlan,
+    proceduralPlan,
     monitoringPlan,
     redFlags,
     setPainStep,
@@ -64,28 +85,55 @@ export default function PainAssessment() {
   } = usePainManagementStore();
 
   const currentPatient = useAppStore(state => state.currentPatient);
+  const setCurrentPatient = useAppStore(state => state.setCurrentPatient);
+  const currentUser = useAppStore(state => state.currentUser);
+  const updatePatient = usePatientsStore(state => state.updatePatient);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // The patient in the route, once loaded; otherwise whoever is selected
+  const [patient, setPatient] = useState<Patient | null>(
+    !patientId || currentPatient?.id === patientId ? currentPatient : null
+  );
 
   // Local form state
-  const [localAge, setLocalAge] = useState(
-    currentPatient?.dateOfBirth 
-      ? Math.floor((Date.now() - new Date(currentPatient.dateOfBirth).getTime()) / 31557600000)
-      : 45
-  );
+  const [localAge, setLocalAge] = useState(ageInYears(patient));
   const [localWeight, setLocalWeight] = useState(70);
   const [localCategory, setLocalCategory] = useState<PatientCategory>('adult');
-  const [localInitials, setLocalInitials] = useState(
-    currentPatient 
-      ? `${currentPatient.firstName[0]}${currentPatient.lastName[0]}`
-      : ''
-  );
+  const [localInitials, setLocalInitials] = useState(initialsOf(patient));
+
+  const [localMedications, setLocalMedications] = useState(patient?.currentMedications?.join(', ') ?? '');
+  const [localAllergies, setLocalAllergies] = useState(patient?.allergies?.join(', ') ?? '');
 
   const [localPainScore, setLocalPainScore] = useState(5);
   const [localPainScale, setLocalPainScale] = useState<PainScaleType>('NRS');
+  const [localItemResponses, setLocalItemResponses] = useState<Record<string, number>>({});
   const [localPainContext, setLocalPainContext] = useState<PainContext>('rest');
   const [localPainType, setLocalPainType] = useState<PainType>('nociceptive');
   const [localPainLocation, setLocalPainLocation] = useState('');
   const [localPainDescription, _setLocalPainDescription] = useState('');
 
+  useEffect(() => {
+    if (!patientId) return;
+    let cancelled = false;
+
+    db.getPatient(patientId)
+      .then(found => {
+        if (cancelled || !found) return;
+        setPatient(found);
+        setCurrentPatient(found);
+        setLocalAge(ageInYears(found));
+        setLocalInitials(initialsOf(found));
+        setLocalMedications(found.currentMedications?.join(', ') ?? '');
+        setLocalAllergies(found.allergies?.join(', ') ?? '');
+      })
+      .catch(error => console.error('Failed to load patient:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [patientId]);
+
   // Update category based on age
   useEffect(() => {
     if (localAge < 1) setLocalCategory('neonate');
@@ -102,25 +150,34 @@ export default function PainAssessment() {
       ageUnit: 'years',
       weight: localWeight,
       category: localCategory,
-      gender: currentPatient?.gender || 'other',
+      gender: patient?.gender || 'other',
+      currentMedications: splitList(localMedications),
+      allergies: splitList(localAllergies),
     });
     nextPainStep();
   };
 
-  const handleSavePainAssessment = () => {
-    const severity = localPainScore <= 3 ? 'mild' as const
-      : localPainScore <= 6 ? 'moderate' as const
-      : 'severe' as const;
+  // Behavioral scales and Wong-Baker are totalled from their items
+  const isItemised = isItemisedPainScale(localPainScale);
+  const itemResult = scorePainScaleItems(localPainScale, localItemResponses);
+  const painScore = isItemised ? itemResult.score : localPainScore;
+  const painSeverity = getScaleSeverity(localPainScale, painScore);
 
+  const handleSelectPainScale = (scale: PainScaleType) => {
+    setLocalPainScale(scale);
+    setLocalItemResponses({});
+  };
+
+  const handleSavePainAssessment = () => {
     setCurrentAssessment({
       id: crypto.randomUUID(),
       sessionId: '',
       patientId: patientId || '',
       timestamp: new Date(),
       scaleUsed: localPainScale,
-      score: localPainScore,
+      score: painScore,
       maxScore: PAIN_SCALES[localPainScale]?.maxScore || 10,
-      severity,
+      severity: painSeverity,
       painType: localPainType,
       painDuration: 'acute',
       painContext: localPainContext,
@@ -130,6 +187,7 @@ export default function PainAssessment() {
       relievingFactors: [],
       proceduralPainAnticipated: localPainContext === 'procedural',
       analgesiaGuidance: '',
+      itemScores: isItemised ? itemResult.itemScores : undefined,
       createdAt: new Date(),
     });
     nextPainStep();
@@ -140,14 +198,72 @@ export default function PainAssessment() {
     nextPainStep();
   };
 
-  const handleFinish = () => {
-    navigate(-1);
+  const handleFinish = async () => {
+    // Plans are only kept when the workflow was started from a patient
+    if (!patientId) {
+      navigate(-1);
+      return;
+    }
+    if (!patientInfo || !currentAssessment?.id || !analgesicPlan || !monitoringPlan) {
+      setSaveError('Complete the assessment and generate recommendations before saving.');
+      return;
+    }
+
+    setSaving(true);
+    setSaveError(null);
+    try {
+      // Medications and allergies edited here belong to the patient record
+      if (patient?.id === patientId && (
+        !sameList(patient.currentMedications, patientInfo.currentMedications) ||
+        !sameList(patient.allergies, patientInfo.allergies)
+      )) {
+        const updated = {
+          ...patient,
+          currentMedications: patientInfo.currentMedications,
+          allergies: patientInfo.allergies,
+        };
+        await updatePatient(updated);
+        setPatient(updated);
+        setCurrentPatient(updated);
+      }
+
+      const now = new Date();
+      await db.savePainManagementPlan({
+        id: crypto.randomUUID(),
+        patientId,
+        woundId,
+        createdAt: now,
+        updatedAt: now,
+        clinician: {
+          name: currentUser ? formatUserIdentity(currentUser) : '',
+          role: currentUser?.role ?? '',
+        },
+        patient: { ...patientInfo, id: patientId },
+        painAssessment: { ...(currentAssessment as DressingPainAssessment), patientId },
+        comorbidities,
+        riskFlags,
+        analgesicPlan,
+        proceduralPlan: proceduralPlan ?? undefined,
+        monitoringPlan,
+        redFlags,
+        notes: '',
+        legalDisclaimer: LEGAL_DISCLAIMER.trim(),
+      });
+      resetPainAssessment();
+      navigate(-1);
+    } catch (error) {
+      console.error('Failed to save pain management plan:', error);
+      setSaveError((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
   };
 
   const handleReset = () => {
     resetPainAssessment();
     setLocalPainScore(5);
     setLocalPainScale('NRS');
+    setLocalItemResponses({});
     setLocalPainContext('rest');
     setLocalPainType('nociceptive');
   };
@@ -227,6 +343,34 @@ export default function PainAssessment() {
               </div>
             </div>
 
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Current Medications
+                </label>
+                <textarea
+                  value={localMedications}
+                  onChange={e => setLocalMedications(e.target.value)}
+                  rows={2}
+                  placeholder="Warfarin, Sertraline, Ramipril (comma separated)"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-astro-500 focus:border-transparent resize-none"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Allergies
+                </label>
+                <textarea
+                  value={localAllergies}
+                  onChange={e => setLocalAllergies(e.target.value)}
+                  rows={2}
+                  placeholder="NSAIDs, Codeine (comma separated)"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-astro-500 focus:border-transparent resize-none"
+                />
+              </div>
+              <p className="text-xs text-gray-500">Checked for drug and allergy interactions with the recommended analgesics.</p>
+            </div>
+
             <button
               onClick={handleSavePatientInfo}
               className="w-full bg-astro-500 hover:bg-astro-600 text-white py-3 rounded-lg font-medium flex items-center justify-center gap-2 transition-colors"
@@ -254,7 +398,7 @@ export default function PainAssessment() {
                   return (
                     <button
                       key={scale}
-                      onClick={() => isApplicable && setLocalPainScale(scale)}
+                      onClick={() => isApplicable && handleSelectPainScale(scale)}
                       disabled={!isApplicable}
                       className={`p-3 rounded-lg border text-left transition-all ${
                         isSelected
@@ -273,48 +417,56 @@ export default function PainAssessment() {
             </div>
 
             {/* Pain Score */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Pain Score: <span className="text-astro-600 font-bold">{localPainScore}</span> / {PAIN_SCALES[localPainScale]?.maxScore || 10}
-              </label>
-              <input
-                type="range"
-                min={0}
-                max={PAIN_SCALES[localPainScale]?.maxScore || 10}
-                value={localPainScore}
-                onChange={e => setLocalPainScore(Number(e.target.value))}
-                className="w-full h-3 rounded-full appearance-none cursor-pointer"
-                style={{
-                  background: `linear-gradient(to right, 
-                    #22c55e 0%, 
-                    #eab308 50%, 
-                    #ef4444 100%)`
-                }}
+            {isItemised ? (
+              <PainScaleItems
+                scale={localPainScale}
+                responses={localItemResponses}
+                onChange={setLocalItemResponses}
               />
-              <div className="flex justify-between text-xs text-gray-500 mt-1">
-                <span>No Pain</span>
-                <span>Moderate</span>
-                <span>Severe</span>
+            ) : (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Pain Score: <span className="text-astro-600 font-bold">{localPainScore}</span> / {PAIN_SCALES[localPainScale]?.maxScore || 10}
+                </label>
+                <input
+                  type="range"
+                  min={0}
+                  max={PAIN_SCALES[localPainScale]?.maxScore || 10}
+                  value={localPainScore}
+                  onChange={e => setLocalPainScore(Number(e.target.value))}
+                  className="w-full h-3 rounded-full appearance-none cursor-pointer"
+                  style={{
+                    background: `linear-gradient(to right, 
+                      #22c55e 0%, 
+                      #eab308 50%, 
+                      #ef4444 100%)`
+                  }}
+                />
+                <div className="flex justify-between text-xs text-gray-500 mt-1">
+                  <span>No Pain</span>
+                  <span>Moderate</span>
+                  <span>Severe</span>
+                </div>
               </div>
-            </div>
+            )}
 
             {/* WHO Ladder Step Indicator */}
             <div className="bg-gradient-to-r from-blue-50 to-indigo-50 border border-blue-200 rounded-lg p-4">
               <div className="flex items-center gap-3">
                 <div className={`w-10 h-10 rounded-full flex items-center justify-center text-white font-bold ${
-                  localPainScore <= 3 ? 'bg-green-500' :
-                  localPainScore <= 6 ? 'bg-amber-500' : 'bg-red-500'
+                  painSeverity === 'severe' ? 'bg-red-500' :
+                  painSeverity === 'moderate' ? 'bg-amber-500' : 'bg-green-500'
                 }`}>
-                  {getWHOStep(localPainScore <= 3 ? 'mild' : localPainScore <= 6 ? 'moderate' : 'severe')}
+                  {getWHOStep(painSeverity)}
                 </div>
                 <div>
                   <div className="font-medium text-gray-800">
-                    WHO Ladder Step {getWHOStep(localPainScore <= 3 ? 'mild' : localPainScore <= 6 ? 'moderate' : 'severe')}
+                    WHO Ladder Step {getWHOStep(painSeverity)}
                   </div>
                   <div className="text-sm text-gray-600">
-                    {localPainScore <= 3 ? 'Mild pain: Non-opioid ± adjuvant' :
-                     localPainScore <= 6 ? 'Moderate pain: Weak opioid ± non-opioid ± adjuvant' :
-                     'Severe pain: Strong opioid ± non-opioid ± adjuvant'}
+                    {painSeverity === 'severe' ? 'Severe pain: Strong opioid ± non-opioid ± adjuvant' :
+                     painSeverity === 'moderate' ? 'Moderate pain: Weak opioid ± non-opioid ± adjuvant' :
+                     'Mild pain: Non-opioid ± adjuvant'}
                   </div>
                 </div>
               </div>
@@ -380,7 +532,8 @@ export default function PainAssessment() {
 
             <button
               onClick={handleSavePainAssessment}
-              className="w-full bg-astro-500 hover:bg-astro-600 text-white py-3 rounded-lg font-medium flex items-center justify-center gap-2 transition-colors"
+              disabled={isItemised && !itemResult.complete}
+              className="w-full bg-astro-500 hover:bg-astro-600 disabled:opacity-50 text-white py-3 rounded-lg font-medium flex items-center justify-center gap-2 transition-colors"
             >
               Continue to Medical History
               <ArrowRight className="w-5 h-5" />
@@ -583,6 +736,8 @@ export default function PainAssessment() {
                             ⚠ {rec.doseAdjustment}
                           </p>
                         )}
+
+                        {rec.dosing && <AnalgesicDoseDetails dosing={rec.dosing} />}
                         
                         <div className="flex flex-wrap gap-1 mt-2">
                           {rec.routes.map(route => (
@@ -663,7 +818,7 @@ export default function PainAssessment() {
               <div className="bg-white border border-gray-200 rounded-lg p-4">
                 <div className="text-sm text-gray-500">Pain Score</div>
                 <div className="text-2xl font-bold text-gray-800">
-                  {currentAssessment?.score || localPainScore} / {currentAssessment?.maxScore || 10}
+                  {currentAssessment?.score ?? painScore} / {currentAssessment?.maxScore || 10}
                 </div>
               </div>
               <div className="bg-white border border-gray-200 rounded-lg p-4">
@@ -682,11 +837,40 @@ export default function PainAssessment() {
               </div>
             </div>
 
+            {currentAssessment?.itemScores && currentAssessment.itemScores.length > 0 && (
+              <div className="bg-white border border-gray-200 rounded-lg p-4">
+                <div className="text-sm text-gray-500 mb-2">
+                  {PAIN_SCALES[currentAssessment.scaleUsed ?? localPainScale].name} Items
+                </div>
+                <ul className="space-y-1 text-sm">
+                  {currentAssessment.itemScores.map(item => (
+                    <li key={item.itemId} className="flex justify-between gap-3">
+                      <span className="text-gray-700">{item.label}: {item.descriptor}</span>
+                      <span className="font-medium text-gray-800">{item.score}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {/* Legal Disclaimer */}
             <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-xs text-gray-500">
               {LEGAL_DISCLAIMER}
             </div>
 
+            {!patientId && (
+              <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-700">
+                Not linked to a patient. Start the pain assessment from a patient's record to save the plan.
+              </div>
+            )}
+
+            {saveError && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700 flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4" />
+                {saveError}
+              </div>
+            )}
+
             <div className="flex gap-3">
               <button
                 onClick={handleReset}
@@ -696,10 +880,11 @@ export default function PainAssessment() {
               </button>
               <button
                 onClick={handleFinish}
-                className="flex-1 bg-astro-500 hover:bg-astro-600 text-white py-3 rounded-lg font-medium flex items-center justify-center gap-2 transition-colors"
+                disabled={saving}
+                className="flex-1 bg-astro-500 hover:bg-astro-600 disabled:opacity-50 text-white py-3 rounded-lg font-medium flex items-center justify-center gap-2 transition-colors"
               >
                 <Save className="w-5 h-5" />
-                Save & Close
+                {patientId ? (saving ? 'Saving...' : 'Save & Close') : 'Close'}
               </button>
             </div>
           </div>
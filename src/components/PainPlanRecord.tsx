@@ -0,0 +1,291 @@
+/**
+ * AstroWound-MEASURE Pain Plan Record
+ * Read-only view of a saved pain management plan
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ArrowLeft, Loader2, Lock, Pill, AlertTriangle, Stethoscope, Printer } from 'lucide-react';
+import * as db from '@/store/database';
+import {
+  ANALGESIC_CLASSES,
+  COMORBIDITY_INFO,
+  PAIN_SCALES,
+  RISK_LEVEL_CONFIG,
+} from '@/lib/clinicalConstants';
+import { getSuitabilityBadge, getWHOStep } from '@/lib/analgesicEngine';
+import { getRedFlagBadge } from '@/lib/safetyModule';
+import { AnalgesicDoseDetails } from './AnalgesicDoseDetails';
+import { PainReassessmentPanel } from './PainReassessmentPanel';
+import type { AnalgesicRecommendation, Patient, PainManagementPlan } from '@/types';
+
+const RecommendationRow: React.FC<{ rec: AnalgesicRecommendation }> = ({ rec }) => {
+  const badge = getSuitabilityBadge(rec.suitability);
+  return (
+    <div className="p-3 border border-gray-200 rounded-lg">
+      <div className="flex items-center gap-2">
+        <p className="font-medium text-gray-900">{ANALGESIC_CLASSES[rec.class]?.displayName ?? rec.class}</p>
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${badge.bg} ${badge.text}`}>
+          {rec.suitability}
+        </span>
+      </div>
+      <p className="text-sm text-gray-600 mt-1">{rec.rationale}</p>
+      {rec.doseAdjustment && <p className="text-sm text-amber-700 mt-1">{rec.doseAdjustment}</p>}
+      {rec.dosing && <AnalgesicDoseDetails dosing={rec.dosing} />}
+      <p className="text-xs text-gray-500 mt-1 capitalize">{rec.routes.join(', ')}</p>
+    </div>
+  );
+};
+
+export const PainPlanRecord: React.FC = () => {
+  const { planId } = useParams<{ planId: string }>();
+  const navigate = useNavigate();
+  const [plan, setPlan] = useState<PainManagementPlan | null>(null);
+  const [patient, setPatient] = useState<Patient | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadPlan = async () => {
+      if (!planId) return;
+      setLoading(true);
+      try {
+        const record = await db.getPainManagementPlan(planId);
+        setPlan(record ?? null);
+        if (record) setPatient((await db.getPatient(record.patientId)) ?? null);
+      } catch (error) {
+        console.error('Failed to load pain management plan:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadPlan();
+  }, [planId]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-astro-600" />
+      </div>
+    );
+  }
+
+  if (!plan) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center gap-4">
+        <p className="text-gray-500">Pain management plan not found</p>
+        <button onClick={() => navigate(-1)} className="btn-primary">
+          Go back
+        </button>
+      </div>
+    );
+  }
+
+  const { painAssessment, analgesicPlan, monitoringPlan } = plan;
+  const monitoringRows: [string, string | undefined][] = [
+    ['Sedation', monitoringPlan.sedationMonitoring.required ? monitoringPlan.sedationMonitoring.frequency : undefined],
+    ['Respiratory', monitoringPlan.respiratoryMonitoring.required ? monitoringPlan.respiratoryMonitoring.frequency : undefined],
+    ['Cardiovascular', monitoringPlan.cardiovascularMonitoring.required ? monitoringPlan.cardiovascularMonitoring.frequency : undefined],
+    ['Renal function', monitoringPlan.renalMonitoring.required ? monitoringPlan.renalMonitoring.frequency : undefined],
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm sticky top-0 z-40 print:static print:shadow-none">
+        <div className="max-w-3xl mx-auto px-4 py-4 flex items-center gap-4">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg print:hidden"
+            title="Go back"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div className="min-w-0 flex-1">
+            <h1 className="text-lg font-semibold text-gray-900">Pain Management Plan</h1>
+            <p className="text-sm text-gray-500 truncate">
+              {patient ? `${patient.firstName} ${patient.lastName} · MRN ${patient.mrn}` : 'Unknown patient'}
+              {` · ${format(new Date(plan.createdAt), 'MMM d, yyyy HH:mm')}`}
+            </p>
+          </div>
+          <span className="flex items-center gap-1 px-2 py-1 rounded bg-gray-100 text-xs font-medium text-gray-600">
+            <Lock className="w-3 h-3" />
+            Read-only
+          </span>
+          <button
+            onClick={() => window.print()}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg print:hidden"
+            title="Print plan"
+          >
+            <Printer className="w-5 h-5" />
+          </button>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto p-4 space-y-4">
+        {/* Assessment */}
+        <div className="bg-white rounded-xl shadow-sm p-4">
+          <h2 className="font-semibold text-gray-900 mb-3 flex items-center gap-2">
+            <Stethoscope className="w-5 h-5 text-gray-500" />
+            Pain Assessment
+          </h2>
+          <dl className="grid grid-cols-2 sm:grid-cols-3 gap-3 text-sm">
+            {([
+              ['Score', `${painAssessment.score} / ${painAssessment.maxScore}`],
+              ['Scale', PAIN_SCALES[painAssessment.scaleUsed]?.name ?? painAssessment.scaleUsed],
+              ['WHO ladder step', String(getWHOStep(painAssessment.severity))],
+              ['Pain type', painAssessment.painType],
+              ['Context', painAssessment.painContext],
+              ['Location', painAssessment.location || '—'],
+            ] as [string, string][]).map(([label, value]) => (
+              <div key={label}>
+                <dt className="text-gray-500">{label}</dt>
+                <dd className="font-medium text-gray-900 capitalize">{value}</dd>
+              </div>
+            ))}
+          </dl>
+          {painAssessment.itemScores && painAssessment.itemScores.length > 0 && (
+            <ul className="mt-3 space-y-1 text-sm border-t border-gray-100 pt-3">
+              {painAssessment.itemScores.map(item => (
+                <li key={item.itemId} className="flex justify-between gap-3">
+                  <span className="text-gray-600">{item.label}: {item.descriptor}</span>
+                  <span className="font-medium text-gray-900">{item.score}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="mt-3 text-sm text-gray-500">
+            Patient {plan.patient.initials}, {plan.patient.age} {plan.patient.ageUnit}
+            {plan.patient.weight !== undefined && `, ${plan.patient.weight} kg`}
+            {plan.comorbidities.length > 0 &&
+              ` · ${plan.comorbidities.map(c => COMORBIDITY_INFO[c.condition]?.displayName ?? c.condition).join(', ')}`}
+          </p>
+          {plan.patient.currentMedications && plan.patient.currentMedications.length > 0 && (
+            <p className="mt-1 text-sm text-gray-500">Medications: {plan.patient.currentMedications.join(', ')}</p>
+          )}
+          {plan.patient.allergies && plan.patient.allergies.length > 0 && (
+            <p className="mt-1 text-sm text-red-700">Allergies: {plan.patient.allergies.join(', ')}</p>
+          )}
+        </div>
+
+        {/* Safety */}
+        {(plan.redFlags.length > 0 || plan.riskFlags.length > 0) && (
+          <div className="bg-white rounded-xl shadow-sm p-4 space-y-2">
+            <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+              <AlertTriangle className="w-5 h-5 text-gray-500" />
+              Safety Alerts
+            </h2>
+            {plan.redFlags.map(flag => {
+              const badge = getRedFlagBadge(flag.severity);
+              return (
+                <div key={flag.id} className={`p-3 rounded-lg border ${badge.bg} ${badge.border}`}>
+                  <p className={`font-medium ${badge.text}`}>{flag.title}</p>
+                  <p className="text-sm text-gray-700">{flag.description}</p>
+                  <p className="text-sm font-medium text-gray-700 mt-1">{flag.action}</p>
+                </div>
+              );
+            })}
+            {plan.riskFlags.map(flag => {
+              const config = RISK_LEVEL_CONFIG[flag.level];
+              return (
+                <div key={flag.id} className={`p-3 rounded-lg border ${config.bgColor} ${config.borderColor}`}>
+                  <p className={`text-sm font-medium ${config.textColor}`}>{config.label}: {flag.message}</p>
+                  <p className="text-sm text-gray-600">{flag.recommendation}</p>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Plan */}
+        <div className="bg-white rounded-xl shadow-sm p-4 space-y-3">
+          <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+            <Pill className="w-5 h-5 text-gray-500" />
+            Analgesic Plan
+          </h2>
+          {analgesicPlan.primaryRecommendations.map((rec, idx) => <RecommendationRow key={`p-${idx}`} rec={rec} />)}
+          {analgesicPlan.adjunctRecommendations.length > 0 && (
+            <>
+              <p className="text-sm font-medium text-gray-700">Adjuncts</p>
+              {analgesicPlan.adjunctRecommendations.map((rec, idx) => <RecommendationRow key={`a-${idx}`} rec={rec} />)}
+            </>
+          )}
+          {analgesicPlan.contraindicatedClasses.length > 0 && (
+            <p className="text-sm text-red-700">
+              Contraindicated: {analgesicPlan.contraindicatedClasses.map(c => ANALGESIC_CLASSES[c]?.displayName ?? c).join(', ')}
+            </p>
+          )}
+          {analgesicPlan.nonPharmacological.length > 0 && (
+            <p className="text-sm text-gray-600">
+              Non-pharmacological: {analgesicPlan.nonPharmacological.join(', ')}
+            </p>
+          )}
+        </div>
+
+        {/* Procedural plan */}
+        {plan.proceduralPlan && (
+          <div className="bg-white rounded-xl shadow-sm p-4 space-y-3">
+            <h2 className="font-semibold text-gray-900">Procedural Analgesia</h2>
+            <p className="text-sm text-gray-600">
+              {plan.proceduralPlan.procedureDescription} · anticipated {plan.proceduralPlan.anticipatedPainLevel} pain
+            </p>
+            {plan.proceduralPlan.preEmptiveAnalgesia.recommendations.length > 0 && (
+              <>
+                <p className="text-sm font-medium text-gray-700">
+                  Pre-emptive ({plan.proceduralPlan.preEmptiveAnalgesia.timing})
+                </p>
+                {plan.proceduralPlan.preEmptiveAnalgesia.recommendations.map((rec, idx) => (
+                  <RecommendationRow key={`pre-${idx}`} rec={rec} />
+                ))}
+              </>
+            )}
+            {plan.proceduralPlan.intraProceduralAnalgesia.systemicOptions.length > 0 && (
+              <>
+                <p className="text-sm font-medium text-gray-700">During the procedure</p>
+                {plan.proceduralPlan.intraProceduralAnalgesia.systemicOptions.map((rec, idx) => (
+                  <RecommendationRow key={`intra-${idx}`} rec={rec} />
+                ))}
+              </>
+            )}
+            {plan.proceduralPlan.intraProceduralAnalgesia.topicalAgent && (
+              <p className="text-sm text-gray-600">Topical: {plan.proceduralPlan.intraProceduralAnalgesia.topicalAgent}</p>
+            )}
+            {plan.proceduralPlan.intraProceduralAnalgesia.regionalTechnique && (
+              <p className="text-sm text-gray-600">Regional: {plan.proceduralPlan.intraProceduralAnalgesia.regionalTechnique}</p>
+            )}
+            {plan.proceduralPlan.anxiolysis.rationale && (
+              <p className="text-sm text-gray-600">
+                Anxiolysis {plan.proceduralPlan.anxiolysis.recommended ? 'recommended' : 'not recommended'}: {plan.proceduralPlan.anxiolysis.rationale}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Monitoring */}
+        <div className="bg-white rounded-xl shadow-sm p-4">
+          <h2 className="font-semibold text-gray-900 mb-3">Monitoring</h2>
+          <dl className="grid grid-cols-2 gap-3 text-sm">
+            {monitoringRows.map(([label, value]) => (
+              <div key={label}>
+                <dt className="text-gray-500">{label}</dt>
+                <dd className="font-medium text-gray-900">{value ?? 'Not required'}</dd>
+              </div>
+            ))}
+          </dl>
+          {monitoringPlan.otherMonitoring.length > 0 && (
+            <p className="mt-3 text-sm text-gray-600">{monitoringPlan.otherMonitoring.join(' · ')}</p>
+          )}
+        </div>
+
+        <PainReassessmentPanel plan={plan} />
+
+        <div className="bg-white rounded-xl shadow-sm p-4 text-sm text-gray-500">
+          <p>Prepared by {plan.clinician.name || 'unknown clinician'}{plan.clinician.role && ` (${plan.clinician.role})`}</p>
+          {plan.notes && <p className="mt-2 whitespace-pre-wrap text-gray-700">{plan.notes}</p>}
+          <p className="mt-3 text-xs whitespace-pre-wrap">{plan.legalDisclaimer}</p>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default PainPlanRecord;
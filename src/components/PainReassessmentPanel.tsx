@@ -0,0 +1,310 @@
+/**
+ * AstroWound-MEASURE Pain Reassessment Panel
+ * Dose log, timed post-dose reassessments and the pain trend for a plan
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Syringe, Clock, AlertTriangle, Activity } from 'lucide-react';
+import * as db from '@/store/database';
+import { useAppStore } from '@/store';
+import { formatUserIdentity } from '@/lib/permissions';
+import { formatAnalgesicDose } from '@/lib/analgesicDosing';
+import {
+  REASSESSMENT_POINTS,
+  assessAnalgesicResponse,
+  buildReassessment,
+  checkAdministration,
+  getReassessmentPrompts,
+  isPainEscalating,
+  type ReassessmentPrompt,
+} from '@/lib/painReassessment';
+import { shouldIncreaseMonitoring } from '@/lib/safetyModule';
+import { PainTrendChart } from './PainTrendChart';
+import { QuickPainScore } from './QuickPainScore';
+import type { AnalgesicAdministration, DressingPainAssessment, PainManagementPlan } from '@/types';
+
+interface PainReassessmentPanelProps {
+  plan: PainManagementPlan;
+}
+
+const PROMPT_STYLES: Record<ReassessmentPrompt['status'], string> = {
+  upcoming: 'bg-gray-100 text-gray-600',
+  due: 'bg-amber-100 text-amber-800',
+  overdue: 'bg-red-100 text-red-700',
+  done: 'bg-green-100 text-green-700',
+};
+
+const promptKey = (prompt: ReassessmentPrompt) => `${prompt.administration.id}-${prompt.point}`;
+
+export const PainReassessmentPanel: React.FC<PainReassessmentPanelProps> = ({ plan }) => {
+  const currentUser = useAppStore(state => state.currentUser);
+  const [administrations, setAdministrations] = useState<AnalgesicAdministration[]>([]);
+  const [reassessments, setReassessments] = useState<DressingPainAssessment[]>([]);
+  const [now, setNow] = useState(() => new Date());
+  const [selectedClass, setSelectedClass] = useState('');
+  const [dose, setDose] = useState('');
+  const [activePrompt, setActivePrompt] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Agents with a calculated dose that is allowed to be given
+  const givable = useMemo(() => [
+    ...plan.analgesicPlan.primaryRecommendations,
+    ...plan.analgesicPlan.adjunctRecommendations,
+  ].filter(rec => rec.suitability !== 'contraindicated' && rec.dosing && rec.dosing.hardStops.length === 0), [plan]);
+  const selected = givable.find(rec => rec.class === selectedClass)?.dosing;
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [given, pain] = await Promise.all([
+          db.getAnalgesicAdministrationsForPatient(plan.patientId),
+          db.getPainAssessmentsForPatient(plan.patientId),
+        ]);
+        setAdministrations(given);
+        setReassessments(pain.filter(a => a.planId === plan.id));
+      } catch (loadError) {
+        console.error('Failed to load reassessments:', loadError);
+      }
+    };
+    load();
+  }, [plan.id, plan.patientId]);
+
+  // Keep prompt status current
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 60000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const planDoses = administrations
+    .filter(a => a.planId === plan.id)
+    .sort((a, b) => new Date(a.administeredAt).getTime() - new Date(b.administeredAt).getTime());
+  const history = [plan.painAssessment, ...reassessments];
+  const latest = [...history].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
+  const prompts = getReassessmentPrompts(planDoses, reassessments, now);
+  const escalating = isPainEscalating(history);
+  const increaseMonitoring = shouldIncreaseMonitoring(latest, plan.riskFlags, plan.patient, history);
+  const doseProblems = selected ? checkAdministration(selected, administrations, Number(dose), now) : [];
+
+  const handleSelectAgent = (analgesicClass: string) => {
+    setSelectedClass(analgesicClass);
+    const dosing = givable.find(rec => rec.class === analgesicClass)?.dosing;
+    setDose(dosing?.dose !== undefined ? String(dosing.dose) : '');
+    setError(null);
+  };
+
+  const handleLogDose = async () => {
+    if (!selected || doseProblems.length > 0) return;
+    const administeredAt = new Date();
+    const administration: AnalgesicAdministration = {
+      id: crypto.randomUUID(),
+      patientId: plan.patientId,
+      planId: plan.id,
+      sessionId: plan.sessionId,
+      analgesicClass: selected.class,
+      agent: selected.agent,
+      route: selected.route,
+      dose: Number(dose),
+      unit: selected.unit,
+      administeredAt,
+      administeredBy: currentUser ? formatUserIdentity(currentUser) : plan.clinician.name,
+      createdAt: administeredAt,
+    };
+    setSaving(true);
+    setError(null);
+    try {
+      await db.createAnalgesicAdministration(administration);
+      setAdministrations(prev => [...prev, administration]);
+      setSelectedClass('');
+      setDose('');
+      setNow(administeredAt);
+    } catch (saveError) {
+      console.error('Failed to log dose:', saveError);
+      setError((saveError as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveReading = async (prompt: ReassessmentPrompt, reading: Parameters<typeof buildReassessment>[0]) => {
+    const reassessment = buildReassessment(reading, prompt.point, {
+      patientId: plan.patientId,
+      planId: plan.id,
+      administrationId: prompt.administration.id,
+      baseline: plan.painAssessment,
+    });
+    setSaving(true);
+    setError(null);
+    try {
+      await db.createPainAssessment(reassessment);
+      setReassessments(prev => [...prev, reassessment]);
+      setActivePrompt(null);
+    } catch (saveError) {
+      console.error('Failed to save reassessment:', saveError);
+      setError((saveError as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Response to a dose: the 60-minute reading against the last one before the dose
+  const doseResponse = (administration: AnalgesicAdministration) => {
+    const after = reassessments.find(a => a.administrationId === administration.id && a.reassessmentPoint === 'post_dose_60');
+    const givenAt = new Date(administration.administeredAt).getTime();
+    const before = history
+      .filter(a => new Date(a.timestamp).getTime() <= givenAt)
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
+    return after && before ? assessAnalgesicResponse(before, after) : null;
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-4 space-y-4">
+      <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+        <Activity className="w-5 h-5 text-gray-500" />
+        Reassessment &amp; Doses Given
+      </h2>
+
+      {increaseMonitoring && (
+        <div className={`p-3 rounded-lg border text-sm flex items-start gap-2 ${
+          escalating ? 'bg-red-50 border-red-200 text-red-800' : 'bg-amber-50 border-amber-200 text-amber-800'
+        }`}>
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>
+            {escalating
+              ? 'Pain is rising or the last dose has not worked. Review analgesia, escalate to the prescriber and increase monitoring.'
+              : 'Increased monitoring advised for this patient.'}
+          </span>
+        </div>
+      )}
+
+      <PainTrendChart assessments={history} administrations={planDoses} />
+
+      {/* Dose log */}
+      {planDoses.length > 0 && (
+        <ul className="divide-y divide-gray-100 text-sm">
+          {planDoses.map(administration => {
+            const response = doseResponse(administration);
+            return (
+              <li key={administration.id} className="py-2 flex items-center gap-3">
+                <Syringe className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-900">
+                    {administration.agent} {administration.dose} {administration.unit}{' '}
+                    <span className="capitalize">{administration.route}</span>
+                  </p>
+                  <p className="text-gray-500">
+                    {format(new Date(administration.administeredAt), 'MMM d, HH:mm')} · {administration.administeredBy}
+                  </p>
+                </div>
+                {response && (
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                    response.effective ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+                  }`}>
+                    {response.reductionPercent}% reduction · {response.effective ? 'effective' : 'not effective'}
+                  </span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {/* Reassessment prompts */}
+      {prompts.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-gray-700">Reassessments</p>
+          {prompts.map(prompt => {
+            const key = promptKey(prompt);
+            return (
+              <div key={key} className="p-3 border border-gray-200 rounded-lg text-sm">
+                <div className="flex items-center gap-3">
+                  <Clock className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900">
+                      {REASSESSMENT_POINTS[prompt.point].label} · {prompt.administration.agent}
+                    </p>
+                    <p className="text-gray-500">
+                      {prompt.assessment
+                        ? `${prompt.assessment.score} / ${prompt.assessment.maxScore} at ${format(new Date(prompt.assessment.timestamp), 'HH:mm')}`
+                        : `Due ${format(prompt.dueAt, 'HH:mm')}`}
+                    </p>
+                  </div>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${PROMPT_STYLES[prompt.status]}`}>
+                    {prompt.status}
+                  </span>
+                  {prompt.status !== 'done' && activePrompt !== key && (
+                    <button
+                      onClick={() => setActivePrompt(key)}
+                      className="px-3 py-1 rounded-lg bg-astro-500 hover:bg-astro-600 text-white text-xs font-medium print:hidden"
+                    >
+                      Record
+                    </button>
+                  )}
+                </div>
+                {activePrompt === key && (
+                  <div className="mt-3 pt-3 border-t border-gray-100 print:hidden">
+                    <QuickPainScore
+                      scale={plan.painAssessment.scaleUsed}
+                      saveLabel="Save reassessment"
+                      saving={saving}
+                      onSave={reading => handleSaveReading(prompt, reading)}
+                      onCancel={() => setActivePrompt(null)}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Log a dose */}
+      {givable.length > 0 && (
+        <div className="p-3 rounded-lg bg-gray-50 space-y-3 print:hidden">
+          <p className="text-sm font-medium text-gray-700">Log a dose given</p>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <select
+              value={selectedClass}
+              onChange={e => handleSelectAgent(e.target.value)}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="">Select agent…</option>
+              {givable.map(rec => (
+                <option key={rec.class} value={rec.class}>{formatAnalgesicDose(rec.dosing!)}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={dose}
+              onChange={e => setDose(e.target.value)}
+              disabled={!selected}
+              className="w-28 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              aria-label="Dose given"
+            />
+            <span className="self-center text-sm text-gray-500 w-8">{selected?.unit}</span>
+            <button
+              onClick={handleLogDose}
+              disabled={!selected || doseProblems.length > 0 || saving}
+              className="px-4 py-2 rounded-lg bg-astro-500 hover:bg-astro-600 disabled:opacity-50 text-white text-sm font-medium"
+            >
+              Log dose
+            </button>
+          </div>
+          {doseProblems.length > 0 && (
+            <ul className="ml-5 list-disc text-sm text-red-700">
+              {doseProblems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+          )}
+          <p className="text-xs text-gray-500">Reassess pain 30 and 60 minutes after each dose.</p>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+    </div>
+  );
+};
+
+export default PainReassessmentPanel;
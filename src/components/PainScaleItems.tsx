@@ -0,0 +1,99 @@
+/**
+ * AstroWound-MEASURE Pain Scale Items
+ * Item-by-item scoring for behavioral scales and the Wong-Baker face picker
+ */
+
+import React from 'react';
+import { PAIN_SCALE_ITEMS, scorePainScaleItems } from '@/lib/painScales';
+import { PAIN_SCALES } from '@/lib/clinicalConstants';
+import type { PainScaleType } from '@/types';
+
+interface PainScaleItemsProps {
+  scale: PainScaleType;
+  responses: Record<string, number>;
+  onChange: (responses: Record<string, number>) => void;
+}
+
+// Wong-Baker faces, by score
+const FACES: Record<number, string> = { 0: '😀', 2: '🙂', 4: '😐', 6: '🙁', 8: '😣', 10: '😭' };
+
+export const PainScaleItems: React.FC<PainScaleItemsProps> = ({ scale, responses, onChange }) => {
+  const items = PAIN_SCALE_ITEMS[scale] ?? [];
+  const result = scorePainScaleItems(scale, responses);
+  const maxScore = PAIN_SCALES[scale].maxScore;
+
+  const setResponse = (itemId: string, score: number) => onChange({ ...responses, [itemId]: score });
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">{PAIN_SCALES[scale].instructions}</p>
+
+      {scale === 'WONG_BAKER' ? (
+        <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+          {items[0]?.options.map(option => {
+            const isSelected = responses[items[0].id] === option.score;
+            return (
+              <button
+                key={option.score}
+                type="button"
+                onClick={() => setResponse(items[0].id, option.score)}
+                aria-pressed={isSelected}
+                className={`p-2 rounded-lg border text-center transition-all ${
+                  isSelected
+                    ? 'border-astro-500 bg-astro-50 ring-2 ring-astro-500'
+                    : 'border-gray-200 hover:border-gray-300'
+                }`}
+              >
+                <div className="text-3xl" aria-hidden="true">{FACES[option.score]}</div>
+                <div className="text-sm font-bold text-gray-800">{option.score}</div>
+                <div className="text-xs text-gray-500">{option.descriptor}</div>
+              </button>
+            );
+          })}
+        </div>
+      ) : (
+        items.map(item => (
+          <div key={item.id}>
+            <p className="text-sm font-medium text-gray-700 mb-2">{item.label}</p>
+            <div className="space-y-1">
+              {item.options.map(option => {
+                const isSelected = responses[item.id] === option.score;
+                return (
+                  <button
+                    key={option.score}
+                    type="button"
+                    onClick={() => setResponse(item.id, option.score)}
+                    aria-pressed={isSelected}
+                    className={`w-full flex items-center gap-3 p-2 rounded-lg border text-left text-sm transition-all ${
+                      isSelected
+                        ? 'border-astro-500 bg-astro-50 ring-2 ring-astro-500'
+                        : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                  >
+                    <span className="w-6 h-6 rounded-full bg-gray-100 flex items-center justify-center font-bold text-gray-700 flex-shrink-0">
+                      {option.score}
+                    </span>
+                    <span className="text-gray-700">{option.descriptor}</span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))
+      )}
+
+      <div className="flex items-center justify-between p-3 rounded-lg bg-gray-50 text-sm">
+        <span className="text-gray-600">
+          {result.complete
+            ? 'Total score'
+            : `${items.length - result.itemScores.length} of ${items.length} item${items.length === 1 ? '' : 's'} still to score`}
+        </span>
+        <span className="font-bold text-astro-600">
+          {result.complete ? result.score : '–'} / {maxScore}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default PainScaleItems;
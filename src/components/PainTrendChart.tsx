@@ -0,0 +1,93 @@
+/**
+ * AstroWound-MEASURE Pain Trend Chart
+ * Pain readings over time on a common 0-10 scale, with doses marked
+ */
+
+import React, { useMemo } from 'react';
+import { format } from 'date-fns';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import { getPainSeries, type PainSeriesPoint } from '@/lib/painReassessment';
+import type { AnalgesicAdministration, DressingPainAssessment } from '@/types';
+
+interface PainTrendChartProps {
+  assessments: DressingPainAssessment[];
+  administrations?: AnalgesicAdministration[];
+}
+
+const DAY = 24 * 3600000;
+
+export const PainTrendChart: React.FC<PainTrendChartProps> = ({ assessments, administrations = [] }) => {
+  const series = useMemo(() => getPainSeries(assessments), [assessments]);
+  if (series.length === 0) return null;
+
+  // Within a day, label by clock time; across sessions, by date
+  const span = series[series.length - 1].time - series[0].time;
+  const tickFormat = span > DAY ? 'MMM d' : 'HH:mm';
+  const doses = administrations
+    .map(a => ({ ...a, time: new Date(a.administeredAt).getTime() }))
+    .filter(a => a.time >= series[0].time && a.time <= series[series.length - 1].time);
+
+  return (
+    <div className="h-48">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={series}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+          <XAxis
+            dataKey="time"
+            type="number"
+            scale="time"
+            domain={['dataMin', 'dataMax']}
+            tickFormatter={(time: number) => format(time, tickFormat)}
+            stroke="#6b7280"
+            fontSize={12}
+          />
+          <YAxis domain={[0, 10]} ticks={[0, 2, 4, 6, 8, 10]} stroke="#6b7280" fontSize={12} />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: '#fff',
+              border: '1px solid #e5e7eb',
+              borderRadius: '8px',
+            }}
+            formatter={(value: number, _name: string, item: { payload?: PainSeriesPoint }) => [
+              item.payload
+                ? `${value}/10 (${item.payload.scale} ${item.payload.rawScore}/${item.payload.maxScore})`
+                : `${value}/10`,
+              item.payload?.label ?? 'Pain',
+            ]}
+            labelFormatter={(time: number) => format(time, 'MMM d, yyyy HH:mm')}
+          />
+          <ReferenceLine y={4} stroke="#f59e0b" strokeDasharray="4 4" />
+          <ReferenceLine y={7} stroke="#ef4444" strokeDasharray="4 4" />
+          {doses.map(dose => (
+            <ReferenceLine
+              key={dose.id}
+              x={dose.time}
+              stroke="#6366f1"
+              strokeDasharray="2 2"
+              label={{ value: dose.agent, position: 'insideTopLeft', fontSize: 10, fill: '#6366f1' }}
+            />
+          ))}
+          <Line
+            type="monotone"
+            dataKey="score"
+            name="Pain"
+            stroke="#0ea5e9"
+            strokeWidth={2}
+            dot={{ fill: '#0ea5e9' }}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default PainTrendChart;
@@ -21,21 +21,51 @@ import {
   TrendingDown,
   TrendingUp,
   Minus,
+  Trash2,
+  History,
+  ShieldAlert,
+  Layers,
+  Pill,
 } from 'lucide-react';
 import { usePatientsStore, useWoundsStore, useAppStore } from '@/store';
 import * as db from '@/store/database';
-import type { Patient, Wound, WoundAssessment } from '@/types';
+import { hasPermission } from '@/lib/permissions';
+import { INFECTION_RISK_CONFIG, formatInfectionScreen, isInfectionScreenPositive } from '@/lib/infectionScreen';
+import { ESCALATION_CRITERIA, WOUND_PHASE_CONFIG } from '@/lib/clinicalConstants';
+import { isPainEscalating } from '@/lib/painReassessment';
+import { shouldIncreaseMonitoring } from '@/lib/safetyModule';
+import { describeWound } from './WoundCandidateAssignment';
+import { PainTrendChart } from './PainTrendChart';
+import type {
+  AnalgesicAdministration,
+  DressingPainAssessment,
+  DressingSession,
+  Patient,
+  PainManagementPlan,
+  Wound,
+  WoundAssessment,
+} from '@/types';
+
+type ClinicalRecord =
+  | { kind: 'plan'; at: Date; plan: PainManagementPlan }
+  | { kind: 'dressing'; at: Date; session: DressingSession };
 
 export const PatientDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { patients, loadPatients } = usePatientsStore();
+  const { patients, loadPatients, removePatient } = usePatientsStore();
   const { wounds, loadWoundsForPatient } = useWoundsStore();
-  const { setCurrentPatient } = useAppStore();
+  const { setCurrentPatient, currentUser } = useAppStore();
+  const canDelete = hasPermission(currentUser, 'delete_patient');
+  const canViewAudit = hasPermission(currentUser, 'view_audit');
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   
   const [patient, setPatient] = useState<Patient | null>(null);
   const [loading, setLoading] = useState(true);
   const [latestAssessments, setLatestAssessments] = useState<Map<string, WoundAssessment>>(new Map());
+  const [clinicalRecords, setClinicalRecords] = useState<ClinicalRecord[]>([]);
+  const [painHistory, setPainHistory] = useState<DressingPainAssessment[]>([]);
+  const [administrations, setAdministrations] = useState<AnalgesicAdministration[]>([]);
 
   useEffect(() => {
     if (id) {
@@ -67,6 +97,24 @@ export const PatientDetail: React.FC = () => {
           }
         }
         setLatestAssessments(assessmentMap);
+
+        // Saved pain plans and dressing sessions, newest first
+        const [plans, sessions, pain, given] = await Promise.all([
+          db.getPainManagementPlansForPatient(patientId),
+          db.getDressingSessionsForPatient(patientId),
+          db.getPainAssessmentsForPatient(patientId),
+          db.getAnalgesicAdministrationsForPatient(patientId),
+        ]);
+        setPainHistory(pain);
+        setAdministrations(given);
+        setClinicalRecords([
+          ...plans.map((plan): ClinicalRecord => ({ kind: 'plan', at: new Date(plan.createdAt), plan })),
+          ...sessions.map((session): ClinicalRecord => ({
+            kind: 'dressing',
+            at: new Date(session.completedAt ?? session.startedAt),
+            session,
+          })),
+        ].sort((a, b) => b.at.getTime() - a.at.getTime()));
       }
     } catch (error) {
       console.error('Failed to load patient:', error);
@@ -75,6 +123,33 @@ export const PatientDetail: React.FC = () => {
     }
   };
 
+  const handleDelete = async () => {
+    if (!patient) return;
+    await removePatient(patient.id);
+    setShowDeleteConfirm(false);
+    if (!usePatientsStore.getState().patients.some(p => p.id === patient.id)) {
+      setCurrentPatient(null);
+      navigate('/');
+    }
+  };
+
+  // The latest assessment of each open wound decides the flag, so a negative rescreen clears it
+  const infectionFlags = wounds
+    .filter(wound => wound.status !== 'healed')
+    .map(wound => ({ wound, assessment: latestAssessments.get(wound.id) }))
+    .filter((flag): flag is { wound: Wound; assessment: WoundAssessment } =>
+      isInfectionScreenPositive(flag.assessment?.infectionScreen)
+    );
+
+  // Pain across plans and sessions; the latest plan supplies the risk flags
+  const latestPlanRecord = clinicalRecords.find(record => record.kind === 'plan');
+  const latestPlan = latestPlanRecord?.kind === 'plan' ? latestPlanRecord.plan : undefined;
+  const latestPain = [...painHistory].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
+  const painEscalating = isPainEscalating(painHistory);
+  const increasePainMonitoring = latestPain && latestPlan
+    ? shouldIncreaseMonitoring(latestPain, latestPlan.riskFlags, latestPlan.patient, painHistory)
+    : painEscalating;
+
   const getAge = (dob: string) => {
     return differenceInYears(new Date(), new Date(dob));
   };
@@ -157,16 +232,68 @@ export const PatientDetail: React.FC = () => {
               <p className="text-sm text-gray-500">MRN: {patient.mrn}</p>
             </div>
           </div>
-          <Link
-            to={`/patients/${patient.id}/edit`}
-            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg"
-          >
-            <Edit className="w-5 h-5" />
-          </Link>
+          <div className="flex items-center gap-1">
+            <Link
+              to={`/patients/${patient.id}/edit`}
+              className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg"
+            >
+              <Edit className="w-5 h-5" />
+            </Link>
+            {canViewAudit && (
+              <Link
+                to={`/patients/${patient.id}/audit`}
+                className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg"
+                title="Audit trail"
+              >
+                <History className="w-5 h-5" />
+              </Link>
+            )}
+            {canDelete && (
+              <button
+                onClick={() => setShowDeleteConfirm(true)}
+                className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg"
+                title="Delete patient"
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            )}
+          </div>
         </div>
       </header>
 
       <main className="max-w-4xl mx-auto px-4 py-6 space-y-6">
+        {/* Infection red flags */}
+        {infectionFlags.length > 0 && (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-red-800" role="alert">
+            <div className="flex items-center gap-2 font-semibold">
+              <ShieldAlert className="w-5 h-5" />
+              Positive infection screen
+            </div>
+            <ul className="mt-2 space-y-2 text-sm">
+              {infectionFlags.map(({ wound, assessment }) => (
+                <li key={wound.id}>
+                  <p className="font-medium">
+                    {wound.location.charAt(0).toUpperCase() + wound.location.slice(1)}
+                    {wound.locationDetail ? ` - ${wound.locationDetail}` : ''}
+                    {' · '}{format(new Date(assessment.capturedAt), 'MMM d, yyyy')}
+                  </p>
+                  <p>{formatInfectionScreen(assessment.infectionScreen!)}</p>
+                  {assessment.infectionScreen!.signals.length > 0 && (
+                    <p className="text-red-700">{assessment.infectionScreen!.signals.join(' · ')}</p>
+                  )}
+                  <p>{INFECTION_RISK_CONFIG[assessment.infectionScreen!.risk].action}</p>
+                </li>
+              ))}
+            </ul>
+            <details className="mt-2 text-sm">
+              <summary className="cursor-pointer font-medium">Escalation criteria</summary>
+              <ul className="mt-1 ml-5 list-disc">
+                {ESCALATION_CRITERIA.map(criteria => <li key={criteria}>{criteria}</li>)}
+              </ul>
+            </details>
+          </div>
+        )}
+
         {/* Patient Info Card */}
         <div className="bg-white rounded-xl shadow-sm p-6">
           <div className="flex items-start gap-4">
@@ -202,7 +329,7 @@ export const PatientDetail: React.FC = () => {
           </div>
 
           {/* Medical History */}
-          {(patient.medicalHistory?.length || patient.allergies?.length) && (
+          {(patient.medicalHistory?.length || patient.allergies?.length || patient.currentMedications?.length) && (
             <div className="mt-6 pt-6 border-t border-gray-100">
               <div className="grid grid-cols-2 gap-4">
                 {patient.medicalHistory?.length ? (
@@ -229,6 +356,18 @@ export const PatientDetail: React.FC = () => {
                     </div>
                   </div>
                 ) : null}
+                {patient.currentMedications?.length ? (
+                  <div>
+                    <p className="text-sm font-medium text-gray-500 mb-2">Current Medications</p>
+                    <div className="flex flex-wrap gap-1">
+                      {patient.currentMedications.map((item, i) => (
+                        <span key={i} className="px-2 py-1 bg-blue-100 text-blue-700 rounded text-sm">
+                          {item}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                ) : null}
               </div>
             </div>
           )}
@@ -325,6 +464,13 @@ export const PatientDetail: React.FC = () => {
                         >
                           <Camera className="w-5 h-5" />
                         </button>
+                        <button
+                          onClick={() => navigate(`/clinical/dressing-protocol/${patient.id}/${wound.id}`)}
+                          className="p-2 text-gray-500 hover:text-astro-600 hover:bg-gray-100 rounded-lg"
+                          title="Dressing Protocol"
+                        >
+                          <Layers className="w-5 h-5" />
+                        </button>
                         <Link
                           to={`/wounds/${wound.id}/report`}
                           className="p-2 text-gray-500 hover:text-astro-600 hover:bg-gray-100 rounded-lg"
@@ -349,7 +495,121 @@ export const PatientDetail: React.FC = () => {
             </div>
           )}
         </div>
+
+        {/* Pain plans and dressing sessions */}
+        <div>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">Pain &amp; Dressing Records</h2>
+            <button
+              onClick={() => navigate(`/clinical/pain-assessment/${patient.id}`)}
+              className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50"
+            >
+              <Pill className="w-4 h-4" />
+              Pain Assessment
+            </button>
+          </div>
+
+          {increasePainMonitoring && (
+            <div className={`mb-4 p-3 rounded-lg border text-sm flex items-start gap-2 ${
+              painEscalating ? 'bg-red-50 border-red-200 text-red-800' : 'bg-amber-50 border-amber-200 text-amber-800'
+            }`}>
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>
+                {painEscalating
+                  ? 'Pain is rising or the last dose has not worked. Review analgesia, escalate to the prescriber and increase monitoring.'
+                  : 'Increased pain monitoring advised for this patient.'}
+              </span>
+            </div>
+          )}
+
+          {painHistory.length > 1 && (
+            <div className="mb-4 bg-white rounded-xl shadow-sm p-4">
+              <p className="text-sm font-medium text-gray-700 mb-2">Pain over time (0-10)</p>
+              <PainTrendChart assessments={painHistory} administrations={administrations} />
+            </div>
+          )}
+
+          {clinicalRecords.length === 0 ? (
+            <div className="bg-white rounded-xl shadow-sm p-6 text-center text-sm text-gray-500">
+              No pain plans or dressing sessions saved yet
+            </div>
+          ) : (
+            <div className="bg-white rounded-xl shadow-sm divide-y divide-gray-100">
+              {clinicalRecords.map((record) => {
+                const wound = wounds.find(w => w.id === (record.kind === 'plan' ? record.plan.woundId : record.session.woundId));
+                const woundLabel = wound ? describeWound(wound) : null;
+
+                return record.kind === 'plan' ? (
+                  <Link
+                    key={record.plan.id}
+                    to={`/clinical/pain-plans/${record.plan.id}`}
+                    className="flex items-center gap-3 p-4 hover:bg-gray-50"
+                  >
+                    <Pill className="w-5 h-5 text-gray-400" />
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-gray-900">Pain management plan</p>
+                      <p className="text-sm text-gray-500 truncate">
+                        {record.plan.painAssessment.scaleUsed} {record.plan.painAssessment.score}/{record.plan.painAssessment.maxScore}
+                        {record.plan.redFlags.length > 0 && ` · ${record.plan.redFlags.length} red flag${record.plan.redFlags.length === 1 ? '' : 's'}`}
+                        {woundLabel && ` · ${woundLabel}`}
+                      </p>
+                    </div>
+                    <span className="text-sm text-gray-500">{format(record.at, 'MMM d, yyyy')}</span>
+                    <ChevronRight className="w-5 h-5 text-gray-400" />
+                  </Link>
+                ) : (
+                  <Link
+                    key={record.session.id}
+                    to={`/clinical/dressing-sessions/${record.session.id}`}
+                    className="flex items-center gap-3 p-4 hover:bg-gray-50"
+                  >
+                    <Layers className="w-5 h-5 text-gray-400" />
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-gray-900">Dressing session</p>
+                      <p className="text-sm text-gray-500 truncate">
+                        {record.session.woundPhase ? WOUND_PHASE_CONFIG[record.session.woundPhase].name : 'Phase not recorded'}
+                        {woundLabel && ` · ${woundLabel}`}
+                        {record.session.clinicianName && ` · ${record.session.clinicianName}`}
+                      </p>
+                    </div>
+                    <span className="text-sm text-gray-500">{format(record.at, 'MMM d, yyyy')}</span>
+                    <ChevronRight className="w-5 h-5 text-gray-400" />
+                  </Link>
+                );
+              })}
+            </div>
+          )}
+        </div>
       </main>
+
+      {/* Delete Confirmation Modal */}
+      {showDeleteConfirm && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-2xl shadow-xl max-w-sm w-full p-6">
+            <div className="w-16 h-16 rounded-full bg-red-100 flex items-center justify-center mx-auto mb-4">
+              <Trash2 className="w-8 h-8 text-red-600" />
+            </div>
+            <h3 className="text-xl font-bold text-gray-900 text-center mb-2">Delete Patient?</h3>
+            <p className="text-gray-500 text-center mb-6">
+              {patient.firstName} {patient.lastName} will be permanently removed from this device.
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={() => setShowDeleteConfirm(false)}
+                className="flex-1 btn-secondary"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleDelete}
+                className="flex-1 btn-danger"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
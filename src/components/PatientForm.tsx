@@ -39,6 +39,7 @@ export const PatientForm: React.FC<PatientFormProps> = ({ patient, onSave }) =>
     address: patient?.contact?.address || '',
     medicalHistory: patient?.medicalHistory?.join(', ') || '',
     allergies: patient?.allergies?.join(', ') || '',
+    currentMedications: patient?.currentMedications?.join(', ') || '',
   });
 
   const validate = (): boolean => {
@@ -87,6 +88,9 @@ export const PatientForm: React.FC<PatientFormProps> = ({ patient, onSave }) =>
         allergies: formData.allergies
           ? formData.allergies.split(',').map((s) => s.trim()).filter(Boolean)
           : undefined,
+        currentMedications: formData.currentMedications
+          ? formData.currentMedications.split(',').map((s) => s.trim()).filter(Boolean)
+          : undefined,
         createdAt: patient?.createdAt || new Date(),
         updatedAt: new Date(),
       };
@@ -343,6 +347,21 @@ export const PatientForm: React.FC<PatientFormProps> = ({ patient, onSave }) =>
               />
               <p className="text-xs text-gray-500 mt-1">Separate allergies with commas</p>
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Current Medications
+              </label>
+              <textarea
+                name="currentMedications"
+                value={formData.currentMedications}
+                onChange={handleChange}
+                rows={2}
+                placeholder="Warfarin 5mg, Sertraline 50mg, Ramipril 10mg (comma separated)"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-astro-500 resize-none"
+              />
+              <p className="text-xs text-gray-500 mt-1">Checked for interactions when planning analgesia</p>
+            </div>
           </div>
         </div>
 
@@ -4,6 +4,7 @@
  */
 
 import React, { useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { format, formatDistanceToNow } from 'date-fns';
 import {
   LineChart,
@@ -14,7 +15,7 @@ import {
   Tooltip,
   ResponsiveContainer,
   Area,
-  AreaChart,
+  ComposedChart,
 } from 'recharts';
 import {
   TrendingDown,
@@ -24,10 +25,60 @@ import {
   ArrowRight,
   CheckCircle,
   AlertCircle,
+  AlertTriangle,
 } from 'lucide-react';
 import { useAssessmentsStore, useAppStore } from '@/store';
+import { hasPermission } from '@/lib/permissions';
 import { getMeasurementEngine } from '@/engine';
-import type { Wound, WoundAssessment, WoundAnalytics } from '@/types';
+import { WOUND_SCORE_TOOLS } from '@/lib/woundScoring';
+import { INFECTION_RISK_CONFIG, isInfectionScreenPositive } from '@/lib/infectionScreen';
+import {
+  EXUDATE_AMOUNT_LABELS,
+  INFLAMMATION_SIGN_LABELS,
+  ODOR_LABELS,
+  woundBedTrendPoint,
+} from '@/lib/woundBed';
+import type { Wound, WoundAssessment, WoundAnalytics, WoundScoreTool, TrajectoryFit } from '@/types';
+
+const SCORE_COLORS: Record<WoundScoreTool, string> = {
+  push: '#8b5cf6',
+  bwat: '#ef4444',
+  resvech: '#0ea5e9',
+};
+
+/**
+ * Completed score total for a tool, or null so the chart leaves a gap
+ */
+const completedScore = (assessment: WoundAssessment, tool: WoundScoreTool): number | null => {
+  const score = assessment.woundScores?.find(s => s.tool === tool);
+  return score?.complete ? score.total : null;
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Right-axis ticks for the 0-3 exudate and odour levels
+const LEVEL_TICKS = ['None', 'Light', 'Mod.', 'Heavy'];
+
+const WOUND_BED_SERIES = [
+  { key: 'pain', name: 'Pain (/10)', color: '#ef4444', axis: 'pain' },
+  { key: 'exudateLevel', name: 'Exudate', color: '#0ea5e9', axis: 'level' },
+  { key: 'odorLevel', name: 'Odour', color: '#8b5cf6', axis: 'level' },
+] as const;
+
+const TRAJECTORY_MODEL_LABELS: Record<TrajectoryFit['model'], string> = {
+  log_linear: 'Log-linear',
+  gilman: 'Gilman edge advance',
+};
+
+/**
+ * One-line description of a fitted healing model
+ */
+const describeFit = (fit: TrajectoryFit): string => {
+  const rate = fit.model === 'log_linear'
+    ? `${fit.weeklyAreaChangePercent}% area/week`
+    : `${fit.edgeAdvanceCmPerWeek} cm/week edge advance`;
+  return `${TRAJECTORY_MODEL_LABELS[fit.model]} fit (R² ${fit.rSquared}, ${fit.pointCount} assessments): ${rate}`;
+};
 
 interface PatientTimelineProps {
   wound: Wound;
@@ -40,8 +91,16 @@ export const PatientTimeline: React.FC<PatientTimelineProps> = ({
   onAssessmentClick,
   onNewAssessment,
 }) => {
+  const navigate = useNavigate();
   const { assessments, loading, loadAssessmentsForWound } = useAssessmentsStore();
-  const { currentPatient } = useAppStore();
+  const { currentPatient, currentUser } = useAppStore();
+  const canVerify = hasPermission(currentUser, 'verify_assessment');
+
+  // Verification needs a look at the image and mask and a signature
+  const handleVerify = (e: React.MouseEvent, assessment: WoundAssessment) => {
+    e.stopPropagation();
+    navigate(`/assessments/${assessment.id}/review`);
+  };
 
   useEffect(() => {
     loadAssessmentsForWound(wound.id);
@@ -52,8 +111,8 @@ export const PatientTimeline: React.FC<PatientTimelineProps> = ({
     if (assessments.length === 0) return null;
     
     const engine = getMeasurementEngine();
-    return engine.calculateWoundAnalytics(wound.id, assessments, new Date(wound.onset));
-  }, [assessments, wound.id, wound.onset]);
+    return engine.calculateWoundAnalytics(wound.id, assessments, new Date(wound.onset), wound.type);
+  }, [assessments, wound.id, wound.onset, wound.type]);
 
   // Chart data
   const chartData = useMemo(() => {
@@ -66,9 +125,53 @@ export const PatientTimeline: React.FC<PatientTimelineProps> = ({
         area: assessment.measurement.area,
         length: assessment.measurement.length,
         width: assessment.measurement.width,
+        push: completedScore(assessment, 'push'),
+        bwat: completedScore(assessment, 'bwat'),
+        resvech: completedScore(assessment, 'resvech'),
+        ...woundBedTrendPoint(assessment),
       }));
   }, [assessments]);
 
+  // Observed areas and the fitted trajectory on a shared day axis
+  const trajectory = analytics?.trajectory;
+  const trajectoryData = useMemo(() => {
+    if (!trajectory) return [];
+    const baseline = new Date(trajectory.baselineDate).getTime();
+    const observed = assessments.map(assessment => ({
+      day: Math.round(((new Date(assessment.capturedAt).getTime() - baseline) / MS_PER_DAY) * 10) / 10,
+      area: assessment.measurement.area as number | undefined,
+      predicted: undefined as number | undefined,
+      band: undefined as [number, number] | undefined,
+    }));
+    const fitted = trajectory.curve.map(point => ({
+      day: point.day,
+      area: undefined,
+      predicted: point.predicted,
+      band: [point.lower, point.upper] as [number, number],
+    }));
+    return [...observed, ...fitted].sort((a, b) => a.day - b.day);
+  }, [assessments, trajectory]);
+
+  const selectedFit = trajectory?.fits.find(fit => fit.model === trajectory.selectedModel);
+  const formatDay = (day: number) =>
+    trajectory ? format(new Date(new Date(trajectory.baselineDate).getTime() + day * MS_PER_DAY), 'MMM d') : '';
+
+  // Only chart tools scored on at least two assessments
+  const chartedTools = useMemo(
+    () => (Object.keys(SCORE_COLORS) as WoundScoreTool[]).filter(
+      tool => chartData.filter(point => point[tool] !== null).length > 1
+    ),
+    [chartData]
+  );
+
+  // Only chart wound-bed observations recorded on at least two assessments
+  const chartedWoundBed = useMemo(
+    () => WOUND_BED_SERIES.filter(
+      series => chartData.filter(point => point[series.key] !== null).length > 1
+    ),
+    [chartData]
+  );
+
   const getTrendIcon = () => {
     if (!analytics) return null;
     
@@ -164,13 +267,41 @@ export const PatientTimeline: React.FC<PatientTimelineProps> = ({
         </div>
       )}
 
+      {/* 4-week PAR flag */}
+      {trajectory?.par4Week && trajectory.status !== 'healed' && (
+        <div className={`rounded-xl p-4 flex items-start gap-3 ${
+          trajectory.par4Week.unlikelyToHeal
+            ? 'bg-red-50 border border-red-200 text-red-800'
+            : 'bg-green-50 border border-green-200 text-green-800'
+        }`}>
+          {trajectory.par4Week.unlikelyToHeal
+            ? <AlertTriangle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            : <CheckCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />}
+          <div>
+            <p className="font-semibold">
+              {trajectory.par4Week.unlikelyToHeal ? 'Unlikely to heal on current plan' : 'On track to heal'}
+            </p>
+            <p className="text-sm">
+              {trajectory.par4Week.projected ? 'Projected' : 'Observed'} 4-week area reduction{' '}
+              {trajectory.par4Week.percentReduction}% (threshold {trajectory.par4Week.threshold}%).
+              {trajectory.par4Week.unlikelyToHeal && ' Reassess the wound and treatment plan.'}
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* Healing Progress Chart */}
       {chartData.length > 1 && (
         <div className="bg-white rounded-xl shadow-sm p-6">
-          <h3 className="font-semibold mb-4">Healing Progress</h3>
+          <h3 className="font-semibold mb-1">Healing Progress</h3>
+          {selectedFit && (
+            <p className="text-sm text-gray-500 mb-4">
+              {describeFit(selectedFit)}. Shaded band: {Math.round((trajectory?.predictionLevel ?? 0.95) * 100)}% prediction interval.
+            </p>
+          )}
           <div className="h-64">
             <ResponsiveContainer width="100%" height="100%">
-              <AreaChart data={chartData}>
+              <ComposedChart data={trajectoryData}>
                 <defs>
                   <linearGradient id="areaGradient" x1="0" y1="0" x2="0" y2="1">
                     <stop offset="5%" stopColor="#0ea5e9" stopOpacity={0.3} />
@@ -178,7 +309,14 @@ export const PatientTimeline: React.FC<PatientTimelineProps> = ({
                   </linearGradient>
                 </defs>
                 <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
-                <XAxis dataKey="date" stroke="#6b7280" fontSize={12} />
+                <XAxis
+                  dataKey="day"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={formatDay}
+                  stroke="#6b7280"
+                  fontSize={12}
+                />
                 <YAxis stroke="#6b7280" fontSize={12} unit=" cm²" />
                 <Tooltip
                   contentStyle={{
@@ -186,17 +324,46 @@ export const PatientTimeline: React.FC<PatientTimelineProps> = ({
                     border: '1px solid #e5e7eb',
                     borderRadius: '8px',
                   }}
-                  formatter={(value: number) => [`${value} cm²`, 'Area']}
-                  labelFormatter={(label) => `Date: ${label}`}
+                  formatter={(value: number | [number, number], name: string) => [
+                    Array.isArray(value) ? `${value[0]}–${value[1]} cm²` : `${value} cm²`,
+                    name,
+                  ]}
+                  labelFormatter={(day: number) => `Date: ${formatDay(day)}`}
                 />
+                {selectedFit && (
+                  <Area
+                    type="monotone"
+                    dataKey="band"
+                    name="Prediction interval"
+                    stroke="none"
+                    fill="#94a3b8"
+                    fillOpacity={0.2}
+                    connectNulls
+                  />
+                )}
+                {selectedFit && (
+                  <Line
+                    type="monotone"
+                    dataKey="predicted"
+                    name="Fitted"
+                    stroke="#64748b"
+                    strokeDasharray="5 5"
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                  />
+                )}
                 <Area
                   type="monotone"
                   dataKey="area"
+                  name="Area"
                   stroke="#0ea5e9"
                   strokeWidth={2}
                   fill="url(#areaGradient)"
+                  dot={{ fill: '#0ea5e9' }}
+                  connectNulls
                 />
-              </AreaChart>
+              </ComposedChart>
             </ResponsiveContainer>
           </div>
         </div>
@@ -251,6 +418,107 @@ export const PatientTimeline: React.FC<PatientTimelineProps> = ({
         </div>
       )}
 
+      {/* Wound Scores Chart */}
+      {chartedTools.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <h3 className="font-semibold mb-1">Wound Scores</h3>
+          <p className="text-sm text-gray-500 mb-4">Lower scores indicate healing</p>
+          <div className="h-48">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="date" stroke="#6b7280" fontSize={12} />
+                <YAxis stroke="#6b7280" fontSize={12} allowDecimals={false} />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: '#fff',
+                    border: '1px solid #e5e7eb',
+                    borderRadius: '8px',
+                  }}
+                />
+                {chartedTools.map(tool => (
+                  <Line
+                    key={tool}
+                    type="monotone"
+                    dataKey={tool}
+                    stroke={SCORE_COLORS[tool]}
+                    strokeWidth={2}
+                    name={`${WOUND_SCORE_TOOLS[tool].shortName} (/${WOUND_SCORE_TOOLS[tool].maxTotal})`}
+                    dot={{ fill: SCORE_COLORS[tool] }}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="flex justify-center gap-6 mt-4">
+            {chartedTools.map(tool => (
+              <div key={tool} className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded-full" style={{ backgroundColor: SCORE_COLORS[tool] }} />
+                <span className="text-sm text-gray-600">{WOUND_SCORE_TOOLS[tool].shortName}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Wound Bed Chart */}
+      {chartedWoundBed.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <h3 className="font-semibold mb-1">Wound Bed</h3>
+          <p className="text-sm text-gray-500 mb-4">Pain on the left axis; exudate and odour on the right</p>
+          <div className="h-48">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="date" stroke="#6b7280" fontSize={12} />
+                <YAxis yAxisId="pain" stroke="#6b7280" fontSize={12} domain={[0, 10]} allowDecimals={false} />
+                <YAxis
+                  yAxisId="level"
+                  orientation="right"
+                  stroke="#6b7280"
+                  fontSize={12}
+                  domain={[0, 3]}
+                  ticks={[0, 1, 2, 3]}
+                  tickFormatter={(level: number) => LEVEL_TICKS[level] ?? ''}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: '#fff',
+                    border: '1px solid #e5e7eb',
+                    borderRadius: '8px',
+                  }}
+                  formatter={(value: number, name: string) =>
+                    name === 'Pain (/10)' ? value : LEVEL_TICKS[value] ?? value
+                  }
+                />
+                {chartedWoundBed.map(series => (
+                  <Line
+                    key={series.key}
+                    yAxisId={series.axis}
+                    type="monotone"
+                    dataKey={series.key}
+                    stroke={series.color}
+                    strokeWidth={2}
+                    name={series.name}
+                    dot={{ fill: series.color }}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="flex justify-center gap-6 mt-4">
+            {chartedWoundBed.map(series => (
+              <div key={series.key} className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded-full" style={{ backgroundColor: series.color }} />
+                <span className="text-sm text-gray-600">{series.name}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Assessment Timeline */}
       <div className="bg-white rounded-xl shadow-sm p-6">
         <h3 className="font-semibold mb-4">Assessment History</h3>
@@ -273,6 +541,14 @@ export const PatientTimeline: React.FC<PatientTimelineProps> = ({
               const change = prev
                 ? ((assessment.measurement.area - prev.measurement.area) / prev.measurement.area) * 100
                 : 0;
+              const woundBedSummary = [
+                assessment.pain !== undefined ? `Pain ${assessment.pain}/10` : null,
+                assessment.exudate ? `${EXUDATE_AMOUNT_LABELS[assessment.exudate.amount]} exudate` : null,
+                assessment.odor && assessment.odor !== 'none' ? `${ODOR_LABELS[assessment.odor]} odour` : null,
+                assessment.inflammationSigns?.length
+                  ? assessment.inflammationSigns.map(sign => INFLAMMATION_SIGN_LABELS[sign]).join(', ')
+                  : null,
+              ].filter((part): part is string => part !== null);
 
               return (
                 <div
@@ -319,12 +595,42 @@ export const PatientTimeline: React.FC<PatientTimelineProps> = ({
                       </div>
                     </div>
 
-                    <div className="mt-2 flex items-center gap-2">
+                    {woundBedSummary.length > 0 && (
+                      <p className="mt-1 text-sm text-gray-600 truncate">{woundBedSummary.join(' · ')}</p>
+                    )}
+
+                    <div className="mt-2 flex flex-wrap items-center gap-2">
+                      {assessment.woundScores?.filter(score => score.complete).map(score => (
+                        <span
+                          key={score.tool}
+                          className="px-2 py-0.5 rounded bg-gray-100 text-xs font-medium text-gray-700"
+                        >
+                          {WOUND_SCORE_TOOLS[score.tool].shortName} {score.total}
+                        </span>
+                      ))}
+                      {isInfectionScreenPositive(assessment.infectionScreen) && (
+                        <span className="flex items-center gap-1 px-2 py-0.5 rounded bg-red-50 text-xs font-medium text-clinical-danger">
+                          <AlertTriangle className="w-3 h-3" />
+                          {INFECTION_RISK_CONFIG[assessment.infectionScreen!.risk].label}
+                        </span>
+                      )}
                       {assessment.clinicianVerified ? (
-                        <span className="flex items-center gap-1 text-xs text-clinical-success">
+                        <span
+                          className="flex items-center gap-1 text-xs text-clinical-success"
+                          title={assessment.verifiedBy ? `Verified by ${assessment.verifiedBy}` : undefined}
+                        >
                           <CheckCircle className="w-3 h-3" />
                           Verified
+                          {assessment.amendments && assessment.amendments.length > 0 && ' · amended'}
                         </span>
+                      ) : canVerify ? (
+                        <button
+                          onClick={(e) => handleVerify(e, assessment)}
+                          className="flex items-center gap-1 px-2 py-0.5 rounded bg-amber-50 text-xs font-medium text-clinical-warning hover:bg-amber-100"
+                        >
+                          <CheckCircle className="w-3 h-3" />
+                          Verify
+                        </button>
                       ) : (
                         <span className="flex items-center gap-1 text-xs text-clinical-warning">
                           <AlertCircle className="w-3 h-3" />
@@ -343,20 +649,23 @@ export const PatientTimeline: React.FC<PatientTimelineProps> = ({
       </div>
 
       {/* Projected Healing */}
-      {analytics?.progressHistory.length && analytics.progressHistory[analytics.progressHistory.length - 1].projectedHealingDate && (
+      {trajectory?.status !== 'healed' && selectedFit?.predictedHealingDate && (
         <div className="bg-gradient-to-r from-astro-500 to-astro-600 rounded-xl shadow-sm p-6 text-white">
           <h3 className="font-semibold mb-2">Projected Complete Healing</h3>
           <p className="text-3xl font-bold">
-            {format(
-              analytics.progressHistory[analytics.progressHistory.length - 1].projectedHealingDate!,
-              'MMMM d, yyyy'
-            )}
-          </p>
-          <p className="mt-2 text-astro-100">
-            Based on current healing rate of {analytics.healingVelocity} cm²/week
+            {format(new Date(selectedFit.predictedHealingDate), 'MMMM d, yyyy')}
           </p>
+          {selectedFit.healingDateInterval && (
+            <p className="mt-2 text-astro-100">
+              {Math.round((trajectory?.predictionLevel ?? 0.95) * 100)}% prediction interval:{' '}
+              {format(new Date(selectedFit.healingDateInterval.earliest), 'MMM d, yyyy')} to{' '}
+              {selectedFit.healingDateInterval.latest
+                ? format(new Date(selectedFit.healingDateInterval.latest), 'MMM d, yyyy')
+                : 'beyond 2 years'}
+            </p>
+          )}
           <p className="text-sm mt-1 text-astro-200">
-            * Projection assumes consistent healing trajectory
+            * {describeFit(selectedFit)}
           </p>
         </div>
       )}
@@ -5,7 +5,7 @@
 
 import React, { useEffect, useState } from 'react';
 import { useParams, useSearchParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, FileText } from 'lucide-react';
+import { ArrowLeft, FileText, Columns } from 'lucide-react';
 import { PatientTimeline } from './PatientTimeline';
 import { usePatientsStore, useWoundsStore, useAppStore } from '@/store';
 import * as db from '@/store/database';
@@ -105,13 +105,22 @@ export const PatientTimelinePage: React.FC = () => {
             </button>
             <h1 className="text-lg font-semibold text-gray-900">Wound Timeline</h1>
           </div>
-          <button
-            onClick={() => navigate(`/wounds/${selectedWound.id}/report`)}
-            className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
-          >
-            <FileText className="w-4 h-4" />
-            Generate Report
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => navigate(`/wounds/${selectedWound.id}/compare`)}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              <Columns className="w-4 h-4" />
+              Compare
+            </button>
+            <button
+              onClick={() => navigate(`/wounds/${selectedWound.id}/report`)}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              <FileText className="w-4 h-4" />
+              Generate Report
+            </button>
+          </div>
         </div>
       </header>
 
@@ -0,0 +1,76 @@
+/**
+ * AstroWound-MEASURE Quick Pain Score
+ * Single reading on a fixed scale, for reassessments
+ */
+
+import React, { useState } from 'react';
+import { Save } from 'lucide-react';
+import { PAIN_SCALES } from '@/lib/clinicalConstants';
+import { isItemisedPainScale, scorePainScaleItems } from '@/lib/painScales';
+import { PainScaleItems } from './PainScaleItems';
+import type { PainScaleItemScore, PainScaleType } from '@/types';
+
+interface QuickPainScoreProps {
+  scale: PainScaleType;
+  saveLabel: string;
+  saving?: boolean;
+  onSave: (reading: { scale: PainScaleType; score: number; itemScores?: PainScaleItemScore[] }) => void;
+  onCancel?: () => void;
+}
+
+export const QuickPainScore: React.FC<QuickPainScoreProps> = ({ scale, saveLabel, saving, onSave, onCancel }) => {
+  const [score, setScore] = useState(0);
+  const [responses, setResponses] = useState<Record<string, number>>({});
+  const isItemised = isItemisedPainScale(scale);
+  const itemResult = scorePainScaleItems(scale, responses);
+  const maxScore = PAIN_SCALES[scale].maxScore;
+
+  const handleSave = () => onSave(isItemised
+    ? { scale, score: itemResult.score, itemScores: itemResult.itemScores }
+    : { scale, score });
+
+  return (
+    <div className="space-y-3">
+      {isItemised ? (
+        <PainScaleItems scale={scale} responses={responses} onChange={setResponses} />
+      ) : (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {PAIN_SCALES[scale].name}: <span className="text-astro-600 font-bold">{score}</span> / {maxScore}
+          </label>
+          <input
+            type="range"
+            min={0}
+            max={maxScore}
+            value={score}
+            onChange={e => setScore(Number(e.target.value))}
+            className="w-full h-3 rounded-full appearance-none cursor-pointer"
+            style={{ background: 'linear-gradient(to right, #22c55e 0%, #eab308 50%, #ef4444 100%)' }}
+          />
+        </div>
+      )}
+      <div className="flex gap-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-700 py-2 rounded-lg text-sm font-medium"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving || (isItemised && !itemResult.complete)}
+          className="flex-1 bg-astro-500 hover:bg-astro-600 disabled:opacity-50 text-white py-2 rounded-lg text-sm font-medium flex items-center justify-center gap-2"
+        >
+          <Save className="w-4 h-4" />
+          {saving ? 'Saving...' : saveLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default QuickPainScore;
@@ -15,6 +15,7 @@ import {
   Activity,
 } from 'lucide-react';
 import { getMeasurementEngine } from '@/engine';
+import { useAppStore } from '@/store';
 import type { Patient, Wound, WoundAssessment, WoundAnalytics } from '@/types';
 
 interface ReportModuleProps {
@@ -34,8 +35,10 @@ export const ReportModule: React.FC<ReportModuleProps> = ({
   onClose,
 }) => {
   const [generating, setGenerating] = useState(false);
-  const [clinicianName, setClinicianName] = useState('');
-  const [clinicianCredentials, setClinicianCredentials] = useState('');
+  const { currentUser } = useAppStore();
+  // Reviewer is the signed-in clinician
+  const clinicianName = currentUser?.displayName ?? '';
+  const clinicianCredentials = currentUser?.credentials ?? '';
 
   // Calculate analytics
   const analytics: WoundAnalytics | null = assessments.length > 0
@@ -400,15 +403,14 @@ export const ReportModule: React.FC<ReportModuleProps> = ({
 
           {/* Clinician Signature */}
           <div className="space-y-4">
-            <h3 className="font-medium text-gray-900">Clinician Signature (Optional)</h3>
+            <h3 className="font-medium text-gray-900">Clinician Signature</h3>
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm text-gray-600 mb-1">Name</label>
                 <input
                   type="text"
                   value={clinicianName}
-                  onChange={(e) => setClinicianName(e.target.value)}
-                  placeholder="Dr. Jane Smith"
+                  readOnly
                   className="w-full px-3 py-2 border rounded-lg"
                 />
               </div>
@@ -417,8 +419,7 @@ export const ReportModule: React.FC<ReportModuleProps> = ({
                 <input
                   type="text"
                   value={clinicianCredentials}
-                  onChange={(e) => setClinicianCredentials(e.target.value)}
-                  placeholder="MD, CWOCN"
+                  readOnly
                   className="w-full px-3 py-2 border rounded-lg"
                 />
               </div>
@@ -5,31 +5,86 @@
 
 import React, { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, Download, AlertCircle, Printer } from 'lucide-react';
+import { ArrowLeft, Download, AlertCircle, Printer, CheckCircle } from 'lucide-react';
+import { v4 as uuid } from 'uuid';
 import { jsPDF } from 'jspdf';
 import { format } from 'date-fns';
 import { useAppStore } from '@/store';
 import * as db from '@/store/database';
 import { getMeasurementEngine } from '@/engine';
-import type { Patient, Wound, WoundAssessment, WoundAnalytics } from '@/types';
+import { WOUND_SCORE_TOOLS, formatWoundScore } from '@/lib/woundScoring';
+import { EXUDATE_AMOUNT_LABELS, describeWoundBed } from '@/lib/woundBed';
+import {
+  INFECTION_RISK_CONFIG,
+  INFECTION_SCREEN_ITEMS,
+  formatInfectionScreen,
+  isInfectionScreenPositive,
+} from '@/lib/infectionScreen';
+import { formatUserIdentity } from '@/lib/permissions';
+import { SIGNATURE_MEANINGS, SIGNATURE_METHOD_LABELS } from '@/lib/verification';
+import { SignatureCapture } from './SignatureCapture';
+import type {
+  Patient,
+  Wound,
+  WoundAssessment,
+  WoundAnalytics,
+  DeviceValidationRecord,
+  ClinicalReport,
+  ESignature,
+} from '@/types';
 
 type ReportType = 'single_assessment' | 'progress_report' | 'discharge_summary';
 
+/**
+ * PDF rows for the fitted healing trajectory and 4-week PAR flag
+ */
+const trajectoryRows = (analytics: WoundAnalytics): string[][] => {
+  const trajectory = analytics.trajectory;
+  if (!trajectory) return [];
+
+  const rows: string[][] = [];
+  if (trajectory.par4Week) {
+    rows.push(['4-week PAR:', `${trajectory.par4Week.percentReduction}%${trajectory.par4Week.projected ? ' (projected)' : ''} vs ${trajectory.par4Week.threshold}% threshold${
+      trajectory.par4Week.unlikelyToHeal ? ' - UNLIKELY TO HEAL ON CURRENT PLAN' : ''
+    }`]);
+  }
+
+  const fit = trajectory.fits.find(f => f.model === trajectory.selectedModel);
+  if (fit) {
+    rows.push(['Healing model:', `${fit.model === 'log_linear' ? 'Log-linear' : 'Gilman'} (R² ${fit.rSquared}, n=${fit.pointCount})`]);
+    if (fit.predictedHealingDate && trajectory.status !== 'healed') {
+      const interval = fit.healingDateInterval;
+      rows.push(['Projected healing:', `${format(new Date(fit.predictedHealingDate), 'MMM d, yyyy')}${
+        interval
+          ? ` (${Math.round(trajectory.predictionLevel * 100)}% PI ${format(new Date(interval.earliest), 'MMM d, yyyy')} to ${
+              interval.latest ? format(new Date(interval.latest), 'MMM d, yyyy') : 'beyond 2 years'
+            })`
+          : ''
+      }`]);
+    }
+  }
+  return rows;
+};
+
 export const ReportModulePage: React.FC = () => {
   const { woundId, assessmentId } = useParams<{ woundId?: string; assessmentId?: string }>();
   const navigate = useNavigate();
 
-  const { setCurrentPatient } = useAppStore();
+  const { setCurrentPatient, currentUser } = useAppStore();
 
   const [patient, setPatient] = useState<Patient | null>(null);
   const [wound, setWound] = useState<Wound | null>(null);
   const [assessments, setAssessments] = useState<WoundAssessment[]>([]);
   const [analytics, setAnalytics] = useState<WoundAnalytics | null>(null);
+  const [deviceValidation, setDeviceValidation] = useState<DeviceValidationRecord | null>(null);
   const [reportType, setReportType] = useState<ReportType>('progress_report');
   const [loading, setLoading] = useState(true);
   const [generating, setGenerating] = useState(false);
-  const [clinicianName, setClinicianName] = useState('');
-  const [clinicianCredentials, setClinicianCredentials] = useState('');
+  // Set once the reviewer signs; the signed report is saved and the PDF carries the signature
+  const [signature, setSignature] = useState<ClinicalReport['signature'] | null>(null);
+  // Reviewer is the signed-in clinician
+  const clinicianName = currentUser?.displayName ?? '';
+  const clinicianCredentials = currentUser?.credentials ?? '';
 
   useEffect(() => {
     loadReportData();
@@ -38,6 +93,8 @@ export const ReportModulePage: React.FC = () => {
   const loadReportData = async () => {
     setLoading(true);
     try {
+      setDeviceValidation((await db.getLatestDeviceValidation()) ?? null);
+
       if (woundId) {
         const woundData = await db.getWound(woundId);
         if (woundData) {
@@ -57,7 +114,8 @@ export const ReportModulePage: React.FC = () => {
             const analyticsData = getMeasurementEngine().calculateWoundAnalytics(
               woundId, 
               assessmentData, 
-              new Date(woundData.onset)
+              new Date(woundData.onset),
+              woundData.type
             );
             setAnalytics(analyticsData);
           }
@@ -85,6 +143,30 @@ export const ReportModulePage: React.FC = () => {
     }
   };
 
+  const handleSign = async (esignature: ESignature) => {
+    if (!patient || !wound || !currentUser) return;
+    const reportSignature: ClinicalReport['signature'] = {
+      name: currentUser.displayName,
+      credentials: currentUser.credentials ?? '',
+      signedAt: esignature.signedAt,
+      userId: esignature.signerUserId,
+      method: esignature.method,
+      image: esignature.image,
+    };
+    await db.createReport({
+      id: uuid(),
+      patientId: patient.id,
+      woundId: wound.id,
+      generatedAt: new Date(),
+      generatedBy: formatUserIdentity(currentUser),
+      reportType,
+      assessments,
+      analytics: analytics ?? undefined,
+      signature: reportSignature,
+    });
+    setSignature(reportSignature);
+  };
+
   const generatePDF = async () => {
     if (!patient || !wound || assessments.length === 0) return;
 
@@ -211,6 +293,26 @@ export const ReportModulePage: React.FC = () => {
         ['Length:', `${latestAssessment.measurement.length} cm`],
         ['Width:', `${latestAssessment.measurement.width} cm`],
         ['Perimeter:', `${latestAssessment.measurement.perimeter} cm`],
+        ...(latestAssessment.measurement.depth !== undefined ? [
+          ['Max depth:', `${latestAssessment.measurement.depth} cm`],
+        ] : []),
+        ...(latestAssessment.measurement.volume !== undefined ? [
+          ['Volume:', latestAssessment.measurement.volumeMethod === 'probe_profile'
+            ? `${latestAssessment.measurement.volume} cm³ (${latestAssessment.depthProbe?.readings.length ?? 0} probe readings)`
+            : `${latestAssessment.measurement.volume} cm³`],
+        ] : []),
+        ...(latestAssessment.depthProbe
+          ? getMeasurementEngine().describeDepthProbe(latestAssessment.depthProbe).map(line => ['Probe:', line])
+          : []),
+        ['Perspective:', latestAssessment.qualityCheck.perspective.homographyApplied
+          ? `Rectified (${latestAssessment.qualityCheck.perspective.distortion}° tilt, ${latestAssessment.qualityCheck.perspective.correctionPercent ?? 0}% correction)`
+          : 'Single-scale (no plane correction)'],
+        ['Calibration:', latestAssessment.calibrationData.markerId !== undefined
+          ? `${latestAssessment.calibrationData.markerType} marker, batch ${latestAssessment.calibrationData.markerId}`
+          : latestAssessment.calibrationData.markerType],
+        ['Device accuracy:', deviceValidation
+          ? `Validated ${format(new Date(deviceValidation.performedAt), 'MMM d, yyyy')}: ${deviceValidation.meanAbsolutePercentError}% mean, ${deviceValidation.maxAbsolutePercentError}% max area error (${deviceValidation.passed ? 'passed' : 'failed'})`
+          : 'Not validated on this device'],
       ].forEach(([label, value]) => {
         pdf.setFont('helvetica', 'bold');
         pdf.text(label, margin, yPos);
@@ -220,6 +322,110 @@ export const ReportModulePage: React.FC = () => {
       });
       yPos += 8;
 
+      // Wound bed (TIME)
+      const woundBedRows = describeWoundBed(latestAssessment);
+      if (woundBedRows.length > 0) {
+        if (yPos > pageHeight - 70 - woundBedRows.length * 5) {
+          pdf.addPage();
+          yPos = margin;
+        }
+        pdf.setFontSize(12);
+        pdf.setFont('helvetica', 'bold');
+        pdf.text('WOUND BED (TIME)', margin, yPos);
+        yPos += 7;
+
+        // Progress reports show where pain and exudate stood when first recorded
+        const earliest = assessments.slice().reverse();
+        const firstPain = earliest.find(a => a.pain !== undefined);
+        const firstExudate = earliest.find(a => a.exudate !== undefined);
+
+        pdf.setFontSize(10);
+        woundBedRows.forEach(([label, value]) => {
+          let line = value;
+          if (reportType === 'progress_report') {
+            if (label === 'Pain' && firstPain && firstPain !== latestAssessment) {
+              line += ` (from ${firstPain.pain}/10 at first record)`;
+            } else if (label === 'Moisture' && firstExudate?.exudate && firstExudate !== latestAssessment) {
+              line += ` (from ${EXUDATE_AMOUNT_LABELS[firstExudate.exudate.amount].toLowerCase()} at first record)`;
+            }
+          }
+          pdf.setFont('helvetica', 'bold');
+          pdf.text(`${label}:`, margin, yPos);
+          pdf.setFont('helvetica', 'normal');
+          const wrapped: string[] = pdf.splitTextToSize(line, pageWidth - margin * 2 - 35);
+          pdf.text(wrapped, margin + 35, yPos);
+          yPos += 5 * wrapped.length;
+        });
+        yPos += 8;
+      }
+
+      // Infection screen
+      const screen = latestAssessment.infectionScreen;
+      if (screen) {
+        const present = screen.items
+          .filter(item => item.present)
+          .map(item => INFECTION_SCREEN_ITEMS.find(def => def.id === item.itemId)?.label ?? item.itemId);
+        pdf.setFontSize(12);
+        pdf.setFont('helvetica', 'bold');
+        pdf.text('INFECTION SCREEN', margin, yPos);
+        yPos += 7;
+
+        pdf.setFontSize(10);
+        if (isInfectionScreenPositive(screen)) pdf.setTextColor(220, 38, 38);
+        pdf.text(formatInfectionScreen(screen), margin, yPos);
+        pdf.setTextColor(0);
+        pdf.setFont('helvetica', 'normal');
+        yPos += 5;
+        [
+          ...(present.length > 0 ? [`Criteria present: ${present.join(', ')}`] : []),
+          ...(screen.signals.length > 0 ? [`Trends: ${screen.signals.join('; ')}`] : []),
+          ...(isInfectionScreenPositive(screen) ? [INFECTION_RISK_CONFIG[screen.risk].action] : []),
+        ].forEach(line => {
+          const wrapped: string[] = pdf.splitTextToSize(line, pageWidth - margin * 2);
+          pdf.text(wrapped, margin, yPos);
+          yPos += 5 * wrapped.length;
+        });
+        yPos += 5;
+      }
+
+      // Wound scores
+      if (latestAssessment.woundScores?.length) {
+        pdf.setFontSize(12);
+        pdf.setFont('helvetica', 'bold');
+        pdf.text('WOUND SCORES', margin, yPos);
+        yPos += 7;
+
+        pdf.setFontSize(10);
+        pdf.setFont('helvetica', 'normal');
+        latestAssessment.woundScores.forEach(score => {
+          let line = formatWoundScore(score);
+
+          // Progress reports show the change since the first completed score
+          if (reportType === 'progress_report' && score.complete) {
+            const first = assessments
+              .slice()
+              .reverse()
+              .map(a => a.woundScores?.find(s => s.tool === score.tool && s.complete))
+              .find(s => s !== undefined);
+            if (first && first !== score) {
+              line += ` (from ${first.total} at first scoring)`;
+            }
+          }
+
+          pdf.text(line, margin, yPos);
+          yPos += 5;
+        });
+        pdf.setFontSize(8);
+        pdf.setTextColor(100);
+        pdf.text(
+          `Lower scores indicate healing. ${Object.values(WOUND_SCORE_TOOLS).map(t => `${t.shortName} ${t.version}`).join(', ')}.`,
+          margin,
+          yPos
+        );
+        pdf.setTextColor(0);
+        yPos += 10;
+      }
+
       // Analytics (for progress reports)
       if (analytics && reportType === 'progress_report') {
         pdf.setFontSize(12);
@@ -235,6 +441,7 @@ export const ReportModulePage: React.FC = () => {
           ['Total Reduction:', `${analytics.totalReductionPercent.toFixed(1)}%`],
           ['Healing Rate:', `${analytics.healingVelocity} cm²/week`],
           ['Trend:', analytics.trend.charAt(0).toUpperCase() + analytics.trend.slice(1)],
+          ...trajectoryRows(analytics),
         ].forEach(([label, value]) => {
           pdf.setFont('helvetica', 'bold');
           pdf.text(label, margin, yPos);
@@ -246,11 +453,26 @@ export const ReportModulePage: React.FC = () => {
       }
 
       // Signature area
-      if (clinicianName) {
+      if (signature) {
+        yPos = pageHeight - 62;
+        if (signature.image) {
+          pdf.addImage(signature.image, 'PNG', margin, yPos - 12, 45, 15);
+        }
+        pdf.setFontSize(10);
+        pdf.setTextColor(0);
+        pdf.text(`Electronically signed by: ${signature.name}${signature.credentials ? `, ${signature.credentials}` : ''}`, margin, yPos + 6);
+        pdf.setFontSize(8);
+        pdf.setTextColor(100);
+        pdf.text(
+          `${format(new Date(signature.signedAt), 'MMMM d, yyyy HH:mm')}${signature.method ? ` (${SIGNATURE_METHOD_LABELS[signature.method]})` : ''} - ${SIGNATURE_MEANINGS.report}`,
+          margin,
+          yPos + 10
+        );
+      } else if (clinicianName) {
         yPos = pageHeight - 55;
         pdf.setFontSize(10);
         pdf.setTextColor(0);
-        pdf.text(`Reviewed by: ${clinicianName}${clinicianCredentials ? `, ${clinicianCredentials}` : ''}`, margin, yPos);
+        pdf.text(`Reviewed by: ${clinicianName}${clinicianCredentials ? `, ${clinicianCredentials}` : ''} (unsigned)`, margin, yPos);
         yPos += 4;
         pdf.text(`Date: ${format(new Date(), 'MMMM d, yyyy')}`, margin, yPos);
       }
@@ -474,6 +696,41 @@ export const ReportModulePage: React.FC = () => {
             </p>
           </div>
 
+          {/* Wound Bed */}
+          {describeWoundBed(latestAssessment).length > 0 && (
+            <div className="mb-6">
+              <h3 className="font-semibold text-gray-900 mb-3 uppercase text-sm tracking-wider">
+                Wound Bed (TIME)
+              </h3>
+              <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-sm">
+                {describeWoundBed(latestAssessment).map(([label, value]) => (
+                  <React.Fragment key={label}>
+                    <dt className="text-gray-500">{label}</dt>
+                    <dd className="text-gray-900">{value}</dd>
+                  </React.Fragment>
+                ))}
+              </dl>
+            </div>
+          )}
+
+          {/* Infection Screen */}
+          {latestAssessment.infectionScreen && (
+            <div className={`mb-6 p-4 rounded-lg border ${
+              isInfectionScreenPositive(latestAssessment.infectionScreen)
+                ? 'bg-red-50 border-red-200 text-red-800'
+                : 'bg-gray-50 border-gray-200 text-gray-700'
+            }`}>
+              <h3 className="font-semibold mb-1 uppercase text-sm tracking-wider">Infection Screen</h3>
+              <p className="text-sm font-medium">{formatInfectionScreen(latestAssessment.infectionScreen)}</p>
+              {latestAssessment.infectionScreen.signals.length > 0 && (
+                <p className="text-sm">{latestAssessment.infectionScreen.signals.join(' · ')}</p>
+              )}
+              {isInfectionScreenPositive(latestAssessment.infectionScreen) && (
+                <p className="text-sm">{INFECTION_RISK_CONFIG[latestAssessment.infectionScreen.risk].action}</p>
+              )}
+            </div>
+          )}
+
           {/* Analytics (Progress Report) */}
           {reportType === 'progress_report' && analytics && (
             <div className="mb-6">
@@ -509,28 +766,46 @@ export const ReportModulePage: React.FC = () => {
             <h3 className="font-semibold text-gray-900 mb-3 uppercase text-sm tracking-wider">
               Clinical Review
             </h3>
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm text-gray-500 mb-1">Clinician Name</label>
-                <input
-                  type="text"
-                  value={clinicianName}
-                  onChange={(e) => setClinicianName(e.target.value)}
-                  placeholder="Enter name"
-                  className="input-field"
-                />
+            {signature ? (
+              <div className="space-y-2">
+                {signature.image && (
+                  <img src={signature.image} alt={`Signature of ${signature.name}`} className="h-16 bg-gray-50 rounded border border-gray-200" />
+                )}
+                <p className="flex items-center gap-2 text-sm text-clinical-success">
+                  <CheckCircle className="w-4 h-4" />
+                  Signed by {signature.name}{signature.credentials && `, ${signature.credentials}`} on{' '}
+                  {format(new Date(signature.signedAt), 'MMM d, yyyy HH:mm')}
+                </p>
               </div>
-              <div>
-                <label className="block text-sm text-gray-500 mb-1">Credentials</label>
-                <input
-                  type="text"
-                  value={clinicianCredentials}
-                  onChange={(e) => setClinicianCredentials(e.target.value)}
-                  placeholder="e.g., RN, CWOCN"
-                  className="input-field"
+            ) : (
+              <div className="space-y-4 max-w-md">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm text-gray-500 mb-1">Clinician Name</label>
+                    <input
+                      type="text"
+                      value={clinicianName}
+                      readOnly
+                      className="input-field"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm text-gray-500 mb-1">Credentials</label>
+                    <input
+                      type="text"
+                      value={clinicianCredentials}
+                      readOnly
+                      className="input-field"
+                    />
+                  </div>
+                </div>
+                <SignatureCapture
+                  meaning={SIGNATURE_MEANINGS.report}
+                  submitLabel="Sign report"
+                  onSign={handleSign}
                 />
               </div>
-            </div>
+            )}
           </div>
 
           {/* Disclaimer */}
@@ -0,0 +1,175 @@
+/**
+ * AstroWound-MEASURE Security Settings
+ * Auto-lock timeout, PIN change (re-key) and manual lock
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Lock, KeyRound, Timer, AlertCircle, Check, Loader2 } from 'lucide-react';
+import { useAppStore } from '@/store';
+import * as db from '@/store/database';
+import { ENCRYPTION_SPEC } from '@/lib/encryption';
+import { hasPermission } from '@/lib/permissions';
+
+const AUTO_LOCK_OPTIONS = [1, 2, 5, 10, 15, 30];
+
+export const SecuritySettings: React.FC = () => {
+  const { setEncryptionState, currentUser } = useAppStore();
+  // The device PIN protects everyone's data, so only admins change it
+  const canChangeDevicePin = hasPermission(currentUser, 'manage_users');
+  const [autoLockMinutes, setAutoLockMinutes] = useState(ENCRYPTION_SPEC.defaultAutoLockMinutes);
+  const [showChangePin, setShowChangePin] = useState(false);
+  const [currentPin, setCurrentPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<{ ok: boolean; text: string } | null>(null);
+
+  useEffect(() => {
+    db.getSettings()
+      .then(settings => setAutoLockMinutes(settings?.autoLockMinutes ?? ENCRYPTION_SPEC.defaultAutoLockMinutes))
+      .catch(error => console.error('Failed to load security settings:', error));
+  }, []);
+
+  const handleAutoLockChange = async (minutes: number) => {
+    setAutoLockMinutes(minutes);
+    try {
+      await db.updateSettings({ autoLockMinutes: minutes });
+      document.dispatchEvent(new CustomEvent('app:autolockchange', { detail: minutes }));
+    } catch (error) {
+      console.error('Failed to save auto-lock setting:', error);
+    }
+  };
+
+  const handleChangePin = async () => {
+    setStatus(null);
+    if (newPin.length < ENCRYPTION_SPEC.minPassphraseLength) {
+      setStatus({ ok: false, text: `Use at least ${ENCRYPTION_SPEC.minPassphraseLength} characters` });
+      return;
+    }
+    if (newPin !== confirmPin) {
+      setStatus({ ok: false, text: 'The new PIN entries do not match' });
+      return;
+    }
+
+    setBusy(true);
+    try {
+      if (!(await db.changePassphrase(currentPin, newPin))) {
+        setStatus({ ok: false, text: 'Current PIN is incorrect' });
+        return;
+      }
+      setCurrentPin('');
+      setNewPin('');
+      setConfirmPin('');
+      setShowChangePin(false);
+      setStatus({ ok: true, text: 'PIN changed and all records re-encrypted' });
+    } catch (error) {
+      console.error('Failed to change PIN:', error);
+      setStatus({ ok: false, text: 'Failed to change PIN' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleLockNow = () => {
+    db.lockDatabase();
+    setEncryptionState('locked');
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+      <div className="p-4 border-b border-gray-100">
+        <h2 className="font-semibold text-gray-900">Security</h2>
+      </div>
+      <div className="divide-y divide-gray-100">
+        <div className="p-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Timer className="w-5 h-5 text-astro-600" />
+            <div>
+              <p className="font-medium text-gray-900">Auto-lock</p>
+              <p className="text-sm text-gray-500">Lock after this long without interaction</p>
+            </div>
+          </div>
+          <select
+            value={autoLockMinutes}
+            onChange={(e) => handleAutoLockChange(Number(e.target.value))}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            aria-label="Auto-lock timeout"
+          >
+            {AUTO_LOCK_OPTIONS.map(minutes => (
+              <option key={minutes} value={minutes}>{minutes} min</option>
+            ))}
+          </select>
+        </div>
+
+        {canChangeDevicePin && (
+          <div className="p-4 space-y-3">
+            <button
+              onClick={() => setShowChangePin(!showChangePin)}
+              className="flex items-center gap-3 text-left"
+            >
+              <KeyRound className="w-5 h-5 text-astro-600" />
+              <div>
+                <p className="font-medium text-gray-900">Change device PIN</p>
+                <p className="text-sm text-gray-500">Re-encrypts every record under a new key</p>
+              </div>
+            </button>
+
+            {showChangePin && (
+              <div className="space-y-2">
+                <input
+                  type="password"
+                  value={currentPin}
+                  onChange={(e) => setCurrentPin(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  placeholder="Current PIN"
+                  autoComplete="current-password"
+                />
+                <input
+                  type="password"
+                  value={newPin}
+                  onChange={(e) => setNewPin(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  placeholder="New PIN"
+                  autoComplete="new-password"
+                />
+                <input
+                  type="password"
+                  value={confirmPin}
+                  onChange={(e) => setConfirmPin(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  placeholder="Confirm new PIN"
+                  autoComplete="new-password"
+                />
+                <button
+                  onClick={handleChangePin}
+                  disabled={busy || !currentPin || !newPin}
+                  className="flex items-center gap-2 px-3 py-2 bg-astro-500 text-white rounded-lg text-sm font-medium hover:bg-astro-600 disabled:opacity-50"
+                >
+                  {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+                  {busy ? 'Re-encrypting...' : 'Change PIN'}
+                </button>
+              </div>
+            )}
+
+            {status && (
+              <p className={`flex items-center gap-2 text-sm ${status.ok ? 'text-green-700' : 'text-red-700'}`}>
+                {status.ok ? <Check className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+                {status.text}
+              </p>
+            )}
+          </div>
+        )}
+
+        <button
+          onClick={handleLockNow}
+          className="w-full p-4 flex items-center gap-3 hover:bg-gray-50"
+        >
+          <Lock className="w-5 h-5 text-astro-600" />
+          <p className="font-medium text-gray-900">Lock now</p>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SecuritySettings;
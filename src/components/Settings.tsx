@@ -4,13 +4,13 @@
 
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
 import {
   ArrowLeft,
   Wifi,
   WifiOff,
   HardDrive,
   Trash2,
-  Download,
   ChevronRight,
   Shield,
   Ruler,
@@ -18,10 +18,19 @@ import {
   RefreshCw,
   AlertCircle,
   Check,
+  Target,
+  History,
 } from 'lucide-react';
+import { SecuritySettings } from './SecuritySettings';
+import { UserManagement } from './UserManagement';
+import { SyncSettings } from './SyncSettings';
+import { BackupSettings } from './BackupSettings';
 import { useAppStore } from '@/store';
 import * as db from '@/store/database';
 import { getSegmentationEngine } from '@/engine';
+import { assertPermission, hasPermission } from '@/lib/permissions';
+import { verifyAuditChain } from '@/lib/audit';
+import type { DeviceValidationRecord } from '@/types';
 
 interface StorageInfo {
   patients: number;
@@ -32,16 +41,26 @@ interface StorageInfo {
 
 export const Settings: React.FC = () => {
   const navigate = useNavigate();
-  const { isOnline, isModelLoaded, setModelLoaded } = useAppStore();
+  const { isOnline, isModelLoaded, setModelLoaded, currentUser } = useAppStore();
+  const canClearData = hasPermission(currentUser, 'clear_data');
+  const canViewAudit = hasPermission(currentUser, 'view_audit');
   
   const [storageInfo, setStorageInfo] = useState<StorageInfo | null>(null);
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [modelLoading, setModelLoading] = useState(false);
+  const [lastValidation, setLastValidation] = useState<DeviceValidationRecord | null>(null);
+  const segmentationEngine = getSegmentationEngine();
+  const modelStatus = segmentationEngine.getModelStatus();
+  const modelUnavailableReason = segmentationEngine.getUnavailableReason();
+  const modelConfig = segmentationEngine.getConfig();
 
   useEffect(() => {
     loadStorageInfo();
+    db.getLatestDeviceValidation()
+      .then(record => setLastValidation(record ?? null))
+      .catch(error => console.error('Failed to load device validation:', error));
   }, []);
 
   const loadStorageInfo = async () => {
@@ -82,8 +101,16 @@ export const Settings: React.FC = () => {
     try {
       const engine = getSegmentationEngine();
       await engine.initialize();
-      setModelLoaded(true);
-      setMessage({ type: 'success', text: 'AI model loaded successfully' });
+      if (engine.isReady()) {
+        setModelLoaded(true);
+        setMessage({ type: 'success', text: 'AI model loaded successfully' });
+      } else {
+        setModelLoaded(false);
+        setMessage({
+          type: 'error',
+          text: `AI model unavailable (${engine.getUnavailableReason()}). Classical segmentation will be used.`,
+        });
+      }
     } catch (error) {
       console.error('Failed to load model:', error);
       setMessage({ type: 'error', text: 'Failed to load AI model' });
@@ -99,30 +126,36 @@ export const Settings: React.FC = () => {
     setMessage({ type: 'success', text: 'AI model unloaded' });
   };
 
-  const handleExportData = async () => {
+  // Full log with its chain check, so a reviewer can confirm nothing was
+  // removed or altered since it was written
+  const handleExportAuditLog = async () => {
     setLoading(true);
     try {
-      const patients = await db.getAllPatients();
-      const exportData: any = { patients: [], wounds: [] };
-
-      for (const patient of patients) {
-        exportData.patients.push(patient);
-        const wounds = await db.getWoundsForPatient(patient.id);
-        exportData.wounds.push(...wounds);
-      }
+      assertPermission(currentUser, 'view_audit');
+      const entries = await db.getAuditLog();
+      const verification = await verifyAuditChain(entries);
+      const exportData = {
+        exportedAt: new Date().toISOString(),
+        exportedBy: currentUser?.displayName,
+        deviceId: await db.getDeviceId(),
+        verification,
+        entries,
+      };
 
       const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `astrowound-export-${new Date().toISOString().split('T')[0]}.json`;
+      a.download = `astrowound-audit-${new Date().toISOString().split('T')[0]}.json`;
       a.click();
       URL.revokeObjectURL(url);
 
-      setMessage({ type: 'success', text: 'Data exported successfully' });
+      setMessage(verification.valid
+        ? { type: 'success', text: `Audit log exported (${entries.length} entries, chain verified)` }
+        : { type: 'error', text: `Audit log exported, but the chain is broken at entry ${verification.brokenAt}` });
     } catch (error) {
-      console.error('Failed to export data:', error);
-      setMessage({ type: 'error', text: 'Failed to export data' });
+      console.error('Failed to export audit log:', error);
+      setMessage({ type: 'error', text: 'Failed to export audit log' });
     } finally {
       setLoading(false);
     }
@@ -131,6 +164,7 @@ export const Settings: React.FC = () => {
   const handleClearData = async () => {
     setLoading(true);
     try {
+      assertPermission(currentUser, 'clear_data');
       await db.clearAllData();
       await loadStorageInfo();
       setShowDeleteConfirm(false);
@@ -195,7 +229,13 @@ export const Settings: React.FC = () => {
                 <Brain className="w-5 h-5 text-astro-600" />
                 <div>
                   <p className="font-medium text-gray-900">AI Model</p>
-                  <p className="text-sm text-gray-500">{isModelLoaded ? 'Loaded and ready' : 'Not loaded'}</p>
+                  <p className="text-sm text-gray-500">
+                    {isModelLoaded
+                      ? 'Loaded and ready'
+                      : modelStatus === 'unavailable'
+                        ? `Model unavailable (${modelUnavailableReason}) - using classical segmentation`
+                        : 'Not loaded'}
+                  </p>
                 </div>
               </div>
               <button
@@ -245,50 +285,33 @@ export const Settings: React.FC = () => {
           <div className="p-4 border-b border-gray-100">
             <h2 className="font-semibold text-gray-900">Calibration</h2>
           </div>
-          <button
-            onClick={() => navigate('/calibration')}
-            className="w-full p-4 flex items-center justify-between hover:bg-gray-50"
-          >
-            <div className="flex items-center gap-3">
-              <Ruler className="w-5 h-5 text-astro-600" />
-              <div className="text-left">
-                <p className="font-medium text-gray-900">Calibration Ruler</p>
-                <p className="text-sm text-gray-500">Download printable calibration template</p>
-              </div>
-            </div>
-            <ChevronRight className="w-5 h-5 text-gray-400" />
-          </button>
-        </div>
-
-        {/* Data Management */}
-        <div className="bg-white rounded-xl shadow-sm overflow-hidden">
-          <div className="p-4 border-b border-gray-100">
-            <h2 className="font-semibold text-gray-900">Data Management</h2>
-          </div>
           <div className="divide-y divide-gray-100">
             <button
-              onClick={handleExportData}
-              disabled={loading}
-              className="w-full p-4 flex items-center justify-between hover:bg-gray-50 disabled:opacity-50"
+              onClick={() => navigate('/calibration')}
+              className="w-full p-4 flex items-center justify-between hover:bg-gray-50"
             >
               <div className="flex items-center gap-3">
-                <Download className="w-5 h-5 text-astro-600" />
+                <Ruler className="w-5 h-5 text-astro-600" />
                 <div className="text-left">
-                  <p className="font-medium text-gray-900">Export Data</p>
-                  <p className="text-sm text-gray-500">Download all patient and wound data</p>
+                  <p className="font-medium text-gray-900">Calibration Ruler</p>
+                  <p className="text-sm text-gray-500">Download printable calibration template</p>
                 </div>
               </div>
               <ChevronRight className="w-5 h-5 text-gray-400" />
             </button>
             <button
-              onClick={() => setShowDeleteConfirm(true)}
-              className="w-full p-4 flex items-center justify-between hover:bg-red-50"
+              onClick={() => navigate('/calibration/validation')}
+              className="w-full p-4 flex items-center justify-between hover:bg-gray-50"
             >
               <div className="flex items-center gap-3">
-                <Trash2 className="w-5 h-5 text-red-500" />
+                <Target className="w-5 h-5 text-astro-600" />
                 <div className="text-left">
-                  <p className="font-medium text-red-600">Clear All Data</p>
-                  <p className="text-sm text-gray-500">Permanently delete all local data</p>
+                  <p className="font-medium text-gray-900">Accuracy Self-Test</p>
+                  <p className="text-sm text-gray-500">
+                    {lastValidation
+                      ? `Last validated ${format(new Date(lastValidation.performedAt), 'MMM d, yyyy')}: ${lastValidation.meanAbsolutePercentError}% mean area error (${lastValidation.passed ? 'passed' : 'failed'})`
+                      : 'Not yet validated on this device'}
+                  </p>
                 </div>
               </div>
               <ChevronRight className="w-5 h-5 text-gray-400" />
@@ -296,6 +319,58 @@ export const Settings: React.FC = () => {
           </div>
         </div>
 
+        {/* Users */}
+        <UserManagement />
+
+        {/* Security */}
+        <SecuritySettings />
+
+        {/* FHIR Sync */}
+        <SyncSettings />
+
+        {/* Backup & Restore */}
+        <BackupSettings />
+
+        {/* Data Management */}
+        <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+          <div className="p-4 border-b border-gray-100">
+            <h2 className="font-semibold text-gray-900">Data Management</h2>
+          </div>
+          <div className="divide-y divide-gray-100">
+            {canViewAudit && (
+              <button
+                onClick={handleExportAuditLog}
+                disabled={loading}
+                className="w-full p-4 flex items-center justify-between hover:bg-gray-50 disabled:opacity-50"
+              >
+                <div className="flex items-center gap-3">
+                  <History className="w-5 h-5 text-astro-600" />
+                  <div className="text-left">
+                    <p className="font-medium text-gray-900">Export Audit Log</p>
+                    <p className="text-sm text-gray-500">Every record change on this device, with integrity check</p>
+                  </div>
+                </div>
+                <ChevronRight className="w-5 h-5 text-gray-400" />
+              </button>
+            )}
+            {canClearData && (
+              <button
+                onClick={() => setShowDeleteConfirm(true)}
+                className="w-full p-4 flex items-center justify-between hover:bg-red-50"
+              >
+                <div className="flex items-center gap-3">
+                  <Trash2 className="w-5 h-5 text-red-500" />
+                  <div className="text-left">
+                    <p className="font-medium text-red-600">Clear All Data</p>
+                    <p className="text-sm text-gray-500">Permanently delete all local data; the audit log is kept</p>
+                  </div>
+                </div>
+                <ChevronRight className="w-5 h-5 text-gray-400" />
+              </button>
+            )}
+          </div>
+        </div>
+
         {/* About */}
         <div className="bg-white rounded-xl shadow-sm overflow-hidden">
           <div className="p-4 border-b border-gray-100">
@@ -308,7 +383,7 @@ export const Settings: React.FC = () => {
             </div>
             <div className="flex items-center justify-between">
               <span className="text-gray-500">AI Model</span>
-              <span className="font-medium text-gray-900">AstroWound-UNet v1.0</span>
+              <span className="font-medium text-gray-900">{modelConfig.name} v{modelConfig.version}</span>
             </div>
           </div>
         </div>
@@ -338,8 +413,8 @@ export const Settings: React.FC = () => {
             </div>
             <h3 className="text-xl font-bold text-gray-900 text-center mb-2">Clear All Data?</h3>
             <p className="text-gray-500 text-center mb-6">
-              This will permanently delete all patients, wounds, and assessments. 
-              This action cannot be undone.
+              This will delete all patients, wounds, and assessments. They can no longer
+              be opened in the app; each deletion is recorded in the audit log.
             </p>
             <div className="flex gap-3">
               <button
@@ -0,0 +1,230 @@
+/**
+ * AstroWound-MEASURE Sign-In Screen
+ * Clinician selection and PIN sign-in on an unlocked device
+ */
+
+import React, { useEffect, useState } from 'react';
+import { User, UserPlus, Lock, Loader2, AlertCircle, ArrowLeft } from 'lucide-react';
+import { useAppStore } from '@/store';
+import * as db from '@/store/database';
+import { ENCRYPTION_SPEC } from '@/lib/encryption';
+import { ROLE_LABELS, buildUserAccount, formatUserIdentity } from '@/lib/permissions';
+import type { UserAccount } from '@/types';
+
+export const SignInScreen: React.FC = () => {
+  const { signIn, setEncryptionState } = useAppStore();
+  const [users, setUsers] = useState<UserAccount[] | null>(null);
+  const [selected, setSelected] = useState<UserAccount | null>(null);
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [credentials, setCredentials] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    db.getAllUsers()
+      .then(all => setUsers(all.filter(u => u.active)))
+      .catch(err => {
+        console.error('Failed to load users:', err);
+        setUsers([]);
+      });
+  }, []);
+
+  const isFirstRun = users !== null && users.length === 0;
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const user = await db.authenticateUser(selected.id, pin);
+      if (!user) {
+        setError('Incorrect PIN');
+        return;
+      }
+      setPin('');
+      signIn(user);
+    } catch (err) {
+      console.error('Sign-in failed:', err);
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // First run on this device: the first account administers the rest
+  const handleCreateAdmin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (!displayName.trim()) {
+      setError('Enter your name');
+      return;
+    }
+    if (pin.length < ENCRYPTION_SPEC.minPinLength) {
+      setError(`Use a PIN of at least ${ENCRYPTION_SPEC.minPinLength} digits`);
+      return;
+    }
+    if (pin !== confirmPin) {
+      setError('The two PIN entries do not match');
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const user = await buildUserAccount({ displayName, credentials, role: 'admin' }, pin);
+      await db.createUser(user);
+      signIn(user);
+    } catch (err) {
+      console.error('Failed to create user:', err);
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleLock = () => {
+    db.lockDatabase();
+    setEncryptionState('locked');
+  };
+
+  const errorMessage = error && (
+    <p className="flex items-center gap-2 text-sm text-red-700">
+      <AlertCircle className="w-4 h-4" />
+      {error}
+    </p>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-astro-500 to-astro-700 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl max-w-sm w-full p-6 space-y-4">
+        {users === null ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-astro-600" />
+          </div>
+        ) : isFirstRun ? (
+          <form onSubmit={handleCreateAdmin} className="space-y-4">
+            <div className="text-center">
+              <div className="w-16 h-16 rounded-full bg-astro-100 flex items-center justify-center mx-auto mb-3">
+                <UserPlus className="w-8 h-8 text-astro-600" />
+              </div>
+              <h1 className="text-xl font-bold text-gray-900">Create administrator</h1>
+              <p className="text-sm text-gray-500 mt-1">
+                Your name is recorded on the assessments you capture and verify.
+                You can add other clinicians in Settings.
+              </p>
+            </div>
+            <input
+              type="text"
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              placeholder="Full name"
+              autoFocus
+            />
+            <input
+              type="text"
+              value={credentials}
+              onChange={(e) => setCredentials(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              placeholder="Credentials (e.g. RN, CWOCN)"
+            />
+            <input
+              type="password"
+              inputMode="numeric"
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              placeholder="Sign-in PIN"
+              autoComplete="new-password"
+            />
+            <input
+              type="password"
+              inputMode="numeric"
+              value={confirmPin}
+              onChange={(e) => setConfirmPin(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              placeholder="Confirm PIN"
+              autoComplete="new-password"
+            />
+            {errorMessage}
+            <button
+              type="submit"
+              disabled={busy}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-astro-500 text-white rounded-lg font-medium hover:bg-astro-600 disabled:opacity-50"
+            >
+              {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+              Create and sign in
+            </button>
+          </form>
+        ) : selected ? (
+          <form onSubmit={handleSignIn} className="space-y-4">
+            <button
+              type="button"
+              onClick={() => { setSelected(null); setPin(''); setError(null); }}
+              className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Other user
+            </button>
+            <div className="text-center">
+              <p className="text-lg font-semibold text-gray-900">{formatUserIdentity(selected)}</p>
+              <p className="text-sm text-gray-500">{ROLE_LABELS[selected.role]}</p>
+            </div>
+            <input
+              type="password"
+              inputMode="numeric"
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-center tracking-widest"
+              placeholder="PIN"
+              autoComplete="current-password"
+              autoFocus
+            />
+            {errorMessage}
+            <button
+              type="submit"
+              disabled={busy || !pin}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-astro-500 text-white rounded-lg font-medium hover:bg-astro-600 disabled:opacity-50"
+            >
+              {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+              Sign in
+            </button>
+          </form>
+        ) : (
+          <>
+            <h1 className="text-xl font-bold text-gray-900 text-center">Who is using this device?</h1>
+            <div className="space-y-2">
+              {users.map(user => (
+                <button
+                  key={user.id}
+                  onClick={() => setSelected(user)}
+                  className="w-full flex items-center gap-3 p-3 rounded-lg border border-gray-200 hover:bg-gray-50 text-left"
+                >
+                  <div className="w-10 h-10 rounded-full bg-astro-100 flex items-center justify-center">
+                    <User className="w-5 h-5 text-astro-600" />
+                  </div>
+                  <div>
+                    <p className="font-medium text-gray-900">{formatUserIdentity(user)}</p>
+                    <p className="text-sm text-gray-500">{ROLE_LABELS[user.role]}</p>
+                  </div>
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+
+        <button
+          onClick={handleLock}
+          className="w-full flex items-center justify-center gap-2 text-sm text-gray-500 hover:text-gray-700"
+        >
+          <Lock className="w-4 h-4" />
+          Lock device
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SignInScreen;
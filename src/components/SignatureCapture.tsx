@@ -0,0 +1,198 @@
+/**
+ * AstroWound-MEASURE Signature Capture
+ * Drawn or PIN-based e-signature of the signed-in clinician
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { PenLine, KeyRound, Eraser, Loader2, AlertCircle } from 'lucide-react';
+import { useAppStore } from '@/store';
+import * as db from '@/store/database';
+import { formatUserIdentity } from '@/lib/permissions';
+import { createSignature } from '@/lib/verification';
+import type { ESignature, SignatureMethod } from '@/types';
+
+interface SignatureCaptureProps {
+  meaning: string;
+  submitLabel: string;
+  onSign: (signature: ESignature) => Promise<void> | void;
+  disabled?: boolean;
+}
+
+const PAD_WIDTH = 480;
+const PAD_HEIGHT = 160;
+
+export const SignatureCapture: React.FC<SignatureCaptureProps> = ({
+  meaning,
+  submitLabel,
+  onSign,
+  disabled = false,
+}) => {
+  const { currentUser } = useAppStore();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+  const [method, setMethod] = useState<SignatureMethod>('drawn');
+  const [hasStrokes, setHasStrokes] = useState(false);
+  const [pin, setPin] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = '#111827';
+  }, [method]);
+
+  const pointFor = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * PAD_WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * PAD_HEIGHT,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    const { x, y } = pointFor(e);
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    const { x, y } = pointFor(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    setHasStrokes(true);
+  };
+
+  const handlePointerUp = () => {
+    drawing.current = false;
+  };
+
+  const clearPad = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasStrokes(false);
+  };
+
+  const handleSign = async () => {
+    if (!currentUser) return;
+    setError(null);
+    setBusy(true);
+    try {
+      if (method === 'pin') {
+        if (!(await db.verifyUserPin(currentUser.id, pin))) {
+          setError('Incorrect PIN');
+          return;
+        }
+        setPin('');
+        await onSign(createSignature(currentUser, 'pin', meaning));
+      } else {
+        const image = canvasRef.current!.toDataURL('image/png');
+        await onSign(createSignature(currentUser, 'drawn', meaning, image));
+        clearPad();
+      }
+    } catch (err) {
+      console.error('Signing failed:', err);
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!currentUser) return null;
+
+  const ready = method === 'drawn' ? hasStrokes : pin.length > 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-gray-600">
+          Signing as <span className="font-medium text-gray-900">{formatUserIdentity(currentUser)}</span>
+        </p>
+        <div className="flex rounded-lg border border-gray-200 p-0.5 text-sm">
+          {(['drawn', 'pin'] as const).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => { setMethod(option); setError(null); }}
+              className={`flex items-center gap-1.5 px-2.5 py-1 rounded-md ${
+                method === option ? 'bg-astro-50 text-astro-700 font-medium' : 'text-gray-600'
+              }`}
+            >
+              {option === 'drawn' ? <PenLine className="w-4 h-4" /> : <KeyRound className="w-4 h-4" />}
+              {option === 'drawn' ? 'Draw' : 'PIN'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {method === 'drawn' ? (
+        <div className="relative">
+          <canvas
+            ref={canvasRef}
+            width={PAD_WIDTH}
+            height={PAD_HEIGHT}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerLeave={handlePointerUp}
+            className="w-full h-auto bg-gray-50 border border-dashed border-gray-300 rounded-lg touch-none cursor-crosshair"
+            aria-label="Signature pad"
+          />
+          {hasStrokes && (
+            <button
+              type="button"
+              onClick={clearPad}
+              className="absolute top-2 right-2 p-1.5 text-gray-500 hover:text-gray-700 hover:bg-white rounded-lg"
+              title="Clear signature"
+            >
+              <Eraser className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      ) : (
+        <input
+          type="password"
+          inputMode="numeric"
+          value={pin}
+          onChange={(e) => setPin(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-center tracking-widest"
+          placeholder="Your sign-in PIN"
+          autoComplete="current-password"
+        />
+      )}
+
+      <p className="text-xs text-gray-500">
+        By signing you confirm: {meaning.toLowerCase()}.
+      </p>
+
+      {error && (
+        <p className="flex items-center gap-2 text-sm text-red-700">
+          <AlertCircle className="w-4 h-4" />
+          {error}
+        </p>
+      )}
+
+      <button
+        type="button"
+        onClick={handleSign}
+        disabled={disabled || busy || !ready}
+        className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-astro-500 text-white rounded-lg font-medium hover:bg-astro-600 disabled:opacity-50"
+      >
+        {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+        {submitLabel}
+      </button>
+    </div>
+  );
+};
+
+export default SignatureCapture;
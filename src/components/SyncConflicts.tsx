@@ -0,0 +1,234 @@
+/**
+ * AstroWound-MEASURE Sync Conflicts
+ * Field-by-field review of records changed on another device
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ArrowLeft, GitMerge, Check, AlertCircle, Loader2, History } from 'lucide-react';
+import * as db from '@/store/database';
+import { useAppStore } from '@/store';
+import { getSyncService } from '@/store/syncService';
+import { formatUserIdentity, hasPermission } from '@/lib/permissions';
+import { isAssessmentLocked } from '@/lib/verification';
+import type { SyncConflict } from '@/types';
+
+const TABLE_LABELS: Record<SyncConflict['table'], string> = {
+  patients: 'Patient',
+  wounds: 'Wound',
+  assessments: 'Assessment',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (value instanceof Date) return format(value, 'MMM d, yyyy');
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+export const SyncConflicts: React.FC = () => {
+  const navigate = useNavigate();
+  const currentUser = useAppStore(state => state.currentUser);
+  const canAmend = hasPermission(currentUser, 'amend_assessment');
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  // Open conflicts on verified assessments, which only resolve as an amendment
+  const [lockedIds, setLockedIds] = useState<Set<string>>(new Set());
+  const [choices, setChoices] = useState<Record<string, Record<string, 'local' | 'remote'>>>({});
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    loadConflicts();
+  }, []);
+
+  const loadConflicts = async () => {
+    try {
+      const all = await db.getSyncConflicts();
+      const locked = new Set<string>();
+      for (const conflict of all) {
+        if (conflict.status === 'open' && conflict.table === 'assessments'
+          && isAssessmentLocked(await db.getAssessment(conflict.recordId))) {
+          locked.add(conflict.id);
+        }
+      }
+      setConflicts(all);
+      setLockedIds(locked);
+    } catch (error) {
+      console.error('Failed to load conflicts:', error);
+    }
+  };
+
+  const choiceFor = (conflict: SyncConflict, path: string) => choices[conflict.id]?.[path] ?? 'local';
+
+  const setChoice = (conflict: SyncConflict, path: string, choice: 'local' | 'remote') => {
+    setChoices(prev => ({ ...prev, [conflict.id]: { ...prev[conflict.id], [path]: choice } }));
+  };
+
+  const handleResolve = async (conflict: SyncConflict) => {
+    setResolvingId(conflict.id);
+    setMessage(null);
+    try {
+      const selected = Object.fromEntries(conflict.fields.map(f => [f.path, choiceFor(conflict, f.path)]));
+      await getSyncService().resolveConflict(conflict.id, selected);
+      setMessage({ type: 'success', text: `${conflict.recordLabel} merged and queued for sync` });
+      await loadConflicts();
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error);
+      setMessage({ type: 'error', text: (error as Error).message });
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const open = conflicts.filter(c => c.status === 'open');
+  const resolved = conflicts.filter(c => c.status === 'resolved');
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm sticky top-0 z-40">
+        <div className="max-w-2xl mx-auto px-4 py-4 flex items-center gap-4">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg"
+            title="Go back"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="text-lg font-semibold text-gray-900">Sync Conflicts</h1>
+        </div>
+      </header>
+
+      <main className="max-w-2xl mx-auto p-4 space-y-6">
+        {message && (
+          <div className={`p-4 rounded-lg flex items-center gap-3 ${
+            message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}>
+            {message.type === 'success' ? <Check className="w-5 h-5" /> : <AlertCircle className="w-5 h-5" />}
+            <span>{message.text}</span>
+          </div>
+        )}
+
+        <div className="bg-blue-50 border border-blue-200 rounded-xl p-4 text-sm text-blue-800">
+          These records were changed on another device after this device last synced them.
+          Choose which value to keep for each field. The merged record replaces the server copy
+          at the next sync, and your choices are kept below as a record of the decision.
+        </div>
+
+        {open.length > 0 && currentUser && (
+          <p className="text-sm text-gray-500">
+            Resolutions are recorded as {formatUserIdentity(currentUser)}.
+          </p>
+        )}
+
+        {open.length === 0 ? (
+          <div className="bg-white rounded-xl shadow-sm p-6 text-center text-gray-500">
+            No conflicts to review.
+          </div>
+        ) : (
+          open.map(conflict => (
+            <div key={conflict.id} className="bg-white rounded-xl shadow-sm overflow-hidden">
+              <div className="p-4 border-b border-gray-100">
+                <div className="flex items-center gap-2">
+                  <GitMerge className="w-5 h-5 text-amber-600" />
+                  <h2 className="font-semibold text-gray-900">
+                    {TABLE_LABELS[conflict.table]}: {conflict.recordLabel}
+                  </h2>
+                </div>
+                <p className="text-sm text-gray-500 mt-1">
+                  Detected {format(new Date(conflict.detectedAt), 'MMM d, yyyy HH:mm')}
+                  {conflict.remoteUpdatedAt && ` · server copy changed ${format(new Date(conflict.remoteUpdatedAt), 'MMM d, yyyy HH:mm')}`}
+                </p>
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="p-3 font-medium">Field</th>
+                    <th className="p-3 font-medium">This device</th>
+                    <th className="p-3 font-medium">Server</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {conflict.fields.map(field => (
+                    <tr key={field.path} className="border-b border-gray-100">
+                      <td className="p-3 text-gray-700">{field.label}</td>
+                      {(['local', 'remote'] as const).map(side => (
+                        <td key={side} className="p-3">
+                          <label className={`flex items-center gap-2 rounded-lg px-2 py-1 cursor-pointer ${
+                            choiceFor(conflict, field.path) === side ? 'bg-astro-50 text-astro-800' : 'text-gray-700'
+                          }`}>
+                            <input
+                              type="radio"
+                              name={`${conflict.id}-${field.path}`}
+                              checked={choiceFor(conflict, field.path) === side}
+                              onChange={() => setChoice(conflict, field.path, side)}
+                            />
+                            {formatValue(field[side])}
+                          </label>
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="p-4 flex items-center justify-end gap-3">
+                {lockedIds.has(conflict.id) && !canAmend && (
+                  <p className="text-sm text-gray-500">
+                    This assessment is verified; merging amends it and needs a role that may amend assessments.
+                  </p>
+                )}
+                <button
+                  onClick={() => handleResolve(conflict)}
+                  disabled={resolvingId !== null || !currentUser || (lockedIds.has(conflict.id) && !canAmend)}
+                  className="flex items-center gap-2 px-4 py-2 bg-astro-500 text-white rounded-lg font-medium hover:bg-astro-600 disabled:opacity-50"
+                >
+                  {resolvingId === conflict.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                  Keep selected values
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+
+        {/* Resolution history */}
+        {resolved.length > 0 && (
+          <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+            <div className="p-4 border-b border-gray-100 flex items-center gap-2">
+              <History className="w-5 h-5 text-gray-400" />
+              <h2 className="font-semibold text-gray-900">Resolved</h2>
+            </div>
+            <div className="divide-y divide-gray-100">
+              {resolved.map(conflict => (
+                <div key={conflict.id} className="p-4 text-sm">
+                  <p className="font-medium text-gray-900">
+                    {TABLE_LABELS[conflict.table]}: {conflict.recordLabel}
+                  </p>
+                  {conflict.resolution && (
+                    <p className="text-gray-500">
+                      {conflict.resolution.resolvedBy} · {format(new Date(conflict.resolution.resolvedAt), 'MMM d, yyyy HH:mm')}
+                    </p>
+                  )}
+                  <ul className="mt-1 text-gray-600">
+                    {conflict.fields.map(field => {
+                      const kept = conflict.resolution?.choices[field.path] ?? 'local';
+                      return (
+                        <li key={field.path}>
+                          {field.label}: kept {kept === 'local' ? 'this device' : 'server'} value "{formatValue(field[kept])}"
+                          {' '}over "{formatValue(field[kept === 'local' ? 'remote' : 'local'])}"
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SyncConflicts;
@@ -0,0 +1,219 @@
+/**
+ * AstroWound-MEASURE Sync Settings
+ * FHIR endpoint configuration and sync queue status
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { UploadCloud, RefreshCw, Plug, AlertCircle, Check, GitMerge, ChevronRight } from 'lucide-react';
+import { useAppStore } from '@/store';
+import * as db from '@/store/database';
+import { getSyncService } from '@/store/syncService';
+import type { FhirSyncSettings, SyncQueueItem } from '@/types';
+
+const DEFAULT_SYNC_SETTINGS: FhirSyncSettings = {
+  enabled: false,
+  endpoint: '',
+};
+
+export const SyncSettings: React.FC = () => {
+  const navigate = useNavigate();
+  const { isOnline, pendingSync } = useAppStore();
+  const [settings, setSettings] = useState<FhirSyncSettings>(DEFAULT_SYNC_SETTINGS);
+  const [queue, setQueue] = useState<SyncQueueItem[]>([]);
+  const [openConflicts, setOpenConflicts] = useState(0);
+  const [busy, setBusy] = useState<'save' | 'test' | 'sync' | null>(null);
+  const [status, setStatus] = useState<{ ok: boolean; text: string } | null>(null);
+  const syncService = getSyncService();
+
+  useEffect(() => {
+    db.getSettings()
+      .then(appSettings => setSettings(appSettings?.fhirSync ?? DEFAULT_SYNC_SETTINGS))
+      .catch(error => console.error('Failed to load sync settings:', error));
+    loadQueue();
+  }, []);
+
+  const loadQueue = async () => {
+    try {
+      setQueue(await db.getSyncQueue());
+      setOpenConflicts((await db.getOpenSyncConflicts()).length);
+    } catch (error) {
+      console.error('Failed to load sync queue:', error);
+    }
+  };
+
+  const cleaned = (): FhirSyncSettings => ({
+    ...settings,
+    endpoint: settings.endpoint.trim(),
+    authToken: settings.authToken?.trim() || undefined,
+  });
+
+  const handleSave = async () => {
+    setBusy('save');
+    setStatus(null);
+    try {
+      await db.updateSettings({ fhirSync: cleaned() });
+      setStatus({ ok: true, text: 'Sync settings saved' });
+    } catch (error) {
+      console.error('Failed to save sync settings:', error);
+      setStatus({ ok: false, text: 'Failed to save sync settings' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleTest = async () => {
+    setBusy('test');
+    setStatus(null);
+    const result = await syncService.testConnection(cleaned());
+    setStatus({ ok: result.ok, text: result.message });
+    setBusy(null);
+  };
+
+  const handleSyncNow = async () => {
+    setBusy('sync');
+    setStatus(null);
+    try {
+      await db.updateSettings({ fhirSync: cleaned() });
+      const result = await syncService.run({ ignoreBackoff: true });
+      setStatus(result
+        ? {
+            ok: result.failed === 0 && result.conflicts === 0,
+            text: `Sent ${result.sent}, failed ${result.failed}, waiting ${result.deferred}` +
+              (result.conflicts ? `, ${result.conflicts} in conflict` : '') +
+              (result.skipped ? `, ${result.skipped} not mapped to FHIR` : ''),
+          }
+        : { ok: false, text: isOnline ? 'Enable sync and set an endpoint first' : 'Device is offline' });
+    } catch (error) {
+      console.error('Sync failed:', error);
+      setStatus({ ok: false, text: 'Sync failed' });
+    } finally {
+      await loadQueue();
+      setBusy(null);
+    }
+  };
+
+  const failedItems = queue.filter(item => item.attempts > 0);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+      <div className="p-4 border-b border-gray-100 flex items-center justify-between">
+        <h2 className="font-semibold text-gray-900">FHIR Sync</h2>
+        <span className="text-sm text-gray-500">{pendingSync} pending</span>
+      </div>
+      <div className="p-4 space-y-4">
+        <label className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <UploadCloud className="w-5 h-5 text-astro-600" />
+            <div>
+              <p className="font-medium text-gray-900">Send changes to FHIR server</p>
+              <p className="text-sm text-gray-500">Patients, wounds, assessments and reports as FHIR R4 resources</p>
+            </div>
+          </div>
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => setSettings({ ...settings, enabled: e.target.checked })}
+            className="w-5 h-5"
+          />
+        </label>
+
+        <div>
+          <label htmlFor="fhir-endpoint" className="block text-sm font-medium text-gray-700 mb-1">
+            FHIR base URL
+          </label>
+          <input
+            id="fhir-endpoint"
+            type="url"
+            value={settings.endpoint}
+            onChange={(e) => setSettings({ ...settings, endpoint: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            placeholder="https://fhir.example.org/R4"
+          />
+        </div>
+        <div>
+          <label htmlFor="fhir-token" className="block text-sm font-medium text-gray-700 mb-1">
+            Access token (optional)
+          </label>
+          <input
+            id="fhir-token"
+            type="password"
+            value={settings.authToken ?? ''}
+            onChange={(e) => setSettings({ ...settings, authToken: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            autoComplete="off"
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={handleSave}
+            disabled={busy !== null}
+            className="px-3 py-2 bg-astro-500 text-white rounded-lg text-sm font-medium hover:bg-astro-600 disabled:opacity-50"
+          >
+            Save
+          </button>
+          <button
+            onClick={handleTest}
+            disabled={busy !== null || !settings.endpoint.trim() || !isOnline}
+            className="flex items-center gap-1.5 px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 disabled:opacity-50"
+          >
+            <Plug className="w-4 h-4" />
+            Test connection
+          </button>
+          <button
+            onClick={handleSyncNow}
+            disabled={busy !== null || !settings.enabled}
+            className="flex items-center gap-1.5 px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${busy === 'sync' ? 'animate-spin' : ''}`} />
+            Sync now
+          </button>
+        </div>
+
+        {status && (
+          <p className={`flex items-center gap-2 text-sm ${status.ok ? 'text-green-700' : 'text-red-700'}`}>
+            {status.ok ? <Check className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+            {status.text}
+          </p>
+        )}
+
+        {openConflicts > 0 && (
+          <button
+            onClick={() => navigate('/sync/conflicts')}
+            className="w-full flex items-center justify-between p-3 bg-amber-50 text-amber-800 rounded-lg text-sm hover:bg-amber-100"
+          >
+            <span className="flex items-center gap-2">
+              <GitMerge className="w-4 h-4" />
+              {openConflicts} record{openConflicts === 1 ? '' : 's'} changed on another device need review
+            </span>
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        )}
+
+        {failedItems.length > 0 && (
+          <div className="border-t border-gray-100 pt-4">
+            <p className="text-sm font-medium text-gray-700 mb-2">Failed changes</p>
+            <div className="space-y-2">
+              {failedItems.map(item => {
+                const retryAt = syncService.nextRetryAt(item);
+                return (
+                  <div key={item.id} className="text-sm bg-red-50 rounded-lg p-2">
+                    <p className="text-gray-900">
+                      {item.type} {item.table} · {item.attempts} attempt{item.attempts === 1 ? '' : 's'}
+                      {retryAt && ` · next retry ${format(retryAt, 'MMM d HH:mm')}`}
+                    </p>
+                    {item.error && <p className="text-red-700">{item.error}</p>}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SyncSettings;
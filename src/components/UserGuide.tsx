@@ -330,8 +330,8 @@ export const UserGuide: React.FC = () => {
         '• Length — Longest axis measurement in cm',
         '• Width — Perpendicular to length in cm',
         '• Perimeter — Wound edge circumference in cm',
-        '• Depth — Manual entry (if applicable)',
-        '• Volume — Calculated if depth is provided',
+        '• Depth — Deepest probe reading (centre and clock positions)',
+        '• Volume — Integrated from all probe readings',
       ];
       measurements.forEach((item) => {
         pdf.text(item, margin, yPos);
@@ -352,9 +352,15 @@ export const UserGuide: React.FC = () => {
       pdf.setTextColor(60);
       const tracking = [
         'The app automatically tracks healing trends:',
-        '• Improving — Area decreasing >5%',
+        '• Improving — Area decreasing >5% per week',
         '• Stable — Minimal change',
-        '• Worsening — Area increasing >5%',
+        '• Worsening — Area increasing >5% per week',
+        '',
+        'From 3 assessments a healing curve is fitted and the',
+        'projected healing date is shown with a 95% interval.',
+        'Wounds with <40% area reduction at 4 weeks (<50% for',
+        'diabetic ulcers) are flagged as unlikely to heal on',
+        'the current plan.',
         '',
         'View the Patient Timeline to see all assessments',
         'in chronological order and compare over time.',
@@ -408,6 +414,7 @@ export const UserGuide: React.FC = () => {
       pdf.setTextColor(60);
       const privacy = [
         '• All data is stored locally on your device',
+        '• Patient records and photos are encrypted with your PIN; the app locks when idle',
         '• The app works fully offline',
         '• No patient data is sent to external servers',
         '• Export data regularly for backup (Settings > Export)',
@@ -699,8 +706,8 @@ export const UserGuide: React.FC = () => {
                 <tr><td className="px-4 py-2 font-medium">Length</td><td className="px-4 py-2 text-gray-600">Longest axis measurement in cm</td></tr>
                 <tr><td className="px-4 py-2 font-medium">Width</td><td className="px-4 py-2 text-gray-600">Perpendicular to length in cm</td></tr>
                 <tr><td className="px-4 py-2 font-medium">Perimeter</td><td className="px-4 py-2 text-gray-600">Wound edge circumference in cm</td></tr>
-                <tr><td className="px-4 py-2 font-medium">Depth</td><td className="px-4 py-2 text-gray-600">Manual entry (if applicable)</td></tr>
-                <tr><td className="px-4 py-2 font-medium">Volume</td><td className="px-4 py-2 text-gray-600">Calculated if depth is provided</td></tr>
+                <tr><td className="px-4 py-2 font-medium">Depth</td><td className="px-4 py-2 text-gray-600">Deepest probe reading (centre and clock positions)</td></tr>
+                <tr><td className="px-4 py-2 font-medium">Volume</td><td className="px-4 py-2 text-gray-600">Integrated from all probe readings</td></tr>
               </tbody>
             </table>
           </div>
@@ -743,6 +750,10 @@ export const UserGuide: React.FC = () => {
               <CheckCircle className="w-4 h-4 text-green-500 mt-1 flex-shrink-0" />
               <span>All data is stored <strong>locally on your device</strong></span>
             </li>
+            <li className="flex items-start gap-2">
+              <CheckCircle className="w-4 h-4 text-green-500 mt-1 flex-shrink-0" />
+              <span>Patient records and photos are <strong>encrypted with your PIN</strong>; the app locks after a period without use (Settings → Security)</span>
+            </li>
             <li className="flex items-start gap-2">
               <CheckCircle className="w-4 h-4 text-green-500 mt-1 flex-shrink-0" />
               <span>The app works <strong>fully offline</strong></span>
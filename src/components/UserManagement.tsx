@@ -0,0 +1,282 @@
+/**
+ * AstroWound-MEASURE User Management
+ * Local clinician directory: accounts, roles and sign-in PINs
+ */
+
+import React, { useEffect, useState } from 'react';
+import { UserPlus, User, KeyRound, AlertCircle, Check } from 'lucide-react';
+import { useAppStore } from '@/store';
+import * as db from '@/store/database';
+import { ENCRYPTION_SPEC, verifyPin } from '@/lib/encryption';
+import {
+  ROLE_LABELS,
+  assertPermission,
+  buildUserAccount,
+  formatUserIdentity,
+  hasPermission,
+  hashUserPin,
+} from '@/lib/permissions';
+import type { UserAccount, UserRole } from '@/types';
+
+const ROLES = Object.keys(ROLE_LABELS) as UserRole[];
+
+export const UserManagement: React.FC = () => {
+  const { currentUser, signIn } = useAppStore();
+  const isAdmin = hasPermission(currentUser, 'manage_users');
+  const [users, setUsers] = useState<UserAccount[]>([]);
+  const [showAdd, setShowAdd] = useState(false);
+  const [newUser, setNewUser] = useState({ displayName: '', credentials: '', role: 'nurse' as UserRole, pin: '' });
+  const [pinFor, setPinFor] = useState<string | null>(null);
+  const [pinForm, setPinForm] = useState({ current: '', next: '', confirm: '' });
+  const [status, setStatus] = useState<{ ok: boolean; text: string } | null>(null);
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const loadUsers = async () => {
+    try {
+      setUsers(await db.getAllUsers());
+    } catch (error) {
+      console.error('Failed to load users:', error);
+    }
+  };
+
+  // Non-admins only see and manage their own account
+  const visibleUsers = isAdmin ? users : users.filter(u => u.id === currentUser?.id);
+
+  const activeAdmins = users.filter(u => u.active && u.role === 'admin');
+  const isLastAdmin = (user: UserAccount) =>
+    user.role === 'admin' && user.active && activeAdmins.length === 1;
+
+  const saveUser = async (user: UserAccount, successText: string) => {
+    setStatus(null);
+    try {
+      assertPermission(currentUser, 'manage_users');
+      await db.updateUser(user);
+      if (user.id === currentUser?.id) signIn(user);
+      await loadUsers();
+      setStatus({ ok: true, text: successText });
+    } catch (error) {
+      console.error('Failed to update user:', error);
+      setStatus({ ok: false, text: (error as Error).message });
+    }
+  };
+
+  const handleAdd = async () => {
+    setStatus(null);
+    if (!newUser.displayName.trim()) {
+      setStatus({ ok: false, text: 'Enter a name' });
+      return;
+    }
+    if (newUser.pin.length < ENCRYPTION_SPEC.minPinLength) {
+      setStatus({ ok: false, text: `Use a PIN of at least ${ENCRYPTION_SPEC.minPinLength} digits` });
+      return;
+    }
+    try {
+      assertPermission(currentUser, 'manage_users');
+      const { pin, ...details } = newUser;
+      const user = await buildUserAccount(details, pin);
+      await db.createUser(user);
+      setNewUser({ displayName: '', credentials: '', role: 'nurse', pin: '' });
+      setShowAdd(false);
+      await loadUsers();
+      setStatus({ ok: true, text: `${formatUserIdentity(user)} added` });
+    } catch (error) {
+      console.error('Failed to add user:', error);
+      setStatus({ ok: false, text: (error as Error).message });
+    }
+  };
+
+  const handleSetPin = async (user: UserAccount) => {
+    setStatus(null);
+    const isSelf = user.id === currentUser?.id;
+    if (pinForm.next.length < ENCRYPTION_SPEC.minPinLength) {
+      setStatus({ ok: false, text: `Use a PIN of at least ${ENCRYPTION_SPEC.minPinLength} digits` });
+      return;
+    }
+    if (pinForm.next !== pinForm.confirm) {
+      setStatus({ ok: false, text: 'The PIN entries do not match' });
+      return;
+    }
+    try {
+      // Changing your own PIN needs the current one; admins can reset others
+      if (isSelf && !(await verifyPin(pinForm.current, user.pin))) {
+        setStatus({ ok: false, text: 'Current PIN is incorrect' });
+        return;
+      }
+      if (!isSelf) assertPermission(currentUser, 'manage_users');
+      await db.updateUser({ ...user, pin: await hashUserPin(pinForm.next) });
+      setPinFor(null);
+      setPinForm({ current: '', next: '', confirm: '' });
+      await loadUsers();
+      setStatus({ ok: true, text: `PIN updated for ${user.displayName}` });
+    } catch (error) {
+      console.error('Failed to set PIN:', error);
+      setStatus({ ok: false, text: (error as Error).message });
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+      <div className="p-4 border-b border-gray-100 flex items-center justify-between">
+        <h2 className="font-semibold text-gray-900">{isAdmin ? 'Users' : 'My Account'}</h2>
+        {isAdmin && (
+          <button
+            onClick={() => setShowAdd(!showAdd)}
+            className="flex items-center gap-1.5 text-sm font-medium text-astro-600 hover:text-astro-700"
+          >
+            <UserPlus className="w-4 h-4" />
+            Add user
+          </button>
+        )}
+      </div>
+
+      {showAdd && (
+        <div className="p-4 border-b border-gray-100 grid grid-cols-2 gap-2">
+          <input
+            type="text"
+            value={newUser.displayName}
+            onChange={(e) => setNewUser({ ...newUser, displayName: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg"
+            placeholder="Full name"
+          />
+          <input
+            type="text"
+            value={newUser.credentials}
+            onChange={(e) => setNewUser({ ...newUser, credentials: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg"
+            placeholder="Credentials"
+          />
+          <select
+            value={newUser.role}
+            onChange={(e) => setNewUser({ ...newUser, role: e.target.value as UserRole })}
+            className="px-3 py-2 border border-gray-300 rounded-lg"
+            aria-label="Role"
+          >
+            {ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+          </select>
+          <input
+            type="password"
+            inputMode="numeric"
+            value={newUser.pin}
+            onChange={(e) => setNewUser({ ...newUser, pin: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg"
+            placeholder="Initial PIN"
+            autoComplete="new-password"
+          />
+          <button
+            onClick={handleAdd}
+            className="col-span-2 px-3 py-2 bg-astro-500 text-white rounded-lg text-sm font-medium hover:bg-astro-600"
+          >
+            Add user
+          </button>
+        </div>
+      )}
+
+      <div className="divide-y divide-gray-100">
+        {visibleUsers.map(user => {
+          const isSelf = user.id === currentUser?.id;
+          return (
+            <div key={user.id} className="p-4 space-y-3">
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3 min-w-0">
+                  <User className={`w-5 h-5 flex-shrink-0 ${user.active ? 'text-astro-600' : 'text-gray-300'}`} />
+                  <div className="min-w-0">
+                    <p className={`font-medium truncate ${user.active ? 'text-gray-900' : 'text-gray-400'}`}>
+                      {formatUserIdentity(user)}{isSelf && ' (you)'}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {ROLE_LABELS[user.role]}
+                      {!user.active && ' · inactive'}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {isAdmin && (
+                    <select
+                      value={user.role}
+                      onChange={(e) => saveUser({ ...user, role: e.target.value as UserRole }, `${user.displayName} is now ${ROLE_LABELS[e.target.value as UserRole]}`)}
+                      disabled={isLastAdmin(user)}
+                      className="px-2 py-1 border border-gray-300 rounded-lg text-sm disabled:opacity-50"
+                      aria-label={`Role for ${user.displayName}`}
+                    >
+                      {ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                    </select>
+                  )}
+                  {isAdmin && !isSelf && (
+                    <button
+                      onClick={() => saveUser({ ...user, active: !user.active }, `${user.displayName} ${user.active ? 'deactivated' : 'reactivated'}`)}
+                      disabled={isLastAdmin(user)}
+                      className="px-2 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded-lg disabled:opacity-50"
+                    >
+                      {user.active ? 'Deactivate' : 'Reactivate'}
+                    </button>
+                  )}
+                  {(isAdmin || isSelf) && (
+                    <button
+                      onClick={() => setPinFor(pinFor === user.id ? null : user.id)}
+                      className="p-1.5 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg"
+                      title={isSelf ? 'Change PIN' : 'Reset PIN'}
+                    >
+                      <KeyRound className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {pinFor === user.id && (
+                <div className="flex flex-wrap gap-2">
+                  {isSelf && (
+                    <input
+                      type="password"
+                      inputMode="numeric"
+                      value={pinForm.current}
+                      onChange={(e) => setPinForm({ ...pinForm, current: e.target.value })}
+                      className="flex-1 min-w-[6rem] px-3 py-2 border border-gray-300 rounded-lg"
+                      placeholder="Current PIN"
+                      autoComplete="current-password"
+                    />
+                  )}
+                  <input
+                    type="password"
+                    inputMode="numeric"
+                    value={pinForm.next}
+                    onChange={(e) => setPinForm({ ...pinForm, next: e.target.value })}
+                    className="flex-1 min-w-[6rem] px-3 py-2 border border-gray-300 rounded-lg"
+                    placeholder="New PIN"
+                    autoComplete="new-password"
+                  />
+                  <input
+                    type="password"
+                    inputMode="numeric"
+                    value={pinForm.confirm}
+                    onChange={(e) => setPinForm({ ...pinForm, confirm: e.target.value })}
+                    className="flex-1 min-w-[6rem] px-3 py-2 border border-gray-300 rounded-lg"
+                    placeholder="Confirm"
+                    autoComplete="new-password"
+                  />
+                  <button
+                    onClick={() => handleSetPin(user)}
+                    className="px-3 py-2 bg-astro-500 text-white rounded-lg text-sm font-medium hover:bg-astro-600"
+                  >
+                    Save PIN
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {status && (
+        <p className={`px-4 pb-4 flex items-center gap-2 text-sm ${status.ok ? 'text-green-700' : 'text-red-700'}`}>
+          {status.ok ? <Check className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+          {status.text}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default UserManagement;
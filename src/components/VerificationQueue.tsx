@@ -0,0 +1,102 @@
+/**
+ * AstroWound-MEASURE Verification Queue
+ * Assessments captured on this device that still need clinician sign-off
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, formatDistanceToNow } from 'date-fns';
+import { ArrowLeft, ShieldCheck, ChevronRight, AlertTriangle, Loader2 } from 'lucide-react';
+import { useAppStore } from '@/store';
+import * as db from '@/store/database';
+import { hasPermission } from '@/lib/permissions';
+import type { VerificationQueueItem } from '@/types';
+
+export const VerificationQueue: React.FC = () => {
+  const navigate = useNavigate();
+  const { currentUser } = useAppStore();
+  const canVerify = hasPermission(currentUser, 'verify_assessment');
+  const [items, setItems] = useState<VerificationQueueItem[] | null>(null);
+
+  useEffect(() => {
+    db.getVerificationQueue()
+      .then(setItems)
+      .catch(error => {
+        console.error('Failed to load verification queue:', error);
+        setItems([]);
+      });
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm sticky top-0 z-40">
+        <div className="max-w-2xl mx-auto px-4 py-4 flex items-center gap-4">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg"
+            title="Go back"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="text-lg font-semibold text-gray-900">Pending Verification</h1>
+        </div>
+      </header>
+
+      <main className="max-w-2xl mx-auto p-4 space-y-4">
+        {!canVerify && (
+          <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 text-sm text-amber-800">
+            Your role can view this queue, but verification needs a wound specialist or physician.
+          </div>
+        )}
+
+        {items === null ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-astro-600" />
+          </div>
+        ) : items.length === 0 ? (
+          <div className="bg-white rounded-xl shadow-sm p-6 text-center text-gray-500">
+            <ShieldCheck className="w-8 h-8 text-clinical-success mx-auto mb-2" />
+            All assessments have been verified.
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-sm divide-y divide-gray-100">
+            {items.map(({ assessment, wound, patient }) => (
+              <button
+                key={assessment.id}
+                onClick={() => navigate(`/assessments/${assessment.id}/review`)}
+                className="w-full p-4 flex items-center gap-4 hover:bg-gray-50 text-left"
+              >
+                <img
+                  src={assessment.originalImage}
+                  alt=""
+                  className="w-14 h-14 rounded-lg object-cover bg-gray-100 flex-shrink-0"
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-900 truncate">
+                    {patient?.firstName} {patient?.lastName}
+                    <span className="text-gray-500 font-normal"> · MRN {patient?.mrn}</span>
+                  </p>
+                  <p className="text-sm text-gray-500 truncate">
+                    {wound?.location} · {assessment.measurement.area} cm² · by {assessment.capturedBy}
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    {format(new Date(assessment.capturedAt), 'MMM d, yyyy HH:mm')}
+                    {' '}({formatDistanceToNow(new Date(assessment.capturedAt), { addSuffix: true })})
+                  </p>
+                </div>
+                {!assessment.qualityCheck.passed && (
+                  <span title="Image quality below threshold">
+                    <AlertTriangle className="w-5 h-5 text-clinical-warning flex-shrink-0" />
+                  </span>
+                )}
+                <ChevronRight className="w-5 h-5 text-gray-400 flex-shrink-0" />
+              </button>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default VerificationQueue;
@@ -0,0 +1,172 @@
+/**
+ * AstroWound-MEASURE Wound Bed Form
+ * Quick-tap TIME observations: inflammation, moisture, edge, peri-wound and pain
+ */
+
+import React from 'react';
+import {
+  EXUDATE_AMOUNT_LABELS,
+  EXUDATE_TYPE_LABELS,
+  INFLAMMATION_SIGN_LABELS,
+  ODOR_LABELS,
+  PERIWOUND_LABELS,
+  WOUND_EDGE_LABELS,
+} from '@/lib/woundBed';
+import type {
+  ExudateAmount,
+  ExudateType,
+  InflammationSign,
+  PeriWoundCondition,
+  WoundBedObservations,
+  WoundEdgeCondition,
+  WoundOdor,
+} from '@/types';
+
+interface WoundBedFormProps {
+  value: WoundBedObservations;
+  onChange: (value: WoundBedObservations) => void;
+}
+
+/**
+ * Empty observations for a new assessment; nothing is assumed
+ */
+export const emptyWoundBed = (): WoundBedObservations => ({});
+
+const PAIN_SCORES = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+const keysOf = <T extends string>(labels: Record<T, string>) => Object.keys(labels) as T[];
+
+/**
+ * Add or remove an option from a multi-select list
+ */
+const toggle = <T,>(list: T[] | undefined, option: T): T[] =>
+  list?.includes(option) ? list.filter(o => o !== option) : [...(list ?? []), option];
+
+export const WoundBedForm: React.FC<WoundBedFormProps> = ({ value, onChange }) => {
+  const update = (patch: Partial<WoundBedObservations>) => onChange({ ...value, ...patch });
+
+  const chip = (label: string, selected: boolean, onClick: () => void) => (
+    <button
+      key={label}
+      type="button"
+      onClick={onClick}
+      aria-pressed={selected}
+      className={`px-3 py-1.5 rounded-lg text-sm border ${
+        selected
+          ? 'bg-astro-500 border-astro-500 text-white'
+          : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-50'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const section = (title: string, children: React.ReactNode, hint?: string) => (
+    <div>
+      <h4 className="text-sm font-medium text-gray-700 mb-2">
+        {title}
+        {hint && <span className="ml-2 text-xs font-normal text-gray-400">{hint}</span>}
+      </h4>
+      <div className="flex flex-wrap gap-2">{children}</div>
+    </div>
+  );
+
+  const setExudateAmount = (amount: ExudateAmount) => {
+    if (value.exudate?.amount === amount) {
+      update({ exudate: undefined });
+    } else {
+      update({ exudate: { amount, type: value.exudate?.type ?? 'serous' } });
+    }
+  };
+
+  // Intact skin rules out every other peri-wound finding
+  const togglePeriWound = (condition: PeriWoundCondition) => {
+    const next = toggle(value.periWoundCondition, condition);
+    update({
+      periWoundCondition: condition === 'intact'
+        ? next.filter(c => c === 'intact')
+        : next.filter(c => c !== 'intact'),
+    });
+  };
+
+  return (
+    <div className="space-y-5">
+      <p className="text-xs text-gray-500">
+        Tap to select; tap again to clear. Tissue is recorded in Tissue Composition.
+      </p>
+
+      {/* I - Infection / inflammation */}
+      {section('Inflammation', <>
+        {chip('No signs', value.inflammationSigns !== undefined && value.inflammationSigns.length === 0, () =>
+          update({ inflammationSigns: value.inflammationSigns?.length === 0 ? undefined : [] })
+        )}
+        {keysOf(INFLAMMATION_SIGN_LABELS).map((sign: InflammationSign) =>
+          chip(INFLAMMATION_SIGN_LABELS[sign], value.inflammationSigns?.includes(sign) ?? false, () =>
+            update({ inflammationSigns: toggle(value.inflammationSigns, sign) })
+          )
+        )}
+      </>, 'Local signs at the wound')}
+
+      {section('Odour', keysOf(ODOR_LABELS).map((odor: WoundOdor) =>
+        chip(ODOR_LABELS[odor], value.odor === odor, () =>
+          update({ odor: value.odor === odor ? undefined : odor })
+        )
+      ), 'After cleansing')}
+
+      {/* M - Moisture */}
+      {section('Exudate amount', keysOf(EXUDATE_AMOUNT_LABELS).map((amount: ExudateAmount) =>
+        chip(EXUDATE_AMOUNT_LABELS[amount], value.exudate?.amount === amount, () => setExudateAmount(amount))
+      ))}
+
+      {value.exudate && value.exudate.amount !== 'none' && section('Exudate type',
+        keysOf(EXUDATE_TYPE_LABELS).map((type: ExudateType) =>
+          chip(EXUDATE_TYPE_LABELS[type], value.exudate?.type === type, () =>
+            value.exudate && update({ exudate: { ...value.exudate, type } })
+          )
+        )
+      )}
+
+      {/* E - Edge */}
+      {section('Wound edge', keysOf(WOUND_EDGE_LABELS).map((edge: WoundEdgeCondition) =>
+        chip(WOUND_EDGE_LABELS[edge], value.woundEdge?.includes(edge) ?? false, () =>
+          update({ woundEdge: toggle(value.woundEdge, edge) })
+        )
+      ))}
+
+      {section('Peri-wound skin', keysOf(PERIWOUND_LABELS).map((condition: PeriWoundCondition) =>
+        chip(PERIWOUND_LABELS[condition], value.periWoundCondition?.includes(condition) ?? false, () =>
+          togglePeriWound(condition)
+        )
+      ))}
+
+      {/* Pain */}
+      <div>
+        <h4 className="text-sm font-medium text-gray-700 mb-2">
+          Pain at the wound
+          <span className="ml-2 text-xs font-normal text-gray-400">0 = none, 10 = worst imaginable</span>
+        </h4>
+        <div className="grid grid-cols-11 gap-1">
+          {PAIN_SCORES.map(score => (
+            <button
+              key={score}
+              type="button"
+              onClick={() => update({ pain: value.pain === score ? undefined : score })}
+              aria-pressed={value.pain === score}
+              className={`py-1.5 rounded-lg text-sm font-medium border ${
+                value.pain === score
+                  ? score >= 7 ? 'bg-red-500 border-red-500 text-white'
+                    : score >= 4 ? 'bg-amber-500 border-amber-500 text-white'
+                    : 'bg-green-500 border-green-500 text-white'
+                  : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {score}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WoundBedForm;
@@ -0,0 +1,178 @@
+/**
+ * AstroWound-MEASURE Wound Candidate Assignment
+ * Assign each region found in one photo to an existing or new wound
+ */
+
+import React from 'react';
+import { Layers, AlertCircle } from 'lucide-react';
+import type { Wound, WoundLocation, WoundType } from '@/types';
+
+export type CandidateTarget =
+  | { kind: 'wound'; woundId: string }
+  | { kind: 'new'; type: WoundType; location: WoundLocation; locationDetail: string }
+  | { kind: 'ignore' };
+
+// Outline colours, by candidate index
+export const CANDIDATE_COLORS = ['#ef4444', '#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#14b8a6', '#64748b'];
+
+const WOUND_TYPE_LABELS: Record<WoundType, string> = {
+  pressure_ulcer: 'Pressure Ulcer',
+  diabetic_ulcer: 'Diabetic Ulcer',
+  venous_ulcer: 'Venous Ulcer',
+  arterial_ulcer: 'Arterial Ulcer',
+  surgical_wound: 'Surgical Wound',
+  traumatic_wound: 'Traumatic Wound',
+  burn: 'Burn',
+  other: 'Other',
+};
+
+const WOUND_LOCATIONS: WoundLocation[] = [
+  'sacrum', 'heel', 'ankle', 'leg', 'foot', 'arm', 'hand', 'back', 'abdomen', 'chest', 'head', 'other',
+];
+
+export const describeWound = (wound: Pick<Wound, 'location' | 'locationDetail'>): string =>
+  `${wound.location.charAt(0).toUpperCase() + wound.location.slice(1)}${wound.locationDetail ? ` - ${wound.locationDetail}` : ''}`;
+
+/**
+ * Problem with the current assignment, or null when it can be confirmed
+ */
+export function validateCandidateTargets(targets: CandidateTarget[]): string | null {
+  if (!targets.some(target => target.kind !== 'ignore')) {
+    return 'Assign at least one region to a wound';
+  }
+  const woundIds = targets.flatMap(target => (target.kind === 'wound' ? [target.woundId] : []));
+  if (new Set(woundIds).size !== woundIds.length) {
+    return 'Each existing wound can only be assigned one region';
+  }
+  return null;
+}
+
+interface WoundCandidateAssignmentProps {
+  areas: number[];                  // cm² per candidate
+  targets: CandidateTarget[];
+  wounds: Wound[];
+  onChange: (targets: CandidateTarget[]) => void;
+  onConfirm: () => void;
+}
+
+export const WoundCandidateAssignment: React.FC<WoundCandidateAssignmentProps> = ({
+  areas,
+  targets,
+  wounds,
+  onChange,
+  onConfirm,
+}) => {
+  const problem = validateCandidateTargets(targets);
+  const assignedCount = targets.filter(target => target.kind !== 'ignore').length;
+
+  const setTarget = (index: number, target: CandidateTarget) =>
+    onChange(targets.map((current, i) => (i === index ? target : current)));
+
+  const selectValue = (target: CandidateTarget) =>
+    target.kind === 'wound' ? `wound:${target.woundId}` : target.kind;
+
+  const handleSelect = (index: number, value: string) => {
+    if (value === 'ignore') {
+      setTarget(index, { kind: 'ignore' });
+    } else if (value === 'new') {
+      setTarget(index, { kind: 'new', type: 'pressure_ulcer', location: 'foot', locationDetail: '' });
+    } else {
+      setTarget(index, { kind: 'wound', woundId: value.slice('wound:'.length) });
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6">
+      <div className="flex items-center gap-2 mb-1">
+        <Layers className="w-5 h-5 text-gray-500" />
+        <h3 className="font-semibold">Wounds in this Photo</h3>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        {targets.length} separate regions were found. Assign each to a wound; regions marked
+        “Not a wound” are discarded. You will complete one assessment per wound.
+      </p>
+
+      <div className="space-y-3">
+        {targets.map((target, index) => (
+          <div key={index} className="rounded-lg bg-gray-50 p-3 space-y-2">
+            <div className="flex items-center gap-3">
+              <span
+                className="w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold text-white flex-shrink-0"
+                style={{ backgroundColor: CANDIDATE_COLORS[index % CANDIDATE_COLORS.length] }}
+              >
+                {index + 1}
+              </span>
+              <span className="text-sm text-gray-600 w-20 flex-shrink-0">{areas[index]?.toFixed(2)} cm²</span>
+              <select
+                value={selectValue(target)}
+                onChange={(e) => handleSelect(index, e.target.value)}
+                className="flex-1 px-2 py-1.5 border rounded-lg text-sm bg-white"
+                aria-label={`Wound for region ${index + 1}`}
+              >
+                {wounds.map(wound => (
+                  <option key={wound.id} value={`wound:${wound.id}`}>
+                    {describeWound(wound)} ({WOUND_TYPE_LABELS[wound.type]})
+                  </option>
+                ))}
+                <option value="new">New wound…</option>
+                <option value="ignore">Not a wound</option>
+              </select>
+            </div>
+
+            {target.kind === 'new' && (
+              <div className="grid grid-cols-3 gap-2 pl-9">
+                <select
+                  value={target.type}
+                  onChange={(e) => setTarget(index, { ...target, type: e.target.value as WoundType })}
+                  className="px-2 py-1.5 border rounded-lg text-sm bg-white"
+                  aria-label="Wound type"
+                >
+                  {(Object.keys(WOUND_TYPE_LABELS) as WoundType[]).map(type => (
+                    <option key={type} value={type}>{WOUND_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+                <select
+                  value={target.location}
+                  onChange={(e) => setTarget(index, { ...target, location: e.target.value as WoundLocation })}
+                  className="px-2 py-1.5 border rounded-lg text-sm bg-white"
+                  aria-label="Wound location"
+                >
+                  {WOUND_LOCATIONS.map(location => (
+                    <option key={location} value={location}>
+                      {location.charAt(0).toUpperCase() + location.slice(1)}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={target.locationDetail}
+                  onChange={(e) => setTarget(index, { ...target, locationDetail: e.target.value })}
+                  placeholder="e.g., Medial"
+                  className="px-2 py-1.5 border rounded-lg text-sm"
+                  aria-label="Location detail"
+                />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {problem && (
+        <p className="mt-3 flex items-center gap-2 text-sm text-red-600">
+          <AlertCircle className="w-4 h-4" />
+          {problem}
+        </p>
+      )}
+
+      <button
+        onClick={onConfirm}
+        disabled={problem !== null}
+        className="mt-4 w-full py-3 bg-astro-500 text-white rounded-xl font-semibold hover:bg-astro-600 disabled:opacity-50"
+      >
+        Continue with {assignedCount} wound{assignedCount === 1 ? '' : 's'}
+      </button>
+    </div>
+  );
+};
+
+export default WoundCandidateAssignment;
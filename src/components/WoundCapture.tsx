@@ -2,26 +2,61 @@
  * AstroWound-MEASURE Wound Capture & Analysis Component
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { v4 as uuid } from 'uuid';
-import { Camera, Loader2, Check, X, Edit3, Save } from 'lucide-react';
+import { Camera, Loader2, Check, X, Edit3, Save, Layers, RotateCcw, PenTool, Ruler, Droplets } from 'lucide-react';
 import { CameraModule } from './CameraModule';
+import { ContourEditor } from './ContourEditor';
+import { DepthProbeForm, emptyDepthProbe } from './DepthProbeForm';
+import { WoundBedForm, emptyWoundBed } from './WoundBedForm';
+import { InfectionScreenPanel } from './InfectionScreenPanel';
+import {
+  WoundCandidateAssignment,
+  CANDIDATE_COLORS,
+  describeWound,
+  type CandidateTarget,
+} from './WoundCandidateAssignment';
+import { WoundScoringPanel, emptyWoundScoreResponses, type WoundScoreResponses } from './WoundScoringPanel';
 import { 
   getSegmentationEngine, 
-  getMeasurementEngine 
+  getMeasurementEngine,
+  getTissueClassificationEngine,
+  breakdownToTissueTypes,
+  TISSUE_OVERLAY_COLORS
 } from '@/engine';
-import { useAppStore, useAssessmentsStore } from '@/store';
+import { computeWoundScore, type WoundScoringInput } from '@/lib/woundScoring';
+import { computeInfectionScreen, type InfectionScreenInput } from '@/lib/infectionScreen';
+import { formatUserIdentity } from '@/lib/permissions';
+import { useAppStore, useAssessmentsStore, useWoundsStore } from '@/store';
+import * as db from '@/store/database';
 import type { 
   CalibrationData, 
   QualityCheck, 
   WoundAssessment, 
   WoundMeasurement,
-  SegmentationResult 
+  SegmentationResult,
+  SegmentationMethod,
+  TissueAnalysis,
+  TissueType,
+  BoundarySource,
+  DepthProbeRecord,
+  WoundBedObservations,
+  WoundAnalytics,
+  Wound,
+  WoundScoreTool,
+  Point 
 } from '@/types';
 
+const TISSUE_LABELS: Record<keyof TissueAnalysis, string> = {
+  epithelial: 'Epithelial',
+  granulation: 'Granulation',
+  slough: 'Slough',
+  necrotic: 'Necrotic',
+};
+
 interface WoundCaptureProps {
   woundId: string;
-  onComplete: (assessment: WoundAssessment) => void;
+  onComplete: (assessments: WoundAssessment[]) => void;  // one per wound in the photo
   onCancel: () => void;
 }
 
@@ -38,13 +73,81 @@ export const WoundCapture: React.FC<WoundCaptureProps> = ({
   const [calibration, setCalibration] = useState<CalibrationData | null>(null);
   const [quality, setQuality] = useState<QualityCheck | null>(null);
   const [segmentation, setSegmentation] = useState<SegmentationResult | null>(null);
+  const [segmentationMethod, setSegmentationMethod] = useState<SegmentationMethod | null>(null);
+  const [modelVersion, setModelVersion] = useState<string | undefined>(undefined);
+  const [tissueTypes, setTissueTypes] = useState<Record<TissueType, number> | null>(null);
+  const [tissueOverlay, setTissueOverlay] = useState<string | null>(null);
+  const [showTissueOverlay, setShowTissueOverlay] = useState(true);
+  const [boundarySource, setBoundarySource] = useState<BoundarySource>('ai');
+  const [showContourEditor, setShowContourEditor] = useState(false);
   const [measurement, setMeasurement] = useState<WoundMeasurement | null>(null);
-  const [manualDepth, setManualDepth] = useState<string>('');
+  const [depthProbe, setDepthProbe] = useState<DepthProbeRecord>(emptyDepthProbe);
+  const [woundBed, setWoundBed] = useState<WoundBedObservations>(emptyWoundBed);
+  const [scoreResponses, setScoreResponses] = useState<WoundScoreResponses>(emptyWoundScoreResponses);
+  const [infectionResponses, setInfectionResponses] = useState<Record<string, boolean>>({});
+  const [history, setHistory] = useState<{ previous?: WoundAssessment; analytics?: WoundAnalytics }>({});
   const [notes, setNotes] = useState('');
   const [error, setError] = useState<string | null>(null);
 
-  const { isModelLoaded } = useAppStore();
+  // Several wounds in one photo: every region found, the wound each is
+  // assigned to, and the regions still to be assessed (null while assigning)
+  const [candidates, setCandidates] = useState<SegmentationResult[]>([]);
+  const [targets, setTargets] = useState<CandidateTarget[]>([]);
+  const [queue, setQueue] = useState<number[] | null>([0]);
+  const [queuePosition, setQueuePosition] = useState(0);
+  const [saved, setSaved] = useState<WoundAssessment[]>([]);
+  const [patientWounds, setPatientWounds] = useState<Wound[]>([]);
+  const [patientId, setPatientId] = useState<string | null>(null);
+
+  const { isModelLoaded, currentUser } = useAppStore();
   const { addAssessment } = useAssessmentsStore();
+  const { addWound } = useWoundsStore();
+
+  const activeCandidate = queue ? queue[queuePosition] : undefined;
+  const activeTarget: CandidateTarget = activeCandidate !== undefined && targets[activeCandidate]
+    ? targets[activeCandidate]
+    : { kind: 'wound', woundId };
+  const activeWoundId = activeTarget.kind === 'wound' ? activeTarget.woundId : null;
+  const activeWound = activeTarget.kind === 'new'
+    ? activeTarget
+    : patientWounds.find(wound => wound.id === activeWoundId);
+
+  // The patient's other wounds are the choices when a photo holds several
+  useEffect(() => {
+    const loadPatientWounds = async () => {
+      try {
+        const wound = await db.getWound(woundId);
+        if (!wound) return;
+        setPatientId(wound.patientId);
+        setPatientWounds(await db.getWoundsForPatient(wound.patientId));
+      } catch (err) {
+        console.error('Failed to load patient wounds:', err);
+      }
+    };
+    loadPatientWounds();
+  }, [woundId]);
+
+  // Earlier assessments of this wound feed the infection screen's trend items
+  useEffect(() => {
+    setHistory({});
+    if (!activeWoundId) return;
+    const loadHistory = async () => {
+      try {
+        const [wound, earlier] = await Promise.all([db.getWound(activeWoundId), db.getAssessmentsForWound(activeWoundId)]);
+        if (earlier.length === 0) return;
+        earlier.sort((a, b) => new Date(b.capturedAt).getTime() - new Date(a.capturedAt).getTime());
+        setHistory({
+          previous: earlier[0],
+          analytics: wound
+            ? getMeasurementEngine().calculateWoundAnalytics(activeWoundId, earlier, new Date(wound.onset), wound.type)
+            : undefined,
+        });
+      } catch (err) {
+        console.error('Failed to load wound history:', err);
+      }
+    };
+    loadHistory();
+  }, [activeWoundId]);
 
   const handleCapture = useCallback(async (
     imgData: ImageData,
@@ -54,6 +157,19 @@ export const WoundCapture: React.FC<WoundCaptureProps> = ({
     setImageData(imgData);
     setCalibration(cal);
     setQuality(qual);
+    setSegmentation(null);
+    setSegmentationMethod(null);
+    setMeasurement(null);
+    setTissueTypes(null);
+    setTissueOverlay(null);
+    setBoundarySource('ai');
+    setDepthProbe(emptyDepthProbe());
+    setScoreResponses(emptyWoundScoreResponses());
+    setInfectionResponses({});
+    setCandidates([]);
+    setTargets([]);
+    setQueue([0]);
+    setQueuePosition(0);
 
     // Convert ImageData to base64 for preview
     const canvas = document.createElement('canvas');
@@ -85,16 +201,20 @@ export const WoundCapture: React.FC<WoundCaptureProps> = ({
       }
 
       const segResult = await segEngine.segment(imgData);
-      setSegmentation(segResult.segmentation);
+      setSegmentationMethod(segResult.method);
+      setModelVersion(segResult.modelVersion);
+      setBoundarySource('ai');
+      setCandidates(segResult.candidates);
+      setTargets(segResult.candidates.map((_, index): CandidateTarget =>
+        index === 0 ? { kind: 'wound', woundId } : { kind: 'ignore' }
+      ));
 
-      // Step 2: Measurement
-      setProcessingStep('Calculating measurements...');
-      const measureEngine = getMeasurementEngine();
-      const measurements = measureEngine.calculateMeasurements(
-        segResult.segmentation,
-        cal
-      );
-      setMeasurement(measurements);
+      if (segResult.candidates.length > 1) {
+        // Measure once the clinician has said which region is which wound
+        setQueue(null);
+      } else {
+        analyzeSegmentation(segResult.segmentation, imgData, cal);
+      }
 
       setProcessingStep('');
     } catch (err) {
@@ -105,19 +225,120 @@ export const WoundCapture: React.FC<WoundCaptureProps> = ({
     }
   };
 
+  /**
+   * Measure the segmented wound and classify its tissue
+   */
+  const analyzeSegmentation = (
+    seg: SegmentationResult,
+    imgData: ImageData,
+    cal: CalibrationData
+  ) => {
+    // Step 2: Measurement
+    setProcessingStep('Calculating measurements...');
+    const measureEngine = getMeasurementEngine();
+    const measurements = measureEngine.calculateMeasurements(seg, cal);
+    setMeasurement(measurements);
+
+    // Step 3: Tissue classification
+    setProcessingStep('Classifying tissue types...');
+    const tissue = getTissueClassificationEngine().classify(imgData, seg.mask);
+    setSegmentation({ ...seg, tissueBreakdown: tissue.breakdown });
+    setTissueTypes(tissue.classifiedPixels > 0 ? breakdownToTissueTypes(tissue.breakdown) : null);
+
+    const overlayCanvas = document.createElement('canvas');
+    overlayCanvas.width = tissue.overlay.width;
+    overlayCanvas.height = tissue.overlay.height;
+    overlayCanvas.getContext('2d')!.putImageData(tissue.overlay, 0, 0);
+    setTissueOverlay(overlayCanvas.toDataURL('image/png'));
+  };
+
+  const handleContourApply = (contour: Point[], redrawn: boolean) => {
+    if (!imageData || !calibration) return;
+    setError(null);
+
+    try {
+      const edited = getSegmentationEngine().fromContour(contour, imageData.width, imageData.height);
+      analyzeSegmentation(edited, imageData, calibration);
+      setProcessingStep('');
+      setBoundarySource(redrawn || !segmentationMethod || boundarySource === 'manual' ? 'manual' : 'ai_edited');
+      setShowContourEditor(false);
+    } catch (err) {
+      console.error('Contour edit error:', err);
+      setError((err as Error).message);
+    }
+  };
+
+  const radialProfile = useMemo(
+    () => (segmentation ? getMeasurementEngine().calculateRadialProfile(segmentation.mask) : null),
+    [segmentation]
+  );
+
+  const probeVolume = useMemo(() => {
+    if (!segmentation || !calibration || depthProbe.maxDepth <= 0) return undefined;
+    return getMeasurementEngine().calculateProbeVolume(segmentation, calibration, depthProbe.readings);
+  }, [segmentation, calibration, depthProbe.readings, depthProbe.maxDepth]);
+
+  const scoringInput = useMemo<WoundScoringInput>(() => {
+    const probed = depthProbe.readings.length + depthProbe.undermining.length + depthProbe.tunnels.length > 0;
+    return {
+      measurement: measurement ?? undefined,
+      tissueTypes: tissueTypes ?? undefined,
+      exudate: woundBed.exudate,
+      // Undermining is only scored from the probe once the wound has been probed
+      depthProbe: probed ? depthProbe : undefined,
+    };
+  }, [measurement, tissueTypes, woundBed.exudate, depthProbe]);
+
+  const infectionInput = useMemo<InfectionScreenInput>(() => ({
+    measurement: measurement ?? undefined,
+    tissueTypes: tissueTypes ?? undefined,
+    ...woundBed,
+    ...history,
+  }), [measurement, tissueTypes, woundBed, history]);
+
+  const tissueTotal = tissueTypes
+    ? Object.values(tissueTypes).reduce((sum, value) => sum + value, 0)
+    : 100;
+
+  const updateTissuePercent = (type: TissueType, value: string) => {
+    if (!tissueTypes) return;
+    const parsed = Math.max(0, Math.min(100, Math.round(Number(value) || 0)));
+    setTissueTypes({ ...tissueTypes, [type]: parsed });
+  };
+
+  const resetTissueTypes = () => {
+    if (segmentation?.tissueBreakdown) {
+      setTissueTypes(breakdownToTissueTypes(segmentation.tissueBreakdown));
+    }
+  };
+
   const saveAssessment = async () => {
     if (!capturedImage || !calibration || !quality || !segmentation || !measurement) {
       return;
     }
 
-    const depth = manualDepth ? parseFloat(manualDepth) : undefined;
-    const volume = depth ? getMeasurementEngine().calculateVolume(measurement.area, depth) : undefined;
+    if (tissueTotal !== 100) {
+      setError('Tissue percentages must add up to 100%');
+      return;
+    }
+
+    const probe: DepthProbeRecord = {
+      ...depthProbe,
+      readings: depthProbe.readings.filter(r => r.depth > 0),
+      undermining: depthProbe.undermining.filter(u => u.depth > 0),
+      tunnels: depthProbe.tunnels.filter(t => t.depth > 0),
+    };
+    const hasProbe = probe.readings.length + probe.undermining.length + probe.tunnels.length > 0;
+
+    const targetWoundId = await resolveTargetWound();
+    if (!targetWoundId) return;
 
     const assessment: WoundAssessment = {
       id: uuid(),
-      woundId,
+      woundId: targetWoundId,
       capturedAt: new Date(),
-      capturedBy: 'Current User', // TODO: Get from auth
+      capturedBy: currentUser ? formatUserIdentity(currentUser) : '',
+      capturedByUserId: currentUser?.id,
       deviceInfo: {
         userAgent: navigator.userAgent,
         platform: navigator.platform,
@@ -127,13 +348,24 @@ export const WoundCapture: React.FC<WoundCaptureProps> = ({
       },
       originalImage: capturedImage,
       segmentationResult: segmentation,
+      segmentationMethod: segmentationMethod ?? undefined,
+      modelVersion,
+      boundarySource,
       calibrationData: calibration,
       measurement: {
         ...measurement,
-        depth,
-        volume,
+        depth: probe.maxDepth > 0 ? probe.maxDepth : undefined,
+        volume: probeVolume,
+        volumeMethod: probeVolume !== undefined ? 'probe_profile' : undefined,
       },
+      depthProbe: hasProbe ? probe : undefined,
+      woundScores: (['push', 'bwat', 'resvech'] as WoundScoreTool[]).map(tool =>
+        computeWoundScore(tool, scoringInput, scoreResponses[tool])
+      ),
+      infectionScreen: computeInfectionScreen(infectionInput, infectionResponses),
       qualityCheck: quality,
+      tissueTypes: tissueTypes ?? undefined,
+      ...woundBed,
       notes,
       clinicianVerified: false,
       createdAt: new Date(),
@@ -141,16 +373,84 @@ export const WoundCapture: React.FC<WoundCaptureProps> = ({
     };
 
     await addAssessment(assessment);
-    onComplete(assessment);
+
+    const done = [...saved, assessment];
+    const next = queuePosition + 1;
+    if (queue && next < queue.length) {
+      setSaved(done);
+      resetWoundForms();
+      setQueuePosition(next);
+      analyzeSegmentation(candidates[queue[next]], imageData!, calibration);
+      setProcessingStep('');
+      window.scrollTo({ top: 0 });
+    } else {
+      onComplete(done);
+    }
+  };
+
+  /**
+   * Wound the current region is saved against, creating it if the
+   * clinician chose a new wound
+   */
+  const resolveTargetWound = async (): Promise<string | null> => {
+    if (activeTarget.kind === 'wound') return activeTarget.woundId;
+    if (activeTarget.kind === 'ignore' || !patientId || activeCandidate === undefined) return null;
+
+    const wound: Wound = {
+      id: uuid(),
+      patientId,
+      type: activeTarget.type,
+      location: activeTarget.location,
+      locationDetail: activeTarget.locationDetail || undefined,
+      onset: new Date(),
+      status: 'active',
+      assessments: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    await addWound(wound);
+    setPatientWounds([...patientWounds, wound]);
+    // Point the region at the created wound so a failed save is not duplicated
+    setTargets(targets.map((target, index) =>
+      index === activeCandidate ? { kind: 'wound', woundId: wound.id } : target
+    ));
+    return wound.id;
+  };
+
+  const resetWoundForms = () => {
+    setDepthProbe(emptyDepthProbe());
+    setWoundBed(emptyWoundBed());
+    setScoreResponses(emptyWoundScoreResponses());
+    setInfectionResponses({});
+    setNotes('');
+    setBoundarySource('ai');
+    setError(null);
+  };
+
+  const candidateAreas = useMemo(
+    () => calibration
+      ? candidates.map(candidate => getMeasurementEngine().calculateMeasurements(candidate, calibration).area)
+      : [],
+    [candidates, calibration]
+  );
+
+  const confirmAssignment = () => {
+    if (!imageData || !calibration) return;
+    const assigned = targets.flatMap((target, index) => (target.kind === 'ignore' ? [] : [index]));
+    setQueue(assigned);
+    setQueuePosition(0);
+    analyzeSegmentation(candidates[assigned[0]], imageData, calibration);
+    setProcessingStep('');
   };
 
   const renderSegmentationOverlay = () => {
-    if (!segmentation || !capturedImage) return null;
+    const assigning = queue === null;
+    if ((!segmentation && !assigning) || !capturedImage) return null;
 
-    const { contour, boundingBox } = segmentation;
+    const markerSize = Math.max(imageData?.width || 1, imageData?.height || 1) / 80;
 
     // Create SVG path from contour
-    const pathData = contour.length > 0
+    const toPath = (contour: Point[]) => contour.length > 0
       ? `M ${contour[0].x} ${contour[0].y} ` +
         contour.slice(1).map(p => `L ${p.x} ${p.y}`).join(' ') +
         ' Z'
@@ -162,9 +462,60 @@ export const WoundCapture: React.FC<WoundCaptureProps> = ({
         viewBox={`0 0 ${imageData?.width || 1} ${imageData?.height || 1}`}
         preserveAspectRatio="xMidYMid meet"
       >
+        {/* Other regions in the photo: numbered while assigning, faint afterwards */}
+        {candidates.length > 1 && candidates.map((candidate, index) => {
+          if (!assigning && index === activeCandidate) return null;
+          const color = CANDIDATE_COLORS[index % CANDIDATE_COLORS.length];
+          const { boundingBox: box } = candidate;
+          return (
+            <g key={`candidate-${index}`} opacity={assigning ? 1 : 0.35}>
+              <path
+                d={toPath(candidate.contour)}
+                fill={assigning ? `${color}40` : 'none'}
+                stroke={color}
+                strokeWidth="2"
+                strokeDasharray={assigning ? undefined : '6,4'}
+              />
+              {assigning && (
+                <text
+                  x={box.x + box.width / 2}
+                  y={box.y + box.height / 2}
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                  fontSize={markerSize * 2.4}
+                  fontWeight="bold"
+                  fill="white"
+                  stroke={color}
+                  strokeWidth={markerSize / 6}
+                >
+                  {index + 1}
+                </text>
+              )}
+            </g>
+          );
+        })}
+
+        {segmentation && !assigning && renderActiveOverlay(segmentation, toPath, markerSize)}
+      </svg>
+    );
+  };
+
+  /**
+   * Outline, extent and probe findings for the wound being assessed
+   */
+  const renderActiveOverlay = (
+    seg: SegmentationResult,
+    toPath: (contour: Point[]) => string,
+    markerSize: number
+  ) => {
+    const { contour, boundingBox } = seg;
+    const measureEngine = getMeasurementEngine();
+
+    return (
+      <>
         {/* Wound contour */}
         <path
-          d={pathData}
+          d={toPath(contour)}
           fill="rgba(239, 68, 68, 0.3)"
           stroke="#ef4444"
           strokeWidth="2"
@@ -194,6 +545,86 @@ export const WoundCapture: React.FC<WoundCaptureProps> = ({
           markerStart="url(#arrow)"
         />
 
+        {/* Depth probe readings */}
+        {radialProfile && depthProbe.readings.filter(r => r.depth > 0).map((reading) => {
+          const point = reading.position === 'centre'
+            ? radialProfile.centroid
+            : measureEngine.clockPoint(radialProfile, reading.position, 0.5);
+          return (
+            <g key={`depth-${reading.position}`}>
+              <circle cx={point.x} cy={point.y} r={markerSize * 0.6} fill="#1d4ed8" stroke="white" strokeWidth={markerSize / 8} />
+              <text
+                x={point.x}
+                y={point.y - markerSize}
+                textAnchor="middle"
+                fontSize={markerSize * 1.6}
+                fontWeight="bold"
+                fill="white"
+                stroke="#1d4ed8"
+                strokeWidth={markerSize / 10}
+              >
+                {reading.depth}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Undermining: dashed band beyond the edge, clockwise from -> to */}
+        {radialProfile && depthProbe.undermining.filter(u => u.depth > 0).map((entry, index) => {
+          const span = ((entry.toClock - entry.fromClock + 12) % 12) || 12;
+          const offset = entry.depth * (calibration?.pixelsPerCm ?? 0);
+          const steps = Math.max(2, Math.round(span * 6));
+          const points = Array.from({ length: steps + 1 }, (_, i) =>
+            measureEngine.clockPoint(radialProfile, entry.fromClock + (span * i) / steps, 1, offset)
+          );
+          const edgeStart = measureEngine.clockPoint(radialProfile, entry.fromClock, 1);
+          const edgeEnd = measureEngine.clockPoint(radialProfile, entry.fromClock + span, 1);
+          const d = `M ${edgeStart.x} ${edgeStart.y} ` +
+            points.map(p => `L ${p.x} ${p.y}`).join(' ') +
+            ` L ${edgeEnd.x} ${edgeEnd.y}`;
+          return (
+            <path
+              key={`undermining-${index}`}
+              d={d}
+              fill="rgba(147, 51, 234, 0.15)"
+              stroke="#9333ea"
+              strokeWidth={markerSize / 4}
+              strokeDasharray={`${markerSize} ${markerSize / 2}`}
+            />
+          );
+        })}
+
+        {/* Tunnels: arrows from the edge along the tract direction */}
+        {radialProfile && depthProbe.tunnels.filter(t => t.depth > 0).map((tunnel, index) => {
+          const start = measureEngine.clockPoint(radialProfile, tunnel.clock, 1);
+          const end = measureEngine.clockPoint(
+            radialProfile, tunnel.clock, 1, tunnel.depth * (calibration?.pixelsPerCm ?? 0)
+          );
+          return (
+            <g key={`tunnel-${index}`}>
+              <line
+                x1={start.x}
+                y1={start.y}
+                x2={end.x}
+                y2={end.y}
+                stroke="#f59e0b"
+                strokeWidth={markerSize / 3}
+                markerEnd="url(#tunnel-arrow)"
+              />
+              <text
+                x={end.x}
+                y={end.y - markerSize}
+                textAnchor="middle"
+                fontSize={markerSize * 1.4}
+                fontWeight="bold"
+                fill="#f59e0b"
+              >
+                {tunnel.depth} cm
+              </text>
+            </g>
+          );
+        })}
+
         {/* Arrow marker definition */}
         <defs>
           <marker
@@ -207,8 +638,19 @@ export const WoundCapture: React.FC<WoundCaptureProps> = ({
           >
             <path d="M 0 0 L 10 5 L 0 10 z" fill="#10b981" />
           </marker>
+          <marker
+            id="tunnel-arrow"
+            viewBox="0 0 10 10"
+            refX="5"
+            refY="5"
+            markerWidth="4"
+            markerHeight="4"
+            orient="auto"
+          >
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#f59e0b" />
+          </marker>
         </defs>
-      </svg>
+      </>
     );
   };
 
@@ -223,7 +665,15 @@ export const WoundCapture: React.FC<WoundCaptureProps> = ({
           >
             Cancel
           </button>
-          <h1 className="text-lg font-semibold">Wound Assessment</h1>
+          <div className="text-center">
+            <h1 className="text-lg font-semibold">Wound Assessment</h1>
+            {queue && queue.length > 1 && (
+              <p className="text-xs text-gray-500">
+                Wound {queuePosition + 1} of {queue.length}
+                {activeWound && ` · ${describeWound(activeWound)}`}
+              </p>
+            )}
+          </div>
           <div className="w-16" />
         </div>
       </div>
@@ -238,15 +688,40 @@ export const WoundCapture: React.FC<WoundCaptureProps> = ({
                 alt="Wound"
                 className="w-full aspect-[4/3] object-contain bg-gray-100"
               />
+              {showTissueOverlay && tissueOverlay && (
+                <img
+                  src={tissueOverlay}
+                  alt="Tissue classification"
+                  className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+                />
+              )}
               {renderSegmentationOverlay()}
               
-              {/* Retake button */}
-              <button
-                onClick={() => setShowCamera(true)}
-                className="absolute top-4 right-4 bg-white/90 px-3 py-1.5 rounded-lg text-sm font-medium shadow-sm"
-              >
-                Retake
-              </button>
+              {/* Retake / edit buttons */}
+              <div className="absolute top-4 right-4 flex gap-2">
+                {calibration?.detected && imageData && !processing && queue !== null && (
+                  <button
+                    onClick={() => setShowContourEditor(true)}
+                    className="bg-white/90 px-3 py-1.5 rounded-lg text-sm font-medium shadow-sm flex items-center gap-1"
+                  >
+                    <PenTool className="w-4 h-4" />
+                    {segmentation ? 'Edit Outline' : 'Draw Outline'}
+                  </button>
+                )}
+                {saved.length === 0 && (
+                  <button
+                    onClick={() => setShowCamera(true)}
+                    className="bg-white/90 px-3 py-1.5 rounded-lg text-sm font-medium shadow-sm"
+                  >
+                    Retake
+                  </button>
+                )}
+              </div>
+              {segmentation && boundarySource !== 'ai' && (
+                <span className="absolute bottom-4 left-4 bg-white/90 px-2 py-1 rounded text-xs font-medium text-gray-700">
+                  {boundarySource === 'manual' ? 'Manual outline' : 'AI outline (edited)'}
+                </span>
+              )}
             </div>
           ) : (
             <button
@@ -292,6 +767,20 @@ export const WoundCapture: React.FC<WoundCaptureProps> = ({
           </div>
         )}
 
+        {/* Model unavailable notice */}
+        {segmentationMethod === 'classical' && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-4">
+            <p className="font-medium text-yellow-800">AI model unavailable</p>
+            <p className="text-sm text-yellow-700">
+              The wound boundary was estimated with classical colour segmentation ({modelVersion}).
+              Review the outline carefully before saving.
+            </p>
+            <p className="text-xs text-yellow-700 mt-1">
+              {getSegmentationEngine().getUnavailableReason() ?? 'The pretrained model was not loaded.'}
+            </p>
+          </div>
+        )}
+
         {/* Quality Check Results */}
         {quality && (
           <div className="bg-white rounded-xl shadow-sm p-6">
@@ -330,6 +819,9 @@ export const WoundCapture: React.FC<WoundCaptureProps> = ({
                 <div>
                   <p className="text-sm font-medium">Calibration</p>
                   <p className="text-xs text-gray-500">{Math.round(quality.calibration.confidence * 100)}%</p>
+                  {calibration?.markerId !== undefined && (
+                    <p className="text-xs text-gray-500">Marker batch {calibration.markerId}</p>
+                  )}
                 </div>
               </div>
               
@@ -341,13 +833,31 @@ export const WoundCapture: React.FC<WoundCaptureProps> = ({
                 </div>
                 <div>
                   <p className="text-sm font-medium">Perspective</p>
-                  <p className="text-xs text-gray-500">{quality.perspective.distortion}° distortion</p>
+                  <p className="text-xs text-gray-500">
+                    {quality.perspective.distortion}° {quality.perspective.homographyApplied ? 'tilt' : 'distortion'}
+                  </p>
+                  {quality.perspective.homographyApplied && (
+                    <p className="text-xs text-gray-500">
+                      Corrected ({quality.perspective.correctionPercent ?? 0}% scale change)
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
           </div>
         )}
 
+        {/* Several wounds in the photo */}
+        {queue === null && (
+          <WoundCandidateAssignment
+            areas={candidateAreas}
+            targets={targets}
+            wounds={patientWounds}
+            onChange={setTargets}
+            onConfirm={confirmAssignment}
+          />
+        )}
+
         {/* Measurements */}
         {measurement && (
           <div className="bg-white rounded-xl shadow-sm p-6">
@@ -371,41 +881,136 @@ export const WoundCapture: React.FC<WoundCaptureProps> = ({
               </div>
             </div>
 
-            {/* Manual depth input */}
-            <div className="mt-4">
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Depth (manual entry)
-              </label>
+            {probeVolume !== undefined && (
+              <div className="grid grid-cols-2 gap-4 mt-4">
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <p className="text-sm text-gray-600 font-medium">Max Depth</p>
+                  <p className="text-2xl font-bold text-gray-900">{depthProbe.maxDepth} cm</p>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <p className="text-sm text-gray-600 font-medium">Volume</p>
+                  <p className="text-2xl font-bold text-gray-900">{probeVolume} cm³</p>
+                  <p className="text-xs text-gray-500">From {depthProbe.readings.filter(r => r.depth > 0).length} probe reading(s)</p>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Depth Probe */}
+        {measurement && (
+          <div className="bg-white rounded-xl shadow-sm p-6">
+            <div className="flex items-center gap-2 mb-4">
+              <Ruler className="w-5 h-5 text-gray-500" />
+              <h3 className="font-semibold">Depth, Undermining &amp; Tunnelling</h3>
+            </div>
+            <DepthProbeForm value={depthProbe} onChange={setDepthProbe} />
+          </div>
+        )}
+
+        {/* Tissue Composition */}
+        {tissueTypes && (
+          <div className="bg-white rounded-xl shadow-sm p-6">
+            <div className="flex items-center justify-between mb-4">
               <div className="flex items-center gap-2">
-                <input
-                  type="number"
-                  step="0.1"
-                  min="0"
-                  value={manualDepth}
-                  onChange={(e) => setManualDepth(e.target.value)}
-                  placeholder="0.0"
-                  className="w-24 px-3 py-2 border rounded-lg"
-                />
-                <span className="text-gray-500">cm</span>
+                <Layers className="w-5 h-5 text-gray-500" />
+                <h3 className="font-semibold">Tissue Composition</h3>
               </div>
+              <div className="flex items-center gap-3">
+                <label className="flex items-center gap-1 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={showTissueOverlay}
+                    onChange={(e) => setShowTissueOverlay(e.target.checked)}
+                  />
+                  Overlay
+                </label>
+                <button
+                  onClick={resetTissueTypes}
+                  className="text-sm text-astro-600 hover:text-astro-700 flex items-center gap-1"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  Reset
+                </button>
+              </div>
+            </div>
+            <div className="space-y-3">
+              {(Object.keys(TISSUE_LABELS) as (keyof TissueAnalysis)[]).map((type) => {
+                const [r, g, b] = TISSUE_OVERLAY_COLORS[type];
+                return (
+                  <div key={type} className="flex items-center gap-3">
+                    <span
+                      className="w-4 h-4 rounded"
+                      style={{ backgroundColor: `rgb(${r}, ${g}, ${b})` }}
+                    />
+                    <span className="flex-1 text-sm font-medium text-gray-700">{TISSUE_LABELS[type]}</span>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={tissueTypes[type]}
+                      onChange={(e) => updateTissuePercent(type, e.target.value)}
+                      className="w-20 px-3 py-1.5 border rounded-lg text-right"
+                    />
+                    <span className="text-gray-500">%</span>
+                  </div>
+                );
+              })}
             </div>
+            <p className={`mt-3 text-sm ${tissueTotal === 100 ? 'text-gray-500' : 'text-red-600 font-medium'}`}>
+              Total: {tissueTotal}%{tissueTotal !== 100 && ' (must equal 100%)'}
+            </p>
+            <p className="mt-1 text-xs text-gray-400">
+              Estimated by colour analysis. Adjust to match your clinical assessment.
+            </p>
           </div>
         )}
 
-        {/* Notes */}
-        <div className="bg-white rounded-xl shadow-sm p-6">
-          <div className="flex items-center gap-2 mb-4">
-            <Edit3 className="w-5 h-5 text-gray-500" />
-            <h3 className="font-semibold">Clinical Notes</h3>
+        {/* Wound Bed (TIME) */}
+        {measurement && (
+          <div className="bg-white rounded-xl shadow-sm p-6">
+            <div className="flex items-center gap-2 mb-4">
+              <Droplets className="w-5 h-5 text-gray-500" />
+              <h3 className="font-semibold">Wound Bed</h3>
+            </div>
+            <WoundBedForm value={woundBed} onChange={setWoundBed} />
           </div>
-          <textarea
-            value={notes}
-            onChange={(e) => setNotes(e.target.value)}
-            placeholder="Add clinical observations, tissue type, exudate, etc."
-            rows={4}
-            className="w-full px-3 py-2 border rounded-lg resize-none"
+        )}
+
+        {/* Infection Screen */}
+        {measurement && (
+          <InfectionScreenPanel
+            input={infectionInput}
+            responses={infectionResponses}
+            onChange={setInfectionResponses}
           />
-        </div>
+        )}
+
+        {/* Wound Scores */}
+        {measurement && (
+          <WoundScoringPanel
+            input={scoringInput}
+            responses={scoreResponses}
+            onChange={setScoreResponses}
+          />
+        )}
+
+        {/* Notes */}
+        {queue !== null && (
+          <div className="bg-white rounded-xl shadow-sm p-6">
+            <div className="flex items-center gap-2 mb-4">
+              <Edit3 className="w-5 h-5 text-gray-500" />
+              <h3 className="font-semibold">Clinical Notes</h3>
+            </div>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Add any further clinical observations"
+              rows={4}
+              className="w-full px-3 py-2 border rounded-lg resize-none"
+            />
+          </div>
+        )}
 
         {/* Save button */}
         {measurement && (
@@ -414,7 +1019,7 @@ export const WoundCapture: React.FC<WoundCaptureProps> = ({
             className="w-full py-4 bg-astro-500 text-white rounded-xl font-semibold flex items-center justify-center gap-2 hover:bg-astro-600 transition-colors"
           >
             <Save className="w-5 h-5" />
-            Save Assessment
+            {queue && queuePosition < queue.length - 1 ? 'Save & Next Wound' : 'Save Assessment'}
           </button>
         )}
       </div>
@@ -426,6 +1031,17 @@ export const WoundCapture: React.FC<WoundCaptureProps> = ({
           onClose={() => setShowCamera(false)}
         />
       )}
+
+      {showContourEditor && capturedImage && imageData && (
+        <ContourEditor
+          imageSrc={capturedImage}
+          width={imageData.width}
+          height={imageData.height}
+          initialContour={segmentation?.contour ?? []}
+          onApply={handleContourApply}
+          onCancel={() => setShowContourEditor(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,183 @@
+/**
+ * AstroWound-MEASURE Wound Scoring Panel
+ * PUSH, BWAT and RESVECH items with auto-derived values and prompts for the rest
+ */
+
+import React, { useState } from 'react';
+import { ClipboardList, AlertCircle } from 'lucide-react';
+import {
+  WOUND_SCORE_TOOLS,
+  computeWoundScore,
+  deriveWoundScoreItems,
+  getBwatSeverity,
+  type WoundScoreItemResponse,
+  type WoundScoringInput,
+} from '@/lib/woundScoring';
+import type { WoundScoreTool } from '@/types';
+
+export type WoundScoreResponses = Record<WoundScoreTool, Record<string, WoundScoreItemResponse>>;
+
+export const emptyWoundScoreResponses = (): WoundScoreResponses => ({
+  push: {},
+  bwat: {},
+  resvech: {},
+});
+
+interface WoundScoringPanelProps {
+  input: WoundScoringInput;
+  responses: WoundScoreResponses;
+  onChange: (responses: WoundScoreResponses) => void;
+}
+
+const TOOLS: WoundScoreTool[] = ['push', 'bwat', 'resvech'];
+
+export const WoundScoringPanel: React.FC<WoundScoringPanelProps> = ({ input, responses, onChange }) => {
+  const [activeTool, setActiveTool] = useState<WoundScoreTool>('push');
+  const definition = WOUND_SCORE_TOOLS[activeTool];
+  const derived = deriveWoundScoreItems(activeTool, input);
+  const score = computeWoundScore(activeTool, input, responses[activeTool]);
+
+  const setResponse = (itemId: string, response: WoundScoreItemResponse | null) => {
+    const toolResponses = { ...responses[activeTool] };
+    if (response) {
+      toolResponses[itemId] = response;
+    } else {
+      delete toolResponses[itemId];
+    }
+    onChange({ ...responses, [activeTool]: toolResponses });
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <ClipboardList className="w-5 h-5 text-gray-500" />
+        <h3 className="font-semibold">Wound Scores</h3>
+      </div>
+
+      {/* Tool tabs */}
+      <div className="flex gap-2 mb-4">
+        {TOOLS.map(tool => {
+          const toolScore = computeWoundScore(tool, input, responses[tool]);
+          return (
+            <button
+              key={tool}
+              onClick={() => setActiveTool(tool)}
+              className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium ${
+                activeTool === tool ? 'bg-astro-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {WOUND_SCORE_TOOLS[tool].shortName}
+              <span className="block text-xs opacity-80">
+                {toolScore.complete ? `${toolScore.total}/${toolScore.maxTotal}` : `${toolScore.missingItems.length} to score`}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Items */}
+      <div className="space-y-3">
+        {definition.items.map(item => {
+          const response = responses[activeTool][item.id];
+          const auto = derived[item.id];
+          const missing = !response && auto === undefined;
+
+          return (
+            <div
+              key={item.id}
+              className={`rounded-lg p-3 ${missing ? 'bg-amber-50 border border-amber-200' : 'bg-gray-50'}`}
+            >
+              <div className="flex items-center justify-between mb-1">
+                <label htmlFor={`score-${activeTool}-${item.id}`} className="text-sm font-medium text-gray-700">
+                  {item.label}
+                </label>
+                {response ? (
+                  auto !== undefined && (
+                    <button
+                      onClick={() => setResponse(item.id, null)}
+                      className="text-xs text-astro-600 hover:text-astro-700"
+                    >
+                      Use auto ({auto})
+                    </button>
+                  )
+                ) : auto !== undefined ? (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-astro-100 text-astro-700">Auto</span>
+                ) : (
+                  <span className="flex items-center gap-1 text-xs text-amber-700">
+                    <AlertCircle className="w-3 h-3" />
+                    Required
+                  </span>
+                )}
+              </div>
+
+              {item.options && (
+                <select
+                  id={`score-${activeTool}-${item.id}`}
+                  value={response?.score ?? auto ?? ''}
+                  onChange={(e) => setResponse(item.id, e.target.value === '' ? null : { score: Number(e.target.value) })}
+                  className="w-full px-2 py-1.5 border rounded-lg text-sm bg-white"
+                >
+                  <option value="">Select...</option>
+                  {item.options.map(option => (
+                    <option key={option.score} value={option.score}>
+                      {option.score} - {option.label}
+                    </option>
+                  ))}
+                </select>
+              )}
+
+              {item.checklist && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+                  {item.checklist.map(sign => {
+                    const selected = response?.selected ?? [];
+                    return (
+                      <label key={sign} className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={selected.includes(sign)}
+                          onChange={(e) => {
+                            const next = e.target.checked
+                              ? [...selected, sign]
+                              : selected.filter(s => s !== sign);
+                            setResponse(item.id, { score: next.length, selected: next });
+                          }}
+                        />
+                        {sign}
+                      </label>
+                    );
+                  })}
+                  {!response && (
+                    <button
+                      onClick={() => setResponse(item.id, { score: 0, selected: [] })}
+                      className="text-left text-xs text-astro-600 hover:text-astro-700"
+                    >
+                      No signs present
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Total */}
+      <div className="mt-4 flex items-center justify-between">
+        <div>
+          <p className="text-sm text-gray-500">{definition.name} {definition.version} total</p>
+          <p className="text-2xl font-bold text-gray-900">
+            {score.total}
+            <span className="text-base font-normal text-gray-500"> / {score.maxTotal}</span>
+          </p>
+        </div>
+        <p className={`text-sm ${score.complete ? 'text-gray-600' : 'text-amber-700 font-medium'}`}>
+          {score.complete
+            ? activeTool === 'bwat' ? getBwatSeverity(score.total) : 'Complete'
+            : `${score.missingItems.length} item${score.missingItems.length === 1 ? '' : 's'} to score`}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default WoundScoringPanel;
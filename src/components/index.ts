@@ -7,16 +7,42 @@ export { PatientForm } from './PatientForm';
 export { PatientDetail } from './PatientDetail';
 export { PatientTimeline } from './PatientTimeline';
 export { default as PatientTimelinePage } from './PatientTimelinePage';
+export { AssessmentComparison } from './AssessmentComparison';
 export { WoundCapture } from './WoundCapture';
 export { CaptureFlow } from './CaptureFlow';
 export { CameraModule } from './CameraModule';
+export { ContourEditor } from './ContourEditor';
+export { DepthProbeForm } from './DepthProbeForm';
+export { WoundBedForm } from './WoundBedForm';
+export { InfectionScreenPanel } from './InfectionScreenPanel';
+export { WoundCandidateAssignment } from './WoundCandidateAssignment';
+export { PainScaleItems } from './PainScaleItems';
+export { AnalgesicDoseDetails } from './AnalgesicDoseDetails';
+export { QuickPainScore } from './QuickPainScore';
+export { PainTrendChart } from './PainTrendChart';
+export { PainReassessmentPanel } from './PainReassessmentPanel';
+export { WoundScoringPanel } from './WoundScoringPanel';
 export { CalibrationRuler } from './CalibrationRuler';
+export { DeviceValidation } from './DeviceValidation';
 export { ReportModule } from './ReportModule';
 export { default as ReportModulePage } from './ReportModulePage';
 export { Settings } from './Settings';
+export { SyncSettings } from './SyncSettings';
+export { SyncConflicts } from './SyncConflicts';
+export { SecuritySettings } from './SecuritySettings';
+export { BackupSettings } from './BackupSettings';
+export { LockScreen } from './LockScreen';
+export { SignInScreen } from './SignInScreen';
+export { UserManagement } from './UserManagement';
+export { AuditTrail } from './AuditTrail';
+export { SignatureCapture } from './SignatureCapture';
+export { VerificationQueue } from './VerificationQueue';
+export { AssessmentReview } from './AssessmentReview';
 export { UserGuide } from './UserGuide';
 export { default as Watermark } from './Watermark';
 
 // Clinical Workflow Components
 export { default as PainAssessment } from './PainAssessment';
 export { default as DressingProtocol } from './DressingProtocol';
+export { PainPlanRecord } from './PainPlanRecord';
+export { DressingSessionRecord } from './DressingSessionRecord';
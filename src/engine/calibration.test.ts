@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+import { applyHomography } from './homography';
+import type { Point } from '@/types';
+
+// The engine keeps a scratch canvas; grid fitting never draws on it
+vi.stubGlobal('document', { createElement: () => ({ getContext: () => null }) });
+
+const { CalibrationEngine } = await import('./calibration');
+
+const engine = new CalibrationEngine();
+
+/**
+ * Intersections of a size x size grid with the given cell size in pixels,
+ * rotated about its centre, optionally with a mild perspective tilt
+ */
+function syntheticGrid(size: number, cellPixels: number, degrees: number, tilt = 0): Point[] {
+  const angle = (degrees * Math.PI) / 180;
+  const points: Point[] = [];
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      const x = (col - (size - 1) / 2) * cellPixels;
+      const y = (row - (size - 1) / 2) * cellPixels;
+      const w = 1 + tilt * y;
+      points.push({
+        x: 320 + (x * Math.cos(angle) - y * Math.sin(angle)) / w,
+        y: 240 + (x * Math.sin(angle) + y * Math.cos(angle)) / w,
+      });
+    }
+  }
+  // Corner detection returns intersections in no particular grid order
+  return points.sort((a, b) => a.x - b.x || a.y - b.y);
+}
+
+const fitGrid = (points: Point[]) => {
+  const axes = engine['measureGridAxes'](points);
+  return { cellSize: axes.spacing, plane: engine['estimateGridHomography'](points, axes) };
+};
+
+describe('grid calibration', () => {
+  it.each([0, 20, 30, 45, 70])('maps a grid rotated by %i° onto 1 cm cells', (degrees) => {
+    const points = syntheticGrid(6, 40, degrees);
+    const { cellSize, plane } = fitGrid(points);
+
+    expect(cellSize).toBeCloseTo(40, 6);
+    expect(plane).not.toBeNull();
+    expect(plane!.imagePoints).toHaveLength(points.length);
+    for (const [i, p] of plane!.imagePoints.entries()) {
+      const mapped = applyHomography(plane!.homography, p);
+      expect(mapped.x).toBeCloseTo(plane!.worldPoints[i].x, 3);
+      expect(mapped.y).toBeCloseTo(plane!.worldPoints[i].y, 3);
+    }
+  });
+
+  it('keeps neighbouring intersections one cell apart under perspective', () => {
+    const points = syntheticGrid(7, 36, 25, 0.0008);
+    const { plane } = fitGrid(points);
+
+    expect(plane).not.toBeNull();
+    expect(plane!.imagePoints).toHaveLength(points.length);
+    const cells = new Set(plane!.worldPoints.map(w => `${w.x},${w.y}`));
+    expect(cells.size).toBe(points.length);
+    const xs = plane!.worldPoints.map(w => w.x);
+    const ys = plane!.worldPoints.map(w => w.y);
+    expect(Math.max(...xs) - Math.min(...xs)).toBe(6);
+    expect(Math.max(...ys) - Math.min(...ys)).toBe(6);
+  });
+});
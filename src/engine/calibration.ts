@@ -4,6 +4,8 @@
  */
 
 import type { CalibrationData, Point } from '@/types';
+import { computeHomography, applyHomography, reprojectionError } from './homography';
+import { FIDUCIAL_SPEC, decodeFiducial } from './fiducial';
 
 // Calibration marker specifications
 const CALIBRATION_SPECS = {
@@ -20,6 +22,11 @@ const CALIBRATION_SPECS = {
     cellSizeCm: 1,
     minCells: 4,
   },
+  homography: {
+    minPoints: 4,
+    maxRmsErrorCells: 0.2, // reprojection error allowed, in grid cells
+    refinementPasses: 3,
+  },
 };
 
 /**
@@ -39,6 +46,12 @@ export class CalibrationEngine {
    */
   async detectCalibration(imageData: ImageData): Promise<CalibrationData> {
     // Try different detection methods in order of reliability
+
+    // 0. Try fiducial marker (scale, orientation and homography in one detection)
+    const fiducialResult = await this.detectFiducial(imageData);
+    if (fiducialResult.detected && fiducialResult.confidence > 0.8) {
+      return fiducialResult;
+    }
     
     // 1. Try ruler detection
     const rulerResult = await this.detectRuler(imageData);
@@ -59,12 +72,262 @@ export class CalibrationEngine {
     }
 
     // Return best result or failure
-    const results = [rulerResult, circleResult, gridResult];
+    const results = [fiducialResult, rulerResult, circleResult, gridResult];
     const best = results.reduce((a, b) => a.confidence > b.confidence ? a : b);
     
     return best;
   }
 
+  /**
+   * Detect square fiducial marker (see fiducial.ts for the layout)
+   */
+  private async detectFiducial(imageData: ImageData): Promise<CalibrationData> {
+    const { width, height, data } = imageData;
+    const grayscale = this.toGrayscale(data, width, height);
+    const threshold = this.otsuThreshold(grayscale);
+
+    const dark = new Uint8Array(width * height);
+    for (let i = 0; i < dark.length; i++) {
+      dark[i] = grayscale[i] <= threshold ? 1 : 0;
+    }
+
+    const minArea = width * height * 0.001;
+    const maxArea = width * height * 0.5;
+    let best: CalibrationData | null = null;
+
+    for (const component of this.findDarkComponents(dark, width, height, minArea, maxArea)) {
+      const quad = this.fitQuadrilateral(component.boundary);
+      if (!quad) continue;
+
+      // Border ring alone covers ~56% of the marker square
+      const fill = component.area / this.polygonArea(quad);
+      if (fill < 0.5 || fill > 1.05) continue;
+
+      const candidate = this.readFiducial(grayscale, width, height, threshold, quad);
+      if (candidate && (!best || candidate.confidence > best.confidence)) {
+        best = candidate;
+      }
+    }
+
+    return best ?? this.createFailedCalibration('qr');
+  }
+
+  /**
+   * Sample the marker modules through the quad homography and decode it
+   */
+  private readFiducial(
+    grayscale: Float32Array,
+    width: number,
+    height: number,
+    threshold: number,
+    quad: Point[]
+  ): CalibrationData | null {
+    const { modules, dataModules, sizeCm } = FIDUCIAL_SPEC;
+    const moduleCorners: Point[] = [
+      { x: 0, y: 0 }, { x: modules, y: 0 }, { x: modules, y: modules }, { x: 0, y: modules },
+    ];
+    const toImage = computeHomography(moduleCorners, quad);
+    if (!toImage) return null;
+
+    const sample = (col: number, row: number): number => {
+      const p = applyHomography(toImage, { x: col + 0.5, y: row + 0.5 });
+      let sum = 0, count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const x = Math.round(p.x) + dx;
+          const y = Math.round(p.y) + dy;
+          if (x >= 0 && y >= 0 && x < width && y < height) {
+            sum += grayscale[y * width + x];
+            count++;
+          }
+        }
+      }
+      return count > 0 && sum / count <= threshold ? 1 : 0;
+    };
+
+    // Border ring must be black
+    let borderBlack = 0, borderTotal = 0;
+    for (let r = 0; r < modules; r++) {
+      for (let c = 0; c < modules; c++) {
+        if (r === 0 || c === 0 || r === modules - 1 || c === modules - 1) {
+          borderTotal++;
+          borderBlack += sample(c, r);
+        }
+      }
+    }
+    const borderFraction = borderBlack / borderTotal;
+    if (borderFraction < 0.9) return null;
+
+    const bits = Array.from({ length: dataModules }, (_, r) =>
+      Array.from({ length: dataModules }, (_, c) => sample(c + 1, r + 1))
+    );
+    const decoded = decodeFiducial(bits);
+    if (!decoded) return null;
+
+    // Re-order corners so the first is the marker's top-left
+    const corners = [0, 1, 2, 3].map(i => quad[(i + decoded.rotation) % 4]);
+    const worldPoints: Point[] = [
+      { x: 0, y: 0 }, { x: sizeCm, y: 0 }, { x: sizeCm, y: sizeCm }, { x: 0, y: sizeCm },
+    ];
+    const homography = computeHomography(corners, worldPoints);
+    if (!homography) return null;
+
+    let perimeterPixels = 0;
+    for (let i = 0; i < 4; i++) {
+      const a = corners[i], b = corners[(i + 1) % 4];
+      perimeterPixels += Math.hypot(b.x - a.x, b.y - a.y);
+    }
+
+    const orientation = Math.atan2(corners[1].y - corners[0].y, corners[1].x - corners[0].x) * 180 / Math.PI;
+
+    return {
+      detected: true,
+      pixelsPerCm: perimeterPixels / (4 * sizeCm),
+      confidence: 0.6 + 0.4 * borderFraction,
+      markerType: 'qr',
+      referencePoints: corners,
+      worldPoints,
+      homographyMatrix: homography,
+      markerId: decoded.id,
+      orientation: Math.round(orientation * 10) / 10,
+    };
+  }
+
+  /**
+   * 4-connected dark components with their boundary pixels
+   */
+  private findDarkComponents(
+    dark: Uint8Array,
+    width: number,
+    height: number,
+    minArea: number,
+    maxArea: number
+  ): Array<{ area: number; boundary: Point[] }> {
+    const labels = new Int32Array(dark.length);
+    const components: Array<{ area: number; boundary: Point[] }> = [];
+    const stack: number[] = [];
+    let label = 0;
+
+    for (let start = 0; start < dark.length; start++) {
+      if (!dark[start] || labels[start]) continue;
+
+      label++;
+      labels[start] = label;
+      stack.push(start);
+      let area = 0;
+      const boundary: Point[] = [];
+
+      while (stack.length > 0) {
+        const idx = stack.pop()!;
+        area++;
+        const x = idx % width;
+        const y = (idx - x) / width;
+        let isEdge = false;
+
+        const neighbors = [
+          x > 0 ? idx - 1 : -1,
+          x < width - 1 ? idx + 1 : -1,
+          y > 0 ? idx - width : -1,
+          y < height - 1 ? idx + width : -1,
+        ];
+        for (const n of neighbors) {
+          if (n < 0 || !dark[n]) {
+            isEdge = true;
+          } else if (!labels[n]) {
+            labels[n] = label;
+            stack.push(n);
+          }
+        }
+        if (isEdge) boundary.push({ x, y });
+      }
+
+      if (area >= minArea && area <= maxArea) {
+        components.push({ area, boundary });
+      }
+    }
+
+    return components;
+  }
+
+  /**
+   * Fit a convex quadrilateral (clockwise) to a point set via its convex hull
+   */
+  private fitQuadrilateral(points: Point[]): Point[] | null {
+    const hull = this.convexHull(points);
+    if (hull.length < 4) return null;
+
+    // Longest diagonal
+    let a = 0, b = 1, maxDist = 0;
+    for (let i = 0; i < hull.length; i++) {
+      for (let j = i + 1; j < hull.length; j++) {
+        const d = Math.hypot(hull[i].x - hull[j].x, hull[i].y - hull[j].y);
+        if (d > maxDist) {
+          maxDist = d;
+          a = i;
+          b = j;
+        }
+      }
+    }
+
+    // Farthest hull points on either side of the diagonal
+    const pa = hull[a], pb = hull[b];
+    let c = -1, d = -1, maxLeft = 0, maxRight = 0;
+    for (let i = 0; i < hull.length; i++) {
+      const cross = (pb.x - pa.x) * (hull[i].y - pa.y) - (pb.y - pa.y) * (hull[i].x - pa.x);
+      if (cross > maxLeft) { maxLeft = cross; c = i; }
+      if (-cross > maxRight) { maxRight = -cross; d = i; }
+    }
+    if (c < 0 || d < 0) return null;
+
+    // Image y points down, so positive cross lies below a -> b; order visually clockwise
+    const quad = [pa, hull[d], pb, hull[c]];
+
+    // The quad must explain the hull and not be degenerate
+    const quadArea = this.polygonArea(quad);
+    if (quadArea < this.polygonArea(hull) * 0.85) return null;
+
+    const sides = quad.map((p, i) => Math.hypot(quad[(i + 1) % 4].x - p.x, quad[(i + 1) % 4].y - p.y));
+    if (Math.min(...sides) < Math.max(...sides) * 0.3) return null;
+
+    return quad;
+  }
+
+  /**
+   * Convex hull (monotone chain)
+   */
+  private convexHull(points: Point[]): Point[] {
+    if (points.length < 3) return [...points];
+    const sorted = [...points].sort((p, q) => p.x - q.x || p.y - q.y);
+    const cross = (o: Point, p: Point, q: Point) => (p.x - o.x) * (q.y - o.y) - (p.y - o.y) * (q.x - o.x);
+
+    const lower: Point[] = [];
+    for (const p of sorted) {
+      while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+      lower.push(p);
+    }
+    const upper: Point[] = [];
+    for (let i = sorted.length - 1; i >= 0; i--) {
+      const p = sorted[i];
+      while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+      upper.push(p);
+    }
+    upper.pop();
+    lower.pop();
+    return lower.concat(upper);
+  }
+
+  /**
+   * Polygon area (shoelace)
+   */
+  private polygonArea(points: Point[]): number {
+    let area = 0;
+    for (let i = 0; i < points.length; i++) {
+      const p = points[i], q = points[(i + 1) % points.length];
+      area += p.x * q.y - q.x * p.y;
+    }
+    return Math.abs(area) / 2;
+  }
+
   /**
    * Detect ruler calibration marker
    */
@@ -166,22 +429,79 @@ export class CalibrationEngine {
       return this.createFailedCalibration('grid');
     }
 
-    // Calculate cell size from grid points
-    const cellSizePixels = this.calculateGridCellSize(gridPoints);
-    const pixelsPerCm = cellSizePixels / CALIBRATION_SPECS.grid.cellSizeCm;
+    // Cell size and line directions from neighbouring intersections
+    const axes = this.measureGridAxes(gridPoints);
+    const pixelsPerCm = axes.spacing / CALIBRATION_SPECS.grid.cellSizeCm;
 
     // Calculate confidence based on grid regularity
     const confidence = this.calculateGridConfidence(gridPoints);
 
+    // Full plane mapping from grid intersections
+    const plane = this.estimateGridHomography(gridPoints, axes);
+
     return {
       detected: true,
       pixelsPerCm,
       confidence,
       markerType: 'grid',
-      referencePoints: gridPoints,
+      referencePoints: plane ? plane.imagePoints : gridPoints,
+      worldPoints: plane?.worldPoints,
+      homographyMatrix: plane?.homography,
     };
   }
 
+  /**
+   * Estimate the image -> grid plane homography.
+   * Intersections are assigned integer grid coordinates, then the fit is refined by
+   * re-assigning coordinates in the rectified plane and dropping outlier corners.
+   */
+  private estimateGridHomography(
+    gridPoints: Point[],
+    axes: { spacing: number; angle: number }
+  ): { homography: number[][]; imagePoints: Point[]; worldPoints: Point[] } | null {
+    const { cellSizeCm } = CALIBRATION_SPECS.grid;
+    const { minPoints, maxRmsErrorCells, refinementPasses } = CALIBRATION_SPECS.homography;
+    if (gridPoints.length < minPoints || axes.spacing <= 0) return null;
+
+    const cells = this.indexGridCells(gridPoints, axes);
+    let imagePoints = gridPoints.filter((_, i) => cells[i]);
+    let worldPoints = cells
+      .filter((cell): cell is Point => cell !== null)
+      .map(cell => ({ x: cell.x * cellSizeCm, y: cell.y * cellSizeCm }));
+    if (imagePoints.length < minPoints) return null;
+
+    let homography = computeHomography(imagePoints, worldPoints);
+
+    for (let pass = 0; pass < refinementPasses && homography; pass++) {
+      const inliersImage: Point[] = [];
+      const inliersWorld: Point[] = [];
+
+      for (const p of imagePoints) {
+        const mapped = applyHomography(homography, p);
+        const snapped = {
+          x: Math.round(mapped.x / cellSizeCm) * cellSizeCm,
+          y: Math.round(mapped.y / cellSizeCm) * cellSizeCm,
+        };
+        if (Math.hypot(mapped.x - snapped.x, mapped.y - snapped.y) <= cellSizeCm * 0.3) {
+          inliersImage.push(p);
+          inliersWorld.push(snapped);
+        }
+      }
+
+      if (inliersImage.length < minPoints) return null;
+      imagePoints = inliersImage;
+      worldPoints = inliersWorld;
+      homography = computeHomography(imagePoints, worldPoints);
+    }
+
+    if (!homography) return null;
+    if (reprojectionError(homography, imagePoints, worldPoints) > maxRmsErrorCells * cellSizeCm) {
+      return null;
+    }
+
+    return { homography, imagePoints, worldPoints };
+  }
+
   /**
    * Convert RGBA to grayscale
    */
@@ -599,21 +919,91 @@ export class CalibrationEngine {
   }
 
   /**
-   * Calculate grid cell size
+   * Cell size and line direction of the grid from each intersection's nearest
+   * neighbour, which lies one cell away along one of the two line families.
+   * The angle is folded to a quarter turn so both families agree.
    */
-  private calculateGridCellSize(gridPoints: Point[]): number {
+  private measureGridAxes(gridPoints: Point[]): { spacing: number; angle: number } {
     const spacings: number[] = [];
-    
-    for (let i = 1; i < gridPoints.length; i++) {
-      const dx = Math.abs(gridPoints[i].x - gridPoints[i - 1].x);
-      const dy = Math.abs(gridPoints[i].y - gridPoints[i - 1].y);
-      if (dx > 5) spacings.push(dx);
-      if (dy > 5) spacings.push(dy);
+    let sin4 = 0;
+    let cos4 = 0;
+
+    for (const p of gridPoints) {
+      let nearest: Point | null = null;
+      let nearestDistance = Infinity;
+      for (const q of gridPoints) {
+        const distance = Math.hypot(q.x - p.x, q.y - p.y);
+        if (distance > 5 && distance < nearestDistance) {
+          nearest = q;
+          nearestDistance = distance;
+        }
+      }
+      if (!nearest) continue;
+
+      spacings.push(nearestDistance);
+      const theta = Math.atan2(nearest.y - p.y, nearest.x - p.x);
+      sin4 += Math.sin(4 * theta);
+      cos4 += Math.cos(4 * theta);
     }
-    
+
     // Return median spacing
     spacings.sort((a, b) => a - b);
-    return spacings[Math.floor(spacings.length / 2)] || 0;
+    return {
+      spacing: spacings[Math.floor(spacings.length / 2)] || 0,
+      angle: Math.atan2(sin4, cos4) / 4,
+    };
+  }
+
+  /**
+   * Integer grid coordinates for each intersection, found by stepping from the
+   * most central intersection to its neighbours along the grid's own axes.
+   * Single steps stay within a cell under rotation or perspective, where
+   * rounding long offsets from one origin does not. Unreached points are null.
+   */
+  private indexGridCells(gridPoints: Point[], axes: { spacing: number; angle: number }): Array<Point | null> {
+    const cos = Math.cos(axes.angle);
+    const sin = Math.sin(axes.angle);
+    const reach = axes.spacing * 1.5;
+
+    const cx = gridPoints.reduce((sum, p) => sum + p.x, 0) / gridPoints.length;
+    const cy = gridPoints.reduce((sum, p) => sum + p.y, 0) / gridPoints.length;
+    let start = 0;
+    gridPoints.forEach((p, i) => {
+      if (Math.hypot(p.x - cx, p.y - cy) < Math.hypot(gridPoints[start].x - cx, gridPoints[start].y - cy)) {
+        start = i;
+      }
+    });
+
+    const cells: Array<Point | null> = gridPoints.map(() => null);
+    cells[start] = { x: 0, y: 0 };
+    const queue = [start];
+    const taken = new Set(['0,0']);
+
+    while (queue.length > 0) {
+      const i = queue.shift()!;
+      const from = gridPoints[i];
+      const cell = cells[i]!;
+
+      gridPoints.forEach((p, j) => {
+        if (cells[j]) return;
+        const dx = p.x - from.x;
+        const dy = p.y - from.y;
+        if (Math.hypot(dx, dy) > reach) return;
+
+        const u = Math.round((dx * cos + dy * sin) / axes.spacing);
+        const v = Math.round((-dx * sin + dy * cos) / axes.spacing);
+        if ((u === 0 && v === 0) || Math.abs(u) > 1 || Math.abs(v) > 1) return;
+
+        const next = { x: cell.x + u, y: cell.y + v };
+        const key = `${next.x},${next.y}`;
+        if (taken.has(key)) return;
+        taken.add(key);
+        cells[j] = next;
+        queue.push(j);
+      });
+    }
+
+    return cells;
   }
 
   /**
@@ -706,6 +1096,34 @@ export class CalibrationEngine {
       referencePoints: [point1, point2],
     };
   }
+
+  /**
+   * Manual plane calibration from four or more image points with known positions (cm)
+   */
+  manualPlaneCalibration(imagePoints: Point[], worldPointsCm: Point[]): CalibrationData {
+    const homography = computeHomography(imagePoints, worldPointsCm);
+    if (!homography) {
+      return this.createFailedCalibration('grid');
+    }
+
+    // Average scale between neighbouring reference points for the scalar fallback
+    let pixelDistance = 0;
+    let cmDistance = 0;
+    for (let i = 1; i < imagePoints.length; i++) {
+      pixelDistance += Math.hypot(imagePoints[i].x - imagePoints[i - 1].x, imagePoints[i].y - imagePoints[i - 1].y);
+      cmDistance += Math.hypot(worldPointsCm[i].x - worldPointsCm[i - 1].x, worldPointsCm[i].y - worldPointsCm[i - 1].y);
+    }
+
+    return {
+      detected: true,
+      pixelsPerCm: cmDistance > 0 ? pixelDistance / cmDistance : 0,
+      confidence: 1.0,
+      markerType: 'grid',
+      referencePoints: imagePoints,
+      worldPoints: worldPointsCm,
+      homographyMatrix: homography,
+    };
+  }
 }
 
 // Singleton instance
@@ -0,0 +1,121 @@
+/**
+ * AstroWound-MEASURE Comparison Utilities
+ * Align two assessments of the same wound and compute measurement deltas
+ */
+
+import type {
+  AlignmentAnchor,
+  AssessmentAlignment,
+  MeasurementDelta,
+  Point,
+  WoundAssessment,
+} from '@/types';
+
+const DELTA_FIELDS: Pick<MeasurementDelta, 'key' | 'label' | 'unit'>[] = [
+  { key: 'area', label: 'Area', unit: 'cm²' },
+  { key: 'perimeter', label: 'Perimeter', unit: 'cm' },
+  { key: 'length', label: 'Length', unit: 'cm' },
+  { key: 'width', label: 'Width', unit: 'cm' },
+  { key: 'depth', label: 'Depth', unit: 'cm' },
+  { key: 'volume', label: 'Volume', unit: 'cm³' },
+];
+
+/**
+ * Similarity transform that maps the follow-up image onto the baseline image.
+ * Scale comes from the two calibrations, rotation from the fiducial marker
+ * orientation, and translation from the marker (or the wound centroid when a
+ * marker position is not available in both images).
+ */
+export function computeAssessmentAlignment(
+  baseline: WoundAssessment,
+  followUp: WoundAssessment,
+  anchor: AlignmentAnchor = 'marker'
+): AssessmentAlignment {
+  const calA = baseline.calibrationData;
+  const calB = followUp.calibrationData;
+
+  const scaleFromCalibration = calA.pixelsPerCm > 0 && calB.pixelsPerCm > 0;
+  const scale = scaleFromCalibration ? calA.pixelsPerCm / calB.pixelsPerCm : 1;
+
+  const rotationFromMarker = calA.orientation !== undefined && calB.orientation !== undefined;
+  const rotation = rotationFromMarker ? calA.orientation! - calB.orientation! : 0;
+
+  const markerA = centroid(calA.referencePoints);
+  const markerB = centroid(calB.referencePoints);
+  const useMarker = anchor === 'marker' && markerA !== null && markerB !== null;
+
+  const fromPoint = useMarker ? markerB! : contourCentroid(followUp);
+  const toPoint = useMarker ? markerA! : contourCentroid(baseline);
+
+  const theta = (rotation * Math.PI) / 180;
+  const a = scale * Math.cos(theta);
+  const b = scale * Math.sin(theta);
+  const c = -b;
+  const d = a;
+
+  return {
+    anchor: useMarker ? 'marker' : 'wound',
+    scale,
+    rotation,
+    scaleFromCalibration,
+    rotationFromMarker,
+    matrix: [
+      a,
+      b,
+      c,
+      d,
+      toPoint.x - (a * fromPoint.x + c * fromPoint.y),
+      toPoint.y - (b * fromPoint.x + d * fromPoint.y),
+    ],
+  };
+}
+
+/**
+ * Apply an alignment matrix to a point
+ */
+export function transformPoint(matrix: AssessmentAlignment['matrix'], p: Point): Point {
+  const [a, b, c, d, e, f] = matrix;
+  return { x: a * p.x + c * p.y + e, y: b * p.x + d * p.y + f };
+}
+
+/**
+ * Measurement changes from the baseline to the follow-up assessment.
+ * Depth and volume are only compared when both assessments recorded them.
+ */
+export function compareMeasurements(baseline: WoundAssessment, followUp: WoundAssessment): MeasurementDelta[] {
+  return DELTA_FIELDS.flatMap(field => {
+    const before = baseline.measurement[field.key];
+    const after = followUp.measurement[field.key];
+    if (before === undefined || after === undefined) return [];
+
+    const change = after - before;
+    return [{
+      ...field,
+      before,
+      after,
+      change: round(change, 2),
+      changePercent: before > 0 ? round((change / before) * 100, 1) : undefined,
+    }];
+  });
+}
+
+function centroid(points: Point[]): Point | null {
+  if (points.length === 0) return null;
+  return {
+    x: points.reduce((s, p) => s + p.x, 0) / points.length,
+    y: points.reduce((s, p) => s + p.y, 0) / points.length,
+  };
+}
+
+function contourCentroid(assessment: WoundAssessment): Point {
+  const { contour, boundingBox } = assessment.segmentationResult;
+  return centroid(contour) ?? {
+    x: boundingBox.x + boundingBox.width / 2,
+    y: boundingBox.y + boundingBox.height / 2,
+  };
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
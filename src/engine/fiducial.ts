@@ -0,0 +1,98 @@
+/**
+ * AstroWound-MEASURE Fiducial Marker Codec
+ * Square ArUco-style marker: 6x6 modules, black border ring and a 4x4 data area
+ */
+
+// Printed marker specification
+export const FIDUCIAL_SPEC = {
+  sizeCm: 3,          // outer edge of the black border
+  modules: 6,         // modules per side including the border
+  dataModules: 4,     // modules per side of the data area
+  quietZoneCm: 0.5,   // white margin required around the marker
+  maxId: 255,
+};
+
+// Data layout (row-major over the 4x4 area):
+//   corners    -> orientation, only the top-left corner is black
+//   next 8     -> marker ID, most significant bit first
+//   last 4     -> checksum
+const ORIENTATION_CELLS: [number, number][] = [[0, 0], [0, 3], [3, 3], [3, 0]];
+
+/**
+ * 4-bit checksum of a marker ID
+ */
+function checksum(id: number): number {
+  return ((id >> 4) ^ (id & 0xf) ^ 0xa) & 0xf;
+}
+
+function isOrientationCell(r: number, c: number): boolean {
+  return ORIENTATION_CELLS.some(([or, oc]) => or === r && oc === c);
+}
+
+/**
+ * Encode a marker ID as a 6x6 module matrix (1 = black)
+ */
+export function encodeFiducial(id: number): number[][] {
+  if (!Number.isInteger(id) || id < 0 || id > FIDUCIAL_SPEC.maxId) {
+    throw new Error(`Marker ID must be between 0 and ${FIDUCIAL_SPEC.maxId}`);
+  }
+
+  const payload = (id << 4) | checksum(id);
+  const bits: number[] = [];
+  for (let i = 11; i >= 0; i--) bits.push((payload >> i) & 1);
+
+  const { modules, dataModules } = FIDUCIAL_SPEC;
+  const matrix = Array.from({ length: modules }, () => new Array(modules).fill(1));
+
+  let bit = 0;
+  for (let r = 0; r < dataModules; r++) {
+    for (let c = 0; c < dataModules; c++) {
+      if (isOrientationCell(r, c)) {
+        matrix[r + 1][c + 1] = r === 0 && c === 0 ? 1 : 0;
+      } else {
+        matrix[r + 1][c + 1] = bits[bit++];
+      }
+    }
+  }
+
+  return matrix;
+}
+
+/**
+ * Decode a sampled 4x4 data area.
+ * Returns the marker ID and how many quarter turns (counter-clockwise) the
+ * sample must be rotated to be upright, or null if the pattern is invalid.
+ */
+export function decodeFiducial(data: number[][]): { id: number; rotation: number } | null {
+  let grid = data.map(row => [...row]);
+
+  for (let rotation = 0; rotation < 4; rotation++) {
+    const orientationOk = ORIENTATION_CELLS.every(([r, c]) =>
+      grid[r][c] === (r === 0 && c === 0 ? 1 : 0)
+    );
+
+    if (orientationOk) {
+      let payload = 0;
+      for (let r = 0; r < 4; r++) {
+        for (let c = 0; c < 4; c++) {
+          if (!isOrientationCell(r, c)) payload = (payload << 1) | grid[r][c];
+        }
+      }
+      const id = payload >> 4;
+      if ((payload & 0xf) === checksum(id)) {
+        return { id, rotation };
+      }
+    }
+
+    grid = rotateCounterClockwise(grid);
+  }
+
+  return null;
+}
+
+function rotateCounterClockwise(grid: number[][]): number[][] {
+  const n = grid.length;
+  return Array.from({ length: n }, (_, r) =>
+    Array.from({ length: n }, (_, c) => grid[c][n - 1 - r])
+  );
+}
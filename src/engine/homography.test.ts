@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyHomography,
+  computeHomography,
+  invert3x3,
+  localAreaScale,
+  reprojectionError,
+  tiltAngleAt,
+} from './homography';
+import type { Point } from '@/types';
+
+// A 10 cm square seen in perspective
+const square: Point[] = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }];
+const image: Point[] = [{ x: 100, y: 120 }, { x: 420, y: 100 }, { x: 460, y: 400 }, { x: 80, y: 380 }];
+
+describe('computeHomography', () => {
+  it('maps four correspondences exactly', () => {
+    const h = computeHomography(image, square)!;
+
+    image.forEach((p, i) => {
+      const mapped = applyHomography(h, p);
+      expect(mapped.x).toBeCloseTo(square[i].x, 6);
+      expect(mapped.y).toBeCloseTo(square[i].y, 6);
+    });
+    expect(reprojectionError(h, image, square)).toBeLessThan(1e-6);
+  });
+
+  it('inverts to the reverse mapping', () => {
+    const h = computeHomography(image, square)!;
+    const back = applyHomography(invert3x3(h)!, { x: 5, y: 5 });
+    const forward = applyHomography(computeHomography(square, image)!, { x: 5, y: 5 });
+
+    expect(back.x).toBeCloseTo(forward.x, 6);
+    expect(back.y).toBeCloseTo(forward.y, 6);
+  });
+
+  it('rejects too few or collinear points', () => {
+    expect(computeHomography(image.slice(0, 3), square.slice(0, 3))).toBeNull();
+    const line = [0, 1, 2, 3].map(i => ({ x: i, y: 2 * i }));
+    expect(computeHomography(line, square)).toBeNull();
+  });
+});
+
+describe('local geometry', () => {
+  it('reports the area scale and no tilt for a fronto-parallel scaling', () => {
+    // 40 px per cm
+    const h = computeHomography(square.map(p => ({ x: p.x * 40, y: p.y * 40 })), square)!;
+
+    expect(localAreaScale(h, { x: 200, y: 200 })).toBeCloseTo(1 / 1600, 9);
+    expect(tiltAngleAt(h, { x: 200, y: 200 })).toBeCloseTo(0, 3);
+  });
+
+  it('reports the foreshortening of a tilted plane', () => {
+    // The plane is squashed to half its height: a 60° tilt about the x axis
+    const h = computeHomography(square.map(p => ({ x: p.x, y: p.y * 0.5 })), square)!;
+
+    expect(tiltAngleAt(h, { x: 5, y: 2.5 })).toBeCloseTo(60, 3);
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * AstroWound-MEASURE Homography Utilities
+ * Planar projective geometry shared by calibration, measurement and quality checks
+ */
+
+import type { Point } from '@/types';
+
+export type Homography = number[][];
+
+/**
+ * Estimate the homography mapping src -> dst (normalised DLT, least squares).
+ * Returns null for fewer than 4 points or degenerate (collinear) configurations.
+ */
+export function computeHomography(src: Point[], dst: Point[]): Homography | null {
+  const n = Math.min(src.length, dst.length);
+  if (n < 4) return null;
+
+  const srcNorm = normalizationTransform(src.slice(0, n));
+  const dstNorm = normalizationTransform(dst.slice(0, n));
+  if (!srcNorm || !dstNorm) return null;
+
+  // Normal equations for h (h33 = 1)
+  const ata = Array.from({ length: 8 }, () => new Array(8).fill(0));
+  const atb = new Array(8).fill(0);
+
+  for (let i = 0; i < n; i++) {
+    const p = applyHomography(srcNorm, src[i]);
+    const q = applyHomography(dstNorm, dst[i]);
+    const rows: [number[], number][] = [
+      [[p.x, p.y, 1, 0, 0, 0, -q.x * p.x, -q.x * p.y], q.x],
+      [[0, 0, 0, p.x, p.y, 1, -q.y * p.x, -q.y * p.y], q.y],
+    ];
+    for (const [row, b] of rows) {
+      for (let r = 0; r < 8; r++) {
+        atb[r] += row[r] * b;
+        for (let c = 0; c < 8; c++) {
+          ata[r][c] += row[r] * row[c];
+        }
+      }
+    }
+  }
+
+  const h = solveLinearSystem(ata, atb);
+  if (!h) return null;
+
+  const normalized: Homography = [
+    [h[0], h[1], h[2]],
+    [h[3], h[4], h[5]],
+    [h[6], h[7], 1],
+  ];
+
+  const dstInverse = invert3x3(dstNorm);
+  if (!dstInverse) return null;
+
+  const result = multiply3x3(dstInverse, multiply3x3(normalized, srcNorm));
+  const scale = result[2][2];
+  if (Math.abs(scale) < 1e-12) return null;
+
+  return result.map(row => row.map(v => v / scale));
+}
+
+/**
+ * Map a point through a homography
+ */
+export function applyHomography(h: Homography, p: Point): Point {
+  const w = h[2][0] * p.x + h[2][1] * p.y + h[2][2];
+  return {
+    x: (h[0][0] * p.x + h[0][1] * p.y + h[0][2]) / w,
+    y: (h[1][0] * p.x + h[1][1] * p.y + h[1][2]) / w,
+  };
+}
+
+/**
+ * Local area scale of the homography at a point (|det J|, output units² per input unit²)
+ */
+export function localAreaScale(h: Homography, p: Point): number {
+  const w = h[2][0] * p.x + h[2][1] * p.y + h[2][2];
+  return Math.abs(determinant3x3(h) / (w * w * w));
+}
+
+/**
+ * Jacobian of the homography at a point
+ */
+export function jacobianAt(h: Homography, p: Point): [[number, number], [number, number]] {
+  const w = h[2][0] * p.x + h[2][1] * p.y + h[2][2];
+  const { x: u, y: v } = applyHomography(h, p);
+  return [
+    [(h[0][0] - u * h[2][0]) / w, (h[0][1] - u * h[2][1]) / w],
+    [(h[1][0] - v * h[2][0]) / w, (h[1][1] - v * h[2][1]) / w],
+  ];
+}
+
+/**
+ * Estimated camera tilt (degrees) from the anisotropy of the local mapping.
+ * A fronto-parallel view maps a circle to a circle (0°).
+ */
+export function tiltAngleAt(h: Homography, p: Point): number {
+  const [[a, b], [c, d]] = jacobianAt(h, p);
+  const s = a * a + b * b + c * c + d * d;
+  const det = a * d - b * c;
+  const disc = Math.sqrt(Math.max(0, s * s - 4 * det * det));
+  const sMax = Math.sqrt((s + disc) / 2);
+  const sMin = Math.sqrt(Math.max(0, (s - disc) / 2));
+  if (sMax === 0) return 0;
+  return (Math.acos(Math.min(1, sMin / sMax)) * 180) / Math.PI;
+}
+
+/**
+ * Root-mean-square reprojection error of src -> dst under h (in dst units)
+ */
+export function reprojectionError(h: Homography, src: Point[], dst: Point[]): number {
+  const n = Math.min(src.length, dst.length);
+  if (n === 0) return Infinity;
+  let sum = 0;
+  for (let i = 0; i < n; i++) {
+    const p = applyHomography(h, src[i]);
+    sum += (p.x - dst[i].x) ** 2 + (p.y - dst[i].y) ** 2;
+  }
+  return Math.sqrt(sum / n);
+}
+
+/**
+ * Invert a 3x3 matrix
+ */
+export function invert3x3(m: number[][]): number[][] | null {
+  const det = determinant3x3(m);
+  if (Math.abs(det) < 1e-12) return null;
+
+  const [[a, b, c], [d, e, f], [g, h, i]] = m;
+  return [
+    [(e * i - f * h) / det, (c * h - b * i) / det, (b * f - c * e) / det],
+    [(f * g - d * i) / det, (a * i - c * g) / det, (c * d - a * f) / det],
+    [(d * h - e * g) / det, (b * g - a * h) / det, (a * e - b * d) / det],
+  ];
+}
+
+/**
+ * Determinant of a 3x3 matrix
+ */
+export function determinant3x3(m: number[][]): number {
+  return (
+    m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
+    m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
+    m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0])
+  );
+}
+
+function multiply3x3(a: number[][], b: number[][]): number[][] {
+  return a.map(row =>
+    [0, 1, 2].map(c => row[0] * b[0][c] + row[1] * b[1][c] + row[2] * b[2][c])
+  );
+}
+
+/**
+ * Hartley normalisation: centroid at origin, mean distance sqrt(2)
+ */
+function normalizationTransform(points: Point[]): Homography | null {
+  const cx = points.reduce((s, p) => s + p.x, 0) / points.length;
+  const cy = points.reduce((s, p) => s + p.y, 0) / points.length;
+  const meanDist = points.reduce((s, p) => s + Math.hypot(p.x - cx, p.y - cy), 0) / points.length;
+  if (meanDist < 1e-9) return null;
+
+  const k = Math.SQRT2 / meanDist;
+  return [
+    [k, 0, -k * cx],
+    [0, k, -k * cy],
+    [0, 0, 1],
+  ];
+}
+
+/**
+ * Gaussian elimination with partial pivoting
+ */
+function solveLinearSystem(a: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-10) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let r = col + 1; r < n; r++) {
+      const factor = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= factor * m[col][c];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = m[r][n];
+    for (let c = r + 1; c < n; c++) sum -= m[r][c] * x[c];
+    x[r] = sum / m[r][r];
+  }
+  return x;
+}
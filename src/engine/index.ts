@@ -2,7 +2,23 @@
  * AstroWound-MEASURE Engine Module Exports
  */
 
-export { WoundSegmentationEngine, getSegmentationEngine } from './segmentation';
+export { WoundSegmentationEngine, getSegmentationEngine, CLASSICAL_PIPELINE_VERSION } from './segmentation';
 export { CalibrationEngine, getCalibrationEngine } from './calibration';
 export { MeasurementEngine, getMeasurementEngine } from './measurement';
+export { TrajectoryEngine, getTrajectoryEngine, TRAJECTORY_SPEC } from './trajectory';
 export { QualityCheckEngine, getQualityCheckEngine } from './quality';
+export {
+  TissueClassificationEngine,
+  getTissueClassificationEngine,
+  breakdownToTissueTypes,
+  toDressingTissueTypes,
+  TISSUE_OVERLAY_COLORS,
+} from './tissue';
+export { computeAssessmentAlignment, transformPoint, compareMeasurements } from './comparison';
+export { FIDUCIAL_SPEC, encodeFiducial, decodeFiducial } from './fiducial';
+export {
+  ValidationEngine,
+  getValidationEngine,
+  VALIDATION_SPEC,
+  VALIDATION_TARGETS,
+} from './validation';
@@ -10,8 +10,21 @@ import type {
   Point,
   HealingProgress,
   WoundAssessment,
-  WoundAnalytics
+  WoundAnalytics,
+  DepthReading,
+  DepthProbeRecord,
+  WoundRadialProfile,
+  WoundType
 } from '@/types';
+import { applyHomography, determinant3x3, localAreaScale, type Homography } from './homography';
+import { getTrajectoryEngine } from './trajectory';
+
+// Angular resolution of the radial wound profile
+const RADIAL_BINS = 72;
+
+// Depth readings at clock positions are taken half-way between the centre
+// and the wound edge; the bed is assumed to rise to zero at the margin
+const PROBE_RADIUS_FRACTION = 0.5;
 
 /**
  * Measurement Engine for wound geometry calculations
@@ -29,6 +42,10 @@ export class MeasurementEngine {
       throw new Error('Valid calibration required for measurement');
     }
 
+    if (calibration.homographyMatrix) {
+      return this.calculateRectifiedMeasurements(segmentation, calibration.homographyMatrix);
+    }
+
     const { mask, contour } = segmentation;
     const pixelsPerCm = calibration.pixelsPerCm;
     const pixelsPerCmSquared = pixelsPerCm * pixelsPerCm;
@@ -54,6 +71,52 @@ export class MeasurementEngine {
     };
   }
 
+  /**
+   * Measure in the rectified marker plane: every pixel and contour point is
+   * mapped through the calibration homography, so results are already in cm
+   */
+  private calculateRectifiedMeasurements(
+    segmentation: SegmentationResult,
+    homography: Homography
+  ): WoundMeasurement {
+    const { mask, contour } = segmentation;
+
+    const area = this.calculateRectifiedArea(mask, homography);
+    const planeContour = contour.map(p => applyHomography(homography, p));
+    const perimeter = this.calculatePerimeter(planeContour);
+    const { length, width } = this.calculateLengthWidth(planeContour);
+
+    return {
+      area: this.round(area, 2),
+      length: this.round(length, 2),
+      width: this.round(width, 2),
+      perimeter: this.round(perimeter, 2),
+      perspectiveCorrected: true,
+    };
+  }
+
+  /**
+   * Sum the local area scale of the homography (|det H| / w³) over mask pixels
+   */
+  private calculateRectifiedArea(mask: ImageData, h: Homography): number {
+    const { data, width, height } = mask;
+    const detH = Math.abs(determinant3x3(h));
+
+    let area = 0;
+    for (let y = 0; y < height; y++) {
+      // Sample at pixel centres
+      const rowW = h[2][1] * (y + 0.5) + h[2][2];
+      for (let x = 0; x < width; x++) {
+        if (data[(y * width + x) * 4] > 127) {
+          const w = h[2][0] * (x + 0.5) + rowW;
+          area += 1 / Math.abs(w * w * w);
+        }
+      }
+    }
+
+    return area * detH;
+  }
+
   /**
    * Calculate area from binary mask
    */
@@ -231,6 +294,150 @@ export class MeasurementEngine {
     return this.round(0.327 * area * depth, 2);
   }
 
+  /**
+   * Calculate volume by integrating a depth surface interpolated from
+   * probe readings: angularly between clock positions, radially from the
+   * centre reading through the clock readings to zero at the wound edge
+   */
+  calculateProbeVolume(
+    segmentation: SegmentationResult,
+    calibration: CalibrationData,
+    readings: DepthReading[]
+  ): number {
+    const valid = readings.filter(r => r.depth > 0);
+    if (valid.length === 0) return 0;
+
+    const profile = this.calculateRadialProfile(segmentation.mask);
+    const clockReadings = valid
+      .filter((r): r is DepthReading & { position: number } => r.position !== 'centre')
+      .map(r => ({ angle: (r.position % 12) * 30, depth: r.depth }))
+      .sort((a, b) => a.angle - b.angle);
+    const centreReading = valid.find(r => r.position === 'centre');
+    const centreDepth = centreReading
+      ? centreReading.depth
+      : clockReadings.reduce((sum, r) => sum + r.depth, 0) / clockReadings.length;
+
+    const { data, width, height } = segmentation.mask;
+    const homography = calibration.homographyMatrix;
+    const pixelArea = 1 / (calibration.pixelsPerCm * calibration.pixelsPerCm);
+    let volume = 0;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (data[(y * width + x) * 4] <= 127) continue;
+
+        const dx = x - profile.centroid.x;
+        const dy = y - profile.centroid.y;
+        const angle = this.clockAngle(dx, dy);
+        const edge = profile.radii[Math.floor(angle / (360 / RADIAL_BINS)) % RADIAL_BINS];
+        const rho = edge > 0 ? Math.min(1, Math.hypot(dx, dy) / edge) : 0;
+
+        let depth: number;
+        if (clockReadings.length === 0) {
+          depth = centreDepth * (1 - rho);
+        } else {
+          const probe = this.interpolateAngular(clockReadings, angle);
+          depth = rho <= PROBE_RADIUS_FRACTION
+            ? centreDepth + (probe - centreDepth) * (rho / PROBE_RADIUS_FRACTION)
+            : probe * (1 - rho) / (1 - PROBE_RADIUS_FRACTION);
+        }
+
+        const area = homography
+          ? localAreaScale(homography, { x: x + 0.5, y: y + 0.5 })
+          : pixelArea;
+        volume += depth * area;
+      }
+    }
+
+    return this.round(volume, 2);
+  }
+
+  /**
+   * Centroid and edge distance per direction of a wound mask
+   */
+  calculateRadialProfile(mask: ImageData): WoundRadialProfile {
+    const { data, width, height } = mask;
+    let sumX = 0, sumY = 0, count = 0;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (data[(y * width + x) * 4] > 127) {
+          sumX += x;
+          sumY += y;
+          count++;
+        }
+      }
+    }
+
+    const centroid = count > 0 ? { x: sumX / count, y: sumY / count } : { x: width / 2, y: height / 2 };
+    const radii = new Array(RADIAL_BINS).fill(0);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (data[(y * width + x) * 4] <= 127) continue;
+        const dx = x - centroid.x;
+        const dy = y - centroid.y;
+        const bin = Math.floor(this.clockAngle(dx, dy) / (360 / RADIAL_BINS)) % RADIAL_BINS;
+        radii[bin] = Math.max(radii[bin], Math.hypot(dx, dy) + 0.5);
+      }
+    }
+
+    return { centroid, radii };
+  }
+
+  /**
+   * Image point at a (fractional) clock hour: a fraction of the way from the
+   * centroid to the wound edge, plus an optional offset in pixels beyond it
+   */
+  clockPoint(profile: WoundRadialProfile, hour: number, fraction: number, offsetPx = 0): Point {
+    const angle = ((hour % 12) + 12) % 12 * 30;
+    const edge = profile.radii[Math.floor(angle / (360 / RADIAL_BINS)) % RADIAL_BINS];
+    const distance = edge * fraction + offsetPx;
+    const radians = (angle * Math.PI) / 180;
+    return {
+      x: profile.centroid.x + Math.sin(radians) * distance,
+      y: profile.centroid.y - Math.cos(radians) * distance,
+    };
+  }
+
+  /**
+   * Describe undermining and tunnelling for reports
+   */
+  describeDepthProbe(probe: DepthProbeRecord): string[] {
+    const lines = probe.undermining.map(u =>
+      `Undermining ${u.fromClock}–${u.toClock} o'clock, ${u.depth} cm`
+    );
+    probe.tunnels.forEach(t => lines.push(`Tunnel at ${t.clock} o'clock, ${t.depth} cm`));
+    return lines;
+  }
+
+  /**
+   * Clockwise angle from 12 o'clock (image up) in degrees, [0, 360)
+   */
+  private clockAngle(dx: number, dy: number): number {
+    const angle = (Math.atan2(dx, -dy) * 180) / Math.PI;
+    return angle < 0 ? angle + 360 : angle;
+  }
+
+  /**
+   * Linear interpolation between clock readings sorted by angle, wrapping at 12
+   */
+  private interpolateAngular(readings: { angle: number; depth: number }[], angle: number): number {
+    if (readings.length === 1) return readings[0].depth;
+
+    for (let i = 0; i < readings.length; i++) {
+      const a = readings[i];
+      const b = readings[(i + 1) % readings.length];
+      const span = (b.angle - a.angle + 360) % 360 || 360;
+      const offset = (angle - a.angle + 360) % 360;
+      if (offset <= span) {
+        return a.depth + (b.depth - a.depth) * (offset / span);
+      }
+    }
+
+    return readings[0].depth;
+  }
+
   /**
    * Calculate healing progress from assessments
    */
@@ -298,7 +505,8 @@ export class MeasurementEngine {
   calculateWoundAnalytics(
     woundId: string,
     assessments: WoundAssessment[],
-    onset: Date
+    onset: Date,
+    woundType?: WoundType
   ): WoundAnalytics {
     const progress = this.calculateHealingProgress(assessments);
 
@@ -337,9 +545,16 @@ export class MeasurementEngine {
     // Days since onset
     const daysSinceOnset = this.daysBetween(onset, new Date());
 
-    // Determine trend
+    const trajectory = getTrajectoryEngine().calculateTrajectory(assessments, woundType);
+
+    // Determine trend: from the fitted weekly change once a log-linear
+    // model is available, otherwise from the last few interval changes
     let trend: 'improving' | 'stable' | 'worsening' = 'stable';
-    if (progress.length >= 2) {
+    const logLinear = trajectory.fits.find(f => f.model === 'log_linear');
+    if (logLinear?.weeklyAreaChangePercent !== undefined) {
+      if (logLinear.weeklyAreaChangePercent < -5) trend = 'improving';
+      else if (logLinear.weeklyAreaChangePercent > 5) trend = 'worsening';
+    } else if (progress.length >= 2) {
       const recentProgress = progress.slice(-3);
       const avgChange = recentProgress.reduce((sum, p) => sum + p.areaChangePercent, 0) / recentProgress.length;
       
@@ -359,6 +574,7 @@ export class MeasurementEngine {
       daysSinceOnset,
       progressHistory: progress,
       trend,
+      trajectory,
     };
   }
 
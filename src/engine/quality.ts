@@ -4,12 +4,14 @@
  */
 
 import type { QualityCheck, CalibrationData } from '@/types';
+import { localAreaScale, tiltAngleAt } from './homography';
 
 interface QualityThresholds {
   minBlurScore: number;
   minLightingScore: number;
   minCalibrationConfidence: number;
   maxPerspectiveDistortion: number;
+  maxCorrectableDistortion: number;
 }
 
 const DEFAULT_THRESHOLDS: QualityThresholds = {
@@ -17,6 +19,7 @@ const DEFAULT_THRESHOLDS: QualityThresholds = {
   minLightingScore: 0.6,
   minCalibrationConfidence: 0.8,
   maxPerspectiveDistortion: 15, // degrees
+  maxCorrectableDistortion: 40, // degrees, when a homography is available
 };
 
 /**
@@ -42,7 +45,7 @@ export class QualityCheckEngine {
   ): Promise<QualityCheck> {
     const blurResult = await this.checkBlur(imageData);
     const lightingResult = await this.checkLighting(imageData);
-    const perspectiveResult = await this.checkPerspective(calibrationData);
+    const perspectiveResult = await this.checkPerspective(calibrationData, imageData.width, imageData.height);
 
     const allPassed = 
       blurResult.passed && 
@@ -212,12 +215,40 @@ export class QualityCheckEngine {
   /**
    * Check and correct perspective distortion
    */
-  private async checkPerspective(calibrationData: CalibrationData): Promise<{
-    distortion: number;
-    corrected: boolean;
-  }> {
+  private async checkPerspective(
+    calibrationData: CalibrationData,
+    width: number,
+    height: number
+  ): Promise<QualityCheck['perspective']> {
     if (!calibrationData.detected || calibrationData.referencePoints.length < 2) {
-      return { distortion: 0, corrected: false };
+      return { distortion: 0, corrected: false, homographyApplied: false };
+    }
+
+    // With a homography the tilt is measured directly and measurements are rectified
+    if (calibrationData.homographyMatrix) {
+      const h = calibrationData.homographyMatrix;
+      const center = { x: width / 2, y: height / 2 };
+      const tilt = tiltAngleAt(h, center);
+
+      // Compare local area scale across the frame with the single-scale approximation
+      const scalarScale = 1 / (calibrationData.pixelsPerCm * calibrationData.pixelsPerCm);
+      const samples = [
+        center,
+        { x: 0, y: 0 },
+        { x: width, y: 0 },
+        { x: 0, y: height },
+        { x: width, y: height },
+      ];
+      const correction = scalarScale > 0 && isFinite(scalarScale)
+        ? Math.max(...samples.map(p => Math.abs(localAreaScale(h, p) / scalarScale - 1)))
+        : 0;
+
+      return {
+        distortion: Math.round(tilt * 10) / 10,
+        corrected: tilt <= this.thresholds.maxCorrectableDistortion,
+        homographyApplied: true,
+        correctionPercent: Math.round(correction * 1000) / 10,
+      };
     }
 
     // Calculate distortion from reference points
@@ -251,6 +282,7 @@ export class QualityCheckEngine {
     return {
       distortion: Math.round(distortion * 10) / 10,
       corrected: isCorrectable,
+      homographyApplied: false,
     };
   }
 
@@ -270,6 +302,9 @@ export class QualityCheckEngine {
     lines.push(`   Lighting: ${check.lighting.passed ? '✓' : '✗'} (${Math.round(check.lighting.score * 100)}%)`);
     lines.push(`   Calibration: ${check.calibration.detected ? '✓' : '✗'} (${Math.round(check.calibration.confidence * 100)}%)`);
     lines.push(`   Perspective: ${check.perspective.corrected ? '✓' : '✗'} (${check.perspective.distortion}° distortion)`);
+    if (check.perspective.homographyApplied) {
+      lines.push(`   Perspective correction applied: ${check.perspective.correctionPercent ?? 0}% max area-scale change`);
+    }
 
     if (check.lighting.issues.length > 0) {
       lines.push('   Lighting issues:');
@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WoundSegmentationEngine } from './segmentation';
+
+const manifest = {
+  name: 'AstroWound-UNet-Lite',
+  version: '2.0.0',
+  format: 'graph',
+  modelPath: '2.0.0/model.json',
+  inputSize: [128, 128],
+  quantized: true,
+};
+
+// Serves the manifest, and answers the model path the way a host with an
+// SPA rewrite does: 200 with the app's HTML
+const spaFallbackFetch = vi.fn(async (url: RequestInfo | URL) => {
+  if (String(url).endsWith('/manifest.json')) {
+    return new Response(JSON.stringify(manifest), { headers: { 'content-type': 'application/json' } });
+  }
+  return new Response('<!doctype html><html></html>', { headers: { 'content-type': 'text/html' } });
+});
+
+describe('WoundSegmentationEngine.initialize', () => {
+  beforeEach(() => {
+    vi.stubGlobal('window', { location: { href: 'https://wound.example.com/' } });
+    vi.stubGlobal('fetch', spaFallbackFetch);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    spaFallbackFetch.mockClear();
+  });
+
+  it('reports missing weights when the host answers with the app page', async () => {
+    const engine = new WoundSegmentationEngine();
+    await engine.initialize();
+
+    expect(engine.getModelStatus()).toBe('unavailable');
+    expect(engine.getUnavailableReason()).toBe(
+      'Model weights not installed (expected at /models/astrowound-unet-lite/2.0.0/model.json)'
+    );
+  });
+
+  it('tries the load again after a failure', async () => {
+    const engine = new WoundSegmentationEngine();
+    await engine.initialize();
+    const calls = spaFallbackFetch.mock.calls.length;
+
+    await engine.initialize();
+
+    expect(spaFallbackFetch.mock.calls.length).toBeGreaterThan(calls);
+    expect(engine.getModelStatus()).toBe('unavailable');
+  });
+});
@@ -1,12 +1,15 @@
 /**
  * AstroWound-MEASURE AI Segmentation Engine
- * Lightweight U-Net with TensorFlow.js for browser-based wound segmentation
+ * Pretrained U-Net loaded from versioned static assets, with a classical colour-threshold fallback
  */
 
 import * as tf from '@tensorflow/tfjs';
 import type { 
   ModelConfig, 
+  ModelManifest,
+  ModelStatus,
   InferenceResult,
+  SegmentationResult,
   Point,
   BoundingBox 
 } from '@/types';
@@ -18,16 +21,32 @@ const DEFAULT_MODEL_CONFIG: ModelConfig = {
   inputSize: [128, 128], // Smaller input for faster processing
   outputChannels: 1,
   backend: 'webgl',
-  quantized: false,
+  quantized: true,
+  manifestUrl: '/models/astrowound-unet-lite/manifest.json',
 };
 
+// Version tag recorded when the classical pipeline produced the mask
+export const CLASSICAL_PIPELINE_VERSION = 'classical-1.0.0';
+
+// Regions smaller than either bound are treated as noise, not wounds
+const CANDIDATE_MIN_IMAGE_FRACTION = 0.001;
+const CANDIDATE_MIN_LARGEST_FRACTION = 0.05;
+const MAX_CANDIDATES = 8;
+
+interface ComponentLabels {
+  labels: Int32Array;       // 0 = background, otherwise component label
+  sizes: number[];          // pixel count indexed by label
+}
+
 /**
- * Wound Segmentation Engine using lightweight U-Net architecture
- * Optimized for browser performance with TensorFlow.js
+ * Wound Segmentation Engine using a pretrained lightweight U-Net
+ * Falls back to classical colour segmentation when the weights cannot be loaded
  */
 export class WoundSegmentationEngine {
-  private model: tf.LayersModel | null = null;
+  private model: tf.GraphModel | tf.LayersModel | null = null;
   private config: ModelConfig;
+  private status: ModelStatus = 'idle';
+  private unavailableReason: string | null = null;
   private isLoading = false;
   private isInitialized = false;
   private initPromise: Promise<void> | null = null;
@@ -37,7 +56,10 @@ export class WoundSegmentationEngine {
   }
 
   /**
-   * Initialize TensorFlow.js and build model
+   * Initialize TensorFlow.js and load the pretrained model.
+   * Never rejects: if the model cannot be loaded the engine is left in the
+   * 'unavailable' state and segment() uses the classical pipeline. A later
+   * call tries the load again, so weights installed afterwards are picked up.
    */
   async initialize(): Promise<void> {
     if (this.isInitialized) return;
@@ -53,6 +75,8 @@ export class WoundSegmentationEngine {
   private async _doInitialize(): Promise<void> {
     if (this.isInitialized) return;
     this.isLoading = true;
+    this.status = 'loading';
+    this.unavailableReason = null;
 
     try {
       console.log('[SegmentationEngine] Starting initialization...');
@@ -62,17 +86,25 @@ export class WoundSegmentationEngine {
       
       console.log(`[SegmentationEngine] Backend: ${tf.getBackend()}`);
 
-      // Build lightweight model
-      this.model = await this.buildLightweightUNet();
+      // Load pretrained weights from static assets
+      this.model = await this.loadPretrainedModel();
       
       // Warm up with dummy inference
       await this.warmUp();
 
+      this.status = 'ready';
       this.isInitialized = true;
-      console.log('[SegmentationEngine] Model ready!');
+      console.log(`[SegmentationEngine] Model ${this.config.name} v${this.config.version} ready!`);
     } catch (error) {
-      console.error('[SegmentationEngine] Init failed:', error);
-      throw error;
+      if (this.model) {
+        this.model.dispose();
+        this.model = null;
+      }
+      this.status = 'unavailable';
+      this.unavailableReason = (error as Error).message;
+      console.warn('[SegmentationEngine] Model unavailable, using classical segmentation:', error);
+      // Allow the next initialize() to retry
+      this.initPromise = null;
     } finally {
       this.isLoading = false;
     }
@@ -99,99 +131,74 @@ export class WoundSegmentationEngine {
   }
 
   /**
-   * Build lightweight U-Net model optimized for browser
-   * Uses fewer filters and layers for fast inference
+   * Load the pretrained model described by the manifest.
+   * The manifest and weight shards are served from /models and cached by the service worker.
    */
-  private async buildLightweightUNet(): Promise<tf.LayersModel> {
-    const [inputHeight, inputWidth] = this.config.inputSize;
-    
-    // Allow UI to update
-    await new Promise(r => setTimeout(r, 0));
-
-    const input = tf.input({ shape: [inputHeight, inputWidth, 3], name: 'input' });
-
-    // Encoder (downsampling path) - reduced filter counts
-    const enc1 = this.convBlock(input, 16, 'enc1');
-    const pool1 = tf.layers.maxPooling2d({ poolSize: [2, 2], name: 'pool1' }).apply(enc1) as tf.SymbolicTensor;
-    
-    await new Promise(r => setTimeout(r, 0));
-
-    const enc2 = this.convBlock(pool1, 32, 'enc2');
-    const pool2 = tf.layers.maxPooling2d({ poolSize: [2, 2], name: 'pool2' }).apply(enc2) as tf.SymbolicTensor;
-
-    await new Promise(r => setTimeout(r, 0));
-
-    const enc3 = this.convBlock(pool2, 64, 'enc3');
-    const pool3 = tf.layers.maxPooling2d({ poolSize: [2, 2], name: 'pool3' }).apply(enc3) as tf.SymbolicTensor;
-
-    await new Promise(r => setTimeout(r, 0));
-
-    // Bridge
-    const bridge = this.convBlock(pool3, 128, 'bridge');
-
-    await new Promise(r => setTimeout(r, 0));
+  private async loadPretrainedModel(): Promise<tf.GraphModel | tf.LayersModel> {
+    const response = await fetch(this.config.manifestUrl);
+    if (!response.ok) {
+      throw new Error(`Model manifest not found (${response.status})`);
+    }
 
-    // Decoder (upsampling path)
-    const up3 = tf.layers.upSampling2d({ size: [2, 2], name: 'up3' }).apply(bridge) as tf.SymbolicTensor;
-    const concat3 = tf.layers.concatenate({ name: 'concat3' }).apply([up3, enc3]) as tf.SymbolicTensor;
-    const dec3 = this.convBlock(concat3, 64, 'dec3');
+    let manifest: ModelManifest;
+    try {
+      manifest = await response.json();
+    } catch {
+      throw new Error('Model manifest is not valid JSON');
+    }
 
-    await new Promise(r => setTimeout(r, 0));
+    if (manifest.version !== this.config.version) {
+      throw new Error(
+        `Model version mismatch: expected ${this.config.version}, found ${manifest.version}`
+      );
+    }
 
-    const up2 = tf.layers.upSampling2d({ size: [2, 2], name: 'up2' }).apply(dec3) as tf.SymbolicTensor;
-    const concat2 = tf.layers.concatenate({ name: 'concat2' }).apply([up2, enc2]) as tf.SymbolicTensor;
-    const dec2 = this.convBlock(concat2, 32, 'dec2');
+    const [expectedH, expectedW] = this.config.inputSize;
+    if (manifest.inputSize[0] !== expectedH || manifest.inputSize[1] !== expectedW) {
+      throw new Error(
+        `Model input size ${manifest.inputSize.join('x')} does not match ${expectedH}x${expectedW}`
+      );
+    }
 
-    await new Promise(r => setTimeout(r, 0));
+    if (this.config.quantized && !manifest.quantized) {
+      console.warn('[SegmentationEngine] Expected quantized weights, manifest reports float weights');
+    }
 
-    const up1 = tf.layers.upSampling2d({ size: [2, 2], name: 'up1' }).apply(dec2) as tf.SymbolicTensor;
-    const concat1 = tf.layers.concatenate({ name: 'concat1' }).apply([up1, enc1]) as tf.SymbolicTensor;
-    const dec1 = this.convBlock(concat1, 16, 'dec1');
+    const modelUrl = new URL(manifest.modelPath, new URL(this.config.manifestUrl, window.location.href)).href;
+    await this.assertWeightsInstalled(modelUrl);
 
-    // Output layer
-    const output = tf.layers.conv2d({
-      filters: 1,
-      kernelSize: 1,
-      activation: 'sigmoid',
-      padding: 'same',
-      name: 'output'
-    }).apply(dec1) as tf.SymbolicTensor;
+    const model = manifest.format === 'graph'
+      ? await tf.loadGraphModel(modelUrl)
+      : await tf.loadLayersModel(modelUrl);
 
-    const model = tf.model({ inputs: input, outputs: output, name: 'AstroWound-UNet-Lite' });
-    
-    console.log('[SegmentationEngine] Model architecture:');
-    model.summary();
+    const inputShape = model.inputs[0]?.shape;
+    if (inputShape && (inputShape[1] !== expectedH || inputShape[2] !== expectedW)) {
+      model.dispose();
+      throw new Error(`Loaded model input shape [${inputShape.join(', ')}] does not match config`);
+    }
 
+    console.log(`[SegmentationEngine] Loaded ${manifest.name} v${manifest.version} (${manifest.format})`);
     return model;
   }
 
   /**
-   * Convolutional block: Conv2D -> BatchNorm -> ReLU -> Conv2D -> BatchNorm -> ReLU
+   * Check the model topology is really there before handing it to tf.js.
+   * A host that rewrites unknown paths to the app answers 200 with HTML,
+   * so any response that is not a model.json with a weights manifest
+   * counts as missing.
    */
-  private convBlock(input: tf.SymbolicTensor, filters: number, name: string): tf.SymbolicTensor {
-    let x = tf.layers.conv2d({
-      filters,
-      kernelSize: 3,
-      padding: 'same',
-      kernelInitializer: 'heNormal',
-      name: `${name}_conv1`
-    }).apply(input) as tf.SymbolicTensor;
-
-    x = tf.layers.batchNormalization({ name: `${name}_bn1` }).apply(x) as tf.SymbolicTensor;
-    x = tf.layers.activation({ activation: 'relu', name: `${name}_relu1` }).apply(x) as tf.SymbolicTensor;
-
-    x = tf.layers.conv2d({
-      filters,
-      kernelSize: 3,
-      padding: 'same',
-      kernelInitializer: 'heNormal',
-      name: `${name}_conv2`
-    }).apply(x) as tf.SymbolicTensor;
-
-    x = tf.layers.batchNormalization({ name: `${name}_bn2` }).apply(x) as tf.SymbolicTensor;
-    x = tf.layers.activation({ activation: 'relu', name: `${name}_relu2` }).apply(x) as tf.SymbolicTensor;
-
-    return x;
+  private async assertWeightsInstalled(modelUrl: string): Promise<void> {
+    const missing = new Error(`Model weights not installed (expected at ${new URL(modelUrl).pathname})`);
+    const response = await fetch(modelUrl);
+    if (!response.ok) throw missing;
+
+    let topology: { weightsManifest?: unknown };
+    try {
+      topology = await response.json();
+    } catch {
+      throw missing;
+    }
+    if (!Array.isArray(topology?.weightsManifest)) throw missing;
   }
 
   /**
@@ -217,45 +224,231 @@ export class WoundSegmentationEngine {
    * Segment wound in image
    */
   async segment(imageData: ImageData): Promise<InferenceResult> {
-    if (!this.isInitialized || !this.model) {
+    // A failed load is retried through initialize(), not on every segmentation
+    if (this.status === 'idle' || this.status === 'loading') {
       await this.initialize();
     }
 
     const startTime = performance.now();
     const originalSize: [number, number] = [imageData.height, imageData.width];
 
-    // Preprocess
-    const inputTensor = this.preprocess(imageData);
-
-    // Run inference
-    const outputTensor = this.model!.predict(inputTensor) as tf.Tensor;
-    inputTensor.dispose();
-
-    // Postprocess
-    const mask = await this.postprocess(outputTensor, originalSize);
-    outputTensor.dispose();
+    let mask: ImageData;
+    if (this.model) {
+      // Preprocess
+      const inputTensor = this.preprocess(imageData);
+
+      // Run inference
+      const outputTensor = this.model.predict(inputTensor) as tf.Tensor;
+      inputTensor.dispose();
+
+      // Postprocess
+      mask = await this.postprocess(outputTensor, originalSize);
+      outputTensor.dispose();
+    } else {
+      mask = this.classicalSegment(imageData);
+    }
 
-    // Extract contour and bounding box
-    const contour = this.extractContour(mask);
-    const boundingBox = this.calculateBoundingBox(contour);
-    const area = this.calculateMaskArea(mask);
+    const method = this.model ? 'model' : 'classical';
+    const regions = this.splitCandidates(mask);
+    // Classical confidence is judged on the wound region alone, not the speckle around it
+    const confidence = this.estimateConfidence(method === 'model' ? mask : regions[0] ?? mask);
+    // Classical masks are never reported as high confidence
+    const reported = method === 'model' ? confidence : Math.min(confidence, 0.6);
+
+    const candidates = regions.map(region => {
+      const contour = this.extractContour(region);
+      return {
+        mask: region,
+        confidence: reported,
+        boundingBox: this.calculateBoundingBox(contour),
+        contour,
+        area: this.calculateMaskArea(region),
+      };
+    });
 
     const inferenceTime = performance.now() - startTime;
-    console.log(`[SegmentationEngine] Inference: ${inferenceTime.toFixed(0)}ms`);
+    console.log(`[SegmentationEngine] Inference: ${inferenceTime.toFixed(0)}ms, ${candidates.length} region(s)`);
 
     return {
-      segmentation: {
+      segmentation: candidates[0] ?? {
         mask,
-        confidence: this.estimateConfidence(mask),
-        boundingBox,
-        contour,
-        area,
+        confidence: reported,
+        boundingBox: { x: 0, y: 0, width: 0, height: 0 },
+        contour: [],
+        area: 0,
       },
+      candidates,
       inferenceTime,
-      modelVersion: this.config.version,
+      method,
+      modelVersion: method === 'model' ? this.config.version : CLASSICAL_PIPELINE_VERSION,
+      modelConfig: method === 'model' ? this.config : undefined,
     };
   }
 
+  /**
+   * Split a mask into one mask per separate region, largest first,
+   * dropping regions too small to be a wound
+   */
+  private splitCandidates(mask: ImageData): ImageData[] {
+    const { width, height } = mask;
+    const { labels, sizes } = this.labelComponents(this.toBinary(mask), width, height);
+    const largest = sizes.reduce((max, size) => Math.max(max, size), 0);
+    const minSize = Math.max(width * height * CANDIDATE_MIN_IMAGE_FRACTION, largest * CANDIDATE_MIN_LARGEST_FRACTION);
+
+    return sizes
+      .map((size, label) => ({ size, label }))
+      .filter(({ size, label }) => label > 0 && size > 0 && size >= minSize)
+      .sort((a, b) => b.size - a.size)
+      .slice(0, MAX_CANDIDATES)
+      .map(({ label }) => {
+        const rgba = new Uint8ClampedArray(width * height * 4);
+        for (let i = 0; i < labels.length; i++) {
+          const val = labels[i] === label ? 255 : 0;
+          rgba[i * 4] = val;
+          rgba[i * 4 + 1] = val;
+          rgba[i * 4 + 2] = val;
+          rgba[i * 4 + 3] = 255;
+        }
+        return new ImageData(rgba, width, height);
+      });
+  }
+
+  /**
+   * Classical segmentation: threshold a redness score with Otsu's method.
+   * Separate regions are kept; splitCandidates drops the noise.
+   */
+  private classicalSegment(imageData: ImageData): ImageData {
+    const { data, width, height } = imageData;
+    const size = width * height;
+
+    // Redness relative to the other channels highlights wound bed tissue
+    const score = new Uint8Array(size);
+    for (let i = 0; i < size; i++) {
+      const r = data[i * 4];
+      const g = data[i * 4 + 1];
+      const b = data[i * 4 + 2];
+      score[i] = Math.max(0, Math.min(255, 128 + r - (g + b) / 2));
+    }
+
+    const threshold = this.otsuThreshold(score);
+    const foreground = new Uint8Array(size);
+    for (let i = 0; i < size; i++) {
+      foreground[i] = score[i] > threshold ? 1 : 0;
+    }
+
+    const rgba = new Uint8ClampedArray(size * 4);
+    for (let i = 0; i < size; i++) {
+      const val = foreground[i] ? 255 : 0;
+      rgba[i * 4] = val;
+      rgba[i * 4 + 1] = val;
+      rgba[i * 4 + 2] = val;
+      rgba[i * 4 + 3] = 255;
+    }
+
+    return new ImageData(rgba, width, height);
+  }
+
+  /**
+   * Otsu's threshold over 8-bit values
+   */
+  private otsuThreshold(values: Uint8Array): number {
+    const histogram = new Array(256).fill(0);
+    for (let i = 0; i < values.length; i++) histogram[values[i]]++;
+
+    const total = values.length;
+    let sum = 0;
+    for (let i = 0; i < 256; i++) sum += i * histogram[i];
+
+    let sumB = 0, wB = 0, maxVariance = 0, threshold = 128;
+    for (let t = 0; t < 256; t++) {
+      wB += histogram[t];
+      if (wB === 0) continue;
+      const wF = total - wB;
+      if (wF === 0) break;
+
+      sumB += t * histogram[t];
+      const mB = sumB / wB;
+      const mF = (sum - sumB) / wF;
+      const variance = wB * wF * (mB - mF) * (mB - mF);
+
+      if (variance > maxVariance) {
+        maxVariance = variance;
+        threshold = t;
+      }
+    }
+
+    return threshold;
+  }
+
+  /**
+   * Label 4-connected foreground components
+   */
+  private labelComponents(binary: Uint8Array, width: number, height: number): ComponentLabels {
+    const labels = new Int32Array(binary.length);
+    const sizes = [0];
+    const stack: number[] = [];
+    let label = 0;
+
+    for (let start = 0; start < binary.length; start++) {
+      if (!binary[start] || labels[start]) continue;
+
+      label++;
+      let componentSize = 0;
+      labels[start] = label;
+      stack.push(start);
+
+      while (stack.length > 0) {
+        const idx = stack.pop()!;
+        componentSize++;
+        const x = idx % width;
+        const y = (idx - x) / width;
+
+        const neighbors = [
+          x > 0 ? idx - 1 : -1,
+          x < width - 1 ? idx + 1 : -1,
+          y > 0 ? idx - width : -1,
+          y < height - 1 ? idx + width : -1,
+        ];
+        for (const n of neighbors) {
+          if (n >= 0 && binary[n] && !labels[n]) {
+            labels[n] = label;
+            stack.push(n);
+          }
+        }
+      }
+
+      sizes.push(componentSize);
+    }
+
+    return { labels, sizes };
+  }
+
+  /**
+   * Keep only the largest 4-connected foreground component
+   */
+  private largestComponent(binary: Uint8Array, width: number, height: number): Uint8Array {
+    const { labels, sizes } = this.labelComponents(binary, width, height);
+    let bestLabel = 0;
+    for (let label = 1; label < sizes.length; label++) {
+      if (sizes[label] > sizes[bestLabel]) bestLabel = label;
+    }
+
+    const result = new Uint8Array(binary.length);
+    if (bestLabel === 0) return result;
+    for (let i = 0; i < labels.length; i++) {
+      if (labels[i] === bestLabel) result[i] = 1;
+    }
+    return result;
+  }
+
+  private toBinary(mask: ImageData): Uint8Array {
+    const binary = new Uint8Array(mask.width * mask.height);
+    for (let i = 0; i < binary.length; i++) {
+      binary[i] = mask.data[i * 4] > 127 ? 1 : 0;
+    }
+    return binary;
+  }
+
   /**
    * Preprocess image for model input
    */
@@ -338,34 +531,75 @@ export class WoundSegmentationEngine {
   }
 
   /**
-   * Extract contour points from mask
+   * Extract the ordered outer boundary of the largest region in the mask
    */
   private extractContour(mask: ImageData): Point[] {
-    const { width, height, data } = mask;
-    const contour: Point[] = [];
-
-    // Find edge pixels using simple edge detection
-    for (let y = 1; y < height - 1; y++) {
-      for (let x = 1; x < width - 1; x++) {
-        const idx = (y * width + x) * 4;
-        
-        if (data[idx] > 127) {
-          // Check 4-connected neighbors
-          const top = data[((y - 1) * width + x) * 4];
-          const bottom = data[((y + 1) * width + x) * 4];
-          const left = data[(y * width + x - 1) * 4];
-          const right = data[(y * width + x + 1) * 4];
-          
-          // Edge pixel if any neighbor is background
-          if (top < 128 || bottom < 128 || left < 128 || right < 128) {
-            contour.push({ x, y });
-          }
+    const { width, height } = mask;
+    const region = this.largestComponent(this.toBinary(mask), width, height);
+    const boundary = this.traceBoundary(region, width, height);
+
+    // Simplify contour for efficiency
+    return this.simplifyContour(boundary, 3);
+  }
+
+  /**
+   * Moore-neighbour boundary tracing, clockwise from the top-left pixel
+   */
+  private traceBoundary(region: Uint8Array, width: number, height: number): Point[] {
+    // 8-neighbour offsets, clockwise starting from west
+    const dirs: [number, number][] = [
+      [-1, 0], [-1, -1], [0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1],
+    ];
+    const isForeground = (x: number, y: number) =>
+      x >= 0 && y >= 0 && x < width && y < height && region[y * width + x] === 1;
+
+    const startIdx = region.indexOf(1);
+    if (startIdx < 0) return [];
+
+    const start: Point = { x: startIdx % width, y: Math.floor(startIdx / width) };
+    const boundary: Point[] = [start];
+    let current = start;
+    let backtrack = 0; // direction from current to the last background pixel (west of start)
+    const maxSteps = region.length * 4;
+
+    for (let step = 0; step < maxSteps; step++) {
+      let next: Point | null = null;
+      let nextDir = 0;
+
+      for (let k = 1; k <= 8; k++) {
+        const d = (backtrack + k) % 8;
+        const x = current.x + dirs[d][0];
+        const y = current.y + dirs[d][1];
+        if (isForeground(x, y)) {
+          next = { x, y };
+          nextDir = d;
+          break;
         }
       }
+
+      // Isolated pixel
+      if (!next) break;
+
+      // Stop once we leave the start pixel the same way as the first time
+      if (current.x === start.x && current.y === start.y && boundary.length > 1 &&
+          next.x === boundary[1].x && next.y === boundary[1].y) {
+        break;
+      }
+
+      // New backtrack: the background neighbour checked just before `next`, seen from `next`
+      const prev = dirs[(nextDir + 7) % 8];
+      const bx = current.x + prev[0] - next.x;
+      const by = current.y + prev[1] - next.y;
+      backtrack = dirs.findIndex(([dx, dy]) => dx === bx && dy === by);
+
+      current = next;
+      if (current.x === start.x && current.y === start.y && boundary.length > 1) {
+        continue;
+      }
+      boundary.push(current);
     }
 
-    // Simplify contour for efficiency
-    return this.simplifyContour(contour, 3);
+    return boundary;
   }
 
   /**
@@ -419,10 +653,84 @@ export class WoundSegmentationEngine {
   }
 
   /**
-   * Check if engine is ready
+   * Build a segmentation result from a clinician-defined contour
+   */
+  fromContour(contour: Point[], width: number, height: number): SegmentationResult {
+    const mask = this.rasterizePolygon(contour, width, height);
+
+    return {
+      mask,
+      contour: contour.map(({ x, y }) => ({ x, y })),
+      boundingBox: this.calculateBoundingBox(contour),
+      // The boundary was confirmed by the clinician
+      confidence: 1,
+      area: this.calculateMaskArea(mask),
+    };
+  }
+
+  /**
+   * Fill a closed polygon into a binary mask (even-odd scanline fill)
+   */
+  private rasterizePolygon(contour: Point[], width: number, height: number): ImageData {
+    const rgba = new Uint8ClampedArray(width * height * 4);
+    for (let i = 3; i < rgba.length; i += 4) rgba[i] = 255;
+
+    if (contour.length >= 3) {
+      for (let y = 0; y < height; y++) {
+        const scanY = y + 0.5;
+        const crossings: number[] = [];
+
+        for (let i = 0; i < contour.length; i++) {
+          const a = contour[i];
+          const b = contour[(i + 1) % contour.length];
+          if ((a.y <= scanY && b.y > scanY) || (b.y <= scanY && a.y > scanY)) {
+            crossings.push(a.x + ((scanY - a.y) / (b.y - a.y)) * (b.x - a.x));
+          }
+        }
+
+        crossings.sort((p, q) => p - q);
+        for (let i = 0; i + 1 < crossings.length; i += 2) {
+          const from = Math.max(0, Math.ceil(crossings[i] - 0.5));
+          const to = Math.min(width - 1, Math.floor(crossings[i + 1] - 0.5));
+          for (let x = from; x <= to; x++) {
+            const idx = (y * width + x) * 4;
+            rgba[idx] = 255;
+            rgba[idx + 1] = 255;
+            rgba[idx + 2] = 255;
+          }
+        }
+      }
+    }
+
+    return new ImageData(rgba, width, height);
+  }
+
+  /**
+   * Check if engine is ready (pretrained model loaded)
    */
   isReady(): boolean {
-    return this.isInitialized && this.model !== null;
+    return this.status === 'ready' && this.model !== null;
+  }
+
+  /**
+   * Get model status
+   */
+  getModelStatus(): ModelStatus {
+    return this.status;
+  }
+
+  /**
+   * Reason the pretrained model could not be loaded, if any
+   */
+  getUnavailableReason(): string | null {
+    return this.unavailableReason;
+  }
+
+  /**
+   * Get model configuration
+   */
+  getConfig(): ModelConfig {
+    return { ...this.config };
   }
 
   /**
@@ -442,6 +750,8 @@ export class WoundSegmentationEngine {
     }
     this.isInitialized = false;
     this.initPromise = null;
+    this.status = 'idle';
+    this.unavailableReason = null;
   }
 }
 
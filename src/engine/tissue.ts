@@ -0,0 +1,264 @@
+/**
+ * AstroWound-MEASURE Tissue Classification Engine
+ * Colour-space clustering of wound bed pixels into tissue types
+ */
+
+import type {
+  TissueAnalysis,
+  TissueClassificationResult,
+  TissueType,
+  DressingWoundAssessment,
+} from '@/types';
+
+type TissueClass = keyof TissueAnalysis;
+
+const TISSUE_CLASSES: TissueClass[] = ['epithelial', 'granulation', 'slough', 'necrotic'];
+
+// Typical clinical appearance of each tissue type (sRGB), used to seed and label clusters
+const TISSUE_PROTOTYPES: Record<TissueClass, [number, number, number]> = {
+  epithelial: [232, 172, 170],  // pale pink
+  granulation: [182, 42, 52],   // beefy red
+  slough: [214, 190, 112],      // yellow / cream
+  necrotic: [48, 36, 32],       // black / dark brown
+};
+
+// Overlay colours (RGB) shown on top of the wound image
+export const TISSUE_OVERLAY_COLORS: Record<TissueClass, [number, number, number]> = {
+  epithelial: [244, 114, 182],
+  granulation: [220, 38, 38],
+  slough: [234, 179, 8],
+  necrotic: [17, 24, 39],
+};
+
+const OVERLAY_ALPHA = 150;
+const MAX_SAMPLE_PIXELS = 20000;
+const MAX_ITERATIONS = 10;
+
+/**
+ * Tissue Classification Engine
+ * Seeded k-means in CIELAB over the pixels inside the wound mask
+ */
+export class TissueClassificationEngine {
+  private prototypes: Record<TissueClass, [number, number, number]>;
+
+  constructor() {
+    this.prototypes = {} as Record<TissueClass, [number, number, number]>;
+    for (const cls of TISSUE_CLASSES) {
+      const [r, g, b] = TISSUE_PROTOTYPES[cls];
+      this.prototypes[cls] = this.rgbToLab(r, g, b);
+    }
+  }
+
+  /**
+   * Classify wound pixels and return tissue percentages with an overlay mask
+   */
+  classify(imageData: ImageData, mask: ImageData): TissueClassificationResult {
+    const { data, width, height } = imageData;
+    const size = width * height;
+
+    // Collect wound pixels in Lab space
+    const indices: number[] = [];
+    for (let i = 0; i < size; i++) {
+      if (mask.data[i * 4] > 127) indices.push(i);
+    }
+
+    const overlayData = new Uint8ClampedArray(size * 4);
+
+    if (indices.length === 0) {
+      return {
+        breakdown: { epithelial: 0, granulation: 0, slough: 0, necrotic: 0 },
+        overlay: new ImageData(overlayData, width, height),
+        classifiedPixels: 0,
+      };
+    }
+
+    const labs = new Float32Array(indices.length * 3);
+    for (let k = 0; k < indices.length; k++) {
+      const p = indices[k] * 4;
+      const [L, A, B] = this.rgbToLab(data[p], data[p + 1], data[p + 2]);
+      labs[k * 3] = L;
+      labs[k * 3 + 1] = A;
+      labs[k * 3 + 2] = B;
+    }
+
+    const centroids = this.kMeans(labs);
+    const centroidClass = centroids.map(c => this.nearestPrototype(c));
+
+    // Assign every wound pixel to its nearest centroid
+    const counts: Record<TissueClass, number> = { epithelial: 0, granulation: 0, slough: 0, necrotic: 0 };
+    for (let k = 0; k < indices.length; k++) {
+      const cluster = this.nearestCentroid(labs, k, centroids);
+      const cls = centroidClass[cluster];
+      counts[cls]++;
+
+      const [r, g, b] = TISSUE_OVERLAY_COLORS[cls];
+      const p = indices[k] * 4;
+      overlayData[p] = r;
+      overlayData[p + 1] = g;
+      overlayData[p + 2] = b;
+      overlayData[p + 3] = OVERLAY_ALPHA;
+    }
+
+    return {
+      breakdown: this.toPercentages(counts, indices.length),
+      overlay: new ImageData(overlayData, width, height),
+      classifiedPixels: indices.length,
+    };
+  }
+
+  /**
+   * Seeded k-means (one cluster per tissue prototype) on a sample of pixels
+   */
+  private kMeans(labs: Float32Array): [number, number, number][] {
+    const total = labs.length / 3;
+    const step = Math.max(1, Math.floor(total / MAX_SAMPLE_PIXELS));
+    const centroids = TISSUE_CLASSES.map(cls => [...this.prototypes[cls]] as [number, number, number]);
+
+    for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+      const sums = centroids.map(() => [0, 0, 0]);
+      const counts = centroids.map(() => 0);
+
+      for (let k = 0; k < total; k += step) {
+        const c = this.nearestCentroid(labs, k, centroids);
+        sums[c][0] += labs[k * 3];
+        sums[c][1] += labs[k * 3 + 1];
+        sums[c][2] += labs[k * 3 + 2];
+        counts[c]++;
+      }
+
+      let shift = 0;
+      for (let c = 0; c < centroids.length; c++) {
+        // Empty clusters keep their seed so the tissue type stays represented
+        if (counts[c] === 0) continue;
+        const next: [number, number, number] = [
+          sums[c][0] / counts[c],
+          sums[c][1] / counts[c],
+          sums[c][2] / counts[c],
+        ];
+        shift = Math.max(shift, this.distance(next, centroids[c]));
+        centroids[c] = next;
+      }
+
+      if (shift < 0.5) break;
+    }
+
+    return centroids;
+  }
+
+  /**
+   * Index of the centroid nearest to the k-th Lab pixel
+   */
+  private nearestCentroid(labs: Float32Array, k: number, centroids: [number, number, number][]): number {
+    let best = 0;
+    let bestDist = Infinity;
+    for (let c = 0; c < centroids.length; c++) {
+      const dL = labs[k * 3] - centroids[c][0];
+      const dA = labs[k * 3 + 1] - centroids[c][1];
+      const dB = labs[k * 3 + 2] - centroids[c][2];
+      const dist = dL * dL + dA * dA + dB * dB;
+      if (dist < bestDist) {
+        bestDist = dist;
+        best = c;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Label a cluster centroid with the closest tissue prototype
+   */
+  private nearestPrototype(lab: [number, number, number]): TissueClass {
+    let best: TissueClass = 'granulation';
+    let bestDist = Infinity;
+    for (const cls of TISSUE_CLASSES) {
+      const dist = this.distance(lab, this.prototypes[cls]);
+      if (dist < bestDist) {
+        bestDist = dist;
+        best = cls;
+      }
+    }
+    return best;
+  }
+
+  private distance(a: [number, number, number], b: [number, number, number]): number {
+    return Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+  }
+
+  /**
+   * Convert pixel counts to whole percentages that sum to 100 (largest remainder)
+   */
+  private toPercentages(counts: Record<TissueClass, number>, total: number): TissueAnalysis {
+    const raw = TISSUE_CLASSES.map(cls => (counts[cls] / total) * 100);
+    const floored = raw.map(Math.floor);
+    let remainder = 100 - floored.reduce((a, b) => a + b, 0);
+
+    const order = raw
+      .map((value, i) => ({ i, frac: value - Math.floor(value) }))
+      .sort((a, b) => b.frac - a.frac);
+    for (const { i } of order) {
+      if (remainder <= 0) break;
+      floored[i]++;
+      remainder--;
+    }
+
+    return {
+      epithelial: floored[0],
+      granulation: floored[1],
+      slough: floored[2],
+      necrotic: floored[3],
+    };
+  }
+
+  /**
+   * sRGB (0-255) to CIELAB (D65)
+   */
+  private rgbToLab(r: number, g: number, b: number): [number, number, number] {
+    const lin = (c: number) => {
+      const v = c / 255;
+      return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+    };
+    const R = lin(r), G = lin(g), B = lin(b);
+
+    const x = (R * 0.4124 + G * 0.3576 + B * 0.1805) / 0.95047;
+    const y = R * 0.2126 + G * 0.7152 + B * 0.0722;
+    const z = (R * 0.0193 + G * 0.1192 + B * 0.9505) / 1.08883;
+
+    const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+    const fx = f(x), fy = f(y), fz = f(z);
+
+    return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+  }
+}
+
+/**
+ * Expand a tissue breakdown to the assessment's TissueType record
+ */
+export function breakdownToTissueTypes(breakdown: TissueAnalysis): Record<TissueType, number> {
+  return { ...breakdown, eschar: 0 };
+}
+
+/**
+ * Map assessment tissue percentages to the dressing workflow's tissue list.
+ * Tissue types covering less than minPercent of the wound bed are ignored.
+ */
+export function toDressingTissueTypes(
+  tissueTypes: Record<TissueType, number>,
+  minPercent = 10
+): DressingWoundAssessment['tissueType'] {
+  const result: DressingWoundAssessment['tissueType'] = [];
+  if (tissueTypes.necrotic + tissueTypes.eschar >= minPercent) result.push('necrotic');
+  if (tissueTypes.slough >= minPercent) result.push('slough');
+  if (tissueTypes.granulation >= minPercent) result.push('granulating');
+  if (tissueTypes.epithelial >= minPercent) result.push('epithelializing');
+  return result;
+}
+
+// Singleton instance
+let tissueEngine: TissueClassificationEngine | null = null;
+
+export function getTissueClassificationEngine(): TissueClassificationEngine {
+  if (!tissueEngine) {
+    tissueEngine = new TissueClassificationEngine();
+  }
+  return tissueEngine;
+}
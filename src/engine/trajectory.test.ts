@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { TrajectoryEngine } from './trajectory';
+import type { WoundAssessment } from '@/types';
+
+const engine = new TrajectoryEngine();
+const baseline = Date.UTC(2026, 0, 5);
+
+const assessment = (day: number, area: number, perimeter = 2 * Math.sqrt(Math.PI * area)) =>
+  ({
+    id: `a-${day}`,
+    capturedAt: new Date(baseline + day * 24 * 60 * 60 * 1000),
+    measurement: { area, perimeter },
+  }) as unknown as WoundAssessment;
+
+const series = (...points: [number, number][]) => points.map(([day, area]) => assessment(day, area));
+
+// A circular wound whose edge advances 0.05 cm/day from a 3 cm radius
+const edgeAdvancing = [0, 7, 14, 21, 28].map(day => {
+  const radius = 3 - 0.05 * day;
+  return assessment(day, Math.PI * radius ** 2, 2 * Math.PI * radius);
+});
+
+describe('TrajectoryEngine.calculateTrajectory', () => {
+  it('recovers the daily rate of a constant fractional closure', () => {
+    const trajectory = engine.calculateTrajectory(series(...[0, 7, 14, 21].map(d => [d, 10 * Math.exp(-0.05 * d)] as [number, number])));
+    const fit = trajectory.fits.find(f => f.model === 'log_linear')!;
+
+    expect(trajectory.selectedModel).toBe('log_linear');
+    expect(fit.slope).toBeCloseTo(-0.05, 4);
+    expect(fit.weeklyAreaChangePercent).toBeCloseTo(-29.5, 1);
+    expect(fit.areaRmse).toBeCloseTo(0, 3);
+  });
+
+  it('recovers the edge advance of a wound closing at a constant linear rate', () => {
+    const trajectory = engine.calculateTrajectory(edgeAdvancing);
+    const fit = trajectory.fits.find(f => f.model === 'gilman')!;
+
+    expect(trajectory.selectedModel).toBe('gilman');
+    expect(fit.edgeAdvanceCmPerWeek).toBeCloseTo(0.35, 3);
+    // r reaches zero at day 60
+    expect(fit.predictedHealingDate?.getTime()).toBe(baseline + 60 * 24 * 60 * 60 * 1000);
+  });
+
+  it('chooses the model with the smaller area error, not the higher R²', () => {
+    const trajectory = engine.calculateTrajectory(series([0, 20], [7, 12], [14, 5], [21, 2.5], [28, 1]));
+    const logLinear = trajectory.fits.find(f => f.model === 'log_linear')!;
+    const gilman = trajectory.fits.find(f => f.model === 'gilman')!;
+
+    expect(logLinear.rSquared).toBeGreaterThan(gilman.rSquared);
+    expect(gilman.areaRmse!).toBeLessThan(logLinear.areaRmse!);
+    expect(trajectory.selectedModel).toBe('gilman');
+  });
+
+  it('brackets the predicted healing date and the fitted curve with the prediction interval', () => {
+    const trajectory = engine.calculateTrajectory(series([0, 10], [7, 7.8], [14, 5.2], [21, 4.4], [28, 2.6], [35, 2.1]));
+    const fit = trajectory.fits.find(f => f.model === trajectory.selectedModel)!;
+    const { earliest, latest } = fit.healingDateInterval!;
+
+    expect(earliest.getTime()).toBeLessThanOrEqual(fit.predictedHealingDate!.getTime());
+    expect(latest!.getTime()).toBeGreaterThan(fit.predictedHealingDate!.getTime());
+    expect(trajectory.curve.length).toBeGreaterThan(0);
+    for (const point of trajectory.curve) {
+      expect(point.lower).toBeLessThanOrEqual(point.predicted);
+      expect(point.upper).toBeGreaterThanOrEqual(point.predicted);
+    }
+  });
+
+  it('does not fit or predict from fewer than three assessments', () => {
+    const trajectory = engine.calculateTrajectory(series([0, 10], [7, 8]));
+
+    expect(trajectory.fits).toEqual([]);
+    expect(trajectory.selectedModel).toBeUndefined();
+    expect(trajectory.status).toBe('insufficient_data');
+  });
+});
+
+describe('4-week PAR', () => {
+  // 45% smaller at day 28
+  const halfway = series([0, 10], [14, 7], [28, 5.5]);
+
+  it('flags a diabetic ulcer under the 50% threshold as unlikely to heal', () => {
+    const trajectory = engine.calculateTrajectory(halfway, 'diabetic_ulcer');
+
+    expect(trajectory.par4Week).toEqual({ percentReduction: 45, threshold: 50, projected: false, unlikelyToHeal: true });
+    expect(trajectory.status).toBe('unlikely_to_heal');
+  });
+
+  it('puts the same reduction on track for a venous ulcer', () => {
+    const trajectory = engine.calculateTrajectory(halfway, 'venous_ulcer');
+
+    expect(trajectory.par4Week?.threshold).toBe(40);
+    expect(trajectory.status).toBe('on_track');
+  });
+
+  it('interpolates day 28 between the bracketing assessments', () => {
+    const trajectory = engine.calculateTrajectory(series([0, 10], [21, 6], [35, 4]));
+
+    expect(trajectory.par4Week?.percentReduction).toBe(50);
+    expect(trajectory.par4Week?.projected).toBe(false);
+  });
+
+  it('projects day 28 from two to four weeks of follow-up', () => {
+    const trajectory = engine.calculateTrajectory(series([0, 10], [7, 9], [14, 8.1]), 'pressure_ulcer');
+
+    // 10% per week compounds to 34.4% at four weeks
+    expect(trajectory.par4Week).toMatchObject({ percentReduction: 34.4, projected: true, unlikelyToHeal: true });
+  });
+
+  it('is not estimated before two weeks of follow-up', () => {
+    const trajectory = engine.calculateTrajectory(series([0, 10], [5, 9], [10, 8]));
+
+    expect(trajectory.par4Week).toBeUndefined();
+    expect(trajectory.status).toBe('insufficient_data');
+  });
+
+  it('reports a closed wound as healed', () => {
+    expect(engine.calculateTrajectory(series([0, 4], [14, 1], [28, 0])).status).toBe('healed');
+  });
+});
@@ -0,0 +1,364 @@
+/**
+ * AstroWound-MEASURE Trajectory Engine
+ * Healing trajectory models, 4-week PAR and healing date prediction intervals
+ */
+
+import type {
+  FourWeekPAR,
+  HealingTrajectory,
+  TrajectoryCurvePoint,
+  TrajectoryFit,
+  TrajectoryModel,
+  WoundAssessment,
+  WoundType,
+} from '@/types';
+
+export const TRAJECTORY_SPEC = {
+  predictionLevel: 0.95,
+  closureAreaCm2: 0.1,     // area treated as closed for the log-linear model
+  minFitPoints: 3,         // need residual degrees of freedom for an interval
+  parDay: 28,
+  minParDays: 14,          // earliest follow-up from which 4-week PAR is projected
+  horizonDays: 730,        // how far ahead healing dates are searched
+  curvePoints: 40,
+  // Minimum % area reduction at 4 weeks for a wound to be on track to heal
+  // (Sheehan et al. 2003 for DFU; Gelfand/Phillips for venous and other wounds)
+  parThresholds: {
+    diabetic_ulcer: 50,
+    default: 40,
+  } as Partial<Record<WoundType, number>> & { default: number },
+};
+
+// Two-sided 95% Student t quantiles by degrees of freedom (1-30)
+const T_975 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.160, 2.145, 2.131, 2.120, 2.110, 2.101, 2.093, 2.086,
+  2.080, 2.074, 2.069, 2.064, 2.060, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+interface SeriesPoint {
+  day: number;
+  area: number;
+  perimeter: number;
+}
+
+interface LinearFit {
+  intercept: number;
+  slope: number;
+  rSquared: number;
+  residualSd: number;
+  n: number;
+  meanX: number;
+  sxx: number;
+}
+
+interface ModelFit {
+  fit: LinearFit;
+  summary: TrajectoryFit;
+  target: number;                       // y value at closure
+  toArea: (y: number) => number;
+}
+
+/**
+ * Trajectory Engine: fits healing models to an assessment series
+ */
+export class TrajectoryEngine {
+
+  /**
+   * Fit log-linear and Gilman models to the area series and classify the
+   * wound against the 4-week PAR threshold for its type
+   */
+  calculateTrajectory(assessments: WoundAssessment[], woundType?: WoundType): HealingTrajectory {
+    const sorted = [...assessments].sort(
+      (a, b) => new Date(a.capturedAt).getTime() - new Date(b.capturedAt).getTime()
+    );
+
+    const baselineDate = sorted.length > 0 ? new Date(sorted[0].capturedAt) : new Date();
+    const series: SeriesPoint[] = sorted.map(a => ({
+      day: (new Date(a.capturedAt).getTime() - baselineDate.getTime()) / MS_PER_DAY,
+      area: a.measurement.area,
+      perimeter: a.measurement.perimeter,
+    }));
+
+    const trajectory: HealingTrajectory = {
+      status: 'insufficient_data',
+      fits: [],
+      predictionLevel: TRAJECTORY_SPEC.predictionLevel,
+      baselineDate,
+      curve: [],
+    };
+    if (series.length === 0) return trajectory;
+
+    const models = [this.fitLogLinear(series, baselineDate), this.fitGilman(series, baselineDate)]
+      .filter((m): m is ModelFit => m !== null);
+    for (const m of models) {
+      m.summary.areaRmse = this.round(Math.sqrt(this.areaSse(m, series) / series.length), 3);
+    }
+    trajectory.fits = models.map(m => m.summary);
+
+    // R² is on each model's own response (ln area, area/perimeter) so it cannot
+    // rank them; both have two parameters, so the smaller area error wins
+    const selected = models.reduce<ModelFit | null>(
+      (best, m) => (!best || this.areaSse(m, series) < this.areaSse(best, series) ? m : best),
+      null
+    );
+    if (selected) {
+      trajectory.selectedModel = selected.summary.model;
+      trajectory.curve = this.buildCurve(selected, series, baselineDate);
+    }
+
+    trajectory.par4Week = this.calculateFourWeekPAR(series, woundType);
+
+    const current = series[series.length - 1];
+    if (current.area <= TRAJECTORY_SPEC.closureAreaCm2) {
+      trajectory.status = 'healed';
+    } else if (trajectory.par4Week) {
+      trajectory.status = trajectory.par4Week.unlikelyToHeal ? 'unlikely_to_heal' : 'on_track';
+    }
+
+    return trajectory;
+  }
+
+  /**
+   * PAR threshold at 4 weeks for a wound type
+   */
+  getParThreshold(woundType?: WoundType): number {
+    return (woundType && TRAJECTORY_SPEC.parThresholds[woundType]) || TRAJECTORY_SPEC.parThresholds.default;
+  }
+
+  /**
+   * Percent area reduction at day 28. Interpolated between the bracketing
+   * assessments when follow-up reaches 4 weeks, otherwise projected from
+   * the log-linear slope once at least two weeks of data exist.
+   */
+  private calculateFourWeekPAR(series: SeriesPoint[], woundType?: WoundType): FourWeekPAR | undefined {
+    const baseline = series[0].area;
+    const last = series[series.length - 1];
+    if (baseline <= 0 || series.length < 2) return undefined;
+
+    let area28: number;
+    let projected = false;
+
+    if (last.day >= TRAJECTORY_SPEC.parDay) {
+      const after = series.findIndex(p => p.day >= TRAJECTORY_SPEC.parDay);
+      const b = series[after];
+      const a = series[Math.max(0, after - 1)];
+      const span = b.day - a.day;
+      area28 = span > 0
+        ? a.area + (b.area - a.area) * ((TRAJECTORY_SPEC.parDay - a.day) / span)
+        : b.area;
+    } else if (last.day >= TRAJECTORY_SPEC.minParDays) {
+      const fit = this.ols(series.map(p => [p.day, Math.log(Math.max(p.area, TRAJECTORY_SPEC.closureAreaCm2))]));
+      if (!fit) return undefined;
+      area28 = Math.exp(fit.intercept + fit.slope * TRAJECTORY_SPEC.parDay);
+      projected = true;
+    } else {
+      return undefined;
+    }
+
+    const percentReduction = ((baseline - area28) / baseline) * 100;
+    const threshold = this.getParThreshold(woundType);
+
+    return {
+      percentReduction: this.round(percentReduction, 1),
+      threshold,
+      projected,
+      unlikelyToHeal: percentReduction < threshold,
+    };
+  }
+
+  /**
+   * ln(area) = a + b·t: constant fractional closure per day
+   */
+  private fitLogLinear(series: SeriesPoint[], baselineDate: Date): ModelFit | null {
+    const floor = TRAJECTORY_SPEC.closureAreaCm2;
+    const fit = this.ols(series.map(p => [p.day, Math.log(Math.max(p.area, floor))]));
+    if (!fit || fit.n < TRAJECTORY_SPEC.minFitPoints) return null;
+
+    const target = Math.log(floor);
+    return {
+      fit,
+      target,
+      toArea: (y) => Math.exp(y),
+      summary: {
+        ...this.summarise('log_linear', fit, series, target, baselineDate),
+        weeklyAreaChangePercent: this.round((Math.exp(fit.slope * 7) - 1) * 100, 1),
+      },
+    };
+  }
+
+  /**
+   * Gilman: the margin advances at a constant linear rate, so area/perimeter
+   * (half the radius for a circle) falls linearly to zero
+   */
+  private fitGilman(series: SeriesPoint[], baselineDate: Date): ModelFit | null {
+    const usable = series.filter(p => p.perimeter > 0 || p.area === 0);
+    const fit = this.ols(usable.map(p => [p.day, p.perimeter > 0 ? p.area / p.perimeter : 0]));
+    if (!fit || fit.n < TRAJECTORY_SPEC.minFitPoints) return null;
+
+    // Area scales with (area/perimeter)² for a wound that keeps its shape
+    const shaped = usable.filter(p => p.area > 0 && p.perimeter > 0);
+    const latest = shaped[shaped.length - 1];
+    const shapeFactor = latest ? latest.area / Math.pow(latest.area / latest.perimeter, 2) : 4 * Math.PI;
+
+    return {
+      fit,
+      target: 0,
+      toArea: (y) => shapeFactor * Math.pow(Math.max(0, y), 2),
+      summary: {
+        ...this.summarise('gilman', fit, series, 0, baselineDate),
+        // A circle's radius is twice its area/perimeter ratio
+        edgeAdvanceCmPerWeek: this.round(-fit.slope * 2 * 7, 3),
+      },
+    };
+  }
+
+  private summarise(
+    model: TrajectoryModel,
+    fit: LinearFit,
+    series: SeriesPoint[],
+    target: number,
+    baselineDate: Date
+  ): TrajectoryFit {
+    const summary: TrajectoryFit = {
+      model,
+      intercept: this.round(fit.intercept, 4),
+      slope: this.round(fit.slope, 5),
+      rSquared: this.round(fit.rSquared, 3),
+      residualSd: this.round(fit.residualSd, 4),
+      pointCount: fit.n,
+    };
+    if (fit.slope >= 0) return summary;
+
+    const lastDay = series[series.length - 1].day;
+    const healDay = Math.max(lastDay, (target - fit.intercept) / fit.slope);
+    if (healDay > lastDay + TRAJECTORY_SPEC.horizonDays) return summary;
+    summary.predictedHealingDate = this.dayToDate(baselineDate, healDay);
+
+    // Earliest: the lower prediction bound reaches closure; latest: the upper one does
+    const tq = this.tQuantile(fit.n - 2);
+    let earliest: number | undefined;
+    let latest: number | undefined;
+    for (let day = Math.floor(lastDay); day <= lastDay + TRAJECTORY_SPEC.horizonDays; day++) {
+      const y = fit.intercept + fit.slope * day;
+      const margin = tq * this.predictionSe(fit, day);
+      if (earliest === undefined && y - margin <= target) earliest = day;
+      if (y + margin <= target) {
+        latest = day;
+        break;
+      }
+    }
+
+    summary.healingDateInterval = {
+      earliest: this.dayToDate(baselineDate, Math.min(earliest ?? healDay, healDay)),
+      latest: latest !== undefined ? this.dayToDate(baselineDate, Math.max(latest, healDay)) : undefined,
+    };
+    return summary;
+  }
+
+  /**
+   * Fitted area with prediction band from the first assessment to just past
+   * the predicted closure (or 8 weeks past the last assessment)
+   */
+  private buildCurve(model: ModelFit, series: SeriesPoint[], baselineDate: Date): TrajectoryCurvePoint[] {
+    const lastDay = series[series.length - 1].day;
+    const healDate = model.summary.predictedHealingDate;
+    const endDay = healDate
+      ? (healDate.getTime() - baselineDate.getTime()) / MS_PER_DAY + 7
+      : lastDay + 56;
+
+    const tq = this.tQuantile(model.fit.n - 2);
+    const curve: TrajectoryCurvePoint[] = [];
+    for (let i = 0; i <= TRAJECTORY_SPEC.curvePoints; i++) {
+      const day = (endDay * i) / TRAJECTORY_SPEC.curvePoints;
+      const y = model.fit.intercept + model.fit.slope * day;
+      const margin = tq * this.predictionSe(model.fit, day);
+      curve.push({
+        day: this.round(day, 1),
+        date: this.dayToDate(baselineDate, day),
+        predicted: this.round(model.toArea(y), 2),
+        lower: this.round(model.toArea(y - margin), 2),
+        upper: this.round(model.toArea(y + margin), 2),
+      });
+    }
+    return curve;
+  }
+
+  /**
+   * Squared error of the fitted area against every observed area, in cm²
+   */
+  private areaSse(model: ModelFit, series: SeriesPoint[]): number {
+    return series.reduce((s, p) => {
+      const fitted = model.toArea(model.fit.intercept + model.fit.slope * p.day);
+      return s + (p.area - fitted) ** 2;
+    }, 0);
+  }
+
+  /**
+   * Ordinary least squares on (x, y) pairs
+   */
+  private ols(points: number[][]): LinearFit | null {
+    const n = points.length;
+    if (n < 2) return null;
+
+    const meanX = points.reduce((s, [x]) => s + x, 0) / n;
+    const meanY = points.reduce((s, [, y]) => s + y, 0) / n;
+    let sxx = 0;
+    let sxy = 0;
+    let syy = 0;
+    for (const [x, y] of points) {
+      sxx += (x - meanX) ** 2;
+      sxy += (x - meanX) * (y - meanY);
+      syy += (y - meanY) ** 2;
+    }
+    if (sxx === 0) return null;
+
+    const slope = sxy / sxx;
+    const intercept = meanY - slope * meanX;
+    const sse = points.reduce((s, [x, y]) => s + (y - intercept - slope * x) ** 2, 0);
+
+    return {
+      intercept,
+      slope,
+      rSquared: syy > 0 ? 1 - sse / syy : 1,
+      residualSd: n > 2 ? Math.sqrt(sse / (n - 2)) : 0,
+      n,
+      meanX,
+      sxx,
+    };
+  }
+
+  /**
+   * Standard error of a new observation at x
+   */
+  private predictionSe(fit: LinearFit, x: number): number {
+    return fit.residualSd * Math.sqrt(1 + 1 / fit.n + (x - fit.meanX) ** 2 / fit.sxx);
+  }
+
+  private tQuantile(df: number): number {
+    if (df < 1) return Infinity;
+    if (df <= T_975.length) return T_975[df - 1];
+    return df <= 60 ? 2.0 : df <= 120 ? 1.98 : 1.96;
+  }
+
+  private dayToDate(baselineDate: Date, day: number): Date {
+    return new Date(baselineDate.getTime() + Math.round(day) * MS_PER_DAY);
+  }
+
+  private round(value: number, decimals: number): number {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+  }
+}
+
+// Singleton instance
+let trajectoryEngine: TrajectoryEngine | null = null;
+
+export function getTrajectoryEngine(): TrajectoryEngine {
+  if (!trajectoryEngine) {
+    trajectoryEngine = new TrajectoryEngine();
+  }
+  return trajectoryEngine;
+}
@@ -0,0 +1,116 @@
+/**
+ * AstroWound-MEASURE Validation Engine
+ * Device accuracy self-test against printed targets of known area
+ */
+
+import { v4 as uuid } from 'uuid';
+import type {
+  DeviceInfo,
+  DeviceValidationRecord,
+  ValidationShapeResult,
+  ValidationTarget,
+} from '@/types';
+import { getCalibrationEngine } from './calibration';
+import { getSegmentationEngine } from './segmentation';
+import { getMeasurementEngine } from './measurement';
+
+// Acceptance criteria for a validation run
+export const VALIDATION_SPEC = {
+  tolerancePercent: 5,                 // max |area error| per target
+  targetColor: [200, 40, 40] as const, // wound-like red so the segmentation picks it up
+};
+
+// Printed test targets (see CalibrationRuler for the sheet layout)
+export const VALIDATION_TARGETS: ValidationTarget[] = [
+  { id: 'circle-2', label: 'Circle Ø 2 cm', shape: 'circle', widthCm: 2, heightCm: 2, areaCm2: Math.PI },
+  { id: 'square-3', label: 'Square 3 × 3 cm', shape: 'square', widthCm: 3, heightCm: 3, areaCm2: 9 },
+  { id: 'rectangle-5x2', label: 'Rectangle 5 × 2 cm', shape: 'rectangle', widthCm: 5, heightCm: 2, areaCm2: 10 },
+  { id: 'triangle-4x3', label: 'Right triangle 4 × 3 cm', shape: 'triangle', widthCm: 4, heightCm: 3, areaCm2: 6 },
+];
+
+/**
+ * Validation Engine: measures printed targets through the clinical pipeline
+ */
+export class ValidationEngine {
+
+  /**
+   * Measure one photographed target with detectCalibration -> segment ->
+   * calculateMeasurements, exactly as a wound capture would be measured
+   */
+  async measureTarget(imageData: ImageData, target: ValidationTarget): Promise<ValidationShapeResult> {
+    const calibration = await getCalibrationEngine().detectCalibration(imageData);
+    if (!calibration.detected) {
+      throw new Error('No calibration marker detected. Keep the marker on the target card in view.');
+    }
+
+    const inference = await getSegmentationEngine().segment(imageData);
+    if (!inference.segmentation.area) {
+      throw new Error(`${target.label} was not found in the image`);
+    }
+
+    const measurement = getMeasurementEngine().calculateMeasurements(inference.segmentation, calibration);
+    const absoluteError = measurement.area - target.areaCm2;
+
+    return {
+      targetId: target.id,
+      expectedAreaCm2: this.round(target.areaCm2, 2),
+      measuredAreaCm2: measurement.area,
+      absoluteErrorCm2: this.round(Math.abs(absoluteError), 2),
+      percentError: this.round((absoluteError / target.areaCm2) * 100, 1),
+      calibrationMethod: calibration.markerType,
+      calibrationConfidence: calibration.confidence,
+      perspectiveCorrected: !!measurement.perspectiveCorrected,
+      segmentationMethod: inference.method,
+      measuredAt: new Date(),
+    };
+  }
+
+  /**
+   * Summarise a set of target results into a dated device-validation record
+   */
+  createRecord(
+    results: ValidationShapeResult[],
+    deviceInfo: DeviceInfo,
+    performedBy: string,
+    modelVersion?: string,
+    notes?: string
+  ): DeviceValidationRecord {
+    if (results.length === 0) {
+      throw new Error('At least one target must be measured');
+    }
+
+    const absErrors = results.map(r => Math.abs(r.percentError));
+    const meanAbsolutePercentError = absErrors.reduce((sum, e) => sum + e, 0) / absErrors.length;
+    const maxAbsolutePercentError = Math.max(...absErrors);
+    const { tolerancePercent } = VALIDATION_SPEC;
+
+    return {
+      id: uuid(),
+      performedAt: new Date(),
+      performedBy,
+      deviceInfo,
+      modelVersion,
+      results,
+      meanAbsolutePercentError: this.round(meanAbsolutePercentError, 1),
+      maxAbsolutePercentError: this.round(maxAbsolutePercentError, 1),
+      tolerancePercent,
+      passed: maxAbsolutePercentError <= tolerancePercent,
+      notes,
+    };
+  }
+
+  private round(value: number, decimals: number): number {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+  }
+}
+
+// Singleton instance
+let validationEngine: ValidationEngine | null = null;
+
+export function getValidationEngine(): ValidationEngine {
+  if (!validationEngine) {
+    validationEngine = new ValidationEngine();
+  }
+  return validationEngine;
+}
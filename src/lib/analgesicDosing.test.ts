@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { ANALGESIC_DOSE_REGIMENS, calculateAnalgesicDose } from './analgesicDosing';
+import type { AnalgesicClass, Comorbidity, PainPatientInfo } from '@/types';
+
+const adult: PainPatientInfo = {
+  id: 'p1',
+  initials: 'AB',
+  age: 45,
+  ageUnit: 'years',
+  weight: 70,
+  category: 'adult',
+  gender: 'female',
+};
+
+const withConditions = (...conditions: Comorbidity[]) => conditions.map(condition => ({ condition }));
+
+// Total given in 24 hours when the single dose is repeated at the stated interval
+const dailyTotal = (dose: number, intervalHours: number) => dose * (24 / intervalHours);
+
+describe('calculateAnalgesicDose', () => {
+  it('gives the standard adult paracetamol regimen', () => {
+    const dosing = calculateAnalgesicDose('paracetamol', adult, []);
+    expect(dosing.dose).toBe(1000);
+    expect(dosing.intervalHours).toBe(6);
+    expect(dosing.maxDailyDose).toBe(4000);
+  });
+
+  it('keeps paracetamol within 2 g/day in severe liver disease', () => {
+    const dosing = calculateAnalgesicDose('paracetamol', adult, withConditions('liver_disease_severe'));
+    expect(dosing.maxDailyDose).toBe(2000);
+    expect(dailyTotal(dosing.dose!, dosing.intervalHours!)).toBeLessThanOrEqual(2000);
+    expect(dosing.frequency).toBe(`Every ${dosing.intervalHours} hours`);
+  });
+
+  it('keeps paracetamol within 3 g/day in mild liver disease', () => {
+    const dosing = calculateAnalgesicDose('paracetamol', adult, withConditions('liver_disease_mild'));
+    expect(dosing.maxDailyDose).toBe(3000);
+    expect(dosing.dose).toBe(1000);
+    expect(dosing.intervalHours).toBe(8);
+  });
+
+  it('keeps weight-based paracetamol within the per-kg daily limit', () => {
+    const child: PainPatientInfo = { ...adult, age: 6, weight: 20, category: 'pediatric' };
+    const dosing = calculateAnalgesicDose('paracetamol', child, withConditions('liver_disease_severe'));
+    expect(dailyTotal(dosing.dose!, dosing.intervalHours!)).toBeLessThanOrEqual(dosing.maxDailyDose!);
+  });
+
+  it('never lets a repeated regimen exceed its daily maximum', () => {
+    const patients: PainPatientInfo[] = [
+      adult,
+      { ...adult, weight: 42 },
+      { ...adult, age: 80, category: 'elderly' },
+      { ...adult, age: 8, weight: 25, category: 'pediatric' },
+    ];
+    const conditionSets: Comorbidity[][] = [
+      [],
+      ['ckd_stage_3a'],
+      ['ckd_stage_4'],
+      ['ckd_stage_5'],
+      ['liver_disease_mild'],
+      ['liver_disease_moderate'],
+      ['liver_disease_severe'],
+      ['ckd_stage_4', 'liver_disease_severe'],
+    ];
+
+    for (const analgesicClass of Object.keys(ANALGESIC_DOSE_REGIMENS) as AnalgesicClass[]) {
+      for (const patient of patients) {
+        for (const conditions of conditionSets) {
+          const dosing = calculateAnalgesicDose(analgesicClass, patient, withConditions(...conditions));
+          if (dosing.dose === undefined || dosing.maxDailyDose === undefined || !dosing.intervalHours) continue;
+          expect(
+            dailyTotal(dosing.dose, dosing.intervalHours),
+            `${analgesicClass} ${patient.category} ${conditions.join('+')}`
+          ).toBeLessThanOrEqual(dosing.maxDailyDose + 1e-9);
+        }
+      }
+    }
+  });
+
+  it('withholds the dose when a hard stop applies', () => {
+    const dosing = calculateAnalgesicDose('adjuvant_antidepressant', adult, withConditions('liver_disease_severe'));
+    expect(dosing.hardStops.length).toBeGreaterThan(0);
+    expect(dosing.dose).toBeUndefined();
+  });
+});
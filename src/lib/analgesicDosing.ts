@@ -0,0 +1,480 @@
+/**
+ * AstroWound-MEASURE Analgesic Dose Calculator
+ * Weight-, age- and organ-function-based doses for a representative agent of each class
+ */
+
+import type {
+  AnalgesicClass,
+  AnalgesicDoseCalculation,
+  AnalgesicRecommendation,
+  AnalgesicRoute,
+  ComorbidityEntry,
+  PainPatientInfo,
+} from '@/types';
+
+export type RenalImpairment = 'ckd_3' | 'ckd_4' | 'ckd_5';
+export type HepaticImpairment = 'mild' | 'moderate' | 'severe';
+
+interface DoseAdjustmentRule {
+  doseFactor?: number;       // multiplies the single dose
+  intervalHours?: number;    // minimum interval between doses
+  maxDailyDose?: number;     // cap in the regimen's unit
+  hardStop?: boolean;        // agent must not be given
+  note: string;
+}
+
+interface WeightBasedDose {
+  dose: number;              // per kg
+  maxSingleDose: number;
+  maxDailyPerKg?: number;
+  intervalHours?: number;    // overrides the regimen interval
+}
+
+export interface AnalgesicDoseRegimen {
+  agent: string;
+  route: AnalgesicRoute;
+  unit: AnalgesicDoseCalculation['unit'];
+  adultDose: number;
+  intervalHours?: number;    // none: single use around a procedure
+  maxDailyDose?: number;
+  frequency?: string;        // overrides the interval wording
+  basis?: string;            // overrides the dose basis wording
+  fixedDose?: boolean;       // same dose at any weight, e.g. a fixed-concentration product
+  perKg?: WeightBasedDose;
+  // Who gets the per-kg dose: children, children and adults under LOW_BODY_WEIGHT_KG, or everyone
+  weightBasedFor?: 'children' | 'low_weight' | 'all';
+  neonate?: WeightBasedDose;
+  minAgeYears?: number;
+  elderly?: DoseAdjustmentRule & { minAgeYears?: number };
+  renal?: Partial<Record<RenalImpairment, DoseAdjustmentRule>>;
+  hepatic?: Partial<Record<HepaticImpairment, DoseAdjustmentRule>>;
+  caution?: string;
+}
+
+export const LOW_BODY_WEIGHT_KG = 50;
+
+// ============================================
+// Regimens
+// ============================================
+
+export const ANALGESIC_DOSE_REGIMENS: Record<AnalgesicClass, AnalgesicDoseRegimen> = {
+  paracetamol: {
+    agent: 'Paracetamol',
+    route: 'oral',
+    unit: 'mg',
+    adultDose: 1000,
+    intervalHours: 6,
+    maxDailyDose: 4000,
+    perKg: { dose: 15, maxSingleDose: 1000, maxDailyPerKg: 60 },
+    weightBasedFor: 'low_weight',
+    neonate: { dose: 10, maxSingleDose: 60, maxDailyPerKg: 30, intervalHours: 8 },
+    renal: {
+      ckd_5: { intervalHours: 8, note: 'Kidney failure: extend interval to 8 hours' },
+    },
+    hepatic: {
+      mild: { maxDailyDose: 3000, note: 'Liver disease: max 3 g/day' },
+      moderate: { maxDailyDose: 3000, intervalHours: 8, note: 'Moderate liver disease: max 3 g/day, every 8 hours' },
+      severe: { maxDailyDose: 2000, intervalHours: 8, note: 'Severe liver disease: max 2 g/day, every 8 hours' },
+    },
+  },
+  nsaid_non_selective: {
+    agent: 'Ibuprofen',
+    route: 'oral',
+    unit: 'mg',
+    adultDose: 400,
+    intervalHours: 8,
+    maxDailyDose: 1200,
+    perKg: { dose: 10, maxSingleDose: 400, maxDailyPerKg: 30 },
+    minAgeYears: 0.25,
+    renal: {
+      ckd_3: { note: 'CKD 3: lowest effective dose for the shortest time; recheck renal function within a week' },
+      ckd_4: { hardStop: true, note: 'eGFR below 30: NSAIDs must not be used' },
+      ckd_5: { hardStop: true, note: 'Kidney failure: NSAIDs must not be used' },
+    },
+    hepatic: {
+      moderate: { doseFactor: 0.5, note: 'Moderate liver disease: halve the dose' },
+      severe: { hardStop: true, note: 'Severe liver disease: NSAIDs must not be used' },
+    },
+  },
+  nsaid_cox2_selective: {
+    agent: 'Celecoxib',
+    route: 'oral',
+    unit: 'mg',
+    adultDose: 100,
+    intervalHours: 12,
+    maxDailyDose: 400,
+    minAgeYears: 18,
+    renal: {
+      ckd_3: { note: 'CKD 3: lowest effective dose for the shortest time; recheck renal function within a week' },
+      ckd_4: { hardStop: true, note: 'eGFR below 30: COX-2 inhibitors must not be used' },
+      ckd_5: { hardStop: true, note: 'Kidney failure: COX-2 inhibitors must not be used' },
+    },
+    hepatic: {
+      moderate: { doseFactor: 0.5, maxDailyDose: 200, note: 'Moderate liver disease: halve the dose, max 200 mg/day' },
+      severe: { hardStop: true, note: 'Severe liver disease: COX-2 inhibitors must not be used' },
+    },
+  },
+  weak_opioid: {
+    agent: 'Tramadol',
+    route: 'oral',
+    unit: 'mg',
+    adultDose: 50,
+    intervalHours: 6,
+    maxDailyDose: 400,
+    perKg: { dose: 1, maxSingleDose: 50, maxDailyPerKg: 8 },
+    minAgeYears: 12,
+    elderly: { minAgeYears: 75, maxDailyDose: 300, note: 'Age 75 or over: max 300 mg/day' },
+    renal: {
+      ckd_4: { intervalHours: 12, maxDailyDose: 200, note: 'eGFR below 30: every 12 hours, max 200 mg/day' },
+      ckd_5: { intervalHours: 12, maxDailyDose: 200, note: 'Kidney failure: every 12 hours, max 200 mg/day' },
+    },
+    hepatic: {
+      moderate: { intervalHours: 12, note: 'Moderate liver disease: every 12 hours' },
+      severe: { intervalHours: 12, maxDailyDose: 100, note: 'Severe liver disease: every 12 hours, max 100 mg/day' },
+    },
+  },
+  strong_opioid: {
+    agent: 'Morphine (immediate release)',
+    route: 'oral',
+    unit: 'mg',
+    adultDose: 5,
+    intervalHours: 4,
+    maxDailyDose: 30,
+    perKg: { dose: 0.2, maxSingleDose: 5, maxDailyPerKg: 1.2 },
+    neonate: { dose: 0.05, maxSingleDose: 0.5, maxDailyPerKg: 0.2, intervalHours: 6 },
+    elderly: { doseFactor: 0.5, note: 'Age 65 or over: start at half dose' },
+    renal: {
+      ckd_3: { doseFactor: 0.75, note: 'CKD 3: reduce dose by a quarter' },
+      ckd_4: { doseFactor: 0.5, intervalHours: 6, note: 'eGFR below 30: halve the dose, every 6 hours' },
+      ckd_5: { hardStop: true, note: 'Kidney failure: morphine metabolites accumulate; use an alternative opioid with specialist advice' },
+    },
+    hepatic: {
+      moderate: { intervalHours: 6, note: 'Moderate liver disease: every 6 hours' },
+      severe: { doseFactor: 0.5, intervalHours: 8, note: 'Severe liver disease: halve the dose, every 8 hours' },
+    },
+    caution: 'Opioid-naïve starting regimen; the daily limit applies until reviewed for titration',
+  },
+  adjuvant_anticonvulsant: {
+    agent: 'Gabapentin',
+    route: 'oral',
+    unit: 'mg',
+    adultDose: 300,
+    intervalHours: 8,
+    maxDailyDose: 3600,
+    perKg: { dose: 10, maxSingleDose: 300, maxDailyPerKg: 70 },
+    minAgeYears: 2,
+    elderly: { doseFactor: 1 / 3, note: 'Age 65 or over: start at 100 mg and titrate' },
+    renal: {
+      ckd_3: { intervalHours: 12, maxDailyDose: 1400, note: 'eGFR 30-59: every 12 hours, max 1400 mg/day' },
+      ckd_4: { intervalHours: 24, maxDailyDose: 700, note: 'eGFR 15-29: once daily, max 700 mg/day' },
+      ckd_5: { intervalHours: 24, maxDailyDose: 300, note: 'eGFR below 15: once daily, max 300 mg/day' },
+    },
+  },
+  adjuvant_antidepressant: {
+    agent: 'Amitriptyline',
+    route: 'oral',
+    unit: 'mg',
+    adultDose: 10,
+    intervalHours: 24,
+    maxDailyDose: 75,
+    frequency: 'Once daily at night',
+    perKg: { dose: 0.2, maxSingleDose: 10, maxDailyPerKg: 1 },
+    minAgeYears: 2,
+    elderly: { maxDailyDose: 50, note: 'Age 65 or over: anticholinergic burden, max 50 mg/day' },
+    hepatic: {
+      moderate: { maxDailyDose: 25, note: 'Moderate liver disease: max 25 mg/day' },
+      severe: { hardStop: true, note: 'Severe liver disease: tricyclics must not be used' },
+    },
+  },
+  adjuvant_muscle_relaxant: {
+    agent: 'Baclofen',
+    route: 'oral',
+    unit: 'mg',
+    adultDose: 5,
+    intervalHours: 8,
+    maxDailyDose: 60,
+    perKg: { dose: 0.1, maxSingleDose: 5, maxDailyPerKg: 2.5 },
+    minAgeYears: 1,
+    renal: {
+      ckd_3: { doseFactor: 0.5, note: 'CKD 3: halve the dose' },
+      ckd_4: { intervalHours: 24, maxDailyDose: 5, note: 'eGFR below 30: 5 mg once daily, specialist advice' },
+      ckd_5: { hardStop: true, note: 'Kidney failure: baclofen accumulates and causes encephalopathy' },
+    },
+  },
+  topical_analgesic: {
+    agent: 'Diclofenac 1% gel',
+    route: 'topical',
+    unit: 'g',
+    adultDose: 4,
+    intervalHours: 6,
+    maxDailyDose: 16,
+    fixedDose: true,
+    minAgeYears: 14,
+  },
+  topical_anesthetic: {
+    agent: 'Lidocaine 2% gel (20 mg/g)',
+    route: 'topical',
+    unit: 'mg',
+    adultDose: 300,
+    frequency: 'Once, 30-60 minutes before the procedure',
+    perKg: { dose: 4.5, maxSingleDose: 300 },
+    weightBasedFor: 'all',
+    minAgeYears: 0.25,
+    hepatic: {
+      severe: { doseFactor: 0.5, note: 'Severe liver disease: halve the maximum dose' },
+    },
+  },
+  regional_anesthesia: {
+    agent: 'Bupivacaine 0.25% (plain)',
+    route: 'regional',
+    unit: 'mg',
+    adultDose: 150,
+    maxDailyDose: 400,
+    frequency: 'Single infiltration or block',
+    perKg: { dose: 2, maxSingleDose: 150 },
+    weightBasedFor: 'all',
+    neonate: { dose: 1, maxSingleDose: 5 },
+    hepatic: {
+      severe: { doseFactor: 0.5, note: 'Severe liver disease: halve the maximum dose' },
+    },
+  },
+  anxiolytic: {
+    agent: 'Midazolam',
+    route: 'oral',
+    unit: 'mg',
+    adultDose: 7.5,
+    frequency: 'Once, 30 minutes before the procedure',
+    perKg: { dose: 0.5, maxSingleDose: 20 },
+    minAgeYears: 1 / 12,
+    elderly: { doseFactor: 0.5, note: 'Age 65 or over: halve the dose' },
+    renal: {
+      ckd_5: { doseFactor: 0.5, note: 'Kidney failure: halve the dose' },
+    },
+    hepatic: {
+      moderate: { doseFactor: 0.5, note: 'Moderate liver disease: halve the dose' },
+      severe: { hardStop: true, note: 'Severe liver disease: may precipitate encephalopathy' },
+    },
+  },
+  ketamine: {
+    agent: 'Ketamine (sub-dissociative)',
+    route: 'intravenous',
+    unit: 'mg',
+    adultDose: 25,
+    frequency: 'Once during the procedure',
+    perKg: { dose: 0.25, maxSingleDose: 25 },
+    weightBasedFor: 'all',
+    minAgeYears: 0.25,
+    hepatic: {
+      severe: { doseFactor: 0.5, note: 'Severe liver disease: halve the dose' },
+    },
+  },
+  nitrous_oxide: {
+    agent: 'Nitrous oxide 50% in oxygen',
+    route: 'inhalation',
+    unit: '%',
+    adultDose: 50,
+    frequency: 'Self-administered via demand valve during the procedure',
+    basis: 'Fixed 50:50 mixture',
+    fixedDose: true,
+    minAgeYears: 5,
+  },
+};
+
+// ============================================
+// Patient factors
+// ============================================
+
+const ageInYears = (patient: PainPatientInfo): number =>
+  patient.ageUnit === 'months' ? patient.age / 12
+    : patient.ageUnit === 'days' ? patient.age / 365
+    : patient.age;
+
+/**
+ * Worst CKD stage among the comorbidities
+ */
+export function getRenalImpairment(comorbidities: ComorbidityEntry[]): RenalImpairment | null {
+  const conditions = comorbidities.map(c => c.condition);
+  if (conditions.includes('ckd_stage_5')) return 'ckd_5';
+  if (conditions.includes('ckd_stage_4')) return 'ckd_4';
+  if (conditions.includes('ckd_stage_3a') || conditions.includes('ckd_stage_3b')) return 'ckd_3';
+  return null;
+}
+
+/**
+ * Worst liver disease severity among the comorbidities
+ */
+export function getHepaticImpairment(comorbidities: ComorbidityEntry[]): HepaticImpairment | null {
+  const conditions = comorbidities.map(c => c.condition);
+  if (conditions.includes('liver_disease_severe')) return 'severe';
+  if (conditions.includes('liver_disease_moderate')) return 'moderate';
+  if (conditions.includes('liver_disease_mild')) return 'mild';
+  return null;
+}
+
+// Round down so a rounded dose never exceeds its limit
+const roundDose = (value: number): number =>
+  value >= 10 ? Math.floor(value)
+    : value >= 1 ? Math.floor(value * 10) / 10
+    : Math.floor(value * 100) / 100;
+
+// Intervals a lengthened regimen is rounded up to
+const STANDARD_INTERVALS_HOURS = [4, 6, 8, 12, 24];
+
+const formatInterval = (hours: number): string =>
+  hours === 24 ? 'Once daily' : `Every ${hours} hours`;
+
+// ============================================
+// Calculation
+// ============================================
+
+/**
+ * Dose of the class's representative agent for this patient. Any hard stop
+ * withholds the dose; otherwise the single dose, and the single dose given
+ * at the stated interval for 24 hours, never exceed the daily limit.
+ */
+export function calculateAnalgesicDose(
+  analgesicClass: AnalgesicClass,
+  patient: PainPatientInfo,
+  comorbidities: ComorbidityEntry[]
+): AnalgesicDoseCalculation {
+  const regimen = ANALGESIC_DOSE_REGIMENS[analgesicClass];
+  const ageYears = ageInYears(patient);
+  const adjustments: string[] = [];
+  const hardStops: string[] = [];
+
+  if (regimen.minAgeYears !== undefined && ageYears < regimen.minAgeYears) {
+    const minAge = regimen.minAgeYears >= 1
+      ? `${regimen.minAgeYears} years`
+      : `${Math.round(regimen.minAgeYears * 12)} month${Math.round(regimen.minAgeYears * 12) === 1 ? '' : 's'}`;
+    hardStops.push(`Not for patients under ${minAge}`);
+  }
+
+  // Per-kg dosing for neonates and children, and for agents dosed by weight at any age
+  const isChild = patient.category === 'neonate' || patient.category === 'pediatric';
+  const weightDose = patient.category === 'neonate' && regimen.neonate ? regimen.neonate : regimen.perKg;
+  const weightBased = weightDose !== undefined && (
+    isChild ||
+    regimen.weightBasedFor === 'all' ||
+    (regimen.weightBasedFor === 'low_weight' && patient.weight !== undefined && patient.weight < LOW_BODY_WEIGHT_KG)
+  );
+
+  let dose = regimen.adultDose;
+  let intervalHours = regimen.intervalHours;
+  let maxDailyDose = regimen.maxDailyDose;
+  let doseBasis = regimen.basis ?? 'Standard adult dose';
+
+  if (isChild && !weightDose && !regimen.fixedDose) {
+    hardStops.push('No weight-based regimen for children; seek specialist advice');
+  } else if (weightBased && weightDose) {
+    if (!patient.weight || patient.weight <= 0) {
+      hardStops.push('Weight is required for weight-based dosing');
+    } else {
+      const weight = patient.weight;
+      dose = weightDose.dose * weight;
+      doseBasis = `${weightDose.dose} ${regimen.unit}/kg × ${weight} kg`;
+      if (dose > weightDose.maxSingleDose) {
+        dose = weightDose.maxSingleDose;
+        adjustments.push(`Capped at ${weightDose.maxSingleDose} ${regimen.unit} per dose`);
+      }
+      intervalHours = weightDose.intervalHours ?? intervalHours;
+      if (weightDose.maxDailyPerKg !== undefined) {
+        const perKgDaily = weightDose.maxDailyPerKg * weight;
+        maxDailyDose = maxDailyDose === undefined ? perKgDaily : Math.min(maxDailyDose, perKgDaily);
+      }
+    }
+  }
+
+  const applyRule = (rule: DoseAdjustmentRule | undefined) => {
+    if (!rule) return;
+    if (rule.hardStop) {
+      hardStops.push(rule.note);
+      return;
+    }
+    if (rule.doseFactor !== undefined) dose *= rule.doseFactor;
+    if (rule.intervalHours !== undefined) intervalHours = Math.max(intervalHours ?? 0, rule.intervalHours);
+    if (rule.maxDailyDose !== undefined) {
+      maxDailyDose = maxDailyDose === undefined ? rule.maxDailyDose : Math.min(maxDailyDose, rule.maxDailyDose);
+    }
+    adjustments.push(rule.note);
+  };
+
+  if (patient.category === 'elderly' && regimen.elderly && ageYears >= (regimen.elderly.minAgeYears ?? 65)) {
+    applyRule(regimen.elderly);
+  }
+  const renal = getRenalImpairment(comorbidities);
+  if (renal) applyRule(regimen.renal?.[renal]);
+  const hepatic = getHepaticImpairment(comorbidities);
+  if (hepatic) applyRule(regimen.hepatic?.[hepatic]);
+
+  if (regimen.caution) adjustments.push(regimen.caution);
+  if (comorbidities.some(c => c.condition === 'opioid_tolerance') &&
+      (analgesicClass === 'weak_opioid' || analgesicClass === 'strong_opioid')) {
+    adjustments.push('Opioid-tolerant: calculate from current opioid use rather than this starting dose');
+  }
+
+  // A single dose can never exceed the daily limit
+  if (maxDailyDose !== undefined) {
+    const dailyLimit = roundDose(maxDailyDose);
+    maxDailyDose = dailyLimit;
+    dose = Math.min(dose, dailyLimit);
+
+    // Nor can the regimen: lengthen the interval to fit the limit, or
+    // lower the dose when even once daily would exceed it
+    if (intervalHours !== undefined && dose * (24 / intervalHours) > dailyLimit) {
+      const current = intervalHours;
+      const longer = STANDARD_INTERVALS_HOURS.find(hours => hours >= current && dose * (24 / hours) <= dailyLimit);
+      if (longer !== undefined) {
+        intervalHours = longer;
+        adjustments.push(`Interval lengthened to every ${longer} hours to stay within ${dailyLimit} ${regimen.unit}/day`);
+      } else {
+        dose = dailyLimit / (24 / current);
+        adjustments.push(`Dose reduced to stay within ${dailyLimit} ${regimen.unit}/day`);
+      }
+    }
+  }
+
+  const blocked = hardStops.length > 0;
+  return {
+    class: analgesicClass,
+    agent: regimen.agent,
+    route: regimen.route,
+    unit: regimen.unit,
+    dose: blocked ? undefined : roundDose(dose),
+    doseBasis,
+    frequency: regimen.frequency ?? (intervalHours ? formatInterval(intervalHours) : 'Single dose'),
+    intervalHours,
+    maxDailyDose: blocked ? undefined : maxDailyDose,
+    adjustments,
+    hardStops,
+  };
+}
+
+/**
+ * Recommendations with the dose of each class's representative agent
+ * attached; a hard stop marks the recommendation contraindicated
+ */
+export function addDoseCalculations(
+  recommendations: AnalgesicRecommendation[],
+  patient: PainPatientInfo,
+  comorbidities: ComorbidityEntry[]
+): AnalgesicRecommendation[] {
+  return recommendations.map(rec => {
+    const dosing = calculateAnalgesicDose(rec.class, patient, comorbidities);
+    return {
+      ...rec,
+      suitability: dosing.hardStops.length > 0 ? 'contraindicated' : rec.suitability,
+      dosing,
+    };
+  });
+}
+
+/**
+ * One-line dose summary, e.g. "Paracetamol 1000 mg oral every 6 hours (max 4000 mg/day)"
+ */
+export function formatAnalgesicDose(dosing: AnalgesicDoseCalculation): string {
+  if (dosing.dose === undefined) {
+    return `${dosing.agent}: HARD STOP - ${dosing.hardStops.join('; ')}`;
+  }
+  const max = dosing.maxDailyDose !== undefined ? ` (max ${dosing.maxDailyDose} ${dosing.unit}/day)` : '';
+  return `${dosing.agent} ${dosing.dose} ${dosing.unit} ${dosing.route}, ${dosing.frequency.toLowerCase()}${max}`;
+}
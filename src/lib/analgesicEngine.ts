@@ -65,15 +65,17 @@ export function generateAnalgesicRecommendations(
   // Step 1: Non-opioid analgesics
   if (whoStep >= 1) {
     // Paracetamol - almost always first-line
-    const paracetamolSafety = checkDrugClassSafety('paracetamol', riskFlags);
-    primaryRecommendations.push({
-      class: 'paracetamol',
-      suitability: paracetamolSafety.safe ? 'recommended' : 'caution',
-      routes: ['oral', 'intravenous', 'rectal'],
-      rationale: 'First-line analgesic for all pain levels. Safe in most patients.',
-      doseAdjustment: paracetamolSafety.warnings.length > 0 ? paracetamolSafety.warnings.join('. ') : undefined,
-      monitoringRequired: paracetamolSafety.level !== 'info' ? ['Liver function if prolonged use'] : undefined
-    });
+    if (!contraindicatedClasses.includes('paracetamol')) {
+      const paracetamolSafety = checkDrugClassSafety('paracetamol', riskFlags);
+      primaryRecommendations.push({
+        class: 'paracetamol',
+        suitability: paracetamolSafety.level === 'warning' ? 'caution' : 'recommended',
+        routes: ['oral', 'intravenous', 'rectal'],
+        rationale: 'First-line analgesic for all pain levels. Safe in most patients.',
+        doseAdjustment: paracetamolSafety.warnings.length > 0 ? paracetamolSafety.warnings.join('. ') : undefined,
+        monitoringRequired: paracetamolSafety.level !== 'info' ? ['Liver function if prolonged use'] : undefined
+      });
+    }
 
     // NSAIDs - if not contraindicated
     if (!contraindicatedClasses.includes('nsaid_non_selective')) {
@@ -172,12 +174,36 @@ export function generateAnalgesicRecommendations(
 
   return {
     primaryRecommendations,
-    adjunctRecommendations,
+    adjunctRecommendations: applyRiskFlags(adjunctRecommendations, riskFlags, contraindicatedClasses),
     contraindicatedClasses,
     nonPharmacological
   };
 }
 
+/**
+ * Drop contraindicated recommendations and downgrade the rest when a risk
+ * flag affects their class
+ */
+function applyRiskFlags(
+  recommendations: AnalgesicRecommendation[],
+  riskFlags: RiskFlag[],
+  contraindicatedClasses: AnalgesicClass[]
+): AnalgesicRecommendation[] {
+  return recommendations
+    .filter(rec => !contraindicatedClasses.includes(rec.class))
+    .map(rec => {
+      const safety = checkDrugClassSafety(rec.class, riskFlags);
+      if (safety.level === 'info') return rec;
+      return {
+        ...rec,
+        suitability: safety.level === 'warning' ? 'caution'
+          : rec.suitability === 'recommended' ? 'consider'
+          : rec.suitability,
+        doseAdjustment: safety.warnings.join('. '),
+      };
+    });
+}
+
 /**
  * Generate procedural pain plan
  */
@@ -257,32 +283,42 @@ export function generateProceduralPainPlan(
   const preEmptiveTiming = '30-60 minutes pre-procedure (oral) or 15-30 minutes (IV)';
 
   // Topical anesthesia assessment
-  const useTopical = procedureType === 'wound_dressing' ||
+  const topicalSafety = checkDrugClassSafety('topical_anesthetic', riskFlags);
+  const useTopical = topicalSafety.safe && (procedureType === 'wound_dressing' ||
                      procedureType === 'burn_dressing' ||
                      procedureType === 'debridement' ||
                      procedureType === 'suturing' ||
-                     procedureType === 'catheter_insertion';
+                     procedureType === 'catheter_insertion');
 
   // Regional anesthesia assessment
-  const considerRegional = procedureType === 'debridement' ||
+  const regionalSafety = checkDrugClassSafety('regional_anesthesia', riskFlags);
+  const considerRegional = regionalSafety.safe && (procedureType === 'debridement' ||
                           procedureType === 'bone_marrow_biopsy' ||
                           procedureType === 'chest_tube' ||
                           procedureType === 'central_line' ||
-                          procedureType === 'suturing';
+                          procedureType === 'suturing');
+
+  // Anxiolysis; a sedative interaction or allergy withholds it
+  const anxiolyticSafety = checkDrugClassSafety('anxiolytic', riskFlags);
+  const anxiolysisIndicated = anticipatedPainLevel === 'severe' ||
+                              procedureType === 'bone_marrow_biopsy' ||
+                              procedureType === 'lumbar_puncture';
+  const anxiolysisRecommended = anxiolysisIndicated &&
+                                anxiolyticSafety.level !== 'warning' &&
+                                anxiolyticSafety.level !== 'contraindicated';
 
-  // Anxiolysis
-  const anxiolysisRecommended = anticipatedPainLevel === 'severe' ||
-                                procedureType === 'bone_marrow_biopsy' ||
-                                procedureType === 'lumbar_puncture';
+  // Allergies, interactions and comorbidities apply to procedural agents too
+  const safePreEmptive = applyRiskFlags(preEmptiveRecommendations, riskFlags, contraindicatedClasses);
+  const safeSystemicOptions = applyRiskFlags(systemicOptions, riskFlags, contraindicatedClasses);
 
   // Monitoring during procedure
   const monitoringDuring: string[] = ['Pain score at regular intervals'];
-  if (anticipatedPainLevel === 'severe' || systemicOptions.some(o => o.class === 'strong_opioid')) {
+  if (anticipatedPainLevel === 'severe' || safeSystemicOptions.some(o => o.class === 'strong_opioid')) {
     monitoringDuring.push('Sedation level');
     monitoringDuring.push('Respiratory rate');
     monitoringDuring.push('Oxygen saturation');
   }
-  if (systemicOptions.some(o => o.class === 'ketamine')) {
+  if (safeSystemicOptions.some(o => o.class === 'ketamine')) {
     monitoringDuring.push('Blood pressure');
     monitoringDuring.push('Emergence phenomena');
   }
@@ -310,19 +346,27 @@ export function generateProceduralPainPlan(
     preEmptiveAnalgesia: {
       required: true,
       timing: preEmptiveTiming,
-      recommendations: preEmptiveRecommendations
+      recommendations: safePreEmptive
     },
     intraProceduralAnalgesia: {
       topical: useTopical,
-      topicalAgent: useTopical ? 'Lidocaine gel/EMLA cream applied 30-60 min before' : undefined,
+      topicalAgent: useTopical
+        ? withWarnings('Lidocaine gel/EMLA cream applied 30-60 min before', topicalSafety.warnings)
+        : undefined,
       regional: considerRegional,
-      regionalTechnique: considerRegional ? 'Local infiltration or regional block as appropriate' : undefined,
+      regionalTechnique: considerRegional
+        ? withWarnings('Local infiltration or regional block as appropriate', regionalSafety.warnings)
+        : undefined,
       systemic: anticipatedPainLevel !== 'mild',
-      systemicOptions
+      systemicOptions: safeSystemicOptions
     },
     anxiolysis: {
       recommended: anxiolysisRecommended,
-      rationale: anxiolysisRecommended ? 'Procedure-related anxiety may exacerbate pain perception' : undefined
+      rationale: anxiolysisRecommended
+        ? withWarnings('Procedure-related anxiety may exacerbate pain perception', anxiolyticSafety.warnings)
+        : anxiolysisIndicated
+          ? `Withheld: ${anxiolyticSafety.warnings.join('. ')}. Use non-pharmacological anxiolysis.`
+          : undefined
     },
     nonPharmacological,
     monitoringDuring,
@@ -330,6 +374,9 @@ export function generateProceduralPainPlan(
   };
 }
 
+const withWarnings = (text: string, warnings: string[]): string =>
+  warnings.length > 0 ? `${text} (caution: ${warnings.join('. ')})` : text;
+
 /**
  * Get applicable non-pharmacological interventions
  */
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { AUDIT_SPEC, auditToCsv, computeAuditHash, diffRecords, toAuditValue, verifyAuditChain } from './audit';
+import type { AuditEntry, AuditFieldChange } from '@/types';
+
+async function chain(...changes: AuditFieldChange[][]): Promise<AuditEntry[]> {
+  const entries: AuditEntry[] = [];
+  let prevHash = AUDIT_SPEC.genesisHash;
+  for (const [i, entryChanges] of changes.entries()) {
+    const entry: Omit<AuditEntry, 'hash'> = {
+      id: `e${i + 1}`,
+      sequence: i + 1,
+      at: new Date(Date.UTC(2026, 4, 1, 9, i)),
+      table: 'patients',
+      recordId: 'p1',
+      patientId: 'p1',
+      action: i === 0 ? 'create' : 'update',
+      actor: { userId: 'u1', name: 'N. Nurse' },
+      deviceId: 'device-1',
+      changes: entryChanges,
+      prevHash,
+    };
+    const hash = await computeAuditHash(entry);
+    entries.push({ ...entry, hash });
+    prevHash = hash;
+  }
+  return entries;
+}
+
+describe('diffRecords', () => {
+  it('lists changed fields by dotted path, ignoring bookkeeping', () => {
+    const before = { id: 'p1', lastName: 'Smith', address: { city: 'Leeds' }, updatedAt: new Date(1) };
+    const after = { id: 'p1', lastName: 'Smyth', address: { city: 'Leeds' }, updatedAt: new Date(2) };
+
+    expect(diffRecords(before, after)).toEqual([{ path: 'lastName', before: 'Smith', after: 'Smyth' }]);
+  });
+
+  it('records every field on creation and compares dates by value', () => {
+    expect(diffRecords(undefined, { id: 'p1', dob: new Date('1950-01-01T00:00:00Z') })).toEqual([
+      { path: 'dob', before: undefined, after: '1950-01-01T00:00:00.000Z' },
+      { path: 'id', before: undefined, after: 'p1' },
+    ]);
+    expect(diffRecords({ at: new Date(5) }, { at: new Date(5) })).toEqual([]);
+  });
+
+  it('redacts secrets and summarises large values', () => {
+    const changes = diffRecords({ pin: 'old' }, { pin: 'new', photo: `data:image/jpeg;base64,${'A'.repeat(4000)}` });
+
+    expect(changes).toEqual([
+      { path: 'photo', before: undefined, after: '[image/jpeg, 3 kB]' },
+      { path: 'pin', before: '[redacted]', after: '[redacted]' },
+    ]);
+    expect(toAuditValue('x'.repeat(300))).toMatch(/… \(300 chars\)$/);
+  });
+});
+
+describe('verifyAuditChain', () => {
+  it('accepts an intact chain', async () => {
+    const entries = await chain([{ path: 'lastName', after: 'Smith' }], [{ path: 'lastName', before: 'Smith', after: 'Smyth' }]);
+    expect(await verifyAuditChain(entries)).toEqual({ valid: true });
+  });
+
+  it('finds an edited entry', async () => {
+    const entries = await chain([{ path: 'a', after: 1 }], [{ path: 'a', before: 1, after: 2 }], [{ path: 'a', before: 2, after: 3 }]);
+    entries[1].changes[0].after = 9;
+
+    expect(await verifyAuditChain(entries)).toEqual({ valid: false, brokenAt: 2 });
+  });
+
+  it('finds a removed or reordered entry', async () => {
+    const entries = await chain([{ path: 'a', after: 1 }], [{ path: 'a', before: 1, after: 2 }], [{ path: 'a', before: 2, after: 3 }]);
+
+    expect(await verifyAuditChain([entries[0], entries[2]])).toEqual({ valid: false, brokenAt: 3 });
+    expect(await verifyAuditChain([entries[1], entries[0]])).toEqual({ valid: false, brokenAt: 2 });
+  });
+
+  it('does not depend on property order', async () => {
+    const [entry] = await chain([{ path: 'a', after: 1 }]);
+    const { hash, ...rest } = entry;
+    const reordered = Object.fromEntries(Object.entries(rest).reverse()) as Omit<AuditEntry, 'hash'>;
+
+    expect(await computeAuditHash(reordered)).toBe(hash);
+  });
+});
+
+describe('auditToCsv', () => {
+  it('writes one row per changed field and quotes commas', async () => {
+    const entries = await chain([{ path: 'lastName', after: 'Smith, Jr' }, { path: 'mrn', after: 'M1' }]);
+    const rows = auditToCsv(entries).split('\n');
+
+    expect(rows).toHaveLength(3);
+    expect(rows[1]).toContain('"Smith, Jr"');
+  });
+});
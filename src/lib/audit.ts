@@ -0,0 +1,164 @@
+/**
+ * AstroWound-MEASURE Audit Trail
+ * Field-level record diffs and hash chaining for the append-only audit log
+ */
+
+import type { AuditEntry, AuditFieldChange, AuditValue } from '@/types';
+
+export const AUDIT_SPEC = {
+  genesisHash: '0'.repeat(64),
+  maxValueLength: 200,           // longer values are summarised, not copied
+  // Bookkeeping that changes on every write and says nothing clinical
+  ignoredFields: ['updatedAt', 'revision'],
+  // Secrets never copied into the log, only noted as changed
+  redactedFields: ['pin', 'fhirSync.authToken'],
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditEntry['action'], string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+  clear: 'Cleared',
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+};
+
+/**
+ * Flatten a record to dotted paths. Arrays are compared whole: contours
+ * and point lists would otherwise produce one entry per point.
+ */
+function flatten(value: unknown, prefix = '', out = new Map<string, unknown>()): Map<string, unknown> {
+  if (!isPlainObject(value)) {
+    if (prefix) out.set(prefix, value);
+    return out;
+  }
+  for (const [key, child] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (!prefix && AUDIT_SPEC.ignoredFields.includes(key)) continue;
+    if (child === undefined) continue;
+    flatten(child, path, out);
+  }
+  return out;
+}
+
+const comparable = (value: unknown): string => {
+  if (value instanceof Blob) return `blob:${value.size}:${value.type}`;
+  if (value instanceof Date) return `date:${value.getTime()}`;
+  if (value instanceof ArrayBuffer) return `bytes:${Array.from(new Uint8Array(value)).join(',')}`;
+  if (value instanceof Uint8Array) return `bytes:${Array.from(value).join(',')}`;
+  return JSON.stringify(value) ?? 'undefined';
+};
+
+/**
+ * Value as stored in the log: short, serialisable, with large payloads
+ * (photos, masks, long lists) reduced to a description
+ */
+export function toAuditValue(value: unknown): AuditValue | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || typeof value === 'number' || typeof value === 'boolean') return value;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString();
+  if (value instanceof Blob) return `[${value.type || 'binary'}, ${Math.round(value.size / 1024)} kB]`;
+  if (value instanceof Uint8Array || value instanceof ArrayBuffer) return `[${value.byteLength} bytes]`;
+  if (typeof value === 'string') {
+    if (value.startsWith('data:')) return `[${value.slice(5, value.indexOf(';'))}, ${Math.round(value.length / 1365)} kB]`;
+    return value.length > AUDIT_SPEC.maxValueLength
+      ? `${value.slice(0, AUDIT_SPEC.maxValueLength)}… (${value.length} chars)`
+      : value;
+  }
+  if (Array.isArray(value)) {
+    const json = JSON.stringify(value);
+    return json.length > AUDIT_SPEC.maxValueLength ? `[${value.length} items]` : json;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Field-level changes between two versions of a record. Pass undefined
+ * for `before` on creation.
+ */
+export function diffRecords(before: unknown, after: unknown): AuditFieldChange[] {
+  const previous = flatten(before);
+  const next = flatten(after);
+  const paths = [...new Set([...previous.keys(), ...next.keys()])].sort();
+  const changes: AuditFieldChange[] = [];
+
+  for (const path of paths) {
+    const a = previous.get(path);
+    const b = next.get(path);
+    if (comparable(a) === comparable(b)) continue;
+    if (AUDIT_SPEC.redactedFields.some(field => path === field || path.startsWith(`${field}.`))) {
+      changes.push({ path, before: a === undefined ? undefined : '[redacted]', after: b === undefined ? undefined : '[redacted]' });
+    } else {
+      changes.push({ path, before: toAuditValue(a), after: toAuditValue(b) });
+    }
+  }
+  return changes;
+}
+
+/**
+ * JSON with sorted keys, so the hash does not depend on property order
+ */
+function canonicalJson(value: unknown): string {
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (isPlainObject(value)) {
+    return `{${Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export async function computeAuditHash(entry: Omit<AuditEntry, 'hash'>): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonicalJson(entry)));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Check a complete log, in sequence order, for edited, removed or
+ * reordered entries. Returns the first entry that fails, if any.
+ */
+export async function verifyAuditChain(
+  entries: AuditEntry[]
+): Promise<{ valid: boolean; brokenAt?: number }> {
+  let prevHash = AUDIT_SPEC.genesisHash;
+  for (let i = 0; i < entries.length; i++) {
+    const { hash, ...rest } = entries[i];
+    if (rest.sequence !== i + 1 || rest.prevHash !== prevHash || hash !== await computeAuditHash(rest)) {
+      return { valid: false, brokenAt: rest.sequence };
+    }
+    prevHash = hash;
+  }
+  return { valid: true };
+}
+
+export function auditToCsv(entries: AuditEntry[]): string {
+  const escape = (value: unknown) => {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const rows: unknown[][] = [['sequence', 'at', 'actor', 'device', 'action', 'table', 'record', 'patient', 'field', 'before', 'after', 'hash']];
+  for (const entry of entries) {
+    const base = [
+      entry.sequence,
+      new Date(entry.at).toISOString(),
+      entry.actor.name,
+      entry.deviceId,
+      entry.action,
+      entry.table,
+      entry.recordId,
+      entry.patientId ?? '',
+    ];
+    const changes = entry.changes.length > 0 ? entry.changes : [{ path: '' } as AuditFieldChange];
+    for (const change of changes) {
+      rows.push([...base, change.path, change.before, change.after, entry.hash]);
+    }
+  }
+  return rows.map(row => row.map(escape).join(',')).join('\n');
+}
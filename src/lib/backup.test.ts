@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { BACKUP_SPEC, BACKUP_TABLES, BackupError, decodeBackup, encodeBackup, validateBackup } from './backup';
+import type { BackupArchive, BackupData, Patient } from '@/types';
+
+const patient = (id: string, mrn: string) =>
+  ({ id, mrn, firstName: 'Ada', lastName: 'Lovelace', createdAt: new Date('2026-02-01T08:00:00Z') }) as Patient;
+
+function archive(overrides: Partial<BackupData> = {}): BackupArchive {
+  const data = Object.fromEntries(BACKUP_TABLES.map(table => [table, []])) as unknown as BackupData;
+  return {
+    format: BACKUP_SPEC.format,
+    version: BACKUP_SPEC.version,
+    createdAt: new Date('2026-05-01T12:00:00Z'),
+    deviceId: 'device-1',
+    data: { ...data, patients: [patient('p1', 'MRN-1')], ...overrides },
+  };
+}
+
+describe('encodeBackup / decodeBackup', () => {
+  it('round-trips records, dates and image bytes', async () => {
+    const image = { id: 'img-1', type: 'image/jpeg', data: new Blob([new Uint8Array([1, 2, 3])], { type: 'image/jpeg' }) };
+    const decoded = await decodeBackup(await encodeBackup(archive({ images: [image] })));
+
+    expect(decoded.data.patients).toEqual([patient('p1', 'MRN-1')]);
+    expect(decoded.createdAt).toBeInstanceOf(Date);
+    const restored = decoded.data.images[0];
+    expect(restored.data.type).toBe('image/jpeg');
+    expect(new Uint8Array(await restored.data.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it('seals the archive under a password', async () => {
+    const file = await encodeBackup(archive(), 'correct horse');
+
+    expect(await file.text()).not.toContain('Lovelace');
+    await expect(decodeBackup(file)).rejects.toMatchObject({ reason: 'password_required' });
+    await expect(decodeBackup(file, 'wrong password')).rejects.toMatchObject({ reason: 'wrong_password' });
+    expect((await decodeBackup(file, 'correct horse')).data.patients[0].lastName).toBe('Lovelace');
+  });
+
+  it('restores tables added since an older archive as empty', async () => {
+    const old = archive();
+    old.version = 1;
+    delete (old.data as Partial<BackupData>).analgesicAdministrations;
+
+    expect((await decodeBackup(await encodeBackup(old))).data.analgesicAdministrations).toEqual([]);
+  });
+
+  it('rejects a file that is not a backup', async () => {
+    await expect(decodeBackup(new Blob(['not json']))).rejects.toBeInstanceOf(BackupError);
+    await expect(decodeBackup(new Blob(['{"format":"other"}']))).rejects.toMatchObject({
+      reason: 'invalid',
+      problems: ['Not an AstroWound backup file'],
+    });
+  });
+});
+
+describe('validateBackup', () => {
+  it('accepts a well-formed archive', () => {
+    expect(validateBackup(archive())).toEqual([]);
+  });
+
+  it('reports missing ids, required fields and duplicates', () => {
+    const problems = validateBackup(archive({
+      patients: [patient('p1', 'MRN-1'), patient('p1', 'MRN-2'), patient('p2', 'MRN-1'), { id: '' } as Patient],
+      wounds: [{ id: 'w1' } as BackupData['wounds'][number]],
+    }));
+
+    expect(problems).toEqual([
+      'patients[1]: duplicate id p1',
+      'patients[3]: missing id',
+      'wounds[0]: missing patientId',
+      'patients: MRN MRN-1 used by more than one patient',
+    ]);
+  });
+
+  it('refuses archives from a newer release', () => {
+    expect(validateBackup({ ...archive(), version: BACKUP_SPEC.version + 1 })[0]).toMatch(/newer release/);
+  });
+});
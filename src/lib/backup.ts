@@ -0,0 +1,244 @@
+/**
+ * AstroWound-MEASURE Backup
+ * Versioned backup archives, optional password protection and validation
+ */
+
+import type { BackupArchive, BackupData, BackupTable, EncryptedBackup } from '@/types';
+import {
+  ENCRYPTION_SPEC,
+  decryptBytes,
+  derivePassphraseKey,
+  deserializeRecord,
+  encryptBytes,
+  generateDataKey,
+  randomBytes,
+  serializeRecord,
+  unwrapKey,
+  wrapKey,
+} from './encryption';
+
+export const BACKUP_SPEC = {
+  format: 'astrowound-backup' as const,
+  version: 2,                  // bump when BackupData changes shape
+  minPasswordLength: 8,
+  maxReportedProblems: 20,
+};
+
+export const BACKUP_TABLES: readonly BackupTable[] = [
+  'patients',
+  'wounds',
+  'assessments',
+  'reports',
+  'images',
+  'dressingSessions',
+  'painAssessments',
+  'sterileFieldChecklists',
+  'materialsChecklists',
+  'dressingProtocols',
+  'postDressingCare',
+  'painManagementPlans',
+  'deviceValidations',
+  'analgesicAdministrations',
+];
+
+// Backup version each table was added in; older archives restore it empty
+const TABLE_ADDED_IN: Partial<Record<BackupTable, number>> = {
+  analgesicAdministrations: 2,
+};
+
+export const BACKUP_TABLE_LABELS: Record<BackupTable, string> = {
+  patients: 'Patients',
+  wounds: 'Wounds',
+  assessments: 'Assessments',
+  reports: 'Reports',
+  images: 'Images',
+  dressingSessions: 'Dressing sessions',
+  painAssessments: 'Pain assessments',
+  sterileFieldChecklists: 'Sterile field checklists',
+  materialsChecklists: 'Materials checklists',
+  dressingProtocols: 'Dressing protocols',
+  postDressingCare: 'Post-dressing care',
+  painManagementPlans: 'Pain management plans',
+  deviceValidations: 'Device validations',
+  analgesicAdministrations: 'Analgesic administrations',
+};
+
+// Fields each record must carry as strings, beyond its id
+const REQUIRED_FIELDS: Partial<Record<BackupTable, readonly string[]>> = {
+  patients: ['mrn', 'firstName', 'lastName'],
+  wounds: ['patientId'],
+  assessments: ['woundId'],
+  reports: ['patientId', 'woundId'],
+  images: ['type'],
+  dressingSessions: ['patientId'],
+  sterileFieldChecklists: ['sessionId'],
+  materialsChecklists: ['sessionId'],
+  postDressingCare: ['sessionId'],
+  painManagementPlans: ['patientId'],
+  analgesicAdministrations: ['patientId'],
+};
+
+// Authenticated with the payload so it cannot be swapped into another file
+const PAYLOAD_CONTEXT = `${BACKUP_SPEC.format}:${BACKUP_SPEC.version}`;
+
+/**
+ * Raised for files that cannot be restored. `reason` tells the UI whether
+ * to ask for a password or show the validation problems.
+ */
+export class BackupError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: 'password_required' | 'wrong_password' | 'invalid',
+    public readonly problems: string[] = []
+  ) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+export function emptyBackupCounts(): Record<BackupTable, number> {
+  return Object.fromEntries(BACKUP_TABLES.map(table => [table, 0])) as Record<BackupTable, number>;
+}
+
+export function countBackupRecords(data: BackupData): Record<BackupTable, number> {
+  return Object.fromEntries(BACKUP_TABLES.map(table => [table, data[table].length])) as Record<BackupTable, number>;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Structural check of a decoded archive. Returns the problems found,
+ * empty when the archive can be restored.
+ */
+export function validateBackup(value: unknown): string[] {
+  const problems: string[] = [];
+  if (!isObject(value) || value.format !== BACKUP_SPEC.format) {
+    return ['Not an AstroWound backup file'];
+  }
+  if (typeof value.version !== 'number' || value.version < 1) {
+    return ['Backup version is missing'];
+  }
+  if (value.version > BACKUP_SPEC.version) {
+    return [`Backup version ${value.version} was made by a newer release; update the app first`];
+  }
+  if (!isObject(value.data)) return ['Backup contains no data section'];
+
+  const data = value.data;
+  for (const table of BACKUP_TABLES) {
+    const rows = data[table];
+    if (!Array.isArray(rows)) {
+      problems.push(`${table}: missing`);
+      continue;
+    }
+    const ids = new Set<string>();
+    rows.forEach((row, i) => {
+      if (!isObject(row) || typeof row.id !== 'string' || !row.id) {
+        problems.push(`${table}[${i}]: missing id`);
+        return;
+      }
+      if (ids.has(row.id)) problems.push(`${table}[${i}]: duplicate id ${row.id}`);
+      ids.add(row.id);
+      for (const field of REQUIRED_FIELDS[table] ?? []) {
+        if (typeof row[field] !== 'string') problems.push(`${table}[${i}]: missing ${field}`);
+      }
+      if (table === 'images' && !(row.data instanceof Blob)) problems.push(`images[${i}]: missing image data`);
+    });
+  }
+
+  // MRNs are unique on a device, so a backup cannot hold two patients with one
+  if (Array.isArray(data.patients)) {
+    const mrns = new Map<string, string>();
+    for (const patient of data.patients as Record<string, unknown>[]) {
+      if (typeof patient?.mrn !== 'string') continue;
+      const other = mrns.get(patient.mrn);
+      if (other && other !== patient.id) problems.push(`patients: MRN ${patient.mrn} used by more than one patient`);
+      mrns.set(patient.mrn, patient.id as string);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Encode an archive as a file, sealed under `password` when one is given.
+ * Images are embedded as base64.
+ */
+export async function encodeBackup(archive: BackupArchive, password?: string): Promise<Blob> {
+  const images = await Promise.all(archive.data.images.map(async image => ({
+    ...image,
+    data: new Uint8Array(await image.data.arrayBuffer()),
+  })));
+  const plaintext = serializeRecord({ ...archive, data: { ...archive.data, images } });
+  if (!password) return new Blob([plaintext], { type: 'application/json' });
+
+  const kdf: EncryptedBackup['kdf'] = {
+    algorithm: 'PBKDF2',
+    hash: 'SHA-256',
+    iterations: ENCRYPTION_SPEC.kdfIterations,
+    salt: randomBytes(ENCRYPTION_SPEC.saltBytes),
+  };
+  const dataKey = await generateDataKey();
+  const envelope: EncryptedBackup = {
+    format: BACKUP_SPEC.format,
+    version: BACKUP_SPEC.version,
+    encrypted: true,
+    kdf,
+    key: await wrapKey(dataKey, await derivePassphraseKey(password, kdf)),
+    payload: await encryptBytes(dataKey, 'backup', plaintext, PAYLOAD_CONTEXT),
+  };
+  return new Blob([serializeRecord(envelope)], { type: 'application/json' });
+}
+
+/**
+ * Decode and validate a backup file. Throws BackupError when the file is
+ * password-protected and no or the wrong password is given, or when it
+ * fails validation.
+ */
+export async function decodeBackup(file: Blob, password?: string): Promise<BackupArchive> {
+  let decoded: Record<string, unknown>;
+  try {
+    decoded = deserializeRecord<Record<string, unknown>>(await file.arrayBuffer());
+  } catch {
+    throw new BackupError('The file is not valid JSON', 'invalid');
+  }
+
+  if (isObject(decoded) && decoded.encrypted === true) {
+    if (!password) throw new BackupError('This backup is password-protected', 'password_required');
+    const envelope = decoded as unknown as EncryptedBackup;
+    let plaintext: ArrayBuffer;
+    try {
+      const dataKey = await unwrapKey(envelope.key, await derivePassphraseKey(password, envelope.kdf), 'data');
+      plaintext = await decryptBytes(dataKey, envelope.payload, `${envelope.format}:${envelope.version}`);
+    } catch {
+      throw new BackupError('Incorrect backup password', 'wrong_password');
+    }
+    decoded = deserializeRecord<Record<string, unknown>>(plaintext);
+  }
+
+  // Images travel as bytes; restore them to Blobs before validating
+  const data = isObject(decoded) && isObject(decoded.data) ? decoded.data : null;
+  if (data && Array.isArray(data.images)) {
+    data.images = data.images.map(image => isObject(image) && image.data instanceof Uint8Array
+      ? { ...image, data: new Blob([image.data as Uint8Array<ArrayBuffer>], { type: String(image.type) }) }
+      : image);
+  }
+
+  if (data && typeof decoded.version === 'number') {
+    for (const [table, addedIn] of Object.entries(TABLE_ADDED_IN)) {
+      if (decoded.version < addedIn && data[table] === undefined) data[table] = [];
+    }
+  }
+
+  const problems = validateBackup(decoded);
+  if (problems.length > 0) {
+    const shown = problems.slice(0, BACKUP_SPEC.maxReportedProblems);
+    const more = problems.length - shown.length;
+    throw new BackupError(
+      `The backup failed validation: ${shown[0]}${problems.length > 1 ? ` (+${problems.length - 1} more)` : ''}`,
+      'invalid',
+      more > 0 ? [...shown, `…and ${more} more`] : shown
+    );
+  }
+  return decoded as unknown as BackupArchive;
+}
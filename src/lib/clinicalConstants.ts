@@ -618,6 +618,39 @@ export const PHASE_MATERIALS: Record<WoundPhase, {
   }
 };
 
+// ============================================
+// Dressing Change Frequency by Phase
+// ============================================
+
+export const PHASE_DRESSING_CARE: Record<WoundPhase, {
+  frequency: string;
+  intervalDays: number;
+  expectedProgress: string;
+}> = {
+  extension: {
+    frequency: 'Daily, or sooner if exudate strikes through',
+    intervalDays: 1,
+    expectedProgress: 'Exudate and non-viable tissue reducing within 1-2 weeks'
+  },
+  transition: {
+    frequency: 'Every 2 days',
+    intervalDays: 2,
+    expectedProgress: 'Granulation tissue increasing and exudate settling over 2 weeks'
+  },
+  repair: {
+    frequency: 'Every 3 days',
+    intervalDays: 3,
+    expectedProgress: 'Steady reduction in size with advancing epithelium at the edges'
+  }
+};
+
+export const PATIENT_DRESSING_INSTRUCTIONS = [
+  'Keep the dressing clean, dry and in place until the next change',
+  'Do not apply creams or powders under the dressing',
+  'Take pain relief as prescribed before the next dressing change',
+  'Report any of the signs of infection straight away'
+];
+
 // ============================================
 // Non-Pharmacological Interventions
 // ============================================
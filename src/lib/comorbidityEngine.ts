@@ -12,6 +12,7 @@ import type {
   PainPatientInfo,
 } from '@/types';
 import { COMORBIDITY_INFO } from './clinicalConstants';
+import { generateInteractionFlags } from './drugInteractions';
 
 /**
  * Risk rule definition type
@@ -232,7 +233,7 @@ const RISK_RULES: RiskRule[] = [
 ];
 
 /**
- * Generate risk flags based on patient comorbidities
+ * Generate risk flags based on patient comorbidities, medications and allergies
  */
 export function generateRiskFlags(
   comorbidities: ComorbidityEntry[],
@@ -308,6 +309,9 @@ export function generateRiskFlags(
     });
   }
 
+  // Add medication and allergy interaction flags
+  flags.push(...generateInteractionFlags(patient.currentMedications ?? [], patient.allergies ?? []));
+
   return flags;
 }
 
@@ -0,0 +1,66 @@
+/**
+ * AstroWound-MEASURE Dressing Session Records
+ * Materials and post-care records written when a dressing session is finished
+ */
+
+import type { MaterialItem, PostDressingCare, WoundPhase } from '@/types';
+import {
+  ESCALATION_CRITERIA,
+  INFECTION_SIGNS,
+  PATIENT_DRESSING_INSTRUCTIONS,
+  PHASE_DRESSING_CARE,
+  PHASE_MATERIALS,
+} from './clinicalConstants';
+
+/**
+ * Material groups in the order they are prepared, keyed as in the
+ * materials checklist
+ */
+export const MATERIAL_GROUPS = [
+  { key: 'cleaning', field: 'cleaningSolution', label: 'Cleaning Solution' },
+  { key: 'primary', field: 'primary', label: 'Primary Contact Layer' },
+  { key: 'secondary', field: 'secondary', label: 'Secondary Layer' },
+  { key: 'absorbent', field: 'absorbent', label: 'Absorbent Layer' },
+  { key: 'fixation', field: 'fixation', label: 'Fixation' },
+] as const;
+
+export const materialCheckKey = (group: string, index: number, item: string): string =>
+  `${group}-${index}-${item}`;
+
+/**
+ * The phase's materials with what was ticked off during preparation
+ */
+export function buildMaterialItems(phase: WoundPhase, checks: Record<string, boolean>): MaterialItem[] {
+  return MATERIAL_GROUPS.flatMap(group =>
+    PHASE_MATERIALS[phase][group.field].map((name, index) => ({
+      name,
+      quantity: 1,
+      required: true,
+      checked: checks[materialCheckKey(group.key, index, name)] ?? false,
+      phaseSpecific: [phase],
+      notes: group.label,
+    }))
+  );
+}
+
+/**
+ * Post-dressing instructions for the phase, with the next change due
+ * from the time the session finished
+ */
+export function buildPostDressingCare(sessionId: string, phase: WoundPhase, completedAt: Date): PostDressingCare {
+  const care = PHASE_DRESSING_CARE[phase];
+  const nextDressingDue = new Date(completedAt);
+  nextDressingDue.setDate(nextDressingDue.getDate() + care.intervalDays);
+
+  return {
+    id: crypto.randomUUID(),
+    sessionId,
+    dressingChangeFrequency: care.frequency,
+    nextDressingDue,
+    infectionSignsToWatch: [...INFECTION_SIGNS],
+    escalationCriteria: [...ESCALATION_CRITERIA],
+    expectedProgress: care.expectedProgress,
+    patientInstructions: [...PATIENT_DRESSING_INSTRUCTIONS],
+    createdAt: completedAt,
+  };
+}
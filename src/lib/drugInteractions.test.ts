@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { MEDICATION_GROUPS, generateInteractionFlags, matchMedicationGroup } from './drugInteractions';
+import { checkDrugClassSafety, generateRiskFlags } from './comorbidityEngine';
+import type { PainPatientInfo } from '@/types';
+
+const adult: PainPatientInfo = {
+  id: 'p1',
+  initials: 'AB',
+  age: 45,
+  ageUnit: 'years',
+  weight: 70,
+  category: 'adult',
+  gender: 'female',
+};
+
+describe('matchMedicationGroup', () => {
+  it('matches brand-free entries regardless of case, dose or route', () => {
+    const entries = ['Warfarin 5 mg OD', 'APIXABAN', 'Metformin 500mg'];
+    expect(matchMedicationGroup(entries, MEDICATION_GROUPS.anticoagulant)).toEqual(['Warfarin 5 mg OD', 'APIXABAN']);
+  });
+});
+
+describe('generateInteractionFlags', () => {
+  it('returns nothing for unrelated medications and no allergies', () => {
+    expect(generateInteractionFlags(['Metformin', 'Atorvastatin'], [])).toEqual([]);
+  });
+
+  it('contraindicates NSAIDs with an anticoagulant and names the entry', () => {
+    const [flag] = generateInteractionFlags(['warfarin'], []);
+
+    expect(flag).toMatchObject({
+      level: 'contraindicated',
+      category: 'Drug interaction',
+      affectedDrugClasses: ['nsaid_non_selective', 'nsaid_cox2_selective'],
+    });
+    expect(flag.message).toContain('(warfarin)');
+  });
+
+  it('warns about tramadol with an SSRI', () => {
+    const flags = generateInteractionFlags(['Sertraline 50mg'], []);
+    const tramadol = flags.find(f => f.affectedDrugClasses.includes('weak_opioid'));
+
+    expect(tramadol?.level).toBe('warning');
+    expect(tramadol?.message).toMatch(/serotonin syndrome/);
+  });
+
+  it('flags each recorded allergy against its drug classes', () => {
+    const flags = generateInteractionFlags([], ['Ibuprofen (rash)', 'codeine']);
+
+    expect(flags.map(f => f.category)).toEqual(['Allergy', 'Allergy']);
+    expect(flags[0]).toMatchObject({ level: 'contraindicated' });
+    expect(flags[0].affectedDrugClasses).toContain('topical_analgesic');
+    expect(flags[1].affectedDrugClasses).toEqual(expect.arrayContaining(['weak_opioid', 'strong_opioid']));
+  });
+});
+
+describe('interaction flags in the risk assessment', () => {
+  it('makes NSAIDs unsafe for a patient on warfarin', () => {
+    const flags = generateRiskFlags([], { ...adult, currentMedications: ['Warfarin'] });
+
+    expect(checkDrugClassSafety('nsaid_non_selective', flags)).toMatchObject({ safe: false, level: 'contraindicated' });
+    expect(checkDrugClassSafety('paracetamol', flags).safe).toBe(true);
+  });
+
+  it('ignores missing medication and allergy lists', () => {
+    expect(generateRiskFlags([], adult)).toEqual([]);
+  });
+});
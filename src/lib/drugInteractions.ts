@@ -0,0 +1,341 @@
+/**
+ * AstroWound-MEASURE Drug Interaction Checker
+ * Drug-drug and drug-allergy rules against the patient's medication and allergy lists
+ */
+
+import type { AnalgesicClass, RiskFlag, RiskLevel } from '@/types';
+
+/**
+ * Medication group recognised in free-text medication and allergy entries
+ */
+export interface MedicationGroup {
+  name: string;
+  terms: string[];           // lower-case names matched anywhere in an entry
+}
+
+interface InteractionRule {
+  group: MedicationGroup;
+  level: RiskLevel;
+  affectedDrugClasses: AnalgesicClass[];
+  message: string;
+  recommendation: string;
+}
+
+// ============================================
+// Medication groups
+// ============================================
+
+export const MEDICATION_GROUPS = {
+  anticoagulant: {
+    name: 'Anticoagulant',
+    terms: ['warfarin', 'apixaban', 'rivaroxaban', 'dabigatran', 'edoxaban', 'heparin', 'enoxaparin', 'dalteparin', 'tinzaparin', 'fondaparinux', 'acenocoumarol'],
+  },
+  antiplatelet: {
+    name: 'Antiplatelet',
+    terms: ['aspirin', 'clopidogrel', 'ticagrelor', 'prasugrel', 'dipyridamole'],
+  },
+  serotonergic: {
+    name: 'SSRI/SNRI',
+    terms: ['sertraline', 'fluoxetine', 'citalopram', 'escitalopram', 'paroxetine', 'fluvoxamine', 'venlafaxine', 'duloxetine', 'desvenlafaxine'],
+  },
+  maoi: {
+    name: 'MAO inhibitor',
+    terms: ['phenelzine', 'tranylcypromine', 'isocarboxazid', 'moclobemide', 'selegiline', 'rasagiline', 'linezolid'],
+  },
+  benzodiazepine: {
+    name: 'Benzodiazepine',
+    terms: ['diazepam', 'lorazepam', 'midazolam', 'alprazolam', 'clonazepam', 'temazepam', 'chlordiazepoxide', 'nitrazepam', 'oxazepam'],
+  },
+  opioid: {
+    name: 'Opioid',
+    terms: ['morphine', 'oxycodone', 'codeine', 'tramadol', 'fentanyl', 'hydromorphone', 'methadone', 'buprenorphine', 'tapentadol', 'dihydrocodeine', 'pethidine'],
+  },
+  gabapentinoid: {
+    name: 'Gabapentinoid',
+    terms: ['gabapentin', 'pregabalin'],
+  },
+  raasDiuretic: {
+    name: 'ACE inhibitor/ARB/diuretic',
+    terms: ['ramipril', 'lisinopril', 'enalapril', 'perindopril', 'captopril', 'losartan', 'candesartan', 'valsartan', 'irbesartan', 'furosemide', 'bumetanide', 'spironolactone', 'hydrochlorothiazide', 'indapamide'],
+  },
+  lithium: {
+    name: 'Lithium',
+    terms: ['lithium'],
+  },
+  methotrexate: {
+    name: 'Methotrexate',
+    terms: ['methotrexate'],
+  },
+  corticosteroid: {
+    name: 'Systemic corticosteroid',
+    terms: ['prednisolone', 'prednisone', 'dexamethasone', 'hydrocortisone', 'methylprednisolone'],
+  },
+  tricyclic: {
+    name: 'Tricyclic antidepressant',
+    terms: ['amitriptyline', 'nortriptyline', 'imipramine', 'clomipramine', 'dosulepin'],
+  },
+} satisfies Record<string, MedicationGroup>;
+
+export const ALLERGY_GROUPS = {
+  nsaid: {
+    name: 'NSAID',
+    terms: ['nsaid', 'ibuprofen', 'naproxen', 'diclofenac', 'ketorolac', 'aspirin', 'indomethacin', 'mefenamic'],
+  },
+  coxib: {
+    name: 'COX-2 inhibitor or sulfonamide',
+    terms: ['celecoxib', 'etoricoxib', 'coxib', 'sulfonamide', 'sulpha', 'sulfa'],
+  },
+  paracetamol: {
+    name: 'Paracetamol',
+    terms: ['paracetamol', 'acetaminophen'],
+  },
+  opioid: {
+    name: 'Opioid',
+    terms: ['opioid', 'opiate', 'morphine', 'codeine', 'oxycodone', 'tramadol', 'fentanyl', 'hydromorphone'],
+  },
+  localAnesthetic: {
+    name: 'Amide local anaesthetic',
+    terms: ['lidocaine', 'lignocaine', 'bupivacaine', 'prilocaine', 'levobupivacaine', 'ropivacaine', 'local anaesthetic', 'local anesthetic'],
+  },
+  benzodiazepine: {
+    name: 'Benzodiazepine',
+    terms: ['benzodiazepine', 'diazepam', 'lorazepam', 'midazolam'],
+  },
+  ketamine: {
+    name: 'Ketamine',
+    terms: ['ketamine'],
+  },
+  gabapentinoid: {
+    name: 'Gabapentinoid',
+    terms: ['gabapentin', 'pregabalin'],
+  },
+} satisfies Record<string, MedicationGroup>;
+
+// ============================================
+// Rules
+// ============================================
+
+const NSAIDS: AnalgesicClass[] = ['nsaid_non_selective', 'nsaid_cox2_selective'];
+const OPIOIDS: AnalgesicClass[] = ['weak_opioid', 'strong_opioid'];
+
+const DRUG_INTERACTION_RULES: InteractionRule[] = [
+  {
+    group: MEDICATION_GROUPS.anticoagulant,
+    level: 'contraindicated',
+    affectedDrugClasses: NSAIDS,
+    message: 'NSAIDs with an anticoagulant markedly increase bleeding risk',
+    recommendation: 'Avoid systemic NSAIDs. Use paracetamol; topical NSAIDs only after prescriber review.',
+  },
+  {
+    group: MEDICATION_GROUPS.antiplatelet,
+    level: 'warning',
+    affectedDrugClasses: NSAIDS,
+    message: 'NSAIDs with an antiplatelet increase GI bleeding risk',
+    recommendation: 'Prefer paracetamol. If an NSAID is needed, use the lowest dose with PPI cover; ibuprofen can blunt aspirin cardioprotection.',
+  },
+  {
+    group: MEDICATION_GROUPS.serotonergic,
+    level: 'warning',
+    affectedDrugClasses: ['weak_opioid'],
+    message: 'Tramadol with an SSRI/SNRI risks serotonin syndrome and lowers the seizure threshold',
+    recommendation: 'Prefer a non-serotonergic opioid. If tramadol is used, monitor for agitation, tremor, hyperthermia and clonus.',
+  },
+  {
+    group: MEDICATION_GROUPS.serotonergic,
+    level: 'caution',
+    affectedDrugClasses: NSAIDS,
+    message: 'NSAIDs with an SSRI/SNRI increase GI bleeding risk',
+    recommendation: 'Consider PPI cover and the shortest possible course.',
+  },
+  {
+    group: MEDICATION_GROUPS.serotonergic,
+    level: 'warning',
+    affectedDrugClasses: ['adjuvant_antidepressant'],
+    message: 'Adding an antidepressant to an SSRI/SNRI risks serotonin syndrome',
+    recommendation: 'Prefer a gabapentinoid for neuropathic pain; review with the prescriber before combining.',
+  },
+  {
+    group: MEDICATION_GROUPS.maoi,
+    level: 'contraindicated',
+    affectedDrugClasses: ['weak_opioid', 'adjuvant_antidepressant'],
+    message: 'Tramadol and tricyclics with an MAO inhibitor can cause serotonin syndrome or hypertensive crisis',
+    recommendation: 'Do not combine. Avoid pethidine and methadone as well; seek specialist advice for opioid choice.',
+  },
+  {
+    group: MEDICATION_GROUPS.maoi,
+    level: 'warning',
+    affectedDrugClasses: ['strong_opioid'],
+    message: 'Opioids with an MAO inhibitor can cause CNS excitation or depression',
+    recommendation: 'Use morphine at reduced dose with close monitoring; avoid pethidine, methadone and fentanyl.',
+  },
+  {
+    group: MEDICATION_GROUPS.benzodiazepine,
+    level: 'warning',
+    affectedDrugClasses: [...OPIOIDS, 'anxiolytic'],
+    message: 'Opioids with a benzodiazepine cause additive respiratory depression',
+    recommendation: 'Reduce opioid doses, avoid further sedatives and monitor sedation score, respiratory rate and SpO2.',
+  },
+  {
+    group: MEDICATION_GROUPS.opioid,
+    level: 'warning',
+    affectedDrugClasses: ['anxiolytic', 'adjuvant_anticonvulsant'],
+    message: 'Sedatives and gabapentinoids with an existing opioid cause additive respiratory depression',
+    recommendation: 'Start at the lowest dose and monitor sedation and respiratory rate.',
+  },
+  {
+    group: MEDICATION_GROUPS.opioid,
+    level: 'caution',
+    affectedDrugClasses: OPIOIDS,
+    message: 'Patient already takes an opioid',
+    recommendation: 'Account for current opioid use when choosing doses; avoid combining two regular opioids.',
+  },
+  {
+    group: MEDICATION_GROUPS.gabapentinoid,
+    level: 'warning',
+    affectedDrugClasses: OPIOIDS,
+    message: 'Opioids with a gabapentinoid cause additive respiratory depression',
+    recommendation: 'Reduce opioid doses and monitor sedation and respiratory rate.',
+  },
+  {
+    group: MEDICATION_GROUPS.raasDiuretic,
+    level: 'warning',
+    affectedDrugClasses: NSAIDS,
+    message: 'NSAIDs with an ACE inhibitor, ARB or diuretic risk acute kidney injury',
+    recommendation: 'Avoid where possible. If used, ensure hydration and check renal function within a week.',
+  },
+  {
+    group: MEDICATION_GROUPS.lithium,
+    level: 'contraindicated',
+    affectedDrugClasses: NSAIDS,
+    message: 'NSAIDs raise lithium levels towards toxicity',
+    recommendation: 'Avoid NSAIDs. Use paracetamol.',
+  },
+  {
+    group: MEDICATION_GROUPS.methotrexate,
+    level: 'contraindicated',
+    affectedDrugClasses: NSAIDS,
+    message: 'NSAIDs reduce methotrexate clearance and increase toxicity',
+    recommendation: 'Avoid NSAIDs. Use paracetamol.',
+  },
+  {
+    group: MEDICATION_GROUPS.corticosteroid,
+    level: 'warning',
+    affectedDrugClasses: NSAIDS,
+    message: 'NSAIDs with a systemic corticosteroid increase GI ulceration risk',
+    recommendation: 'Prefer paracetamol; if an NSAID is needed, give PPI cover.',
+  },
+  {
+    group: MEDICATION_GROUPS.tricyclic,
+    level: 'caution',
+    affectedDrugClasses: ['weak_opioid'],
+    message: 'Tramadol with a tricyclic lowers the seizure threshold and adds serotonergic effects',
+    recommendation: 'Monitor for seizures and serotonin toxicity.',
+  },
+  {
+    group: MEDICATION_GROUPS.tricyclic,
+    level: 'warning',
+    affectedDrugClasses: ['adjuvant_antidepressant'],
+    message: 'Patient already takes a tricyclic antidepressant',
+    recommendation: 'Do not add a second tricyclic; review the current dose instead.',
+  },
+];
+
+const ALLERGY_RULES: InteractionRule[] = [
+  {
+    group: ALLERGY_GROUPS.nsaid,
+    level: 'contraindicated',
+    affectedDrugClasses: [...NSAIDS, 'topical_analgesic'],
+    message: 'NSAID allergy recorded',
+    recommendation: 'Do not give NSAIDs by any route; cross-sensitivity between NSAIDs is common.',
+  },
+  {
+    group: ALLERGY_GROUPS.coxib,
+    level: 'contraindicated',
+    affectedDrugClasses: ['nsaid_cox2_selective'],
+    message: 'COX-2 inhibitor or sulfonamide allergy recorded',
+    recommendation: 'Do not give celecoxib or other coxibs.',
+  },
+  {
+    group: ALLERGY_GROUPS.paracetamol,
+    level: 'contraindicated',
+    affectedDrugClasses: ['paracetamol'],
+    message: 'Paracetamol allergy recorded',
+    recommendation: 'Do not give paracetamol; use an alternative non-opioid if not otherwise contraindicated.',
+  },
+  {
+    group: ALLERGY_GROUPS.opioid,
+    level: 'contraindicated',
+    affectedDrugClasses: OPIOIDS,
+    message: 'Opioid allergy recorded',
+    recommendation: 'Confirm whether this is a true allergy or intolerance (e.g. nausea, itch). Seek specialist advice before any opioid.',
+  },
+  {
+    group: ALLERGY_GROUPS.localAnesthetic,
+    level: 'contraindicated',
+    affectedDrugClasses: ['topical_anesthetic', 'regional_anesthesia'],
+    message: 'Local anaesthetic allergy recorded',
+    recommendation: 'Do not use amide local anaesthetics; seek anaesthetic advice.',
+  },
+  {
+    group: ALLERGY_GROUPS.benzodiazepine,
+    level: 'contraindicated',
+    affectedDrugClasses: ['anxiolytic'],
+    message: 'Benzodiazepine allergy recorded',
+    recommendation: 'Use non-pharmacological anxiolysis.',
+  },
+  {
+    group: ALLERGY_GROUPS.ketamine,
+    level: 'contraindicated',
+    affectedDrugClasses: ['ketamine'],
+    message: 'Ketamine allergy recorded',
+    recommendation: 'Do not give ketamine.',
+  },
+  {
+    group: ALLERGY_GROUPS.gabapentinoid,
+    level: 'contraindicated',
+    affectedDrugClasses: ['adjuvant_anticonvulsant'],
+    message: 'Gabapentinoid allergy recorded',
+    recommendation: 'Use an alternative neuropathic adjuvant.',
+  },
+];
+
+// ============================================
+// Checking
+// ============================================
+
+/**
+ * Entries from the list that belong to the group
+ */
+export function matchMedicationGroup(entries: string[], group: MedicationGroup): string[] {
+  return entries.filter(entry => {
+    const text = entry.toLowerCase();
+    return group.terms.some(term => text.includes(term));
+  });
+}
+
+/**
+ * Risk flags for interactions with the patient's current medications and
+ * recorded allergies, naming the entries that triggered each rule
+ */
+export function generateInteractionFlags(medications: string[], allergies: string[]): RiskFlag[] {
+  const flags: RiskFlag[] = [];
+
+  const check = (rules: InteractionRule[], entries: string[], category: string) => {
+    for (const rule of rules) {
+      const matched = matchMedicationGroup(entries, rule.group);
+      if (matched.length === 0) continue;
+      flags.push({
+        id: crypto.randomUUID(),
+        level: rule.level,
+        category,
+        message: `${rule.message} (${matched.join(', ')})`,
+        affectedDrugClasses: rule.affectedDrugClasses,
+        recommendation: rule.recommendation,
+      });
+    }
+  };
+
+  check(DRUG_INTERACTION_RULES, medications, 'Drug interaction');
+  check(ALLERGY_RULES, allergies, 'Allergy');
+  return flags;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import {
+  blindIndex,
+  decryptBytes,
+  derivePassphraseKey,
+  deserializeRecord,
+  encryptBytes,
+  generateDataKey,
+  generateIndexKey,
+  hashPin,
+  randomBytes,
+  serializeRecord,
+  unwrapKey,
+  verifyPin,
+  wrapKey,
+} from './encryption';
+import type { KeyVault } from '@/types';
+
+// Few iterations: these tests check the wiring, not the work factor
+const kdf: KeyVault['kdf'] = { algorithm: 'PBKDF2', hash: 'SHA-256', iterations: 1000, salt: randomBytes(16) };
+
+describe('record sealing', () => {
+  it('round-trips a record with its dates and bytes', async () => {
+    const key = await generateDataKey();
+    const record = { id: 'p1', name: 'Ada', createdAt: new Date('2026-03-01T10:00:00Z'), salt: new Uint8Array([1, 2, 3]) };
+
+    const sealed = await encryptBytes(key, 'k1', serializeRecord(record), 'patients:p1');
+    const opened = deserializeRecord<typeof record>(await decryptBytes(key, sealed, 'patients:p1'));
+
+    expect(sealed.kid).toBe('k1');
+    expect(opened).toEqual(record);
+    expect(opened.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('rejects a ciphertext moved to another record', async () => {
+    const key = await generateDataKey();
+    const sealed = await encryptBytes(key, 'k1', serializeRecord({ id: 'p1' }), 'patients:p1');
+
+    await expect(decryptBytes(key, sealed, 'patients:p2')).rejects.toThrow();
+  });
+});
+
+describe('key wrapping', () => {
+  it('unwraps only with the passphrase that wrapped the key', async () => {
+    const dataKey = await generateDataKey();
+    const wrapped = await wrapKey(dataKey, await derivePassphraseKey('123456', kdf));
+
+    const unwrapped = await unwrapKey(wrapped, await derivePassphraseKey('123456', kdf), 'data');
+    const sealed = await encryptBytes(dataKey, 'k1', serializeRecord('secret'), 'ctx');
+    expect(deserializeRecord(await decryptBytes(unwrapped, sealed, 'ctx'))).toBe('secret');
+
+    await expect(unwrapKey(wrapped, await derivePassphraseKey('654321', kdf), 'data')).rejects.toThrow();
+  });
+
+  it('gives stable blind indexes per key', async () => {
+    const key = await generateIndexKey();
+
+    expect(await blindIndex(key, 'MRN-1')).toBe(await blindIndex(key, 'MRN-1'));
+    expect(await blindIndex(key, 'MRN-1')).not.toBe(await blindIndex(key, 'MRN-2'));
+    expect(await blindIndex(await generateIndexKey(), 'MRN-1')).not.toBe(await blindIndex(key, 'MRN-1'));
+  });
+});
+
+describe('sign-in PINs', () => {
+  it('verifies the PIN that was hashed and nothing else', async () => {
+    const salt = randomBytes(16);
+    const stored = { salt, hash: await hashPin('2468', salt, 1000), iterations: 1000 };
+
+    expect(await verifyPin('2468', stored)).toBe(true);
+    expect(await verifyPin('2469', stored)).toBe(false);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * AstroWound-MEASURE Encryption
+ * WebCrypto helpers for encrypting records at rest under a PIN-derived key
+ */
+
+import type { EncryptedPayload, KeyVault, WrappedKey } from '@/types';
+
+export const ENCRYPTION_SPEC = {
+  kdfIterations: 600_000,        // OWASP 2023 guidance for PBKDF2-HMAC-SHA256
+  saltBytes: 16,
+  ivBytes: 12,                   // 96-bit AES-GCM nonce
+  minPassphraseLength: 6,
+  defaultAutoLockMinutes: 5,
+  pinIterations: 100_000,        // per-user sign-in PINs
+  minPinLength: 4,
+};
+
+const DATE_TAG = '$date';
+const BYTES_TAG = '$bytes';
+const BUFFER_TAG = '$buffer';
+
+export function randomBytes(length: number): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+/**
+ * Derive the key-encryption key from the user's PIN/passphrase
+ */
+export async function derivePassphraseKey(passphrase: string, kdf: KeyVault['kdf']): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase.normalize('NFKC')),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: kdf.hash, salt: new Uint8Array(kdf.salt), iterations: kdf.iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+}
+
+export function generateDataKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+export function generateIndexKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, true, ['sign']);
+}
+
+export async function wrapKey(key: CryptoKey, wrappingKey: CryptoKey): Promise<WrappedKey> {
+  const iv = randomBytes(ENCRYPTION_SPEC.ivBytes);
+  return { iv, key: await crypto.subtle.wrapKey('raw', key, wrappingKey, { name: 'AES-GCM', iv }) };
+}
+
+/**
+ * Unwrap a data or index key. AES-GCM authentication fails - and this
+ * rejects - when the wrapping key came from the wrong passphrase.
+ */
+export function unwrapKey(wrapped: WrappedKey, wrappingKey: CryptoKey, usage: 'data' | 'index'): Promise<CryptoKey> {
+  return crypto.subtle.unwrapKey(
+    'raw',
+    wrapped.key,
+    wrappingKey,
+    { name: 'AES-GCM', iv: new Uint8Array(wrapped.iv) },
+    usage === 'data' ? { name: 'AES-GCM', length: 256 } : { name: 'HMAC', hash: 'SHA-256' },
+    true,
+    usage === 'data' ? ['encrypt', 'decrypt'] : ['sign']
+  );
+}
+
+/**
+ * Encrypt bytes, authenticating `context` (store and record id) so a
+ * ciphertext cannot be replayed under another record
+ */
+export async function encryptBytes(
+  key: CryptoKey,
+  kid: string,
+  plaintext: ArrayBuffer | Uint8Array<ArrayBuffer>,
+  context: string
+): Promise<EncryptedPayload> {
+  const iv = randomBytes(ENCRYPTION_SPEC.ivBytes);
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(context) },
+    key,
+    plaintext
+  );
+  return { kid, iv, data };
+}
+
+export function decryptBytes(key: CryptoKey, payload: EncryptedPayload, context: string): Promise<ArrayBuffer> {
+  return crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: new Uint8Array(payload.iv), additionalData: new TextEncoder().encode(context) },
+    key,
+    payload.data
+  );
+}
+
+/**
+ * Keyed hash of an identifier so it can stay in an IndexedDB index for
+ * exact-match lookups without being stored in clear
+ */
+export async function blindIndex(key: CryptoKey, value: string): Promise<string> {
+  const mac = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(mac), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+/**
+ * JSON encoding that round-trips the Date values records use throughout,
+ * and the byte arrays of PIN hashes
+ */
+export function serializeRecord(value: unknown): Uint8Array<ArrayBuffer> {
+  const json = JSON.stringify(value, function (this: Record<string, unknown>, key, current) {
+    const raw = this[key];
+    if (raw instanceof Date) return isNaN(raw.getTime()) ? null : { [DATE_TAG]: raw.toISOString() };
+    if (raw instanceof Uint8Array) return { [BYTES_TAG]: toBase64(raw) };
+    if (raw instanceof ArrayBuffer) return { [BUFFER_TAG]: toBase64(new Uint8Array(raw)) };
+    return current;
+  });
+  return new TextEncoder().encode(json);
+}
+
+export function deserializeRecord<T>(bytes: ArrayBuffer): T {
+  return JSON.parse(new TextDecoder().decode(bytes), (_key, value) => {
+    if (!value || typeof value !== 'object' || Object.keys(value).length !== 1) return value;
+    if (typeof value[DATE_TAG] === 'string') return new Date(value[DATE_TAG]);
+    if (typeof value[BYTES_TAG] === 'string') return fromBase64(value[BYTES_TAG]);
+    if (typeof value[BUFFER_TAG] === 'string') return fromBase64(value[BUFFER_TAG]).buffer;
+    return value;
+  }) as T;
+}
+
+/**
+ * Hash a sign-in PIN. These records are already encrypted at rest, so a
+ * lower iteration count than the database key keeps user switching quick.
+ */
+export async function hashPin(pin: string, salt: Uint8Array, iterations: number): Promise<ArrayBuffer> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(pin.normalize('NFKC')),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  return crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: new Uint8Array(salt), iterations },
+    material,
+    256
+  );
+}
+
+export async function verifyPin(
+  pin: string,
+  stored: { salt: Uint8Array; hash: ArrayBuffer; iterations: number }
+): Promise<boolean> {
+  const candidate = new Uint8Array(await hashPin(pin, stored.salt, stored.iterations));
+  const expected = new Uint8Array(stored.hash);
+  if (candidate.length !== expected.length) return false;
+  // Compare every byte so timing does not reveal the matching prefix
+  let diff = 0;
+  for (let i = 0; i < candidate.length; i++) diff |= candidate[i] ^ expected[i];
+  return diff === 0;
+}
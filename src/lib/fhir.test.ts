@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { assessmentToFhir, diffConflictFields, getFieldValue, patientToFhir, setFieldValue, woundToFhirCondition } from './fhir';
+import type { Patient, Wound, WoundAssessment } from '@/types';
+
+const patient: Patient = {
+  id: 'p1',
+  mrn: 'MRN-1',
+  firstName: 'Ada',
+  lastName: 'Lovelace',
+  dateOfBirth: '1950-12-10',
+  gender: 'female',
+  contact: { phone: '01234 567890', address: '1 High Street' },
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+} as Patient;
+
+const wound = {
+  id: 'w1',
+  patientId: 'p1',
+  type: 'venous_ulcer',
+  location: 'left_lower_leg',
+  locationDetail: 'medial gaiter',
+  status: 'active',
+  onset: new Date('2026-01-03T00:00:00Z'),
+  createdAt: new Date('2026-01-05T00:00:00Z'),
+} as unknown as Wound;
+
+const assessment = {
+  id: 'a1',
+  woundId: 'w1',
+  capturedAt: new Date('2026-02-01T10:00:00Z'),
+  measurement: { area: 4.2, length: 3, width: 1.8, perimeter: 8.1 },
+  notes: 'Granulating well',
+  clinicianVerified: true,
+  verifiedBy: 'S. Specialist',
+} as unknown as WoundAssessment;
+
+describe('diffConflictFields', () => {
+  it('finds no conflict when the server holds what was sent', () => {
+    expect(diffConflictFields('patients', patient, patientToFhir(patient))).toEqual([]);
+    expect(diffConflictFields('wounds', wound, woundToFhirCondition(wound))).toEqual([]);
+    const observation = assessmentToFhir(assessment, 'p1').find(r => r.resourceType === 'Observation')!;
+    expect(diffConflictFields('assessments', assessment, observation)).toEqual([]);
+  });
+
+  it('reports each field changed on the server with both values', () => {
+    const remote = patientToFhir({ ...patient, lastName: 'King', contact: { ...patient.contact, phone: '07000 000000' } });
+
+    expect(diffConflictFields('patients', patient, remote)).toEqual([
+      { path: 'lastName', label: 'Last name', local: 'Lovelace', remote: 'King' },
+      { path: 'contact.phone', label: 'Phone', local: '01234 567890', remote: '07000 000000' },
+    ]);
+  });
+
+  it('compares nested measurements and dates by value', () => {
+    const observation = assessmentToFhir({ ...assessment, measurement: { ...assessment.measurement, area: 3.9 } }, 'p1')[0];
+    expect(diffConflictFields('assessments', assessment, observation)).toEqual([
+      { path: 'measurement.area', label: 'Wound area (cm²)', local: 4.2, remote: 3.9 },
+    ]);
+
+    const moved = woundToFhirCondition({ ...wound, onset: new Date('2026-01-02T00:00:00Z') });
+    const [onset] = diffConflictFields('wounds', { ...wound, onset: '2026-01-03T00:00:00.000Z' }, moved);
+    expect(onset.path).toBe('onset');
+    expect(onset.remote).toEqual(new Date('2026-01-02T00:00:00Z'));
+  });
+
+  it('treats a field cleared on one side as a conflict', () => {
+    const remote = patientToFhir({ ...patient, contact: { phone: patient.contact!.phone } });
+    expect(diffConflictFields('patients', patient, remote).map(f => f.path)).toEqual(['contact.address']);
+  });
+});
+
+describe('merging conflict fields', () => {
+  it('replaces a nested field without touching the original record', () => {
+    const merged = setFieldValue(patient, 'contact.phone', '07000 000000');
+
+    expect(getFieldValue(merged, 'contact.phone')).toBe('07000 000000');
+    expect(merged.contact?.address).toBe('1 High Street');
+    expect(patient.contact?.phone).toBe('01234 567890');
+  });
+
+  it('creates missing parents along the path', () => {
+    const merged = setFieldValue({ id: 'p2' }, 'contact.email', 'a@example.org');
+    expect(merged).toEqual({ id: 'p2', contact: { email: 'a@example.org' } });
+  });
+});
@@ -0,0 +1,374 @@
+/**
+ * AstroWound-MEASURE FHIR Mapping
+ * Patient, Wound, WoundAssessment and ClinicalReport as FHIR R4 resources
+ */
+
+import type {
+  ClinicalReport,
+  ConflictTable,
+  FhirBundle,
+  FhirBundleEntry,
+  FhirResource,
+  Patient,
+  SyncConflictField,
+  SyncQueueItem,
+  Wound,
+  WoundAssessment,
+  WoundMeasurement,
+} from '@/types';
+
+export const FHIR_SYSTEMS = {
+  mrn: 'urn:astrowound:mrn',
+  woundType: 'urn:astrowound:wound-type',
+  woundStatus: 'urn:astrowound:wound-status',
+  measurement: 'urn:astrowound:wound-measurement',
+  ucum: 'http://unitsofmeasure.org',
+  conditionCategory: 'http://terminology.hl7.org/CodeSystem/condition-category',
+  conditionClinical: 'http://terminology.hl7.org/CodeSystem/condition-clinical',
+  observationCategory: 'http://terminology.hl7.org/CodeSystem/observation-category',
+  mediaType: 'http://terminology.hl7.org/CodeSystem/media-type',
+};
+
+/**
+ * Queue tables that have a FHIR representation
+ */
+export const FHIR_SYNC_TABLES = ['patients', 'wounds', 'assessments', 'reports'] as const;
+
+export type FhirSyncTable = typeof FHIR_SYNC_TABLES[number];
+
+const MEASUREMENT_COMPONENTS: { key: keyof WoundMeasurement; display: string; unit: string; code: string }[] = [
+  { key: 'area', display: 'Wound area', unit: 'cm²', code: 'cm2' },
+  { key: 'length', display: 'Wound length', unit: 'cm', code: 'cm' },
+  { key: 'width', display: 'Wound width', unit: 'cm', code: 'cm' },
+  { key: 'perimeter', display: 'Wound perimeter', unit: 'cm', code: 'cm' },
+  { key: 'depth', display: 'Wound depth', unit: 'cm', code: 'cm' },
+  { key: 'volume', display: 'Wound volume', unit: 'cm³', code: 'cm3' },
+];
+
+const REPORT_TITLES: Record<ClinicalReport['reportType'], string> = {
+  single_assessment: 'Wound assessment report',
+  progress_report: 'Wound progress report',
+  discharge_summary: 'Wound discharge summary',
+};
+
+interface ConflictFieldDefinition {
+  path: string;
+  label: string;
+  date?: boolean;
+}
+
+/**
+ * Fields that round-trip through FHIR and can therefore be compared
+ * when the server copy of a record has changed
+ */
+export const CONFLICT_FIELDS: Record<ConflictTable, ConflictFieldDefinition[]> = {
+  patients: [
+    { path: 'mrn', label: 'MRN' },
+    { path: 'firstName', label: 'First name' },
+    { path: 'lastName', label: 'Last name' },
+    { path: 'dateOfBirth', label: 'Date of birth' },
+    { path: 'gender', label: 'Gender' },
+    { path: 'contact.phone', label: 'Phone' },
+    { path: 'contact.email', label: 'Email' },
+    { path: 'contact.address', label: 'Address' },
+  ],
+  wounds: [
+    { path: 'type', label: 'Wound type' },
+    { path: 'location', label: 'Location' },
+    { path: 'locationDetail', label: 'Location detail' },
+    { path: 'status', label: 'Status' },
+    { path: 'etiology', label: 'Etiology' },
+    { path: 'onset', label: 'Onset', date: true },
+    { path: 'notes', label: 'Notes' },
+  ],
+  assessments: [
+    ...MEASUREMENT_COMPONENTS.map(c => ({ path: `measurement.${c.key}`, label: `${c.display} (${c.unit})` })),
+    { path: 'notes', label: 'Notes' },
+    { path: 'clinicianVerified', label: 'Verified' },
+    { path: 'verifiedBy', label: 'Verified by' },
+  ],
+};
+
+const isoDate = (date: Date | string): string => new Date(date).toISOString();
+
+export function isFhirSyncTable(table: string): table is FhirSyncTable {
+  return (FHIR_SYNC_TABLES as readonly string[]).includes(table);
+}
+
+export function patientToFhir(patient: Patient): FhirResource {
+  return {
+    resourceType: 'Patient',
+    id: patient.id,
+    identifier: [{ system: FHIR_SYSTEMS.mrn, value: patient.mrn }],
+    name: [{ family: patient.lastName, given: [patient.firstName] }],
+    gender: patient.gender,
+    birthDate: patient.dateOfBirth,
+    telecom: [
+      ...(patient.contact?.phone ? [{ system: 'phone', value: patient.contact.phone }] : []),
+      ...(patient.contact?.email ? [{ system: 'email', value: patient.contact.email }] : []),
+    ],
+    address: patient.contact?.address ? [{ text: patient.contact.address }] : undefined,
+  };
+}
+
+export function woundToFhirCondition(wound: Wound): FhirResource {
+  return {
+    resourceType: 'Condition',
+    id: wound.id,
+    clinicalStatus: {
+      coding: [{
+        system: FHIR_SYSTEMS.conditionClinical,
+        code: wound.status === 'healed' ? 'resolved' : 'active',
+      }],
+    },
+    category: [{ coding: [{ system: FHIR_SYSTEMS.conditionCategory, code: 'problem-list-item' }] }],
+    code: {
+      coding: [{ system: FHIR_SYSTEMS.woundType, code: wound.type }],
+      text: wound.etiology || wound.type.replace(/_/g, ' '),
+    },
+    bodySite: [{ text: wound.locationDetail ? `${wound.location} - ${wound.locationDetail}` : wound.location }],
+    extension: [{ url: FHIR_SYSTEMS.woundStatus, valueCode: wound.status }],
+    subject: { reference: `Patient/${wound.patientId}` },
+    onsetDateTime: isoDate(wound.onset),
+    recordedDate: isoDate(wound.createdAt),
+    note: wound.notes ? [{ text: wound.notes }] : undefined,
+  };
+}
+
+/**
+ * Media id for an assessment's wound photograph
+ */
+export function assessmentMediaId(assessmentId: string): string {
+  return `${assessmentId}-image`;
+}
+
+/**
+ * Measurement Observation plus the wound photograph as Media (when the
+ * image is stored inline as a data URL)
+ */
+export function assessmentToFhir(assessment: WoundAssessment, patientId: string): FhirResource[] {
+  const subject = { reference: `Patient/${patientId}` };
+  const image = assessment.originalImage?.match(/^data:([^;]+);base64,(.*)$/);
+
+  const media: FhirResource | null = image ? {
+    resourceType: 'Media',
+    id: assessmentMediaId(assessment.id),
+    status: 'completed',
+    type: { coding: [{ system: FHIR_SYSTEMS.mediaType, code: 'image' }] },
+    subject,
+    createdDateTime: isoDate(assessment.capturedAt),
+    operator: assessment.capturedBy ? { display: assessment.capturedBy } : undefined,
+    content: { contentType: image[1], data: image[2] },
+  } : null;
+
+  const observation: FhirResource = {
+    resourceType: 'Observation',
+    id: assessment.id,
+    status: assessment.clinicianVerified ? 'final' : 'preliminary',
+    category: [{ coding: [{ system: FHIR_SYSTEMS.observationCategory, code: 'exam' }] }],
+    code: {
+      coding: [{ system: FHIR_SYSTEMS.measurement, code: 'wound-measurement' }],
+      text: 'Wound measurement',
+    },
+    subject,
+    focus: [{ reference: `Condition/${assessment.woundId}` }],
+    effectiveDateTime: isoDate(assessment.capturedAt),
+    performer: assessment.verifiedBy ? [{ display: assessment.verifiedBy }] : undefined,
+    note: assessment.notes ? [{ text: assessment.notes }] : undefined,
+    derivedFrom: media ? [{ reference: `Media/${media.id}` }] : undefined,
+    component: MEASUREMENT_COMPONENTS
+      .filter(c => typeof assessment.measurement[c.key] === 'number')
+      .map(c => ({
+        code: { coding: [{ system: FHIR_SYSTEMS.measurement, code: c.key }], text: c.display },
+        valueQuantity: {
+          value: assessment.measurement[c.key],
+          unit: c.unit,
+          system: FHIR_SYSTEMS.ucum,
+          code: c.code,
+        },
+      })),
+  };
+
+  return media ? [media, observation] : [observation];
+}
+
+export function reportToFhirDocumentReference(report: ClinicalReport): FhirResource {
+  const title = REPORT_TITLES[report.reportType];
+  const summary = [
+    title,
+    `Generated ${isoDate(report.generatedAt)} by ${report.generatedBy}`,
+    `Assessments: ${report.assessments.length}`,
+    ...(report.recommendations ?? []),
+  ].join('\n');
+
+  return {
+    resourceType: 'DocumentReference',
+    id: report.id,
+    status: 'current',
+    type: { text: title },
+    subject: { reference: `Patient/${report.patientId}` },
+    date: isoDate(report.generatedAt),
+    author: [{ display: report.generatedBy }],
+    authenticator: report.signature ? { display: `${report.signature.name}, ${report.signature.credentials}` } : undefined,
+    context: {
+      related: [
+        { reference: `Condition/${report.woundId}` },
+        ...report.assessments.map(a => ({ reference: `Observation/${a.id}` })),
+      ],
+    },
+    content: [{
+      attachment: {
+        contentType: 'text/plain',
+        title,
+        data: btoa(String.fromCharCode(...new TextEncoder().encode(summary))),
+      },
+    }],
+  };
+}
+
+/**
+ * Resource URLs removed when a record is deleted locally
+ */
+export function fhirDeleteUrls(table: FhirSyncTable, recordId: string): string[] {
+  switch (table) {
+    case 'patients':
+      return [`Patient/${recordId}`];
+    case 'wounds':
+      return [`Condition/${recordId}`];
+    case 'assessments':
+      return [`Observation/${recordId}`, `Media/${assessmentMediaId(recordId)}`];
+    case 'reports':
+      return [`DocumentReference/${recordId}`];
+  }
+}
+
+/**
+ * Transaction bundle for one queued change. Resources are written with
+ * PUT so the local id becomes the server id and retries are idempotent.
+ * With a known server version the record's own resource is sent with
+ * If-Match, so the server rejects it if another device changed it since.
+ */
+export function buildSyncBundle(item: SyncQueueItem, resources: FhirResource[], serverVersion?: string): FhirBundle {
+  const entry: FhirBundleEntry[] = item.type === 'delete' && isFhirSyncTable(item.table)
+    ? fhirDeleteUrls(item.table, item.recordId).map(url => ({ request: { method: 'DELETE', url } }))
+    : resources.map(resource => ({
+        resource,
+        request: {
+          method: 'PUT',
+          url: `${resource.resourceType}/${resource.id}`,
+          ifMatch: serverVersion && resource.id === item.recordId ? `W/"${serverVersion}"` : undefined,
+        },
+      }));
+
+  return { resourceType: 'Bundle', type: 'transaction', entry };
+}
+
+/**
+ * versionId from an ETag such as W/"3"
+ */
+export function parseVersionTag(etag?: string): string | undefined {
+  return etag?.match(/^(?:W\/)?"?([^"]+)"?$/)?.[1];
+}
+
+// ============================================
+// Conflict comparison
+// ============================================
+
+type CodeableConcept = { coding?: { code?: string }[]; text?: string };
+type Reference = { display?: string };
+
+/**
+ * Field values of a server resource in local record terms
+ */
+export function fieldsFromFhir(table: ConflictTable, resource: FhirResource): Record<string, unknown> {
+  switch (table) {
+    case 'patients': {
+      const name = (resource.name as { family?: string; given?: string[] }[] | undefined)?.[0];
+      const telecom = (resource.telecom as { system: string; value: string }[] | undefined) ?? [];
+      const identifier = (resource.identifier as { system?: string; value?: string }[] | undefined) ?? [];
+      return {
+        mrn: identifier.find(i => i.system === FHIR_SYSTEMS.mrn)?.value,
+        firstName: name?.given?.[0],
+        lastName: name?.family,
+        dateOfBirth: resource.birthDate,
+        gender: resource.gender,
+        'contact.phone': telecom.find(t => t.system === 'phone')?.value,
+        'contact.email': telecom.find(t => t.system === 'email')?.value,
+        'contact.address': (resource.address as { text?: string }[] | undefined)?.[0]?.text,
+      };
+    }
+    case 'wounds': {
+      const code = resource.code as CodeableConcept | undefined;
+      const type = code?.coding?.[0]?.code;
+      const site = (resource.bodySite as CodeableConcept[] | undefined)?.[0]?.text ?? '';
+      const separator = site.indexOf(' - ');
+      const status = (resource.extension as { url: string; valueCode?: string }[] | undefined)
+        ?.find(e => e.url === FHIR_SYSTEMS.woundStatus)?.valueCode;
+      return {
+        type,
+        location: separator >= 0 ? site.slice(0, separator) : site || undefined,
+        locationDetail: separator >= 0 ? site.slice(separator + 3) : undefined,
+        status,
+        etiology: code?.text && code.text !== type?.replace(/_/g, ' ') ? code.text : undefined,
+        onset: resource.onsetDateTime,
+        notes: (resource.note as { text?: string }[] | undefined)?.[0]?.text,
+      };
+    }
+    case 'assessments': {
+      const components = (resource.component as { code: CodeableConcept; valueQuantity?: { value?: number } }[] | undefined) ?? [];
+      const values: Record<string, unknown> = {};
+      for (const c of MEASUREMENT_COMPONENTS) {
+        values[`measurement.${c.key}`] = components.find(x => x.code.coding?.[0]?.code === c.key)?.valueQuantity?.value;
+      }
+      return {
+        ...values,
+        notes: (resource.note as { text?: string }[] | undefined)?.[0]?.text,
+        clinicianVerified: resource.status === 'final',
+        verifiedBy: (resource.performer as Reference[] | undefined)?.[0]?.display,
+      };
+    }
+  }
+}
+
+export function getFieldValue(record: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    record
+  );
+}
+
+/**
+ * Copy of the record with one (possibly nested) field replaced
+ */
+export function setFieldValue<T>(record: T, path: string, value: unknown): T {
+  const [key, ...rest] = path.split('.');
+  const current = (record ?? {}) as Record<string, unknown>;
+  return {
+    ...current,
+    [key]: rest.length > 0 ? setFieldValue(current[key], rest.join('.'), value) : value,
+  } as T;
+}
+
+const normalise = (value: unknown, date?: boolean): string | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (date) return isoDate(value as Date | string);
+  return JSON.stringify(value);
+};
+
+/**
+ * Fields whose local and server values differ
+ */
+export function diffConflictFields(table: ConflictTable, local: unknown, remote: FhirResource): SyncConflictField[] {
+  const remoteValues = fieldsFromFhir(table, remote);
+  return CONFLICT_FIELDS[table].flatMap(field => {
+    const localValue = getFieldValue(local, field.path);
+    const remoteValue = remoteValues[field.path];
+    if (normalise(localValue, field.date) === normalise(remoteValue, field.date)) return [];
+    return [{
+      path: field.path,
+      label: field.label,
+      local: localValue,
+      remote: field.date && remoteValue ? new Date(remoteValue as string) : remoteValue,
+    }];
+  });
+}
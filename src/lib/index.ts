@@ -7,5 +7,25 @@ export * from './clinicalConstants';
 
 // Clinical Engines
 export * from './comorbidityEngine';
+export * from './drugInteractions';
 export * from './analgesicEngine';
+export * from './analgesicDosing';
+export * from './painScales';
+export * from './painReassessment';
 export * from './safetyModule';
+export * from './woundScoring';
+export * from './woundBed';
+export * from './infectionScreen';
+export * from './dressingSession';
+
+// Interoperability
+export * from './fhir';
+
+// Security
+export * from './encryption';
+export * from './permissions';
+export * from './audit';
+export * from './verification';
+
+// Backup
+export * from './backup';
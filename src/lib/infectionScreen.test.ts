@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import {
+  INFECTION_SCREEN_ITEMS,
+  computeInfectionScreen,
+  formatInfectionScreen,
+  infectionSignals,
+  isInfectionScreenPositive,
+  type InfectionScreenInput,
+} from './infectionScreen';
+import type { WoundAssessment, WoundMeasurement } from '@/types';
+
+const measurement = (area: number): WoundMeasurement => ({ area, length: 3, width: 2, perimeter: 8 });
+
+const previous = {
+  measurement: measurement(4),
+  pain: 3,
+  odor: 'none',
+} as WoundAssessment;
+
+const answerAll = (present: boolean) =>
+  Object.fromEntries(INFECTION_SCREEN_ITEMS.map(item => [item.id, present]));
+
+describe('computeInfectionScreen', () => {
+  it('is negative when nothing is present', () => {
+    const screen = computeInfectionScreen({}, answerAll(false));
+
+    expect(screen).toMatchObject({ risk: 'none', complete: true, totals: { nerds: 0, stonees: 0 } });
+    expect(isInfectionScreenPositive(screen)).toBe(false);
+  });
+
+  it('flags superficial infection at three NERDS criteria', () => {
+    const input: InfectionScreenInput = {
+      measurement: measurement(4),
+      previous,
+      tissueTypes: { epithelial: 0, granulation: 70, slough: 30, necrotic: 0, eschar: 0 },
+      exudate: { amount: 'light', type: 'serous' },
+      odor: 'none',
+    };
+    const screen = computeInfectionScreen(input, { red_friable: true });
+
+    // non-healing (no smaller) + debris + red friable
+    expect(screen.totals.nerds).toBe(3);
+    expect(screen.risk).toBe('superficial');
+  });
+
+  it('escalates to deep infection at three STONEES criteria, even with items unanswered', () => {
+    const input: InfectionScreenInput = {
+      measurement: measurement(5),
+      previous,
+      exudate: { amount: 'heavy', type: 'purulent' },
+      inflammationSigns: ['warmth'],
+    };
+    const screen = computeInfectionScreen(input);
+
+    // size bigger + exudate + temperature
+    expect(screen.totals.stonees).toBe(3);
+    expect(screen.risk).toBe('deep');
+    expect(screen.complete).toBe(false);
+    expect(formatInfectionScreen(screen)).toMatch(/^Suspected deep infection: NERDS \d\/5, STONEES 3\/7 \(\d items? not answered\)$/);
+  });
+
+  it('lets clinician answers override derived items', () => {
+    const screen = computeInfectionScreen({ odor: 'strong' }, { smell: false });
+
+    expect(screen.items.find(i => i.itemId === 'smell')).toEqual({ itemId: 'smell', present: false, source: 'clinician' });
+  });
+
+  it('leaves items without data for the clinician', () => {
+    const screen = computeInfectionScreen({});
+
+    expect(screen.items).toEqual([]);
+    expect(screen.missingItems).toHaveLength(INFECTION_SCREEN_ITEMS.length);
+  });
+});
+
+describe('infectionSignals', () => {
+  it('reports worsening trends between assessments', () => {
+    const signals = infectionSignals({
+      measurement: measurement(5),
+      previous,
+      pain: 6,
+      odor: 'moderate',
+      exudate: { amount: 'moderate', type: 'purulent' },
+    });
+
+    expect(signals).toEqual([
+      'Area up 25% since the last assessment',
+      'Pain rising (3 to 6/10)',
+      'Odour worsening (none to moderate)',
+      'Purulent exudate',
+    ]);
+  });
+});
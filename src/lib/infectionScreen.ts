@@ -0,0 +1,261 @@
+/**
+ * AstroWound-MEASURE Infection Screening
+ * NERDS (superficial) and STONEES (deep) screens from assessment data and trends
+ */
+
+import type {
+  InfectionRisk,
+  InfectionScreen,
+  InfectionScreenItemResult,
+  InfectionScreenTool,
+  WoundAnalytics,
+  WoundAssessment,
+} from '@/types';
+import { ODOR_LEVELS } from './woundBed';
+
+/**
+ * Assessment data and history the screen can derive items from
+ */
+export type InfectionScreenInput = Partial<Pick<
+  WoundAssessment,
+  'measurement' | 'tissueTypes' | 'exudate' | 'odor' | 'inflammationSigns' | 'periWoundCondition' | 'pain'
+>> & {
+  previous?: WoundAssessment;     // most recent earlier assessment of the same wound
+  analytics?: WoundAnalytics;     // over the earlier assessments
+};
+
+export interface InfectionScreenItemDefinition {
+  id: string;
+  label: string;
+  hint: string;
+  tools: InfectionScreenTool[];
+  derive?: (input: InfectionScreenInput) => boolean | undefined;
+}
+
+export const INFECTION_SCREEN_SPEC = {
+  positiveThreshold: 3,       // three or more criteria on either screen
+} as const;
+
+export const INFECTION_SCREEN_TOOLS: Record<InfectionScreenTool, { name: string; description: string }> = {
+  nerds: { name: 'NERDS', description: 'Superficial critical colonisation' },
+  stonees: { name: 'STONEES', description: 'Deep or surrounding infection' },
+};
+
+export const INFECTION_RISK_CONFIG: Record<InfectionRisk, { label: string; action: string }> = {
+  none: {
+    label: 'Screen negative',
+    action: 'Continue the current plan and rescreen at the next assessment.',
+  },
+  superficial: {
+    label: 'Suspected superficial infection',
+    action: 'Consider a topical antimicrobial dressing and rescreen within 2 weeks.',
+  },
+  deep: {
+    label: 'Suspected deep infection',
+    action: 'Escalate to the physician today; consider systemic antibiotics and imaging if bone is involved.',
+  },
+};
+
+// ============================================
+// Derivation helpers
+// ============================================
+
+const exudative = (input: InfectionScreenInput): boolean | undefined =>
+  input.exudate ? input.exudate.amount === 'moderate' || input.exudate.amount === 'heavy' : undefined;
+
+const malodorous = (input: InfectionScreenInput): boolean | undefined =>
+  input.odor ? input.odor !== 'none' : undefined;
+
+const areaIncreased = (input: InfectionScreenInput): boolean | undefined =>
+  input.previous && input.measurement
+    ? input.measurement.area > input.previous.measurement.area
+    : undefined;
+
+// ============================================
+// Items
+// ============================================
+
+export const INFECTION_SCREEN_ITEMS: InfectionScreenItemDefinition[] = [
+  {
+    id: 'non_healing',
+    label: 'Non-healing',
+    hint: 'No reduction in size despite appropriate care',
+    tools: ['nerds'],
+    derive: (input) => {
+      if (!input.previous || !input.measurement) return undefined;
+      const stalled = input.analytics && input.analytics.assessmentCount >= 2
+        ? input.analytics.trend !== 'improving'
+        : false;
+      return stalled || input.measurement.area >= input.previous.measurement.area;
+    },
+  },
+  {
+    id: 'exudate',
+    label: 'Exudate increased',
+    hint: 'Moderate or heavy exudate',
+    tools: ['nerds', 'stonees'],
+    derive: exudative,
+  },
+  {
+    id: 'red_friable',
+    label: 'Red, friable granulation',
+    hint: 'Bright red tissue that bleeds easily',
+    tools: ['nerds'],
+  },
+  {
+    id: 'debris',
+    label: 'Debris',
+    hint: 'Slough or necrotic tissue in the bed',
+    tools: ['nerds'],
+    derive: (input) => input.tissueTypes
+      ? input.tissueTypes.slough + input.tissueTypes.necrotic + (input.tissueTypes.eschar ?? 0) > 0
+      : undefined,
+  },
+  {
+    id: 'smell',
+    label: 'Smell',
+    hint: 'Unpleasant odour after cleansing',
+    tools: ['nerds', 'stonees'],
+    derive: malodorous,
+  },
+  {
+    id: 'size_bigger',
+    label: 'Size bigger',
+    hint: 'Larger than at the last assessment',
+    tools: ['stonees'],
+    derive: areaIncreased,
+  },
+  {
+    id: 'temperature',
+    label: 'Temperature increased',
+    hint: 'Peri-wound skin warmer than the other side',
+    tools: ['stonees'],
+    derive: (input) => input.inflammationSigns ? input.inflammationSigns.includes('warmth') : undefined,
+  },
+  {
+    id: 'os',
+    label: 'Os (probes to bone)',
+    hint: 'Bone exposed or reached by the probe',
+    tools: ['stonees'],
+  },
+  {
+    id: 'new_breakdown',
+    label: 'New areas of breakdown',
+    hint: 'Satellite lesions or new skin loss',
+    tools: ['stonees'],
+  },
+  {
+    id: 'erythema_oedema',
+    label: 'Erythema / oedema',
+    hint: 'Redness or swelling around the wound',
+    tools: ['stonees'],
+    derive: (input) => {
+      const signs = input.inflammationSigns?.some(s => s === 'erythema' || s === 'swelling');
+      const skin = input.periWoundCondition?.some(c => c === 'erythematous' || c === 'oedematous');
+      if (signs || skin) return true;
+      return input.inflammationSigns !== undefined ? false : undefined;
+    },
+  },
+];
+
+// ============================================
+// Screening
+// ============================================
+
+/**
+ * Trends that support the screen but are not scored in it
+ */
+export function infectionSignals(input: InfectionScreenInput): string[] {
+  const signals: string[] = [];
+  const { previous } = input;
+
+  if (previous && input.measurement && previous.measurement.area > 0) {
+    const change = ((input.measurement.area - previous.measurement.area) / previous.measurement.area) * 100;
+    if (change > 0) signals.push(`Area up ${change.toFixed(0)}% since the last assessment`);
+  }
+  if (input.analytics?.trend === 'worsening') {
+    signals.push('Healing trend worsening');
+  }
+  if (previous?.pain !== undefined && input.pain !== undefined && input.pain > previous.pain) {
+    signals.push(`Pain rising (${previous.pain} to ${input.pain}/10)`);
+  } else if (input.inflammationSigns?.includes('increasing_pain')) {
+    signals.push('Increasing pain reported');
+  }
+  if (previous?.odor && input.odor && ODOR_LEVELS[input.odor] > ODOR_LEVELS[previous.odor]) {
+    signals.push(`Odour worsening (${previous.odor} to ${input.odor})`);
+  }
+  if (input.exudate?.type === 'purulent') {
+    signals.push('Purulent exudate');
+  }
+
+  return signals;
+}
+
+/**
+ * Items that can be answered automatically from the assessment
+ */
+export function deriveInfectionScreenItems(input: InfectionScreenInput): Record<string, boolean> {
+  const derived: Record<string, boolean> = {};
+  INFECTION_SCREEN_ITEMS.forEach(item => {
+    const present = item.derive?.(input);
+    if (present !== undefined) derived[item.id] = present;
+  });
+  return derived;
+}
+
+/**
+ * Combine derived items with clinician answers (which take precedence).
+ * A screen is positive as soon as three criteria are present, even with
+ * items still unanswered.
+ */
+export function computeInfectionScreen(
+  input: InfectionScreenInput,
+  responses: Record<string, boolean> = {}
+): InfectionScreen {
+  const derived = deriveInfectionScreenItems(input);
+  const items: InfectionScreenItemResult[] = [];
+  const missingItems: string[] = [];
+
+  INFECTION_SCREEN_ITEMS.forEach(item => {
+    if (responses[item.id] !== undefined) {
+      items.push({ itemId: item.id, present: responses[item.id], source: 'clinician' });
+    } else if (derived[item.id] !== undefined) {
+      items.push({ itemId: item.id, present: derived[item.id], source: 'auto' });
+    } else {
+      missingItems.push(item.id);
+    }
+  });
+
+  const totalFor = (tool: InfectionScreenTool) => items.filter(result =>
+    result.present && INFECTION_SCREEN_ITEMS.find(item => item.id === result.itemId)?.tools.includes(tool)
+  ).length;
+  const totals = { nerds: totalFor('nerds'), stonees: totalFor('stonees') };
+
+  const risk: InfectionRisk = totals.stonees >= INFECTION_SCREEN_SPEC.positiveThreshold
+    ? 'deep'
+    : totals.nerds >= INFECTION_SCREEN_SPEC.positiveThreshold ? 'superficial' : 'none';
+
+  return {
+    items,
+    totals,
+    missingItems,
+    complete: missingItems.length === 0,
+    risk,
+    signals: infectionSignals(input),
+    screenedAt: new Date(),
+  };
+}
+
+export const isInfectionScreenPositive = (screen: InfectionScreen | undefined): boolean =>
+  screen !== undefined && screen.risk !== 'none';
+
+/**
+ * One-line summary of a stored screen, e.g. for reports
+ */
+export function formatInfectionScreen(screen: InfectionScreen): string {
+  const totals = `NERDS ${screen.totals.nerds}/5, STONEES ${screen.totals.stonees}/7`;
+  const pending = screen.complete
+    ? ''
+    : ` (${screen.missingItems.length} item${screen.missingItems.length === 1 ? '' : 's'} not answered)`;
+  return `${INFECTION_RISK_CONFIG[screen.risk].label}: ${totals}${pending}`;
+}
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import {
+  assessAnalgesicResponse,
+  checkAdministration,
+  getReassessmentPrompts,
+  isPainEscalating,
+} from './painReassessment';
+import { getScaleSeverity } from './painScales';
+import type { AnalgesicAdministration, AnalgesicDoseCalculation, DressingPainAssessment } from '@/types';
+
+const start = new Date(2026, 9, 1, 9, 0);
+const minutes = (n: number) => new Date(start.getTime() + n * 60000);
+
+const reading = (at: Date, score: number, links: Partial<DressingPainAssessment> = {}): DressingPainAssessment => ({
+  id: crypto.randomUUID(),
+  sessionId: '',
+  patientId: 'p1',
+  timestamp: at,
+  scaleUsed: 'NRS',
+  score,
+  maxScore: 10,
+  severity: getScaleSeverity('NRS', score),
+  painType: 'nociceptive',
+  painDuration: 'acute',
+  painContext: 'rest',
+  location: 'Left heel',
+  description: '',
+  aggravatingFactors: [],
+  relievingFactors: [],
+  proceduralPainAnticipated: false,
+  analgesiaGuidance: '',
+  createdAt: at,
+  ...links,
+});
+
+const dose = (id: string, at: Date, amount = 1000): AnalgesicAdministration => ({
+  id,
+  patientId: 'p1',
+  analgesicClass: 'paracetamol',
+  agent: 'Paracetamol',
+  route: 'oral',
+  dose: amount,
+  unit: 'mg',
+  administeredAt: at,
+  administeredBy: 'N. Nurse',
+  createdAt: at,
+});
+
+const paracetamol: AnalgesicDoseCalculation = {
+  class: 'paracetamol',
+  agent: 'Paracetamol',
+  route: 'oral',
+  unit: 'mg',
+  dose: 1000,
+  doseBasis: 'Adult',
+  frequency: 'Every 6 hours',
+  intervalHours: 6,
+  maxDailyDose: 4000,
+  adjustments: [],
+  hardStops: [],
+};
+
+describe('isPainEscalating', () => {
+  it('flags a sharp rise within a dressing session', () => {
+    expect(isPainEscalating([
+      reading(minutes(0), 3, { sessionId: 's1' }),
+      reading(minutes(20), 6, { sessionId: 's1' }),
+    ])).toBe(true);
+  });
+
+  it('does not compare readings from different sessions', () => {
+    expect(isPainEscalating([
+      reading(minutes(0), 3, { sessionId: 's1' }),
+      reading(minutes(60), 6, { sessionId: 's2' }),
+    ])).toBe(false);
+  });
+
+  it('compares unlinked readings only within the episode window', () => {
+    expect(isPainEscalating([reading(minutes(0), 2), reading(minutes(120), 5)])).toBe(true);
+    expect(isPainEscalating([reading(minutes(0), 2), reading(minutes(3 * 24 * 60), 5)])).toBe(false);
+  });
+
+  it('links a pre-dressing reading to the session readings that follow it', () => {
+    expect(isPainEscalating([
+      reading(minutes(0), 2),
+      reading(minutes(30), 5, { sessionId: 's1' }),
+    ])).toBe(true);
+  });
+
+  it('ignores a small rise or a fall', () => {
+    expect(isPainEscalating([reading(minutes(0), 4), reading(minutes(30), 5)])).toBe(false);
+    expect(isPainEscalating([reading(minutes(0), 8), reading(minutes(30), 2)])).toBe(false);
+  });
+
+  it('flags a dose that has not worked by its 60-minute check', () => {
+    expect(isPainEscalating([
+      reading(minutes(0), 7),
+      reading(minutes(35), 7, { administrationId: 'd1', reassessmentPoint: 'post_dose_30' }),
+      reading(minutes(65), 6, { administrationId: 'd1', reassessmentPoint: 'post_dose_60' }),
+    ])).toBe(true);
+  });
+
+  it('does not judge a dose against a reading from an earlier day', () => {
+    expect(isPainEscalating([
+      reading(minutes(-2 * 24 * 60), 8),
+      reading(minutes(35), 7, { administrationId: 'd1', reassessmentPoint: 'post_dose_30' }),
+      reading(minutes(65), 6, { administrationId: 'd1', reassessmentPoint: 'post_dose_60' }),
+    ])).toBe(false);
+  });
+});
+
+describe('assessAnalgesicResponse', () => {
+  it('counts a 30% fall as effective', () => {
+    expect(assessAnalgesicResponse(reading(minutes(0), 8), reading(minutes(60), 5))).toMatchObject({
+      reductionPercent: 38,
+      effective: true,
+    });
+    expect(assessAnalgesicResponse(reading(minutes(0), 8), reading(minutes(60), 7)).effective).toBe(false);
+  });
+});
+
+describe('getReassessmentPrompts', () => {
+  it('tracks each post-dose check from upcoming to overdue or done', () => {
+    const given = dose('d1', start);
+    const done = reading(minutes(32), 4, { administrationId: 'd1', reassessmentPoint: 'post_dose_30' });
+
+    const prompts = getReassessmentPrompts([given], [done], minutes(62));
+    expect(prompts.map(p => [p.point, p.status])).toEqual([
+      ['post_dose_30', 'done'],
+      ['post_dose_60', 'due'],
+    ]);
+    expect(getReassessmentPrompts([given], [], minutes(90))[1].status).toBe('overdue');
+    expect(getReassessmentPrompts([given], [], minutes(10))[0].status).toBe('upcoming');
+  });
+});
+
+describe('checkAdministration', () => {
+  it('accepts a dose within the calculated limits', () => {
+    expect(checkAdministration(paracetamol, [], 1000, start)).toEqual([]);
+  });
+
+  it('refuses a repeat before the minimum interval', () => {
+    const problems = checkAdministration(paracetamol, [dose('d1', start)], 1000, minutes(4 * 60));
+    expect(problems).toHaveLength(1);
+    expect(problems[0]).toMatch(/next is not due until/);
+  });
+
+  it('refuses a dose that takes the 24-hour total over the maximum', () => {
+    const earlier = [0, 6, 12, 18].map(h => dose(`d${h}`, minutes(h * 60 - 24 * 60 + 30)));
+    const problems = checkAdministration(paracetamol, earlier, 1000, start);
+    expect(problems.some(p => p.includes('exceeds the maximum'))).toBe(true);
+  });
+
+  it('refuses a dose above the calculated single dose', () => {
+    expect(checkAdministration(paracetamol, [], 1500, start)[0]).toMatch(/Above the calculated single dose/);
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * AstroWound-MEASURE Pain Reassessment
+ * Timed reassessment after analgesia, dose logging checks and pain trends
+ */
+
+import { format } from 'date-fns';
+import type {
+  AnalgesicAdministration,
+  AnalgesicDoseCalculation,
+  DressingPainAssessment,
+  PainContext,
+  PainReassessmentPoint,
+  PainScaleItemScore,
+  PainScaleType,
+  PainSeverity,
+} from '@/types';
+import { PAIN_SCALES } from './clinicalConstants';
+import { getScaleSeverity, normalizePainScore } from './painScales';
+
+export const REASSESSMENT_SPEC = {
+  dueWindowMinutes: 15,        // a prompt turns overdue this long after it falls due
+  effectiveReduction: 30,      // % fall from the pre-dose score that counts as effective
+  escalationRise: 2,           // rise on the 0-10 scale between readings that needs review
+  episodeWindowHours: 6,       // unlinked readings further apart are not compared
+};
+
+export const REASSESSMENT_POINTS: Record<PainReassessmentPoint, {
+  label: string;
+  analgesiaTiming: NonNullable<DressingPainAssessment['analgesiaTiming']>;
+  painContext?: PainContext;
+  minutesAfterDose?: number;
+}> = {
+  baseline: { label: 'Baseline', analgesiaTiming: 'none' },
+  post_dose_30: { label: '30 min after dose', analgesiaTiming: 'pre-procedure', minutesAfterDose: 30 },
+  post_dose_60: { label: '60 min after dose', analgesiaTiming: 'pre-procedure', minutesAfterDose: 60 },
+  during_dressing: { label: 'During dressing', analgesiaTiming: 'during', painContext: 'procedural' },
+  post_dressing: { label: 'After dressing', analgesiaTiming: 'post' },
+};
+
+export interface ReassessmentPrompt {
+  administration: AnalgesicAdministration;
+  point: PainReassessmentPoint;
+  dueAt: Date;
+  status: 'upcoming' | 'due' | 'overdue' | 'done';
+  assessment?: DressingPainAssessment;
+}
+
+export interface PainSeriesPoint {
+  id: string;
+  at: Date;
+  time: number;
+  score: number;               // 0-10, comparable across scales
+  rawScore: number;
+  maxScore: number;
+  scale: PainScaleType;
+  severity: PainSeverity;
+  label: string;
+  sessionId?: string;
+}
+
+const MINUTE = 60000;
+const HOUR = 60 * MINUTE;
+
+const byTime = (a: DressingPainAssessment, b: DressingPainAssessment) =>
+  new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+
+const normalized = (assessment: DressingPainAssessment) =>
+  normalizePainScore(assessment.scaleUsed, assessment.score, assessment.maxScore);
+
+/**
+ * Whether two readings belong to the same episode of care: the same dose,
+ * the same dressing session, or close together when neither says otherwise
+ */
+const sameEpisode = (a: DressingPainAssessment, b: DressingPainAssessment) => {
+  if (a.administrationId && a.administrationId === b.administrationId) return true;
+  if (a.sessionId && b.sessionId) return a.sessionId === b.sessionId;
+  const apart = Math.abs(new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  return apart <= REASSESSMENT_SPEC.episodeWindowHours * HOUR;
+};
+
+// ============================================
+// Reassessment Prompts
+// ============================================
+
+/**
+ * Post-dose reassessments for each logged dose, with whether each has been
+ * done, is coming up, due now or overdue
+ */
+export function getReassessmentPrompts(
+  administrations: AnalgesicAdministration[],
+  assessments: DressingPainAssessment[],
+  now: Date = new Date()
+): ReassessmentPrompt[] {
+  const points = (Object.keys(REASSESSMENT_POINTS) as PainReassessmentPoint[])
+    .filter(point => REASSESSMENT_POINTS[point].minutesAfterDose !== undefined);
+
+  return administrations.flatMap(administration => points.map((point): ReassessmentPrompt => {
+    const dueAt = new Date(
+      new Date(administration.administeredAt).getTime() + REASSESSMENT_POINTS[point].minutesAfterDose! * MINUTE
+    );
+    const assessment = assessments.find(a => a.administrationId === administration.id && a.reassessmentPoint === point);
+    const status = assessment ? 'done'
+      : now < dueAt ? 'upcoming'
+      : now.getTime() <= dueAt.getTime() + REASSESSMENT_SPEC.dueWindowMinutes * MINUTE ? 'due'
+      : 'overdue';
+    return { administration, point, dueAt, status, assessment };
+  })).sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+}
+
+/**
+ * A reassessment reading, carrying the pain description over from the
+ * assessment it follows
+ */
+export function buildReassessment(
+  reading: { scale: PainScaleType; score: number; itemScores?: PainScaleItemScore[] },
+  point: PainReassessmentPoint,
+  links: {
+    patientId?: string;
+    sessionId?: string;
+    planId?: string;
+    administrationId?: string;
+    baseline?: DressingPainAssessment;
+  },
+  at: Date = new Date()
+): DressingPainAssessment {
+  const { baseline } = links;
+  const config = REASSESSMENT_POINTS[point];
+  return {
+    id: crypto.randomUUID(),
+    sessionId: links.sessionId ?? baseline?.sessionId ?? '',
+    patientId: links.patientId ?? baseline?.patientId,
+    timestamp: at,
+    scaleUsed: reading.scale,
+    score: reading.score,
+    maxScore: PAIN_SCALES[reading.scale].maxScore,
+    severity: getScaleSeverity(reading.scale, reading.score),
+    painType: baseline?.painType ?? 'nociceptive',
+    painDuration: baseline?.painDuration ?? 'acute',
+    painContext: config.painContext ?? baseline?.painContext ?? 'rest',
+    location: baseline?.location ?? '',
+    description: config.label,
+    aggravatingFactors: [],
+    relievingFactors: [],
+    proceduralPainAnticipated: baseline?.proceduralPainAnticipated ?? false,
+    analgesiaTiming: config.analgesiaTiming,
+    analgesiaClass: baseline?.analgesiaClass,
+    analgesiaGuidance: baseline?.analgesiaGuidance ?? '',
+    itemScores: reading.itemScores,
+    planId: links.planId,
+    administrationId: links.administrationId,
+    reassessmentPoint: point,
+    createdAt: at,
+  };
+}
+
+// ============================================
+// Dose Logging
+// ============================================
+
+/**
+ * Reasons a dose should not be logged as given: hard stops, a dose above
+ * the calculated single dose, the daily maximum over the last 24 hours,
+ * or a repeat before the minimum interval
+ */
+export function checkAdministration(
+  dosing: AnalgesicDoseCalculation,
+  previous: AnalgesicAdministration[],
+  dose: number,
+  at: Date = new Date()
+): string[] {
+  const problems = [...dosing.hardStops];
+  if (!(dose > 0)) problems.push('Enter the dose given');
+  if (dosing.dose !== undefined && dose > dosing.dose) {
+    problems.push(`Above the calculated single dose of ${dosing.dose} ${dosing.unit}`);
+  }
+
+  const earlier = previous
+    .filter(a => a.analgesicClass === dosing.class && a.unit === dosing.unit)
+    .map(a => ({ ...a, time: new Date(a.administeredAt).getTime() }))
+    .filter(a => a.time <= at.getTime());
+
+  if (dosing.maxDailyDose !== undefined) {
+    const total = earlier
+      .filter(a => a.time > at.getTime() - 24 * HOUR)
+      .reduce((sum, a) => sum + a.dose, dose);
+    if (total > dosing.maxDailyDose) {
+      problems.push(`${total} ${dosing.unit} in 24 hours exceeds the maximum of ${dosing.maxDailyDose} ${dosing.unit}/day`);
+    }
+  }
+
+  if (dosing.intervalHours !== undefined && earlier.length > 0) {
+    const last = Math.max(...earlier.map(a => a.time));
+    const nextDue = last + dosing.intervalHours * HOUR;
+    if (at.getTime() < nextDue) {
+      problems.push(`Last dose given at ${format(last, 'HH:mm')}; the next is not due until ${format(nextDue, 'HH:mm')}`);
+    }
+  }
+
+  return problems;
+}
+
+// ============================================
+// Response & Trends
+// ============================================
+
+/**
+ * Change between a pre-dose and a later reading, on the 0-10 scale
+ */
+export function assessAnalgesicResponse(
+  before: DressingPainAssessment,
+  after: DressingPainAssessment
+): { before: number; after: number; reductionPercent: number; effective: boolean } {
+  const start = normalized(before);
+  const end = normalized(after);
+  const reductionPercent = start > 0 ? Math.round(((start - end) / start) * 100) : 0;
+  return {
+    before: start,
+    after: end,
+    reductionPercent,
+    effective: after.severity === 'none' || reductionPercent >= REASSESSMENT_SPEC.effectiveReduction,
+  };
+}
+
+/**
+ * Readings in time order, rescaled to 0-10 for charting
+ */
+export function getPainSeries(assessments: DressingPainAssessment[]): PainSeriesPoint[] {
+  return [...assessments].sort(byTime).map(assessment => ({
+    id: assessment.id,
+    at: new Date(assessment.timestamp),
+    time: new Date(assessment.timestamp).getTime(),
+    score: normalized(assessment),
+    rawScore: assessment.score,
+    maxScore: assessment.maxScore,
+    scale: assessment.scaleUsed,
+    severity: assessment.severity,
+    label: assessment.reassessmentPoint ? REASSESSMENT_POINTS[assessment.reassessmentPoint].label : 'Assessment',
+    sessionId: assessment.sessionId || undefined,
+  }));
+}
+
+/**
+ * Pain needs review when the latest reading has risen sharply since the one
+ * before it in the same episode, or when a dose has not worked by its
+ * 60-minute check and pain is still moderate or worse
+ */
+export function isPainEscalating(history: DressingPainAssessment[]): boolean {
+  const series = [...history].sort(byTime);
+  if (series.length < 2) return false;
+
+  const latest = series[series.length - 1];
+  const previous = series[series.length - 2];
+  if (
+    sameEpisode(previous, latest) &&
+    normalized(latest) - normalized(previous) >= REASSESSMENT_SPEC.escalationRise
+  ) return true;
+
+  if (latest.reassessmentPoint === 'post_dose_60' && latest.administrationId) {
+    const firstAfterDose = series.findIndex(a => a.administrationId === latest.administrationId);
+    const preDose = series[firstAfterDose - 1];
+    if (preDose && sameEpisode(preDose, latest) && (latest.severity === 'moderate' || latest.severity === 'severe')) {
+      return !assessAnalgesicResponse(preDose, latest).effective;
+    }
+  }
+
+  return false;
+}
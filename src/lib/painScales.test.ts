@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PAIN_SCALE_ITEMS,
+  getScaleMinimum,
+  getScaleSeverity,
+  isItemisedPainScale,
+  normalizePainScore,
+  scorePainScaleItems,
+} from './painScales';
+import { PAIN_SCALES } from './clinicalConstants';
+import type { PainScaleType } from '@/types';
+
+const ITEMISED: PainScaleType[] = ['FLACC', 'BPS', 'CPOT', 'WONG_BAKER'];
+
+// Highest option on every item of a scale
+const worst = (scale: PainScaleType) =>
+  Object.fromEntries(PAIN_SCALE_ITEMS[scale]!.map(item => [item.id, Math.max(...item.options.map(o => o.score))]));
+
+describe('scorePainScaleItems', () => {
+  it.each(ITEMISED)('%s totals to the published maximum', (scale) => {
+    const result = scorePainScaleItems(scale, worst(scale));
+
+    expect(result.score).toBe(PAIN_SCALES[scale].maxScore);
+    expect(result.complete).toBe(true);
+  });
+
+  it('sums FLACC items and keeps each descriptor', () => {
+    const result = scorePainScaleItems('FLACC', { face: 1, legs: 2, activity: 0, cry: 1, consolability: 0 });
+
+    expect(result.score).toBe(4);
+    expect(result.itemScores.find(i => i.itemId === 'legs')).toEqual({
+      itemId: 'legs',
+      label: 'Legs',
+      score: 2,
+      descriptor: 'Kicking, or legs drawn up',
+    });
+  });
+
+  it('is incomplete until every item is answered, and ignores scores no option offers', () => {
+    const result = scorePainScaleItems('CPOT', { facial_expression: 1, body_movements: 7 });
+
+    expect(result.complete).toBe(false);
+    expect(result.itemScores.map(i => i.itemId)).toEqual(['facial_expression']);
+    expect(result.score).toBe(1);
+  });
+
+  it('only itemises the behavioural scales and the faces', () => {
+    expect(ITEMISED.every(isItemisedPainScale)).toBe(true);
+    expect(isItemisedPainScale('NRS')).toBe(false);
+    expect(scorePainScaleItems('NRS', {}).complete).toBe(false);
+  });
+});
+
+describe('severity and normalisation', () => {
+  it('starts BPS at 3 with no pain', () => {
+    expect(getScaleMinimum('BPS')).toBe(3);
+    expect(getScaleSeverity('BPS', 3)).toBe('none');
+    expect(getScaleSeverity('BPS', 6)).toBe('moderate');
+    expect(normalizePainScore('BPS', 3, 12)).toBe(0);
+    expect(normalizePainScore('BPS', 12, 12)).toBe(10);
+  });
+
+  it('treats CPOT above 2 as unacceptable pain', () => {
+    expect(getScaleSeverity('CPOT', 2)).toBe('mild');
+    expect(getScaleSeverity('CPOT', 3)).toBe('moderate');
+  });
+
+  it('puts VAS millimetres on the 0-10 scale', () => {
+    expect(normalizePainScore('VAS', 45, 100)).toBe(4.5);
+    expect(getScaleSeverity('VAS', 70)).toBe('severe');
+  });
+});
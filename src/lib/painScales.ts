@@ -0,0 +1,229 @@
+/**
+ * AstroWound-MEASURE Pain Scale Scoring
+ * Item-by-item behavioral scales (FLACC, BPS, CPOT) and the Wong-Baker faces
+ */
+
+import type { PainScaleItemScore, PainScaleType, PainSeverity } from '@/types';
+
+export interface PainScaleOption {
+  score: number;
+  descriptor: string;
+}
+
+export interface PainScaleItemDefinition {
+  id: string;
+  label: string;
+  options: PainScaleOption[];
+}
+
+// ============================================
+// Instruments
+// ============================================
+
+export const PAIN_SCALE_ITEMS: Partial<Record<PainScaleType, PainScaleItemDefinition[]>> = {
+  FLACC: [
+    {
+      id: 'face',
+      label: 'Face',
+      options: [
+        { score: 0, descriptor: 'No particular expression or smile' },
+        { score: 1, descriptor: 'Occasional grimace or frown, withdrawn, disinterested' },
+        { score: 2, descriptor: 'Frequent to constant quivering chin, clenched jaw' },
+      ],
+    },
+    {
+      id: 'legs',
+      label: 'Legs',
+      options: [
+        { score: 0, descriptor: 'Normal position or relaxed' },
+        { score: 1, descriptor: 'Uneasy, restless, tense' },
+        { score: 2, descriptor: 'Kicking, or legs drawn up' },
+      ],
+    },
+    {
+      id: 'activity',
+      label: 'Activity',
+      options: [
+        { score: 0, descriptor: 'Lying quietly, normal position, moves easily' },
+        { score: 1, descriptor: 'Squirming, shifting back and forth, tense' },
+        { score: 2, descriptor: 'Arched, rigid or jerking' },
+      ],
+    },
+    {
+      id: 'cry',
+      label: 'Cry',
+      options: [
+        { score: 0, descriptor: 'No cry (awake or asleep)' },
+        { score: 1, descriptor: 'Moans or whimpers, occasional complaint' },
+        { score: 2, descriptor: 'Crying steadily, screams or sobs, frequent complaints' },
+      ],
+    },
+    {
+      id: 'consolability',
+      label: 'Consolability',
+      options: [
+        { score: 0, descriptor: 'Content, relaxed' },
+        { score: 1, descriptor: 'Reassured by occasional touching, hugging or talking to; distractible' },
+        { score: 2, descriptor: 'Difficult to console or comfort' },
+      ],
+    },
+  ],
+  BPS: [
+    {
+      id: 'facial_expression',
+      label: 'Facial expression',
+      options: [
+        { score: 1, descriptor: 'Relaxed' },
+        { score: 2, descriptor: 'Partially tightened (e.g. brow lowering)' },
+        { score: 3, descriptor: 'Fully tightened (e.g. eyelid closing)' },
+        { score: 4, descriptor: 'Grimacing' },
+      ],
+    },
+    {
+      id: 'upper_limbs',
+      label: 'Upper limbs',
+      options: [
+        { score: 1, descriptor: 'No movement' },
+        { score: 2, descriptor: 'Partially bent' },
+        { score: 3, descriptor: 'Fully bent with finger flexion' },
+        { score: 4, descriptor: 'Permanently retracted' },
+      ],
+    },
+    {
+      id: 'ventilation',
+      label: 'Compliance with ventilation',
+      options: [
+        { score: 1, descriptor: 'Tolerating movement' },
+        { score: 2, descriptor: 'Coughing but tolerating ventilation most of the time' },
+        { score: 3, descriptor: 'Fighting ventilator' },
+        { score: 4, descriptor: 'Unable to control ventilation' },
+      ],
+    },
+  ],
+  CPOT: [
+    {
+      id: 'facial_expression',
+      label: 'Facial expression',
+      options: [
+        { score: 0, descriptor: 'Relaxed, neutral' },
+        { score: 1, descriptor: 'Tense (frowning, brow lowering, orbit tightening)' },
+        { score: 2, descriptor: 'Grimacing (all of the above plus eyelids tightly closed)' },
+      ],
+    },
+    {
+      id: 'body_movements',
+      label: 'Body movements',
+      options: [
+        { score: 0, descriptor: 'Absence of movements or normal position' },
+        { score: 1, descriptor: 'Protection (slow, cautious movements, touching the pain site)' },
+        { score: 2, descriptor: 'Restlessness, agitation, pulling at tubes' },
+      ],
+    },
+    {
+      id: 'muscle_tension',
+      label: 'Muscle tension',
+      options: [
+        { score: 0, descriptor: 'Relaxed (no resistance to passive movements)' },
+        { score: 1, descriptor: 'Tense, rigid' },
+        { score: 2, descriptor: 'Very tense or rigid' },
+      ],
+    },
+    {
+      id: 'ventilator_or_vocalization',
+      label: 'Ventilator compliance (intubated) or vocalization (extubated)',
+      options: [
+        { score: 0, descriptor: 'Tolerating ventilator or movement / talking in normal tone or no sound' },
+        { score: 1, descriptor: 'Coughing but tolerating / sighing, moaning' },
+        { score: 2, descriptor: 'Fighting ventilator / crying out, sobbing' },
+      ],
+    },
+  ],
+  WONG_BAKER: [
+    {
+      id: 'face',
+      label: 'Face chosen',
+      options: [
+        { score: 0, descriptor: 'No hurt' },
+        { score: 2, descriptor: 'Hurts little bit' },
+        { score: 4, descriptor: 'Hurts little more' },
+        { score: 6, descriptor: 'Hurts even more' },
+        { score: 8, descriptor: 'Hurts whole lot' },
+        { score: 10, descriptor: 'Hurts worst' },
+      ],
+    },
+  ],
+};
+
+/**
+ * Lowest score at which each severity starts, per scale. BPS bottoms out
+ * at 3 (no pain); BPS > 5 and CPOT > 2 indicate unacceptable pain.
+ */
+export const PAIN_SCALE_SEVERITY_BANDS: Record<PainScaleType, Record<Exclude<PainSeverity, 'none'>, number>> = {
+  NRS: { mild: 1, moderate: 4, severe: 7 },
+  VAS: { mild: 1, moderate: 40, severe: 70 },
+  FLACC: { mild: 1, moderate: 4, severe: 7 },
+  WONG_BAKER: { mild: 1, moderate: 4, severe: 7 },
+  BPS: { mild: 4, moderate: 6, severe: 9 },
+  CPOT: { mild: 1, moderate: 3, severe: 6 },
+};
+
+// ============================================
+// Scoring
+// ============================================
+
+export const isItemisedPainScale = (scale: PainScaleType): boolean => PAIN_SCALE_ITEMS[scale] !== undefined;
+
+/**
+ * Severity for a score on the given scale
+ */
+export function getScaleSeverity(scale: PainScaleType, score: number): PainSeverity {
+  const bands = PAIN_SCALE_SEVERITY_BANDS[scale];
+  if (score >= bands.severe) return 'severe';
+  if (score >= bands.moderate) return 'moderate';
+  if (score >= bands.mild) return 'mild';
+  return 'none';
+}
+
+/**
+ * Total and item breakdown from the selected option scores, keyed by item id
+ */
+export function scorePainScaleItems(
+  scale: PainScaleType,
+  responses: Record<string, number>
+): { score: number; complete: boolean; itemScores: PainScaleItemScore[] } {
+  const items = PAIN_SCALE_ITEMS[scale] ?? [];
+  const itemScores = items.flatMap(item => {
+    const option = item.options.find(o => o.score === responses[item.id]);
+    return option
+      ? [{ itemId: item.id, label: item.label, score: option.score, descriptor: option.descriptor }]
+      : [];
+  });
+
+  return {
+    score: itemScores.reduce((sum, item) => sum + item.score, 0),
+    complete: items.length > 0 && itemScores.length === items.length,
+    itemScores,
+  };
+}
+
+/**
+ * Lowest possible total; itemised scales sum their lowest options (BPS
+ * starts at 3)
+ */
+export function getScaleMinimum(scale: PainScaleType): number {
+  return (PAIN_SCALE_ITEMS[scale] ?? []).reduce(
+    (sum, item) => sum + Math.min(...item.options.map(o => o.score)),
+    0
+  );
+}
+
+/**
+ * Score rescaled to 0-10, so readings on different scales can be charted
+ * and compared
+ */
+export function normalizePainScore(scale: PainScaleType, score: number, maxScore: number): number {
+  const min = getScaleMinimum(scale);
+  if (maxScore <= min) return 0;
+  const normalized = ((score - min) / (maxScore - min)) * 10;
+  return Math.round(Math.min(10, Math.max(0, normalized)) * 10) / 10;
+}
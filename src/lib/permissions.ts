@@ -0,0 +1,74 @@
+/**
+ * AstroWound-MEASURE Roles & Permissions
+ * What each clinician role may do on a shared device
+ */
+
+import type { Permission, UserAccount, UserIdentity, UserRole } from '@/types';
+import { ENCRYPTION_SPEC, hashPin, randomBytes } from './encryption';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  nurse: 'Nurse',
+  wound_specialist: 'Wound Specialist',
+  physician: 'Physician',
+  admin: 'Administrator',
+};
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  nurse: [],
+  wound_specialist: ['verify_assessment', 'amend_assessment', 'view_audit'],
+  physician: ['verify_assessment', 'amend_assessment', 'delete_patient', 'view_audit'],
+  // Small clinics often have one account, so admins keep clinical rights
+  admin: ['verify_assessment', 'amend_assessment', 'delete_patient', 'clear_data', 'manage_users', 'view_audit'],
+};
+
+/**
+ * Thrown when the signed-in user's role does not allow an action
+ */
+export class PermissionDeniedError extends Error {
+  constructor(public permission: Permission) {
+    super(`Your role does not allow this action (${permission.replace(/_/g, ' ')})`);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+export function hasPermission(user: UserIdentity | null, permission: Permission): boolean {
+  return !!user && ROLE_PERMISSIONS[user.role].includes(permission);
+}
+
+export function assertPermission(user: UserIdentity | null, permission: Permission): asserts user is UserIdentity {
+  if (!hasPermission(user, permission)) throw new PermissionDeniedError(permission);
+}
+
+/**
+ * Name as recorded in capturedBy, verifiedBy and similar fields
+ */
+export function formatUserIdentity(user: UserIdentity): string {
+  return user.credentials ? `${user.displayName}, ${user.credentials}` : user.displayName;
+}
+
+export function toUserIdentity(user: UserIdentity): UserIdentity {
+  return { id: user.id, displayName: user.displayName, credentials: user.credentials, role: user.role };
+}
+
+export async function hashUserPin(pin: string): Promise<UserAccount['pin']> {
+  const salt = randomBytes(ENCRYPTION_SPEC.saltBytes);
+  const iterations = ENCRYPTION_SPEC.pinIterations;
+  return { salt, hash: await hashPin(pin, salt, iterations), iterations };
+}
+
+export async function buildUserAccount(
+  details: Omit<UserIdentity, 'id'>,
+  pin: string
+): Promise<UserAccount> {
+  const now = new Date();
+  return {
+    id: crypto.randomUUID(),
+    displayName: details.displayName.trim(),
+    credentials: details.credentials?.trim() || undefined,
+    role: details.role,
+    pin: await hashUserPin(pin),
+    active: true,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
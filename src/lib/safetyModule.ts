@@ -12,6 +12,7 @@ import type {
   PainPatientInfo,
   ComorbidityEntry,
 } from '@/types';
+import { isPainEscalating } from './painReassessment';
 
 /**
  * Generate comprehensive monitoring plan based on analgesic recommendations and patient factors
@@ -282,16 +283,21 @@ export function getRedFlagBadge(severity: RedFlag['severity']): {
 }
 
 /**
- * Check if monitoring frequency should be increased
+ * Check if monitoring frequency should be increased. `history` holds the
+ * patient's earlier pain readings and reassessments.
  */
 export function shouldIncreaseMonitoring(
   assessment: DressingPainAssessment,
   riskFlags: RiskFlag[],
-  patient: PainPatientInfo
+  patient: PainPatientInfo,
+  history: DressingPainAssessment[] = []
 ): boolean {
   // Increase monitoring for severe pain
   if (assessment.severity === 'severe') return true;
 
+  // Increase when pain is rising or analgesia has not worked
+  if (isPainEscalating([...history.filter(a => a.id !== assessment.id), assessment])) return true;
+
   // Increase for elderly patients on opioids
   if (patient.category === 'elderly') return true;
 
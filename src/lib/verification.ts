@@ -0,0 +1,106 @@
+/**
+ * AstroWound-MEASURE Verification
+ * E-signatures, the post-verification lock and amendment records
+ */
+
+import { format } from 'date-fns';
+import type {
+  AssessmentAmendment,
+  AuditFieldChange,
+  ESignature,
+  SignatureMethod,
+  UserIdentity,
+  WoundAssessment,
+} from '@/types';
+import { diffRecords } from './audit';
+import { deserializeRecord, serializeRecord } from './encryption';
+import { formatUserIdentity } from './permissions';
+
+export const SIGNATURE_MEANINGS = {
+  verification: 'Reviewed and verified',
+  amendment: 'Amended after verification',
+  report: 'Report reviewed and signed',
+} as const;
+
+export const SIGNATURE_METHOD_LABELS: Record<SignatureMethod, string> = {
+  drawn: 'drawn signature',
+  pin: 'PIN',
+};
+
+// Fields that may change on a verified assessment without an amendment
+const UNLOCKED_PATHS = ['amendments'];
+
+/**
+ * Raised when a verified assessment is saved with changes but no new
+ * amendment record
+ */
+export class AssessmentLockedError extends Error {
+  constructor() {
+    super('This assessment has been verified; record an amendment to change it');
+    this.name = 'AssessmentLockedError';
+  }
+}
+
+export function createSignature(
+  user: UserIdentity,
+  method: SignatureMethod,
+  meaning: string,
+  image?: string
+): ESignature {
+  return {
+    signerUserId: user.id,
+    signerName: formatUserIdentity(user),
+    method,
+    meaning,
+    signedAt: new Date(),
+    image: method === 'drawn' ? image : undefined,
+  };
+}
+
+/**
+ * One-line statement of a signature for screens and PDFs
+ */
+export function formatSignature(signature: ESignature): string {
+  return `Electronically signed by ${signature.signerName} on ${format(new Date(signature.signedAt), 'MMM d, yyyy HH:mm')} (${SIGNATURE_METHOD_LABELS[signature.method]}) - ${signature.meaning}`;
+}
+
+export const isAssessmentLocked = (assessment: WoundAssessment | undefined): boolean =>
+  assessment?.clinicianVerified === true;
+
+/**
+ * Field changes between the stored copy and an update, excluding the
+ * amendment history. The update is round-tripped through the storage
+ * encoding first so in-memory ImageData and Dates compare like stored ones.
+ */
+export function assessmentChanges(stored: WoundAssessment, next: WoundAssessment): AuditFieldChange[] {
+  const normalized = deserializeRecord<WoundAssessment>(serializeRecord(next).buffer);
+  return diffRecords(stored, normalized).filter(
+    change => !UNLOCKED_PATHS.some(path => change.path === path || change.path.startsWith(`${path}.`))
+  );
+}
+
+export function assertAssessmentEditable(stored: WoundAssessment | undefined, next: WoundAssessment): void {
+  if (!stored || !isAssessmentLocked(stored)) return;
+  if (assessmentChanges(stored, next).length === 0) return;
+  if ((next.amendments?.length ?? 0) > (stored.amendments?.length ?? 0)) return;
+  throw new AssessmentLockedError();
+}
+
+/**
+ * Apply edits to a verified assessment, recording the field changes, the
+ * reason and the signature as an amendment. The verification itself
+ * stands; the amendment sits alongside it.
+ */
+export function amendAssessment(
+  stored: WoundAssessment,
+  edited: WoundAssessment,
+  amendment: { amendedBy: string; amendedByUserId?: string; reason: string; signature?: ESignature }
+): WoundAssessment {
+  const record: AssessmentAmendment = {
+    id: crypto.randomUUID(),
+    amendedAt: new Date(),
+    ...amendment,
+    changes: assessmentChanges(stored, edited),
+  };
+  return { ...edited, amendments: [...(stored.amendments ?? []), record] };
+}
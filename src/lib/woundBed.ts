@@ -0,0 +1,129 @@
+/**
+ * AstroWound-MEASURE Wound Bed Assessment
+ * TIME framework options, report lines and trend levels
+ */
+
+import type {
+  ExudateAmount,
+  ExudateType,
+  InflammationSign,
+  PeriWoundCondition,
+  TissueType,
+  WoundAssessment,
+  WoundEdgeCondition,
+  WoundOdor,
+} from '@/types';
+
+export const EXUDATE_AMOUNT_LABELS: Record<ExudateAmount, string> = {
+  none: 'None',
+  light: 'Light',
+  moderate: 'Moderate',
+  heavy: 'Heavy',
+};
+
+export const EXUDATE_TYPE_LABELS: Record<ExudateType, string> = {
+  serous: 'Serous',
+  sanguineous: 'Sanguineous',
+  serosanguineous: 'Serosanguineous',
+  purulent: 'Purulent',
+};
+
+export const ODOR_LABELS: Record<WoundOdor, string> = {
+  none: 'None',
+  mild: 'Mild',
+  moderate: 'Moderate',
+  strong: 'Strong',
+};
+
+export const INFLAMMATION_SIGN_LABELS: Record<InflammationSign, string> = {
+  erythema: 'Erythema',
+  warmth: 'Warmth',
+  swelling: 'Swelling',
+  induration: 'Induration',
+  increasing_pain: 'Increasing pain',
+};
+
+export const WOUND_EDGE_LABELS: Record<WoundEdgeCondition, string> = {
+  attached: 'Attached',
+  unattached: 'Unattached',
+  rolled: 'Rolled (epibole)',
+  undermined: 'Undermined',
+  epithelialising: 'Epithelialising',
+  hyperkeratotic: 'Hyperkeratotic',
+};
+
+export const PERIWOUND_LABELS: Record<PeriWoundCondition, string> = {
+  intact: 'Intact',
+  macerated: 'Macerated',
+  excoriated: 'Excoriated',
+  erythematous: 'Erythematous',
+  dry_scaly: 'Dry / scaly',
+  callused: 'Callused',
+  oedematous: 'Oedematous',
+  discoloured: 'Discoloured',
+};
+
+const TISSUE_TYPE_LABELS: Record<TissueType, string> = {
+  epithelial: 'Epithelial',
+  granulation: 'Granulation',
+  slough: 'Slough',
+  necrotic: 'Necrotic',
+  eschar: 'Eschar',
+};
+
+// Ordinal levels so exudate and odour can share a chart axis with pain
+export const EXUDATE_LEVELS: Record<ExudateAmount, number> = { none: 0, light: 1, moderate: 2, heavy: 3 };
+export const ODOR_LEVELS: Record<WoundOdor, number> = { none: 0, mild: 1, moderate: 2, strong: 3 };
+
+/**
+ * Labelled TIME lines for screens and reports; sections with nothing
+ * recorded are left out
+ */
+export function describeWoundBed(assessment: WoundAssessment): [string, string][] {
+  const rows: [string, string][] = [];
+
+  if (assessment.tissueTypes) {
+    const tissue = (Object.entries(assessment.tissueTypes) as [TissueType, number][])
+      .filter(([, percent]) => percent > 0)
+      .sort((a, b) => b[1] - a[1])
+      .map(([type, percent]) => `${TISSUE_TYPE_LABELS[type]} ${percent}%`);
+    if (tissue.length > 0) rows.push(['Tissue', tissue.join(', ')]);
+  }
+
+  if (assessment.inflammationSigns !== undefined || assessment.odor !== undefined) {
+    const signs = assessment.inflammationSigns?.map(sign => INFLAMMATION_SIGN_LABELS[sign]) ?? [];
+    const parts = [signs.length > 0 ? signs.join(', ') : 'No local signs'];
+    if (assessment.odor) parts.push(`odour ${ODOR_LABELS[assessment.odor].toLowerCase()}`);
+    rows.push(['Inflammation', parts.join('; ')]);
+  }
+
+  if (assessment.exudate) {
+    rows.push(['Moisture', assessment.exudate.amount === 'none'
+      ? 'No exudate'
+      : `${EXUDATE_AMOUNT_LABELS[assessment.exudate.amount]} ${EXUDATE_TYPE_LABELS[assessment.exudate.type].toLowerCase()} exudate`]);
+  }
+
+  if (assessment.woundEdge?.length) {
+    rows.push(['Edge', assessment.woundEdge.map(edge => WOUND_EDGE_LABELS[edge]).join(', ')]);
+  }
+
+  if (assessment.periWoundCondition?.length) {
+    rows.push(['Peri-wound', assessment.periWoundCondition.map(c => PERIWOUND_LABELS[c]).join(', ')]);
+  }
+
+  if (assessment.pain !== undefined) {
+    rows.push(['Pain', `${assessment.pain}/10`]);
+  }
+
+  return rows;
+}
+
+/**
+ * Pain, exudate and odour levels for one assessment, null where not
+ * recorded so charts leave a gap
+ */
+export const woundBedTrendPoint = (assessment: WoundAssessment) => ({
+  pain: assessment.pain ?? null,
+  exudateLevel: assessment.exudate ? EXUDATE_LEVELS[assessment.exudate.amount] : null,
+  odorLevel: assessment.odor ? ODOR_LEVELS[assessment.odor] : null,
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+  WOUND_SCORE_TOOLS,
+  computeWoundScore,
+  deriveWoundScoreItems,
+  formatWoundScore,
+  getBwatSeverity,
+  type WoundScoringInput,
+} from './woundScoring';
+import type { WoundMeasurement } from '@/types';
+
+const measurement = (length: number, width: number): WoundMeasurement => ({
+  area: length * width * 0.785,
+  length,
+  width,
+  perimeter: 2 * (length + width),
+});
+
+const sloughyModerate: WoundScoringInput = {
+  measurement: measurement(2, 1.5),
+  tissueTypes: { epithelial: 10, granulation: 60, slough: 30, necrotic: 0, eschar: 0 },
+  exudate: { amount: 'moderate', type: 'serous' },
+};
+
+describe('PUSH', () => {
+  it('scores every item from a measured assessment', () => {
+    const score = computeWoundScore('push', sloughyModerate);
+
+    // L×W 3.0 → 5, moderate exudate → 2, slough → 3
+    expect(score.items.map(i => [i.itemId, i.score, i.source])).toEqual([
+      ['size', 5, 'auto'],
+      ['exudate_amount', 2, 'auto'],
+      ['tissue_type', 3, 'auto'],
+    ]);
+    expect(score).toMatchObject({ total: 10, maxTotal: 17, complete: true, missingItems: [] });
+  });
+
+  it('bands length × width at the published boundaries', () => {
+    const size = (l: number, w: number) => deriveWoundScoreItems('push', { measurement: measurement(l, w) }).size;
+
+    expect(size(0, 0)).toBe(0);
+    expect(size(0.5, 0.5)).toBe(1);    // 0.25
+    expect(size(1, 1)).toBe(3);        // 1.0
+    expect(size(2, 2)).toBe(6);        // 4.0
+    expect(size(5, 5)).toBe(10);       // 25
+  });
+
+  it('scores a closed wound as 0 for tissue type', () => {
+    const closed = { ...measurement(0, 0), area: 0 };
+    expect(deriveWoundScoreItems('push', { measurement: closed }).tissue_type).toBe(0);
+  });
+});
+
+describe('BWAT', () => {
+  it('derives what it can and leaves the rest to the clinician', () => {
+    const score = computeWoundScore('bwat', sloughyModerate);
+
+    expect(score.complete).toBe(false);
+    expect(score.missingItems).toEqual(expect.arrayContaining(['edges', 'skin_color', 'edema', 'induration']));
+    expect(score.items.find(i => i.itemId === 'exudate_type')?.score).toBe(4);
+  });
+
+  it('lets clinician answers override derived items and completes the total', () => {
+    const responses = Object.fromEntries(
+      WOUND_SCORE_TOOLS.bwat.items.map(item => [item.id, { score: 1 }])
+    );
+    const score = computeWoundScore('bwat', sloughyModerate, responses);
+
+    expect(score.items.every(i => i.source === 'clinician')).toBe(true);
+    expect(score).toMatchObject({ total: 13, complete: true });
+    expect(formatWoundScore(score)).toBe('Bates-Jensen (BWAT): 13/65 - Tissue health');
+  });
+
+  it('bands totals by severity', () => {
+    expect(getBwatSeverity(20)).toBe('Minimal severity');
+    expect(getBwatSeverity(21)).toBe('Mild severity');
+    expect(getBwatSeverity(41)).toBe('Extreme severity');
+  });
+});
+
+describe('RESVECH', () => {
+  it('counts the infection checklist by ticked items', () => {
+    const score = computeWoundScore('resvech', sloughyModerate, {
+      infection: { score: 2, selected: ['Increasing pain', 'Odour'] },
+    });
+
+    expect(score.items.find(i => i.itemId === 'infection')).toMatchObject({ score: 2, source: 'clinician', selected: ['Increasing pain', 'Odour'] });
+  });
+
+  it('reports how many items are still unscored', () => {
+    const score = computeWoundScore('resvech', {});
+    expect(formatWoundScore(score)).toBe(`RESVECH: incomplete (${WOUND_SCORE_TOOLS.resvech.items.length} items not scored)`);
+  });
+});
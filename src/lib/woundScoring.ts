@@ -0,0 +1,524 @@
+/**
+ * AstroWound-MEASURE Wound Scoring Engine
+ * PUSH 3.0, Bates-Jensen (BWAT) and RESVECH 2.0 computed from assessment data
+ */
+
+import type {
+  WoundAssessment,
+  WoundScore,
+  WoundScoreItemResult,
+  WoundScoreTool,
+} from '@/types';
+
+/**
+ * Assessment data the scoring tools can derive items from
+ */
+export type WoundScoringInput = Partial<Pick<
+  WoundAssessment,
+  'measurement' | 'tissueTypes' | 'exudate' | 'depthProbe'
+>>;
+
+/**
+ * Clinician answer for one scoring item
+ */
+export interface WoundScoreItemResponse {
+  score: number;
+  selected?: string[];
+}
+
+export interface WoundScoreItemDefinition {
+  id: string;
+  label: string;
+  options?: { score: number; label: string }[];
+  checklist?: string[];                                   // score = number of items ticked
+  derive?: (input: WoundScoringInput) => number | undefined;
+}
+
+export interface WoundScoreToolDefinition {
+  tool: WoundScoreTool;
+  name: string;
+  shortName: string;
+  version: string;
+  minTotal: number;
+  maxTotal: number;
+  items: WoundScoreItemDefinition[];
+}
+
+// ============================================
+// Derivation helpers
+// ============================================
+
+const lengthTimesWidth = (input: WoundScoringInput): number | undefined =>
+  input.measurement ? input.measurement.length * input.measurement.width : undefined;
+
+const necroticPercent = (input: WoundScoringInput): number | undefined =>
+  input.tissueTypes
+    ? input.tissueTypes.necrotic + input.tissueTypes.slough + (input.tissueTypes.eschar ?? 0)
+    : undefined;
+
+/**
+ * Worst tissue present in the bed: 4 necrotic, 3 slough, 2 granulation,
+ * 1 epithelial, 0 closed (shared by PUSH and RESVECH)
+ */
+function worstTissue(input: WoundScoringInput): number | undefined {
+  if (input.measurement && input.measurement.area === 0) return 0;
+  const tissue = input.tissueTypes;
+  if (!tissue) return undefined;
+  if (tissue.necrotic > 0 || (tissue.eschar ?? 0) > 0) return 4;
+  if (tissue.slough > 0) return 3;
+  if (tissue.granulation > 0) return 2;
+  if (tissue.epithelial > 0) return 1;
+  return undefined;
+}
+
+/**
+ * Score a value against ascending upper bounds (inclusive)
+ */
+function band(value: number, upperBounds: number[], scores: number[]): number {
+  const index = upperBounds.findIndex(bound => value <= bound);
+  return scores[index === -1 ? scores.length - 1 : index];
+}
+
+// ============================================
+// Tool definitions
+// ============================================
+
+const PUSH: WoundScoreToolDefinition = {
+  tool: 'push',
+  name: 'PUSH',
+  shortName: 'PUSH',
+  version: '3.0',
+  minTotal: 0,
+  maxTotal: 17,
+  items: [
+    {
+      id: 'size',
+      label: 'Length × Width (cm²)',
+      options: [
+        { score: 0, label: '0' },
+        { score: 1, label: '< 0.3' },
+        { score: 2, label: '0.3 – 0.6' },
+        { score: 3, label: '0.7 – 1.0' },
+        { score: 4, label: '1.1 – 2.0' },
+        { score: 5, label: '2.1 – 3.0' },
+        { score: 6, label: '3.1 – 4.0' },
+        { score: 7, label: '4.1 – 8.0' },
+        { score: 8, label: '8.1 – 12.0' },
+        { score: 9, label: '12.1 – 24.0' },
+        { score: 10, label: '> 24.0' },
+      ],
+      derive: (input) => {
+        const lw = lengthTimesWidth(input);
+        if (lw === undefined) return undefined;
+        if (lw === 0) return 0;
+        return band(lw, [0.299, 0.6, 1.0, 2.0, 3.0, 4.0, 8.0, 12.0, 24.0], [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+      },
+    },
+    {
+      id: 'exudate_amount',
+      label: 'Exudate amount',
+      options: [
+        { score: 0, label: 'None' },
+        { score: 1, label: 'Light' },
+        { score: 2, label: 'Moderate' },
+        { score: 3, label: 'Heavy' },
+      ],
+      derive: (input) =>
+        input.exudate ? { none: 0, light: 1, moderate: 2, heavy: 3 }[input.exudate.amount] : undefined,
+    },
+    {
+      id: 'tissue_type',
+      label: 'Tissue type',
+      options: [
+        { score: 0, label: 'Closed' },
+        { score: 1, label: 'Epithelial tissue' },
+        { score: 2, label: 'Granulation tissue' },
+        { score: 3, label: 'Slough' },
+        { score: 4, label: 'Necrotic tissue' },
+      ],
+      derive: worstTissue,
+    },
+  ],
+};
+
+const BWAT: WoundScoreToolDefinition = {
+  tool: 'bwat',
+  name: 'Bates-Jensen (BWAT)',
+  shortName: 'BWAT',
+  version: '2001',
+  minTotal: 13,
+  maxTotal: 65,
+  items: [
+    {
+      id: 'size',
+      label: 'Size (L × W)',
+      options: [
+        { score: 1, label: '< 4 cm²' },
+        { score: 2, label: '4 – 16 cm²' },
+        { score: 3, label: '16.1 – 36 cm²' },
+        { score: 4, label: '36.1 – 80 cm²' },
+        { score: 5, label: '> 80 cm²' },
+      ],
+      derive: (input) => {
+        const lw = lengthTimesWidth(input);
+        return lw === undefined ? undefined : band(lw, [3.99, 16, 36, 80], [1, 2, 3, 4, 5]);
+      },
+    },
+    {
+      id: 'depth',
+      label: 'Depth',
+      options: [
+        { score: 1, label: 'Non-blanchable erythema on intact skin' },
+        { score: 2, label: 'Partial thickness (epidermis and/or dermis)' },
+        { score: 3, label: 'Full thickness, to but not through fascia' },
+        { score: 4, label: 'Obscured by necrosis' },
+        { score: 5, label: 'Full thickness with tendon, joint or bone involvement' },
+      ],
+    },
+    {
+      id: 'edges',
+      label: 'Edges',
+      options: [
+        { score: 1, label: 'Indistinct, diffuse' },
+        { score: 2, label: 'Distinct, attached, even with wound base' },
+        { score: 3, label: 'Well-defined, not attached to wound base' },
+        { score: 4, label: 'Well-defined, not attached, rolled under, thickened' },
+        { score: 5, label: 'Well-defined, fibrotic, scarred or hyperkeratotic' },
+      ],
+    },
+    {
+      id: 'undermining',
+      label: 'Undermining',
+      options: [
+        { score: 1, label: 'None present' },
+        { score: 2, label: '< 2 cm in any area' },
+        { score: 3, label: '2 – 4 cm involving < 50% of margins' },
+        { score: 4, label: '2 – 4 cm involving > 50% of margins' },
+        { score: 5, label: '> 4 cm or tunnelling in any area' },
+      ],
+      derive: (input) => {
+        const probe = input.depthProbe;
+        if (!probe) return undefined;
+        if (probe.tunnels.length > 0 || probe.undermining.some(u => u.depth > 4)) return 5;
+        if (probe.undermining.length === 0) return 1;
+        if (probe.undermining.every(u => u.depth < 2)) return 2;
+        const hours = probe.undermining.reduce(
+          (sum, u) => sum + (((u.toClock - u.fromClock + 12) % 12) || 12), 0
+        );
+        return hours > 6 ? 4 : 3;
+      },
+    },
+    {
+      id: 'necrotic_type',
+      label: 'Necrotic tissue type',
+      options: [
+        { score: 1, label: 'None visible' },
+        { score: 2, label: 'White/grey non-viable tissue and/or non-adherent yellow slough' },
+        { score: 3, label: 'Loosely adherent yellow slough' },
+        { score: 4, label: 'Adherent, soft, black eschar' },
+        { score: 5, label: 'Firmly adherent, hard, black eschar' },
+      ],
+      derive: (input) => (necroticPercent(input) === 0 ? 1 : undefined),
+    },
+    {
+      id: 'necrotic_amount',
+      label: 'Necrotic tissue amount',
+      options: [
+        { score: 1, label: 'None visible' },
+        { score: 2, label: '< 25% of wound bed covered' },
+        { score: 3, label: '25% – 50% of wound covered' },
+        { score: 4, label: '> 50% and < 75% of wound covered' },
+        { score: 5, label: '75% – 100% of wound covered' },
+      ],
+      derive: (input) => {
+        const pct = necroticPercent(input);
+        if (pct === undefined) return undefined;
+        if (pct === 0) return 1;
+        return band(pct, [24.99, 50, 74.99], [2, 3, 4, 5]);
+      },
+    },
+    {
+      id: 'exudate_type',
+      label: 'Exudate type',
+      options: [
+        { score: 1, label: 'None' },
+        { score: 2, label: 'Bloody' },
+        { score: 3, label: 'Serosanguineous' },
+        { score: 4, label: 'Serous' },
+        { score: 5, label: 'Purulent' },
+      ],
+      derive: (input) => {
+        if (!input.exudate) return undefined;
+        if (input.exudate.amount === 'none') return 1;
+        return { sanguineous: 2, serosanguineous: 3, serous: 4, purulent: 5 }[input.exudate.type];
+      },
+    },
+    {
+      id: 'exudate_amount',
+      label: 'Exudate amount',
+      options: [
+        { score: 1, label: 'None, dry wound' },
+        { score: 2, label: 'Scant, moist wound' },
+        { score: 3, label: 'Small' },
+        { score: 4, label: 'Moderate' },
+        { score: 5, label: 'Large' },
+      ],
+      // "Light" spans scant and small, so it is left to the clinician
+      derive: (input) =>
+        input.exudate ? ({ none: 1, moderate: 4, heavy: 5 } as Record<string, number>)[input.exudate.amount] : undefined,
+    },
+    {
+      id: 'skin_color',
+      label: 'Skin colour surrounding wound',
+      options: [
+        { score: 1, label: 'Pink or normal for ethnic group' },
+        { score: 2, label: 'Bright red and/or blanches to touch' },
+        { score: 3, label: 'White or grey pallor or hypopigmented' },
+        { score: 4, label: 'Dark red or purple and/or non-blanchable' },
+        { score: 5, label: 'Black or hyperpigmented' },
+      ],
+    },
+    {
+      id: 'edema',
+      label: 'Peripheral tissue oedema',
+      options: [
+        { score: 1, label: 'No swelling or oedema' },
+        { score: 2, label: 'Non-pitting oedema < 4 cm around wound' },
+        { score: 3, label: 'Non-pitting oedema ≥ 4 cm around wound' },
+        { score: 4, label: 'Pitting oedema < 4 cm around wound' },
+        { score: 5, label: 'Crepitus and/or pitting oedema ≥ 4 cm' },
+      ],
+    },
+    {
+      id: 'induration',
+      label: 'Peripheral tissue induration',
+      options: [
+        { score: 1, label: 'None present' },
+        { score: 2, label: 'Induration < 2 cm around wound' },
+        { score: 3, label: 'Induration 2 – 4 cm, < 50% around wound' },
+        { score: 4, label: 'Induration 2 – 4 cm, ≥ 50% around wound' },
+        { score: 5, label: 'Induration > 4 cm in any area' },
+      ],
+    },
+    {
+      id: 'granulation',
+      label: 'Granulation tissue',
+      options: [
+        { score: 1, label: 'Skin intact or partial thickness wound' },
+        { score: 2, label: 'Bright, beefy red; 75% – 100% of wound filled' },
+        { score: 3, label: 'Bright, beefy red; > 25% and < 75% of wound filled' },
+        { score: 4, label: 'Pink and/or dull, dusky red and/or fills ≤ 25% of wound' },
+        { score: 5, label: 'No granulation tissue present' },
+      ],
+      derive: (input) => {
+        const tissue = input.tissueTypes;
+        if (!tissue) return undefined;
+        if (tissue.epithelial >= 100) return 1;
+        if (tissue.granulation >= 75) return 2;
+        if (tissue.granulation > 25) return 3;
+        if (tissue.granulation > 0) return 4;
+        return 5;
+      },
+    },
+    {
+      id: 'epithelialization',
+      label: 'Epithelialisation',
+      options: [
+        { score: 1, label: '100% of wound covered, surface intact' },
+        { score: 2, label: '75% – < 100% covered' },
+        { score: 3, label: '50% – < 75% covered' },
+        { score: 4, label: '25% – < 50% covered' },
+        { score: 5, label: '< 25% covered' },
+      ],
+      derive: (input) => {
+        const epithelial = input.tissueTypes?.epithelial;
+        if (epithelial === undefined) return undefined;
+        if (epithelial >= 100) return 1;
+        if (epithelial >= 75) return 2;
+        if (epithelial >= 50) return 3;
+        if (epithelial >= 25) return 4;
+        return 5;
+      },
+    },
+  ],
+};
+
+const RESVECH: WoundScoreToolDefinition = {
+  tool: 'resvech',
+  name: 'RESVECH',
+  shortName: 'RESVECH',
+  version: '2.0',
+  minTotal: 0,
+  maxTotal: 35,
+  items: [
+    {
+      id: 'dimensions',
+      label: 'Dimensions (L × W)',
+      options: [
+        { score: 0, label: '0 cm²' },
+        { score: 1, label: '< 4 cm²' },
+        { score: 2, label: '4 – < 16 cm²' },
+        { score: 3, label: '16 – < 36 cm²' },
+        { score: 4, label: '36 – < 64 cm²' },
+        { score: 5, label: '64 – < 100 cm²' },
+        { score: 6, label: '≥ 100 cm²' },
+      ],
+      derive: (input) => {
+        const lw = lengthTimesWidth(input);
+        if (lw === undefined) return undefined;
+        if (lw === 0) return 0;
+        return band(lw, [3.99, 15.99, 35.99, 63.99, 99.99], [1, 2, 3, 4, 5, 6]);
+      },
+    },
+    {
+      id: 'depth',
+      label: 'Depth / tissues affected',
+      options: [
+        { score: 0, label: 'Intact skin or scar' },
+        { score: 1, label: 'Partial thickness (epidermis and dermis)' },
+        { score: 2, label: 'Full thickness, subcutaneous tissue' },
+        { score: 3, label: 'Muscle' },
+        { score: 4, label: 'Bone and/or annexed tissues, or obscured by necrosis' },
+      ],
+    },
+    {
+      id: 'edges',
+      label: 'Edges',
+      options: [
+        { score: 0, label: 'No edges (healed)' },
+        { score: 1, label: 'Diffuse' },
+        { score: 2, label: 'Delimited' },
+        { score: 3, label: 'Damaged' },
+        { score: 4, label: 'Thickened (aged, everted)' },
+      ],
+    },
+    {
+      id: 'tissue_type',
+      label: 'Tissue in wound bed',
+      options: [
+        { score: 0, label: 'Closed / healed' },
+        { score: 1, label: 'Epithelial tissue' },
+        { score: 2, label: 'Granulation tissue' },
+        { score: 3, label: 'Slough' },
+        { score: 4, label: 'Necrotic tissue (eschar)' },
+      ],
+      derive: worstTissue,
+    },
+    {
+      id: 'exudate',
+      label: 'Exudate',
+      options: [
+        { score: 0, label: 'Dry' },
+        { score: 1, label: 'Moist' },
+        { score: 2, label: 'Wet' },
+        { score: 3, label: 'Saturated or leaking' },
+      ],
+      derive: (input) =>
+        input.exudate ? { none: 0, light: 1, moderate: 2, heavy: 3 }[input.exudate.amount] : undefined,
+    },
+    {
+      id: 'infection',
+      label: 'Signs of infection / inflammation',
+      checklist: [
+        'Increasing pain',
+        'Perilesional erythema',
+        'Perilesional oedema',
+        'Increased temperature',
+        'Increasing exudate',
+        'Purulent exudate',
+        'Friable tissue or bleeds easily',
+        'Stagnant wound, no improvement',
+        'Biofilm-compatible tissue',
+        'Odour',
+        'Hypergranulation',
+        'Increase in wound size',
+        'Satellite lesions',
+        'Tissue pallor',
+      ],
+    },
+  ],
+};
+
+export const WOUND_SCORE_TOOLS: Record<WoundScoreTool, WoundScoreToolDefinition> = {
+  push: PUSH,
+  bwat: BWAT,
+  resvech: RESVECH,
+};
+
+// ============================================
+// Scoring
+// ============================================
+
+/**
+ * Items that can be scored automatically from the assessment
+ */
+export function deriveWoundScoreItems(
+  tool: WoundScoreTool,
+  input: WoundScoringInput
+): Record<string, number> {
+  const derived: Record<string, number> = {};
+  WOUND_SCORE_TOOLS[tool].items.forEach(item => {
+    const score = item.derive?.(input);
+    if (score !== undefined) derived[item.id] = score;
+  });
+  return derived;
+}
+
+/**
+ * Combine derived items with clinician answers (which take precedence)
+ */
+export function computeWoundScore(
+  tool: WoundScoreTool,
+  input: WoundScoringInput,
+  responses: Record<string, WoundScoreItemResponse> = {}
+): WoundScore {
+  const definition = WOUND_SCORE_TOOLS[tool];
+  const derived = deriveWoundScoreItems(tool, input);
+  const items: WoundScoreItemResult[] = [];
+  const missingItems: string[] = [];
+
+  definition.items.forEach(item => {
+    const response = responses[item.id];
+    if (response) {
+      items.push({ itemId: item.id, score: response.score, source: 'clinician', selected: response.selected });
+    } else if (derived[item.id] !== undefined) {
+      items.push({ itemId: item.id, score: derived[item.id], source: 'auto' });
+    } else {
+      missingItems.push(item.id);
+    }
+  });
+
+  return {
+    tool,
+    version: definition.version,
+    items,
+    total: items.reduce((sum, item) => sum + item.score, 0),
+    maxTotal: definition.maxTotal,
+    missingItems,
+    complete: missingItems.length === 0,
+    scoredAt: new Date(),
+  };
+}
+
+/**
+ * Severity band for a completed BWAT total
+ */
+export function getBwatSeverity(total: number): string {
+  if (total <= 13) return 'Tissue health';
+  if (total <= 20) return 'Minimal severity';
+  if (total <= 30) return 'Mild severity';
+  if (total <= 40) return 'Moderate severity';
+  return 'Extreme severity';
+}
+
+/**
+ * One-line summary of a stored score, e.g. for reports
+ */
+export function formatWoundScore(score: WoundScore): string {
+  const name = WOUND_SCORE_TOOLS[score.tool].name;
+  if (!score.complete) {
+    return `${name}: incomplete (${score.missingItems.length} item${score.missingItems.length === 1 ? '' : 's'} not scored)`;
+  }
+  const severity = score.tool === 'bwat' ? ` - ${getBwatSeverity(score.total)}` : '';
+  return `${name}: ${score.total}/${score.maxTotal}${severity}`;
+}
@@ -0,0 +1,240 @@
+import 'fake-indexeddb/auto';
+import { openDB } from 'idb';
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import * as db from './database';
+import { PermissionDeniedError } from '@/lib/permissions';
+import { verifyAuditChain } from '@/lib/audit';
+import type {
+  DressingPainAssessment,
+  DressingSession,
+  PainManagementPlan,
+  Patient,
+  UserIdentity,
+  Wound,
+  WoundAssessment,
+} from '@/types';
+
+const admin: UserIdentity = { id: 'u-admin', displayName: 'A. Admin', role: 'admin' };
+const nurse: UserIdentity = { id: 'u-nurse', displayName: 'N. Nurse', role: 'nurse' };
+
+const reading = (id: string, sessionId = ''): DressingPainAssessment => ({
+  id,
+  sessionId,
+  patientId: 'p1',
+  timestamp: new Date(),
+  scaleUsed: 'NRS',
+  score: 4,
+  maxScore: 10,
+  severity: 'moderate',
+  painType: 'nociceptive',
+  painDuration: 'acute',
+  painContext: 'rest',
+  location: 'Left heel',
+  description: 'Aching',
+  aggravatingFactors: [],
+  relievingFactors: [],
+  proceduralPainAnticipated: false,
+  analgesiaGuidance: '',
+  createdAt: new Date(),
+});
+
+beforeAll(async () => {
+  await db.setupEncryption('123456');
+  db.setAuditActor(admin);
+});
+
+describe('savePainManagementPlan', () => {
+  it('saves the plan and its assessment, each queued for sync', async () => {
+    const plan = { id: 'plan-1', patientId: 'p1', painAssessment: reading('pa-1') } as PainManagementPlan;
+    await db.savePainManagementPlan(plan);
+
+    expect(await db.getPainManagementPlan('plan-1')).toBeDefined();
+    expect(await db.getPainAssessment('pa-1')).toBeDefined();
+    const queued = (await db.getSyncQueue()).map(item => item.recordId);
+    expect(queued).toEqual(expect.arrayContaining(['plan-1', 'pa-1']));
+  });
+
+  it('stores nothing when the plan cannot be written', async () => {
+    const queued = (await db.getSyncQueue()).length;
+    const plan = { patientId: 'p1', painAssessment: reading('pa-2') } as unknown as PainManagementPlan;
+
+    await expect(db.savePainManagementPlan(plan)).rejects.toThrow();
+
+    expect(await db.getPainAssessment('pa-2')).toBeUndefined();
+    expect(await db.getSyncQueue()).toHaveLength(queued);
+  });
+});
+
+describe('saveDressingSessionRecord', () => {
+  const session = (id: string) => ({ id, patientId: 'p1', status: 'completed', createdAt: new Date() }) as DressingSession;
+
+  it('saves the linked pain assessment with the session', async () => {
+    await db.saveDressingSessionRecord({ session: session('s1'), painAssessment: reading('pa-s1') });
+
+    const saved = await db.getDressingSessionRecord('s1');
+    expect(saved?.session.painAssessmentId).toBe('pa-s1');
+    expect(saved?.painAssessment?.id).toBe('pa-s1');
+    expect((await db.getSyncQueue()).filter(item => item.recordId === 'pa-s1')).toHaveLength(1);
+  });
+
+  it('does not queue an already stored pain assessment again', async () => {
+    await db.createPainAssessment(reading('pa-s2'));
+    await db.saveDressingSessionRecord({ session: session('s2'), painAssessment: reading('pa-s2') });
+
+    expect((await db.getDressingSessionRecord('s2'))?.painAssessment?.id).toBe('pa-s2');
+    expect((await db.getSyncQueue()).filter(item => item.recordId === 'pa-s2')).toHaveLength(1);
+  });
+});
+
+describe('restoreBackup', () => {
+  const patient = (id: string, mrn: string) =>
+    ({ id, mrn, firstName: 'Test', lastName: id, createdAt: new Date(), updatedAt: new Date() }) as Patient;
+
+  it('round-trips an export through a replacing restore', async () => {
+    await db.createPatient(patient('rt-1', 'MRN-RT-1'));
+    const backup = await db.exportAllData();
+    await db.deletePatient('rt-1');
+    expect(await db.getPatient('rt-1')).toBeUndefined();
+
+    const result = await db.restoreBackup(backup, 'replace');
+
+    expect(result.restored.patients).toBe(backup.patients.length);
+    expect((await db.getPatient('rt-1'))?.mrn).toBe('MRN-RT-1');
+    expect((await db.getPatientByMRN('MRN-RT-1'))?.id).toBe('rt-1');
+  });
+
+  it('leaves the device unchanged when a replacing restore fails part way', async () => {
+    await db.createPatient(patient('keep-1', 'MRN-KEEP-1'));
+    const queued = (await db.getSyncQueue()).length;
+    const backup = await db.exportAllData();
+    backup.patients = backup.patients.filter(p => p.id !== 'keep-1');
+    backup.wounds = [
+      { id: 'w-new', patientId: 'rt-1' } as Wound,
+      { patientId: 'rt-1' } as Wound,   // no key: the write fails
+    ];
+
+    await expect(db.restoreBackup(backup, 'replace')).rejects.toThrow();
+
+    expect((await db.getPatient('keep-1'))?.mrn).toBe('MRN-KEEP-1');
+    expect(await db.getWound('w-new')).toBeUndefined();
+    expect(await db.getSyncQueue()).toHaveLength(queued);
+  });
+});
+
+describe('permission checks', () => {
+  afterEach(() => db.setAuditActor(admin));
+
+  const verified = (id: string) => ({
+    id,
+    woundId: 'w1',
+    capturedAt: new Date(),
+    notes: 'as verified',
+    clinicianVerified: true,
+  }) as unknown as WoundAssessment;
+
+  it('refuses a nurse deleting a patient', async () => {
+    await db.createPatient({ id: 'perm-1', mrn: 'MRN-PERM-1', firstName: 'A', lastName: 'B' } as Patient);
+    db.setAuditActor(nurse);
+
+    await expect(db.deletePatient('perm-1')).rejects.toThrow(PermissionDeniedError);
+    expect(await db.getPatient('perm-1')).toBeDefined();
+  });
+
+  it('refuses a nurse clearing data or replacing it from a backup', async () => {
+    const backup = await db.exportAllData();
+    db.setAuditActor(nurse);
+
+    await expect(db.clearAllData()).rejects.toThrow(PermissionDeniedError);
+    await expect(db.restoreBackup(backup, 'replace')).rejects.toThrow(PermissionDeniedError);
+    expect(await db.getPatient('perm-1')).toBeDefined();
+  });
+
+  it('refuses a nurse amending or verifying an assessment', async () => {
+    await db.createAssessment(verified('perm-a1'));
+    await db.createAssessment({ ...verified('perm-a2'), clinicianVerified: false });
+    const stored = (await db.getAssessment('perm-a1'))!;
+    db.setAuditActor(nurse);
+
+    const amended = { ...stored, notes: 'changed', amendments: [{ id: 'am-1' }] } as WoundAssessment;
+    await expect(db.updateAssessment(amended)).rejects.toThrow(PermissionDeniedError);
+    await expect(db.updateAssessment(verified('perm-a2'))).rejects.toThrow(PermissionDeniedError);
+    expect((await db.getAssessment('perm-a1'))?.notes).toBe('as verified');
+    expect((await db.getAssessment('perm-a2'))?.clinicianVerified).toBe(false);
+  });
+
+  it('refuses every guarded operation when nobody is signed in', async () => {
+    db.setAuditActor(null);
+    await expect(db.deletePatient('perm-1')).rejects.toThrow(PermissionDeniedError);
+  });
+});
+
+describe('encryption at rest', () => {
+  // The stores as they sit on disk, without the app's sealing layer
+  const rawRecord = async (store: string, id: string) => {
+    const raw = await openDB('astrowound-measure');
+    try {
+      return await raw.get(store, id);
+    } finally {
+      raw.close();
+    }
+  };
+
+  it('keeps patient details out of the stored record', async () => {
+    await db.createPatient({ id: 'enc-1', mrn: 'MRN-ENC-1', firstName: 'Grace', lastName: 'Hopper' } as Patient);
+
+    const stored = await rawRecord('patients', 'enc-1');
+    expect(stored.enc).toBeDefined();
+    expect(JSON.stringify(stored)).not.toMatch(/Hopper|MRN-ENC-1/);
+    expect(stored.mrn).toMatch(/^[0-9a-f]{64}$/);
+    expect((await db.getPatientByMRN('MRN-ENC-1'))?.lastName).toBe('Hopper');
+  });
+
+  it('refuses reads while locked and unlocks only with the PIN', async () => {
+    db.lockDatabase();
+
+    await expect(db.getPatient('enc-1')).rejects.toThrow(db.DatabaseLockedError);
+    expect(await db.unlockDatabase('000000')).toBe(false);
+    expect(await db.unlockDatabase('123456')).toBe(true);
+    expect((await db.getPatient('enc-1'))?.firstName).toBe('Grace');
+  });
+
+  it('re-keys every record when the PIN changes', async () => {
+    const before = (await rawRecord('patients', 'enc-1')).enc.kid;
+
+    expect(await db.changePassphrase('000000', '654321')).toBe(false);
+    expect(await db.changePassphrase('123456', '654321')).toBe(true);
+
+    const vault = await rawRecord('vault', 'keys');
+    expect(vault.keys).toHaveLength(1);
+    expect(vault.currentKeyId).not.toBe(before);
+    expect((await rawRecord('patients', 'enc-1')).enc.kid).toBe(vault.currentKeyId);
+
+    db.lockDatabase();
+    expect(await db.unlockDatabase('123456')).toBe(false);
+    expect(await db.unlockDatabase('654321')).toBe(true);
+    expect((await db.getPatientByMRN('MRN-ENC-1'))?.id).toBe('enc-1');
+  });
+});
+
+describe('audit trail', () => {
+  it('chains every write made above into a log that verifies', async () => {
+    const log = await db.getAuditLog();
+
+    expect(log.length).toBeGreaterThan(10);
+    expect(await verifyAuditChain(log)).toEqual({ valid: true });
+  });
+
+  it('attributes a change to the signed-in user with the fields it touched', async () => {
+    await db.createPatient({ id: 'aud-1', mrn: 'MRN-AUD-1', firstName: 'Mary', lastName: 'Seacole' } as Patient);
+    const patient = (await db.getPatient('aud-1'))!;
+    await db.updatePatient({ ...patient, lastName: 'Grant' });
+
+    const [created, updated] = await db.getAuditLogForRecord('aud-1');
+    expect(created.action).toBe('create');
+    expect(updated).toMatchObject({
+      action: 'update',
+      actor: { userId: 'u-admin', name: 'A. Admin' },
+      changes: [{ path: 'lastName', before: 'Seacole', after: 'Grant' }],
+    });
+  });
+});
@@ -12,16 +12,59 @@ import type {
   AppSettings,
   SyncQueueItem,
   DressingSession,
+  DressingSessionRecord,
   DressingPainAssessment,
   SterileFieldChecklist,
   MaterialsChecklist,
   DressingProtocol,
   PostDressingCare,
   PainManagementPlan,
+  AnalgesicAdministration,
+  DeviceValidationRecord,
+  ConflictTable,
+  RecordRevision,
+  SyncConflict,
+  EncryptedPayload,
+  EncryptionState,
+  KeyVault,
+  PlaintextMigration,
+  VaultKey,
+  UserAccount,
+  UserIdentity,
+  Permission,
+  AuditAction,
+  AuditEntry,
+  SoftDeleteMarker,
+  BackupConflict,
+  BackupData,
+  BackupTable,
+  RestoreMode,
+  RestorePreview,
+  RestoreResult,
+  VerificationQueueItem,
 } from '@/types';
+import {
+  ENCRYPTION_SPEC,
+  blindIndex,
+  decryptBytes,
+  derivePassphraseKey,
+  deserializeRecord,
+  encryptBytes,
+  generateDataKey,
+  generateIndexKey,
+  randomBytes,
+  serializeRecord,
+  unwrapKey,
+  verifyPin,
+  wrapKey,
+} from '@/lib/encryption';
+import { AUDIT_SPEC, computeAuditHash, diffRecords } from '@/lib/audit';
+import { assertPermission, formatUserIdentity } from '@/lib/permissions';
+import { assertAssessmentEditable, assessmentChanges, isAssessmentLocked } from '@/lib/verification';
+import { BACKUP_TABLES, countBackupRecords, emptyBackupCounts } from '@/lib/backup';
 
 const DB_NAME = 'astrowound-measure';
-const DB_VERSION = 2; // Upgraded for new tables
+const DB_VERSION = 9; // Upgraded to index pain readings by session
 
 interface AstroWoundDB {
   patients: Patient;
@@ -39,23 +82,39 @@ interface AstroWoundDB {
   dressingProtocols: DressingProtocol;
   postDressingCare: PostDressingCare;
   painManagementPlans: PainManagementPlan;
+  analgesicAdministrations: AnalgesicAdministration;
+  deviceValidations: DeviceValidationRecord;
+  syncConflicts: SyncConflict;
+  vault: KeyVault | PlaintextMigration;
+  users: UserAccount;
+  auditLog: AuditEntry;
 }
 
+type StoreName = keyof AstroWoundDB;
+
+// One record to write, for operations that write several together
+type StoreWrite = { [S in StoreName]: { store: S; value: AstroWoundDB[S] } }[StoreName];
+
 let db: IDBPDatabase<AstroWoundDB> | null = null;
 
 export async function initDatabase(): Promise<IDBPDatabase<AstroWoundDB>> {
   if (db) return db;
 
   db = await openDB<AstroWoundDB>(DB_NAME, DB_VERSION, {
-    upgrade(database) {
+    upgrade(database, oldVersion, _newVersion, transaction) {
       // Patients store
       if (!database.objectStoreNames.contains('patients')) {
         const patientStore = database.createObjectStore('patients', { keyPath: 'id' });
         patientStore.createIndex('mrn', 'mrn', { unique: true });
-        patientStore.createIndex('lastName', 'lastName');
         patientStore.createIndex('createdAt', 'createdAt');
       }
 
+      // Surnames are encrypted from v5 on, so they can no longer be indexed
+      const patientIndexes = transaction.objectStore('patients').indexNames;
+      if (patientIndexes.contains('lastName')) {
+        transaction.objectStore('patients').deleteIndex('lastName');
+      }
+
       // Wounds store
       if (!database.objectStoreNames.contains('wounds')) {
         const woundStore = database.createObjectStore('wounds', { keyPath: 'id' });
@@ -113,10 +172,19 @@ export async function initDatabase(): Promise<IDBPDatabase<AstroWoundDB>> {
       if (!database.objectStoreNames.contains('painAssessments')) {
         const painStore = database.createObjectStore('painAssessments', { keyPath: 'id' });
         painStore.createIndex('patientId', 'patientId');
-        painStore.createIndex('dressingSessionId', 'dressingSessionId');
+        painStore.createIndex('sessionId', 'sessionId');
         painStore.createIndex('capturedAt', 'capturedAt');
       }
 
+      // Readings carry their session as sessionId; before v9 the index named a field they never had
+      const painIndexes = transaction.objectStore('painAssessments').indexNames;
+      if (painIndexes.contains('dressingSessionId')) {
+        transaction.objectStore('painAssessments').deleteIndex('dressingSessionId');
+      }
+      if (!painIndexes.contains('sessionId')) {
+        transaction.objectStore('painAssessments').createIndex('sessionId', 'sessionId');
+      }
+
       // Sterile field checklists store
       if (!database.objectStoreNames.contains('sterileFieldChecklists')) {
         const sterileStore = database.createObjectStore('sterileFieldChecklists', { keyPath: 'id' });
@@ -148,6 +216,66 @@ export async function initDatabase(): Promise<IDBPDatabase<AstroWoundDB>> {
         planStore.createIndex('woundId', 'woundId');
         planStore.createIndex('createdAt', 'createdAt');
       }
+
+      // Analgesic doses given against a pain plan
+      if (!database.objectStoreNames.contains('analgesicAdministrations')) {
+        const administrationStore = database.createObjectStore('analgesicAdministrations', { keyPath: 'id' });
+        administrationStore.createIndex('patientId', 'patientId');
+        administrationStore.createIndex('planId', 'planId');
+        administrationStore.createIndex('administeredAt', 'administeredAt');
+      }
+
+      // Device validation records store
+      if (!database.objectStoreNames.contains('deviceValidations')) {
+        const validationStore = database.createObjectStore('deviceValidations', { keyPath: 'id' });
+        validationStore.createIndex('performedAt', 'performedAt');
+      }
+
+      // Sync conflicts awaiting (or resolved by) clinician review
+      if (!database.objectStoreNames.contains('syncConflicts')) {
+        const conflictStore = database.createObjectStore('syncConflicts', { keyPath: 'id' });
+        conflictStore.createIndex('status', 'status');
+        conflictStore.createIndex('detectedAt', 'detectedAt');
+      }
+
+      // Local user directory for sign-in on shared devices
+      if (!database.objectStoreNames.contains('users')) {
+        const userStore = database.createObjectStore('users', { keyPath: 'id' });
+        userStore.createIndex('role', 'role');
+      }
+
+      // Append-only audit trail, hash-chained in sequence order
+      if (!database.objectStoreNames.contains('auditLog')) {
+        const auditStore = database.createObjectStore('auditLog', { keyPath: 'id' });
+        auditStore.createIndex('sequence', 'sequence', { unique: true });
+        auditStore.createIndex('at', 'at');
+        auditStore.createIndex('patientId', 'patientId');
+        auditStore.createIndex('recordId', 'recordId');
+      }
+
+      // Key vault; records written by earlier versions are still plain
+      // text and get sealed once the first PIN is set or entered
+      if (!database.objectStoreNames.contains('vault')) {
+        database.createObjectStore('vault', { keyPath: 'id' });
+        if (oldVersion > 0) {
+          transaction.objectStore('vault').put({
+            id: 'migration',
+            fromVersion: oldVersion,
+            createdAt: new Date(),
+          } as PlaintextMigration);
+        }
+      } else if (oldVersion < 9) {
+        // Readings sealed before v9 keep sessionId only inside the
+        // ciphertext; reseal them on the next unlock so the index sees it
+        const vaultStore = transaction.objectStore('vault');
+        vaultStore.get('migration').then(existing => vaultStore.put({
+          id: 'migration',
+          fromVersion: oldVersion,
+          createdAt: new Date(),
+          ...(existing as PlaintextMigration | undefined),
+          resealStores: ['painAssessments'],
+        } as PlaintextMigration));
+      }
     },
   });
 
@@ -172,11 +300,606 @@ export async function initDatabase(): Promise<IDBPDatabase<AstroWoundDB>> {
   return db;
 }
 
-export async function getDatabase(): Promise<IDBPDatabase<AstroWoundDB>> {
-  if (!db) {
-    return initDatabase();
+export async function getDatabase(): Promise<SecureDatabase> {
+  await initDatabase();
+  return secureDatabase;
+}
+
+// ============================================
+// Encryption at Rest
+// ============================================
+
+/**
+ * Thrown by any patient-data operation while the database is locked
+ */
+export class DatabaseLockedError extends Error {
+  constructor() {
+    super('Database is locked');
+    this.name = 'DatabaseLockedError';
   }
-  return db;
+}
+
+// Stores holding patient data, with the fields kept in clear for their
+// indexes (ids, dates and statuses). Settings, reference protocols and
+// device validation records stay readable while locked.
+const ENCRYPTED_STORES: Partial<Record<StoreName, readonly string[]>> = {
+  patients: ['createdAt'],
+  wounds: ['patientId', 'status', 'createdAt'],
+  assessments: ['woundId', 'capturedAt'],
+  reports: ['patientId', 'woundId', 'generatedAt'],
+  syncQueue: ['createdAt', 'type'],
+  images: ['type'],
+  dressingSessions: ['patientId', 'woundId', 'createdAt', 'status'],
+  painAssessments: ['patientId', 'sessionId', 'capturedAt'],
+  sterileFieldChecklists: ['sessionId'],
+  materialsChecklists: ['sessionId'],
+  postDressingCare: ['sessionId'],
+  painManagementPlans: ['patientId', 'woundId', 'createdAt'],
+  analgesicAdministrations: ['patientId', 'planId', 'administeredAt'],
+  syncConflicts: ['status', 'detectedAt'],
+  users: ['role'],
+  auditLog: ['sequence', 'at', 'table', 'recordId', 'patientId', 'hash'],
+};
+
+// Indexed identifiers stored as a keyed hash, so exact lookups still work
+const BLIND_INDEXES: Partial<Record<StoreName, readonly string[]>> = {
+  patients: ['mrn'],
+};
+
+interface SealedRecord {
+  id: string;
+  enc: EncryptedPayload;
+  [field: string]: unknown;
+}
+
+interface UnlockedKey {
+  dataKey: CryptoKey;
+  indexKey: CryptoKey;
+}
+
+// Unwrapped keys live only in memory and are dropped on lock
+let unlocked: { currentKeyId: string; keys: Map<string, UnlockedKey> } | null = null;
+
+const isEncryptedStore = (store: StoreName): boolean => store in ENCRYPTED_STORES;
+
+const isSealed = (value: unknown): value is SealedRecord =>
+  typeof value === 'object' && value !== null && 'enc' in value;
+
+function requireKeys(): NonNullable<typeof unlocked> {
+  if (!unlocked) throw new DatabaseLockedError();
+  return unlocked;
+}
+
+async function sealRecord(store: StoreName, value: { id: string }): Promise<SealedRecord> {
+  const { currentKeyId, keys } = requireKeys();
+  const { dataKey, indexKey } = keys.get(currentKeyId)!;
+  const fields = value as unknown as Record<string, unknown>;
+  const context = `${store}:${value.id}`;
+
+  const plaintext = store === 'images'
+    ? await (fields.data as Blob).arrayBuffer()
+    : serializeRecord(value);
+  const sealed: SealedRecord = { id: value.id, enc: await encryptBytes(dataKey, currentKeyId, plaintext, context) };
+
+  for (const field of ENCRYPTED_STORES[store] ?? []) {
+    if (fields[field] !== undefined) sealed[field] = fields[field];
+  }
+  // Only the bytes of an image are sealed, so its soft-delete marker stays in clear
+  if (store === 'images') {
+    if (fields.deletedAt !== undefined) sealed.deletedAt = fields.deletedAt;
+    if (fields.deletedBy !== undefined) sealed.deletedBy = fields.deletedBy;
+  }
+  // Deleted records leave the unique indexes, so an MRN can be reused
+  for (const field of BLIND_INDEXES[store] ?? []) {
+    if (typeof fields[field] === 'string' && !fields.deletedAt) sealed[field] = await blindIndex(indexKey, fields[field] as string);
+  }
+  return sealed;
+}
+
+async function openRecord<S extends StoreName>(store: S, raw: unknown): Promise<AstroWoundDB[S]> {
+  if (!isEncryptedStore(store)) return raw as AstroWoundDB[S];
+  const { keys } = requireKeys();
+  // Not yet migrated from before encryption
+  if (!isSealed(raw)) return raw as AstroWoundDB[S];
+
+  const key = keys.get(raw.enc.kid);
+  if (!key) throw new Error(`No key ${raw.enc.kid} for ${store} record ${raw.id}`);
+  const plaintext = await decryptBytes(key.dataKey, raw.enc, `${store}:${raw.id}`);
+
+  if (store === 'images') {
+    const type = raw.type as string;
+    const marker: SoftDeleteMarker = raw.deletedAt
+      ? { deletedAt: raw.deletedAt as Date, deletedBy: raw.deletedBy as string | undefined }
+      : {};
+    return { id: raw.id, type, data: new Blob([plaintext], { type }), ...marker } as AstroWoundDB[S];
+  }
+  return deserializeRecord<AstroWoundDB[S]>(plaintext);
+}
+
+async function indexQuery(store: StoreName, index: string, query: string): Promise<string> {
+  if (!BLIND_INDEXES[store]?.includes(index)) return query;
+  const { currentKeyId, keys } = requireKeys();
+  return blindIndex(keys.get(currentKeyId)!.indexKey, query);
+}
+
+// ============================================
+// Audit Trail
+// ============================================
+
+// Stores whose every change is written to the audit log. The sync queue
+// is transport, and the vault and log are bookkeeping of their own.
+const UNAUDITED_STORES: readonly StoreName[] = ['syncQueue', 'vault', 'auditLog'];
+
+const isAuditedStore = (store: StoreName): boolean => !UNAUDITED_STORES.includes(store);
+
+const isLive = (record: unknown): boolean => !(record as SoftDeleteMarker | undefined)?.deletedAt;
+
+let auditActor: { userId?: string; name: string } | null = null;
+
+// Signed-in user, whose role the permission checks below use
+let actingUser: UserIdentity | null = null;
+
+// Last entry written, loaded from the log on first use
+let auditTail: { sequence: number; hash: string } | null = null;
+
+// Audited writes run one at a time so each entry chains onto the last
+let auditLock: Promise<unknown> = Promise.resolve();
+
+/**
+ * Who subsequent changes are attributed to; cleared on sign-out and lock
+ */
+export function setAuditActor(user: UserIdentity | null): void {
+  actingUser = user;
+  auditActor = user ? { userId: user.id, name: formatUserIdentity(user) } : null;
+}
+
+/**
+ * Refuse an operation the signed-in user's role does not allow, whichever
+ * screen or service asked for it
+ */
+function requirePermission(permission: Permission): void {
+  assertPermission(actingUser, permission);
+}
+
+/**
+ * A verified assessment only changes through an amendment by a role that
+ * may amend; verifying needs the verify permission
+ */
+function assertAssessmentWrite(stored: WoundAssessment | undefined, next: WoundAssessment): void {
+  assertAssessmentEditable(stored, next);
+  if (stored && isAssessmentLocked(stored)) {
+    if (assessmentChanges(stored, next).length > 0) requirePermission('amend_assessment');
+  } else if (isAssessmentLocked(next)) {
+    requirePermission('verify_assessment');
+  }
+}
+
+function softDeleteMarker(): SoftDeleteMarker {
+  return { deletedAt: new Date(), deletedBy: auditActor?.name ?? 'System' };
+}
+
+function withAuditLock<T>(task: () => Promise<T>): Promise<T> {
+  const run = auditLock.then(task, task);
+  auditLock = run.catch(() => undefined);
+  return run;
+}
+
+async function loadAuditTail(): Promise<{ sequence: number; hash: string }> {
+  if (auditTail) return auditTail;
+  const cursor = await db!.transaction('auditLog').store.index('sequence').openCursor(null, 'prev');
+  const last = cursor?.value as { sequence: number; hash: string } | undefined;
+  auditTail = last ? { sequence: last.sequence, hash: last.hash } : { sequence: 0, hash: AUDIT_SPEC.genesisHash };
+  return auditTail;
+}
+
+/**
+ * Stored copy of a record, soft-deleted or not
+ */
+async function readRecord<S extends StoreName>(store: S, key: string): Promise<AstroWoundDB[S] | undefined> {
+  const raw = await db!.get(store, key);
+  return raw === undefined ? undefined : openRecord(store, raw);
+}
+
+/**
+ * Patient a record belongs to, following wound and dressing-session links
+ * for records that do not carry it themselves
+ */
+async function resolvePatientId(
+  store: StoreName,
+  record: Record<string, unknown>,
+  batch: readonly StoreWrite[] = []
+): Promise<string | undefined> {
+  // A linked record may be written in the same transaction
+  const linked = async <S extends 'wounds' | 'dressingSessions'>(linkedStore: S, id: string) =>
+    batch.find(w => w.store === linkedStore && w.value.id === id)?.value as AstroWoundDB[S] | undefined
+      ?? await readRecord(linkedStore, id);
+
+  if (store === 'patients') return record.id as string;
+  if (typeof record.patientId === 'string') return record.patientId;
+  if (typeof record.woundId === 'string') {
+    return (await linked('wounds', record.woundId))?.patientId;
+  }
+  if (typeof record.sessionId === 'string') {
+    return (await linked('dressingSessions', record.sessionId))?.patientId;
+  }
+  return undefined;
+}
+
+async function buildAuditEntry(
+  fields: Pick<AuditEntry, 'table' | 'recordId' | 'patientId' | 'action' | 'changes'>,
+  deviceId: string,
+  after?: { sequence: number; hash: string }
+): Promise<AuditEntry> {
+  const tail = after ?? await loadAuditTail();
+  const entry: Omit<AuditEntry, 'hash'> = {
+    id: crypto.randomUUID(),
+    sequence: tail.sequence + 1,
+    at: new Date(),
+    ...fields,
+    actor: auditActor ?? { name: 'System' },
+    deviceId,
+    prevHash: tail.hash,
+  };
+  return { ...entry, hash: await computeAuditHash(entry) };
+}
+
+// Stored form of a record (undefined to clear the store) and its audit entry, if logged
+interface PreparedWrite {
+  store: StoreName;
+  record: unknown;
+  entry?: AuditEntry;
+}
+
+/**
+ * Write the records and their audit entries in one transaction, so none
+ * can be stored without the others
+ */
+async function commitWithAudit(writes: readonly PreparedWrite[]): Promise<void> {
+  const entries = writes.flatMap(write => write.entry ? [write.entry] : []);
+  const sealedEntries = await Promise.all(entries.map(entry => sealRecord('auditLog', entry)));
+  const stores = [...new Set<StoreName>([...writes.map(write => write.store), 'auditLog'])];
+  const tx = db!.transaction(stores, 'readwrite');
+  try {
+    await Promise.all([
+      ...writes.map(({ store, record }) =>
+        record === undefined ? tx.objectStore(store).clear() : tx.objectStore(store).put(record as never)
+      ),
+      ...sealedEntries.map(sealedEntry => tx.objectStore('auditLog').add(sealedEntry as never)),
+      tx.done,
+    ]);
+  } catch (error) {
+    // Another tab may have extended the log; reload the tail next time
+    auditTail = null;
+    throw error;
+  }
+  const last = entries[entries.length - 1];
+  if (last) auditTail = { sequence: last.sequence, hash: last.hash };
+}
+
+/**
+ * Seal a record for an audited store and build its entry, chained onto
+ * `tail` when earlier entries are still waiting to be committed
+ */
+async function prepareAuditedWrite(
+  store: StoreName,
+  value: { id: string },
+  deviceId: string,
+  tail?: { sequence: number; hash: string },
+  batch: readonly StoreWrite[] = []
+): Promise<PreparedWrite> {
+  const before = await readRecord(store, value.id) as (SoftDeleteMarker & { id: string }) | undefined;
+  const after = value as SoftDeleteMarker & { id: string };
+  const changes = diffRecords(before, after);
+  const action: AuditAction = !before ? 'create'
+    : after.deletedAt && !before.deletedAt ? 'delete'
+    : 'update';
+
+  const record = isEncryptedStore(store) ? await sealRecord(store, value) : value;
+  // Bookkeeping-only writes, such as a new server version, are not logged
+  if (action === 'update' && changes.length === 0) return { store, record };
+
+  const entry = await buildAuditEntry({
+    table: store,
+    recordId: value.id,
+    patientId: await resolvePatientId(store, value as unknown as Record<string, unknown>, batch),
+    action,
+    changes,
+  }, deviceId, tail);
+  return { store, record, entry };
+}
+
+async function auditedPut(store: StoreName, value: { id: string }): Promise<void> {
+  const deviceId = await getDeviceId();
+  await withAuditLock(async () => {
+    await commitWithAudit([await prepareAuditedWrite(store, value, deviceId)]);
+  });
+}
+
+/**
+ * Store access used by every operation in this module. Patient-data
+ * stores are sealed on write and opened on read; while locked they throw
+ * DatabaseLockedError. Every write to an audited store is logged, and
+ * deletes only mark the record, which reads then skip.
+ */
+const secureDatabase = {
+  async get<S extends StoreName>(store: S, key: string): Promise<AstroWoundDB[S] | undefined> {
+    const record = await readRecord(store, key);
+    return isLive(record) ? record : undefined;
+  },
+
+  async getAll<S extends StoreName>(store: S): Promise<AstroWoundDB[S][]> {
+    const rows = await db!.getAll(store);
+    return (await Promise.all(rows.map(raw => openRecord(store, raw)))).filter(isLive);
+  },
+
+  async getFromIndex<S extends StoreName>(store: S, index: string, query: string): Promise<AstroWoundDB[S] | undefined> {
+    const records = await this.getAllFromIndex(store, index, query);
+    return records[0];
+  },
+
+  async getAllFromIndex<S extends StoreName>(store: S, index: string, query?: string): Promise<AstroWoundDB[S][]> {
+    const rows = await db!.getAllFromIndex(
+      store,
+      index,
+      query === undefined ? undefined : await indexQuery(store, index, query)
+    );
+    return (await Promise.all(rows.map(raw => openRecord(store, raw)))).filter(isLive);
+  },
+
+  async put<S extends StoreName>(store: S, value: AstroWoundDB[S]): Promise<void> {
+    if (store === 'auditLog') throw new Error('The audit log is append-only');
+    if (isAuditedStore(store)) return auditedPut(store, value as { id: string });
+    const record = isEncryptedStore(store) ? await sealRecord(store, value as { id: string }) : value;
+    await db!.put(store, record);
+  },
+
+  /**
+   * Write several records in one transaction, each to an audited store
+   * with its own entry, so a failure part way stores none of them.
+   * Unaudited stores in `clear` are emptied first in the same transaction.
+   */
+  async putAll(writes: readonly StoreWrite[], clear: readonly StoreName[] = []): Promise<void> {
+    if (writes.some(write => write.store === 'auditLog')) throw new Error('The audit log is append-only');
+    if (clear.some(isAuditedStore)) throw new Error('Audited stores are cleared by deleting each record');
+    const deviceId = await getDeviceId();
+    await withAuditLock(async () => {
+      let tail = await loadAuditTail();
+      const prepared: PreparedWrite[] = clear.map(store => ({ store, record: undefined }));
+      for (const { store, value } of writes) {
+        if (!isAuditedStore(store)) {
+          prepared.push({ store, record: isEncryptedStore(store) ? await sealRecord(store, value) : value });
+          continue;
+        }
+        const write = await prepareAuditedWrite(store, value, deviceId, tail, writes);
+        if (write.entry) tail = { sequence: write.entry.sequence, hash: write.entry.hash };
+        prepared.push(write);
+      }
+      await commitWithAudit(prepared);
+    });
+  },
+
+  async delete(store: StoreName, key: string): Promise<void> {
+    if (store === 'auditLog') throw new Error('The audit log is append-only');
+    if (!isAuditedStore(store)) {
+      await db!.delete(store, key);
+      return;
+    }
+    const record = await readRecord(store, key);
+    if (!record || !isLive(record)) return;
+    await auditedPut(store, { ...record, ...softDeleteMarker() } as { id: string });
+  },
+
+  /**
+   * Remove every record. In audited stores each live record is
+   * soft-deleted with its own entry, so the clear shows in every patient's
+   * trail.
+   */
+  async clear(store: StoreName): Promise<void> {
+    if (store === 'auditLog') throw new Error('The audit log is append-only');
+    if (!isAuditedStore(store)) {
+      await db!.clear(store);
+      return;
+    }
+    for (const key of await db!.getAllKeys(store)) {
+      await this.delete(store, String(key));
+    }
+  },
+
+  /**
+   * Physical erase of a whole store, deleted records included. Logged as a
+   * single 'clear' entry with the number of records removed; nothing can
+   * be recovered afterwards.
+   */
+  async erase(store: StoreName): Promise<void> {
+    if (store === 'auditLog') throw new Error('The audit log is append-only');
+    if (!isAuditedStore(store)) {
+      await db!.clear(store);
+      return;
+    }
+    const deviceId = await getDeviceId();
+    await withAuditLock(async () => {
+      const count = await db!.count(store);
+      if (count === 0) return;
+      const entry = await buildAuditEntry({
+        table: store,
+        recordId: '*',
+        action: 'clear',
+        changes: [{ path: 'records', before: count, after: 0 }],
+      }, deviceId);
+      await commitWithAudit([{ store, record: undefined, entry }]);
+    });
+  },
+};
+
+type SecureDatabase = typeof secureDatabase;
+
+async function unwrapVault(vault: KeyVault, passphrase: string): Promise<NonNullable<typeof unlocked>> {
+  const passphraseKey = await derivePassphraseKey(passphrase, vault.kdf);
+  const keys = new Map<string, UnlockedKey>();
+  for (const key of vault.keys) {
+    keys.set(key.id, {
+      dataKey: await unwrapKey(key.dataKey, passphraseKey, 'data'),
+      indexKey: await unwrapKey(key.indexKey, passphraseKey, 'index'),
+    });
+  }
+  return { currentKeyId: vault.currentKeyId, keys };
+}
+
+async function wrapVaultKey(id: string, key: UnlockedKey, passphraseKey: CryptoKey): Promise<VaultKey> {
+  return {
+    id,
+    dataKey: await wrapKey(key.dataKey, passphraseKey),
+    indexKey: await wrapKey(key.indexKey, passphraseKey),
+    createdAt: new Date(),
+  };
+}
+
+function newKdf(): KeyVault['kdf'] {
+  return {
+    algorithm: 'PBKDF2',
+    hash: 'SHA-256',
+    iterations: ENCRYPTION_SPEC.kdfIterations,
+    salt: randomBytes(ENCRYPTION_SPEC.saltBytes),
+  };
+}
+
+async function getVault(): Promise<KeyVault | undefined> {
+  const connection = await initDatabase();
+  return await connection.get('vault', 'keys') as KeyVault | undefined;
+}
+
+/**
+ * Re-encrypt every record not sealed with the current key - plain-text
+ * records from before encryption and records left over from a re-key -
+ * and every record in a store the migration marker lists for resealing,
+ * then drop the marker and superseded keys. Safe to resume after an
+ * interruption: each record is rewritten on its own.
+ */
+async function resealRecords(): Promise<void> {
+  const { currentKeyId } = requireKeys();
+  const connection = await initDatabase();
+  const migration = await connection.get('vault', 'migration') as PlaintextMigration | undefined;
+  const resealStores = migration?.resealStores ?? [];
+
+  for (const store of Object.keys(ENCRYPTED_STORES) as StoreName[]) {
+    const ids = await connection.getAllKeys(store);
+    for (const id of ids) {
+      const raw = await connection.get(store, id);
+      if (!raw || (isSealed(raw) && raw.enc.kid === currentKeyId && !resealStores.includes(store))) continue;
+      await connection.put(store, await sealRecord(store, await openRecord(store, raw) as { id: string }));
+    }
+  }
+
+  await connection.delete('vault', 'migration');
+  const vault = await getVault();
+  if (vault && vault.keys.length > 1) {
+    await connection.put('vault', { ...vault, keys: vault.keys.filter(k => k.id === currentKeyId) });
+  }
+}
+
+export async function getEncryptionState(): Promise<EncryptionState> {
+  if (!(await getVault())) return 'unconfigured';
+  return unlocked ? 'unlocked' : 'locked';
+}
+
+export function isDatabaseUnlocked(): boolean {
+  return unlocked !== null;
+}
+
+/**
+ * First-run setup: create the record keys, protect them with the PIN and
+ * encrypt anything already stored
+ */
+export async function setupEncryption(passphrase: string): Promise<void> {
+  if (await getVault()) throw new Error('Encryption is already set up');
+
+  const kdf = newKdf();
+  const passphraseKey = await derivePassphraseKey(passphrase, kdf);
+  const keyId = crypto.randomUUID();
+  const key: UnlockedKey = { dataKey: await generateDataKey(), indexKey: await generateIndexKey() };
+  const vault: KeyVault = {
+    id: 'keys',
+    kdf,
+    currentKeyId: keyId,
+    keys: [await wrapVaultKey(keyId, key, passphraseKey)],
+    createdAt: new Date(),
+  };
+
+  await (await initDatabase()).put('vault', vault);
+  unlocked = { currentKeyId: keyId, keys: new Map([[keyId, key]]) };
+  await resealRecords();
+}
+
+/**
+ * Unlock with the PIN. Returns false when it is wrong. Finishes any
+ * migration or re-key that was interrupted.
+ */
+export async function unlockDatabase(passphrase: string): Promise<boolean> {
+  const vault = await getVault();
+  if (!vault) throw new Error('Encryption has not been set up');
+
+  try {
+    unlocked = await unwrapVault(vault, passphrase);
+  } catch {
+    return false;
+  }
+
+  const connection = await initDatabase();
+  if (vault.keys.length > 1 || await connection.get('vault', 'migration')) {
+    await resealRecords();
+  }
+  return true;
+}
+
+export function lockDatabase(): void {
+  unlocked = null;
+}
+
+/**
+ * Change the PIN and re-key: records are re-encrypted under a fresh key
+ * rather than only re-wrapping the old one, so a copy of the database
+ * taken under the old PIN gives nothing away about new records. The old
+ * key stays in the vault, wrapped under the new PIN, until every record
+ * has been resealed. Returns false when the current PIN is wrong.
+ */
+export async function changePassphrase(current: string, next: string): Promise<boolean> {
+  const vault = await getVault();
+  if (!vault) throw new Error('Encryption has not been set up');
+
+  let existing: NonNullable<typeof unlocked>;
+  try {
+    existing = await unwrapVault(vault, current);
+  } catch {
+    return false;
+  }
+
+  const kdf = newKdf();
+  const passphraseKey = await derivePassphraseKey(next, kdf);
+  const keyId = crypto.randomUUID();
+  const key: UnlockedKey = { dataKey: await generateDataKey(), indexKey: await generateIndexKey() };
+  const keys = [await wrapVaultKey(keyId, key, passphraseKey)];
+  for (const [id, previous] of existing.keys) {
+    keys.push(await wrapVaultKey(id, previous, passphraseKey));
+  }
+
+  await (await initDatabase()).put('vault', { ...vault, kdf, currentKeyId: keyId, keys, rekeyedAt: new Date() });
+  unlocked = { currentKeyId: keyId, keys: new Map([...existing.keys, [keyId, key]]) };
+  await resealRecords();
+  return true;
+}
+
+/**
+ * Forgotten PIN: the data cannot be recovered, so erase it along with the
+ * keys and return to first-run setup
+ */
+export async function eraseEncryptedData(): Promise<void> {
+  const connection = await initDatabase();
+  for (const store of Object.keys(ENCRYPTED_STORES) as StoreName[]) {
+    await connection.clear(store);
+  }
+  await connection.clear('vault');
+  unlocked = null;
+  auditTail = null;
 }
 
 // ============================================
@@ -185,6 +908,7 @@ export async function getDatabase(): Promise<IDBPDatabase<AstroWoundDB>> {
 
 export async function createPatient(patient: Patient): Promise<void> {
   const database = await getDatabase();
+  patient.revision = await nextRevision('patients', patient);
   await database.put('patients', patient);
   await addToSyncQueue('create', 'patients', patient.id, patient);
 }
@@ -207,11 +931,13 @@ export async function getAllPatients(): Promise<Patient[]> {
 export async function updatePatient(patient: Patient): Promise<void> {
   const database = await getDatabase();
   patient.updatedAt = new Date();
+  patient.revision = await nextRevision('patients', patient);
   await database.put('patients', patient);
   await addToSyncQueue('update', 'patients', patient.id, patient);
 }
 
 export async function deletePatient(id: string): Promise<void> {
+  requirePermission('delete_patient');
   const database = await getDatabase();
   await database.delete('patients', id);
   await addToSyncQueue('delete', 'patients', id, null);
@@ -233,6 +959,7 @@ export async function searchPatients(query: string): Promise<Patient[]> {
 
 export async function createWound(wound: Wound): Promise<void> {
   const database = await getDatabase();
+  wound.revision = await nextRevision('wounds', wound);
   await database.put('wounds', wound);
   await addToSyncQueue('create', 'wounds', wound.id, wound);
 }
@@ -250,6 +977,7 @@ export async function getWoundsForPatient(patientId: string): Promise<Wound[]> {
 export async function updateWound(wound: Wound): Promise<void> {
   const database = await getDatabase();
   wound.updatedAt = new Date();
+  wound.revision = await nextRevision('wounds', wound);
   await database.put('wounds', wound);
   await addToSyncQueue('update', 'wounds', wound.id, wound);
 }
@@ -266,6 +994,7 @@ export async function deleteWound(id: string): Promise<void> {
 
 export async function createAssessment(assessment: WoundAssessment): Promise<void> {
   const database = await getDatabase();
+  assessment.revision = await nextRevision('assessments', assessment);
   await database.put('assessments', assessment);
   await addToSyncQueue('create', 'assessments', assessment.id, assessment);
 }
@@ -280,13 +1009,42 @@ export async function getAssessmentsForWound(woundId: string): Promise<WoundAsse
   return database.getAllFromIndex('assessments', 'woundId', woundId);
 }
 
+/**
+ * Rejects with AssessmentLockedError when the assessment has been verified
+ * and the update changes it without adding an amendment
+ */
 export async function updateAssessment(assessment: WoundAssessment): Promise<void> {
   const database = await getDatabase();
+  assertAssessmentWrite(await database.get('assessments', assessment.id), assessment);
   assessment.updatedAt = new Date();
+  assessment.revision = await nextRevision('assessments', assessment);
   await database.put('assessments', assessment);
   await addToSyncQueue('update', 'assessments', assessment.id, assessment);
 }
 
+/**
+ * Assessments awaiting clinician verification, oldest first, with the
+ * wound and patient they belong to
+ */
+export async function getVerificationQueue(): Promise<VerificationQueueItem[]> {
+  const database = await getDatabase();
+  const pending = (await database.getAllFromIndex('assessments', 'capturedAt'))
+    .filter(a => !a.clinicianVerified);
+
+  const wounds = new Map<string, Wound | undefined>();
+  const patients = new Map<string, Patient | undefined>();
+  const items: VerificationQueueItem[] = [];
+  for (const assessment of pending) {
+    if (!wounds.has(assessment.woundId)) wounds.set(assessment.woundId, await database.get('wounds', assessment.woundId));
+    const wound = wounds.get(assessment.woundId);
+    if (wound && !patients.has(wound.patientId)) patients.set(wound.patientId, await database.get('patients', wound.patientId));
+    const patient = wound ? patients.get(wound.patientId) : undefined;
+    // Assessments of deleted patients or wounds no longer need review
+    if (wound && patient) items.push({ assessment, wound, patient });
+  }
+  return items;
+}
+
 export async function deleteAssessment(id: string): Promise<void> {
   const database = await getDatabase();
   await database.delete('assessments', id);
@@ -355,18 +1113,156 @@ export async function deleteImage(id: string): Promise<void> {
   await database.delete('images', id);
 }
 
+// ============================================
+// User Operations
+// ============================================
+
+// Users are local to the device and never queued for sync
+
+export async function createUser(user: UserAccount): Promise<void> {
+  const database = await getDatabase();
+  await database.put('users', user);
+}
+
+export async function getUser(id: string): Promise<UserAccount | undefined> {
+  const database = await getDatabase();
+  return database.get('users', id);
+}
+
+export async function getAllUsers(): Promise<UserAccount[]> {
+  const database = await getDatabase();
+  const users = await database.getAll('users');
+  return users.sort((a, b) => a.displayName.localeCompare(b.displayName));
+}
+
+export async function updateUser(user: UserAccount): Promise<void> {
+  const database = await getDatabase();
+  user.updatedAt = new Date();
+  await database.put('users', user);
+}
+
+/**
+ * Check a user's sign-in PIN. Returns the account, with its sign-in time
+ * updated, or undefined when the PIN is wrong or the account is inactive.
+ */
+export async function authenticateUser(id: string, pin: string): Promise<UserAccount | undefined> {
+  const database = await getDatabase();
+  const user = await database.get('users', id);
+  if (!user?.active || !(await verifyPin(pin, user.pin))) return undefined;
+  const signedIn = { ...user, lastSignInAt: new Date() };
+  await database.put('users', signedIn);
+  return signedIn;
+}
+
+/**
+ * Re-check a signed-in user's PIN, as an e-signature, without recording
+ * a new sign-in
+ */
+export async function verifyUserPin(id: string, pin: string): Promise<boolean> {
+  const database = await getDatabase();
+  const user = await database.get('users', id);
+  return !!user?.active && await verifyPin(pin, user.pin);
+}
+
+// ============================================
+// Revision Operations
+// ============================================
+
+let deviceId: string | null = null;
+
+/**
+ * Stable per-installation ID recorded on every local edit
+ */
+export async function getDeviceId(): Promise<string> {
+  if (deviceId) return deviceId;
+  const settings = await getSettings();
+  deviceId = settings?.deviceId ?? crypto.randomUUID();
+  if (!settings?.deviceId) {
+    await updateSettings({ deviceId });
+  }
+  return deviceId;
+}
+
+/**
+ * Next revision for a record about to be written. The server version is
+ * taken from the stored copy, which the sync service keeps current, so a
+ * stale in-memory record cannot roll it back.
+ */
+async function nextRevision(
+  table: ConflictTable,
+  record: { id: string; revision?: RecordRevision }
+): Promise<RecordRevision> {
+  const database = await getDatabase();
+  const stored = await database.get(table, record.id) as { revision?: RecordRevision } | undefined;
+  return {
+    revision: Math.max(stored?.revision?.revision ?? 0, record.revision?.revision ?? 0) + 1,
+    serverVersion: stored?.revision?.serverVersion ?? record.revision?.serverVersion,
+    modifiedBy: await getDeviceId(),
+  };
+}
+
+/**
+ * Record the server version acknowledged for a record, without creating
+ * a new local revision or queueing a sync
+ */
+export async function setServerVersion(table: ConflictTable, id: string, serverVersion: string): Promise<void> {
+  const database = await getDatabase();
+  const record = await database.get(table, id);
+  if (!record) return;
+  await database.put(table, {
+    ...record,
+    revision: { revision: record.revision?.revision ?? 0, ...record.revision, serverVersion },
+  });
+}
+
+/**
+ * Apply a resolved sync conflict: the merged record becomes a new local
+ * revision based on the server version that caused the conflict, and is
+ * written with its sync item and the resolved conflict in one
+ * transaction, so a failed merge never leaves the record marked as based
+ * on the server copy
+ */
+export async function saveConflictResolution(
+  merged: Patient | Wound | WoundAssessment,
+  resolved: SyncConflict
+): Promise<void> {
+  const database = await getDatabase();
+  const { table } = resolved;
+  if (table === 'assessments') {
+    assertAssessmentWrite(await database.get('assessments', merged.id), merged as WoundAssessment);
+  }
+  const revision = await nextRevision(table, merged);
+  const record = {
+    ...merged,
+    updatedAt: new Date(),
+    revision: { ...revision, serverVersion: resolved.remoteVersion ?? revision.serverVersion },
+  };
+  await database.putAll([
+    { store: table, value: record } as StoreWrite,
+    { store: 'syncQueue', value: newSyncItem('update', table, record.id, record) },
+    { store: 'syncConflicts', value: resolved },
+  ]);
+}
+
+export async function getRevisionedRecord(
+  table: ConflictTable,
+  id: string
+): Promise<Patient | Wound | WoundAssessment | undefined> {
+  const database = await getDatabase();
+  return database.get(table, id);
+}
+
 // ============================================
 // Sync Queue Operations
 // ============================================
 
-async function addToSyncQueue(
+function newSyncItem(
   type: 'create' | 'update' | 'delete',
   table: string,
   recordId: string,
   data: unknown
-): Promise<void> {
-  const database = await getDatabase();
-  const item: SyncQueueItem = {
+): SyncQueueItem {
+  return {
     id: crypto.randomUUID(),
     type,
     table: table as keyof typeof db,
@@ -375,7 +1271,16 @@ async function addToSyncQueue(
     createdAt: new Date(),
     attempts: 0,
   };
-  await database.put('syncQueue', item);
+}
+
+async function addToSyncQueue(
+  type: 'create' | 'update' | 'delete',
+  table: string,
+  recordId: string,
+  data: unknown
+): Promise<void> {
+  const database = await getDatabase();
+  await database.put('syncQueue', newSyncItem(type, table, recordId, data));
 }
 
 export async function getSyncQueue(): Promise<SyncQueueItem[]> {
@@ -383,6 +1288,11 @@ export async function getSyncQueue(): Promise<SyncQueueItem[]> {
   return database.getAll('syncQueue');
 }
 
+export async function updateSyncItem(item: SyncQueueItem): Promise<void> {
+  const database = await getDatabase();
+  await database.put('syncQueue', item);
+}
+
 export async function removeSyncItem(id: string): Promise<void> {
   const database = await getDatabase();
   await database.delete('syncQueue', id);
@@ -397,37 +1307,233 @@ export async function clearSyncQueue(): Promise<void> {
 // Export Operations
 // ============================================
 
-export async function exportAllData(): Promise<{
-  patients: Patient[];
-  wounds: Wound[];
-  assessments: WoundAssessment[];
-  reports: ClinicalReport[];
-}> {
+/**
+ * Every record store carried in a backup, soft-deleted records excluded
+ */
+export async function exportAllData(): Promise<BackupData> {
   const database = await getDatabase();
+  const data: Partial<Record<BackupTable, unknown[]>> = {};
+  for (const table of BACKUP_TABLES) {
+    data[table] = await database.getAll(table);
+  }
+  return data as BackupData;
+}
+
+// Stores emptied by a clear or a replacing restore
+const CLINICAL_STORES: readonly StoreName[] = [
+  'patients',
+  'wounds',
+  'assessments',
+  'reports',
+  'syncQueue',
+  'images',
+  'dressingSessions',
+  'painAssessments',
+  'sterileFieldChecklists',
+  'materialsChecklists',
+  'dressingProtocols',
+  'postDressingCare',
+  'painManagementPlans',
+  'analgesicAdministrations',
+  'deviceValidations',
+  'syncConflicts',
+];
+
+/**
+ * Remove all clinical records. Each is soft-deleted with its own audit
+ * entry; the pending sync queue is dropped.
+ */
+export async function clearAllData(): Promise<void> {
+  requirePermission('clear_data');
+  const database = await getDatabase();
+  for (const store of CLINICAL_STORES) {
+    await database.clear(store);
+  }
+}
+
+// ============================================
+// Restore Operations
+// ============================================
+
+/**
+ * Backup patients whose MRN belongs to a different patient on this device
+ */
+async function findBackupConflicts(data: BackupData): Promise<BackupConflict[]> {
+  const database = await getDatabase();
+  const conflicts: BackupConflict[] = [];
+  for (const patient of data.patients) {
+    const existing = await database.getFromIndex('patients', 'mrn', patient.mrn);
+    if (existing && existing.id !== patient.id) {
+      conflicts.push({
+        mrn: patient.mrn,
+        backupPatientId: patient.id,
+        backupName: `${patient.firstName} ${patient.lastName}`,
+        existingPatientId: existing.id,
+        existingName: `${existing.firstName} ${existing.lastName}`,
+      });
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Test for records belonging to the given patients, following wound and
+ * dressing-session links within the backup
+ */
+function belongsToPatients(data: BackupData, patientIds: Set<string>): (record: object) => boolean {
+  const woundIds = new Set(data.wounds.filter(w => patientIds.has(w.patientId)).map(w => w.id));
+  const sessionIds = new Set(data.dressingSessions
+    .filter(s => patientIds.has(s.patientId) || (s.woundId !== undefined && woundIds.has(s.woundId)))
+    .map(s => s.id));
+  const linked = (value: unknown, ids: Set<string>) => typeof value === 'string' && ids.has(value);
+
+  return (record) => {
+    const fields = record as Record<string, unknown>;
+    return linked(fields.patientId, patientIds) ||
+      linked(fields.woundId, woundIds) ||
+      linked(fields.sessionId, sessionIds);
+  };
+}
+
+/**
+ * What restoring would do, for the user to review before choosing merge
+ * or replace
+ */
+export async function previewRestore(data: BackupData): Promise<RestorePreview> {
+  await getDatabase();
+  let existingPatients = 0;
+  for (const patient of data.patients) {
+    if (await readRecord('patients', patient.id)) existingPatients++;
+  }
+  const conflicts = await findBackupConflicts(data);
   return {
-    patients: await database.getAll('patients'),
-    wounds: await database.getAll('wounds'),
-    assessments: await database.getAll('assessments'),
-    reports: await database.getAll('reports'),
+    counts: countBackupRecords(data),
+    newPatients: data.patients.length - existingPatients - conflicts.length,
+    existingPatients,
+    conflicts,
   };
 }
 
-export async function clearAllData(): Promise<void> {
+/**
+ * Restore a validated backup in one transaction, so a failure part way
+ * leaves the device as it was. Replace soft-deletes the device's clinical
+ * records and drops the sync queue; a record the backup restores under the
+ * same id is logged as an update instead. Merge only adds records this
+ * device does not have - including ones deleted here, which stay deleted -
+ * and skips patients whose MRN is taken by another patient, together with
+ * their records. Restored records are logged in the audit trail but not
+ * queued for sync.
+ */
+export async function restoreBackup(data: BackupData, mode: RestoreMode): Promise<RestoreResult> {
+  if (mode === 'replace') requirePermission('clear_data');
   const database = await getDatabase();
-  await database.clear('patients');
-  await database.clear('wounds');
-  await database.clear('assessments');
-  await database.clear('reports');
-  await database.clear('syncQueue');
-  await database.clear('images');
-  // Clear new tables
-  await database.clear('dressingSessions');
-  await database.clear('painAssessments');
-  await database.clear('sterileFieldChecklists');
-  await database.clear('materialsChecklists');
-  await database.clear('dressingProtocols');
-  await database.clear('postDressingCare');
-  await database.clear('painManagementPlans');
+  const conflicts = mode === 'merge' ? await findBackupConflicts(data) : [];
+  const conflicted = new Set(conflicts.map(c => c.backupPatientId));
+  const isConflicted = belongsToPatients(data, conflicted);
+  const restored = emptyBackupCounts();
+  const writes: StoreWrite[] = [];
+  let skipped = 0;
+
+  for (const table of BACKUP_TABLES) {
+    for (const record of data[table] as { id: string }[]) {
+      const excluded = (table === 'patients' && conflicted.has(record.id)) || isConflicted(record);
+      if (excluded || (mode === 'merge' && await readRecord(table, record.id))) {
+        skipped++;
+        continue;
+      }
+      writes.push({ store: table, value: record } as StoreWrite);
+      restored[table]++;
+    }
+  }
+
+  if (mode === 'replace') {
+    const restoring = new Set(writes.map(write => `${write.store}:${write.value.id}`));
+    const deletes: StoreWrite[] = [];
+    for (const store of CLINICAL_STORES.filter(isAuditedStore)) {
+      for (const record of await database.getAll(store) as { id: string }[]) {
+        if (!restoring.has(`${store}:${record.id}`)) {
+          deletes.push({ store, value: { ...record, ...softDeleteMarker() } } as StoreWrite);
+        }
+      }
+    }
+    await database.putAll([...deletes, ...writes], CLINICAL_STORES.filter(store => !isAuditedStore(store)));
+  } else {
+    await database.putAll(writes);
+  }
+
+  return { mode, restored, skipped, conflicts };
+}
+
+// ============================================
+// Sync Conflict Operations
+// ============================================
+
+export async function saveSyncConflict(conflict: SyncConflict): Promise<void> {
+  const database = await getDatabase();
+  await database.put('syncConflicts', conflict);
+}
+
+export async function getSyncConflict(id: string): Promise<SyncConflict | undefined> {
+  const database = await getDatabase();
+  return database.get('syncConflicts', id);
+}
+
+export async function getSyncConflicts(): Promise<SyncConflict[]> {
+  const database = await getDatabase();
+  const conflicts = await database.getAllFromIndex('syncConflicts', 'detectedAt');
+  return conflicts.reverse();
+}
+
+export async function getOpenSyncConflicts(): Promise<SyncConflict[]> {
+  const database = await getDatabase();
+  return database.getAllFromIndex('syncConflicts', 'status', 'open');
+}
+
+// ============================================
+// Audit Log Operations
+// ============================================
+
+async function readAuditEntries(index: 'sequence' | 'patientId' | 'recordId', query?: string): Promise<AuditEntry[]> {
+  await initDatabase();
+  const rows = await db!.getAllFromIndex('auditLog', index, query);
+  const entries = await Promise.all(rows.map(raw => openRecord('auditLog', raw)));
+  return entries.sort((a, b) => a.sequence - b.sequence);
+}
+
+/**
+ * The complete log in sequence order, as needed for chain verification
+ */
+export async function getAuditLog(): Promise<AuditEntry[]> {
+  return readAuditEntries('sequence');
+}
+
+export async function getAuditLogForPatient(patientId: string): Promise<AuditEntry[]> {
+  return readAuditEntries('patientId', patientId);
+}
+
+export async function getAuditLogForRecord(recordId: string): Promise<AuditEntry[]> {
+  return readAuditEntries('recordId', recordId);
+}
+
+// ============================================
+// Device Validation Operations
+// ============================================
+
+export async function createDeviceValidation(record: DeviceValidationRecord): Promise<void> {
+  const database = await getDatabase();
+  await database.put('deviceValidations', record);
+  await addToSyncQueue('create', 'deviceValidations', record.id, record);
+}
+
+export async function getDeviceValidations(): Promise<DeviceValidationRecord[]> {
+  const database = await getDatabase();
+  const records = await database.getAllFromIndex('deviceValidations', 'performedAt');
+  return records.reverse();
+}
+
+export async function getLatestDeviceValidation(): Promise<DeviceValidationRecord | undefined> {
+  const records = await getDeviceValidations();
+  return records[0];
 }
 
 // ============================================
@@ -468,6 +1574,63 @@ export async function deleteDressingSession(id: string): Promise<void> {
   await addToSyncQueue('delete', 'dressingSessions', id, null);
 }
 
+/**
+ * Write a finished session, its checklists and the pain assessment it
+ * links to in one transaction, so a failure part way cannot leave the
+ * session linking to missing records. A pain assessment already stored
+ * is rewritten unchanged rather than queued for sync a second time.
+ */
+export async function saveDressingSessionRecord(record: DressingSessionRecord): Promise<void> {
+  const { sterileField, materials, postCare, painAssessment } = record;
+  const database = await getDatabase();
+  const session: DressingSession = {
+    ...record.session,
+    sterileFieldChecklistId: sterileField?.id,
+    materialsChecklistId: materials?.id,
+    postDressingCareId: postCare?.id,
+    painAssessmentId: painAssessment?.id ?? record.session.painAssessmentId,
+  };
+  const writes: StoreWrite[] = [
+    { store: 'dressingSessions', value: session },
+    { store: 'syncQueue', value: newSyncItem('create', 'dressingSessions', session.id, session) },
+  ];
+  if (sterileField) writes.push({ store: 'sterileFieldChecklists', value: sterileField });
+  if (materials) writes.push({ store: 'materialsChecklists', value: materials });
+  if (postCare) writes.push({ store: 'postDressingCare', value: postCare });
+  if (painAssessment) {
+    writes.push({ store: 'painAssessments', value: painAssessment });
+    if (!(await database.get('painAssessments', painAssessment.id))) {
+      writes.push({ store: 'syncQueue', value: newSyncItem('create', 'painAssessments', painAssessment.id, painAssessment) });
+    }
+  }
+  for (const reassessment of record.painReassessments ?? []) {
+    writes.push(
+      { store: 'painAssessments', value: reassessment },
+      { store: 'syncQueue', value: newSyncItem('create', 'painAssessments', reassessment.id, reassessment) },
+    );
+  }
+
+  await database.putAll(writes);
+}
+
+/**
+ * A session with the records it links to, for read-only review
+ */
+export async function getDressingSessionRecord(id: string): Promise<DressingSessionRecord | undefined> {
+  const session = await getDressingSession(id);
+  if (!session) return undefined;
+
+  const [sterileField, materials, postCare, painAssessment, sessionPain] = await Promise.all([
+    getSterileFieldChecklistForSession(id),
+    getMaterialsChecklistForSession(id),
+    getPostDressingCareForSession(id),
+    session.painAssessmentId ? getPainAssessment(session.painAssessmentId) : undefined,
+    getPainAssessmentsForSession(id),
+  ]);
+  const painReassessments = sessionPain.filter(a => a.id !== session.painAssessmentId);
+  return { session, sterileField, materials, postCare, painAssessment, painReassessments };
+}
+
 // ============================================
 // Pain Assessment Operations
 // ============================================
@@ -488,6 +1651,11 @@ export async function getPainAssessmentsForPatient(patientId: string): Promise<D
   return database.getAllFromIndex('painAssessments', 'patientId', patientId);
 }
 
+export async function getPainAssessmentsForSession(sessionId: string): Promise<DressingPainAssessment[]> {
+  const database = await getDatabase();
+  return database.getAllFromIndex('painAssessments', 'sessionId', sessionId);
+}
+
 export async function updatePainAssessment(assessment: DressingPainAssessment): Promise<void> {
   const database = await getDatabase();
   await database.put('painAssessments', assessment);
@@ -520,6 +1688,21 @@ export async function getPainManagementPlansForPatient(patientId: string): Promi
   return database.getAllFromIndex('painManagementPlans', 'patientId', patientId);
 }
 
+/**
+ * Save a finished plan together with the pain assessment it was built
+ * from, in one transaction so neither is queued for sync without the other
+ */
+export async function savePainManagementPlan(plan: PainManagementPlan): Promise<void> {
+  const { painAssessment } = plan;
+  const database = await getDatabase();
+  await database.putAll([
+    { store: 'painAssessments', value: painAssessment },
+    { store: 'syncQueue', value: newSyncItem('create', 'painAssessments', painAssessment.id, painAssessment) },
+    { store: 'painManagementPlans', value: plan },
+    { store: 'syncQueue', value: newSyncItem('create', 'painManagementPlans', plan.id, plan) },
+  ]);
+}
+
 export async function updatePainManagementPlan(plan: PainManagementPlan): Promise<void> {
   const database = await getDatabase();
   plan.updatedAt = new Date();
@@ -533,6 +1716,21 @@ export async function deletePainManagementPlan(id: string): Promise<void> {
   await addToSyncQueue('delete', 'painManagementPlans', id, null);
 }
 
+// ============================================
+// Analgesic Administration Operations
+// ============================================
+
+export async function createAnalgesicAdministration(administration: AnalgesicAdministration): Promise<void> {
+  const database = await getDatabase();
+  await database.put('analgesicAdministrations', administration);
+  await addToSyncQueue('create', 'analgesicAdministrations', administration.id, administration);
+}
+
+export async function getAnalgesicAdministrationsForPatient(patientId: string): Promise<AnalgesicAdministration[]> {
+  const database = await getDatabase();
+  return database.getAllFromIndex('analgesicAdministrations', 'patientId', patientId);
+}
+
 // ============================================
 // Sterile Field Checklist Operations
 // ============================================
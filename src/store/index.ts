@@ -10,9 +10,15 @@ import type {
   Wound, 
   WoundAssessment, 
   AppState, 
-  CaptureState 
+  CaptureState,
+  EncryptionState,
+  UserIdentity,
+  ESignature,
 } from '@/types';
+import { assertPermission, formatUserIdentity, toUserIdentity } from '@/lib/permissions';
+import { amendAssessment as amendRecord } from '@/lib/verification';
 import * as db from './database';
+import { usePainManagementStore } from './painManagementStore';
 
 // ============================================
 // App State Store
@@ -25,6 +31,9 @@ interface AppStore extends AppState {
   setModelLoaded: (loaded: boolean) => void;
   setOnlineStatus: (online: boolean) => void;
   updatePendingSync: (count: number) => void;
+  setEncryptionState: (state: EncryptionState) => void;
+  signIn: (user: UserIdentity) => void;
+  signOut: () => void;
 }
 
 export const useAppStore = create<AppStore>()(
@@ -35,19 +44,42 @@ export const useAppStore = create<AppStore>()(
       isModelLoaded: false,
       isOnline: navigator.onLine,
       pendingSync: 0,
+      encryptionState: null,
+      currentUser: null,
 
       setCurrentPatient: (patient) => set({ currentPatient: patient }),
       setCurrentWound: (wound) => set({ currentWound: wound }),
       setModelLoaded: (loaded) => set({ isModelLoaded: loaded }),
       setOnlineStatus: (online) => set({ isOnline: online }),
       updatePendingSync: (count) => set({ pendingSync: count }),
+      // Locking also signs out and forgets the patient in view and any draft
+      setEncryptionState: (state) => {
+        if (state !== 'unlocked') {
+          db.setAuditActor(null);
+          usePainManagementStore.getState().resetAll();
+        }
+        set(state === 'unlocked'
+          ? { encryptionState: state }
+          : { encryptionState: state, currentUser: null, currentPatient: null, currentWound: null });
+      },
+      // Changes are attributed in the audit log to whoever is signed in
+      signIn: (user) => {
+        db.setAuditActor(user);
+        set({ currentUser: toUserIdentity(user) });
+      },
+      signOut: () => {
+        db.setAuditActor(null);
+        usePainManagementStore.getState().resetAll();
+        set({ currentUser: null, currentPatient: null, currentWound: null });
+      },
     }),
     {
       name: 'astrowound-app-store',
-      partialize: (state) => ({
-        currentPatient: state.currentPatient,
-        currentWound: state.currentWound,
-      }),
+      version: 1,
+      // Patient and wound records must not be written to localStorage in
+      // clear now that the database is encrypted; v0 persisted both
+      partialize: () => ({}),
+      migrate: () => ({}),
     }
   )
 );
@@ -136,11 +168,14 @@ export const usePatientsStore = create<PatientsStore>()((set, get) => ({
       });
     } catch (error) {
       set({ error: (error as Error).message });
+      // Callers saving alongside other records need to know it failed
+      throw error;
     }
   },
 
   removePatient: async (id) => {
     try {
+      assertPermission(useAppStore.getState().currentUser, 'delete_patient');
       await db.deletePatient(id);
       set({ patients: get().patients.filter((p) => p.id !== id) });
     } catch (error) {
@@ -233,6 +268,8 @@ interface AssessmentsStore {
   loadAssessmentsForWound: (woundId: string) => Promise<void>;
   addAssessment: (assessment: WoundAssessment) => Promise<void>;
   updateAssessment: (assessment: WoundAssessment) => Promise<void>;
+  verifyAssessment: (assessment: WoundAssessment, signature: ESignature) => Promise<WoundAssessment>;
+  amendAssessment: (edited: WoundAssessment, reason: string, signature: ESignature) => Promise<WoundAssessment>;
   removeAssessment: (id: string) => Promise<void>;
 }
 
@@ -277,6 +314,46 @@ export const useAssessmentsStore = create<AssessmentsStore>()((set, get) => ({
     }
   },
 
+  // Sign off as the current user; rejects when their role may not verify
+  verifyAssessment: async (assessment, signature) => {
+    const user = useAppStore.getState().currentUser;
+    assertPermission(user, 'verify_assessment');
+    const verified: WoundAssessment = {
+      ...assessment,
+      clinicianVerified: true,
+      verifiedBy: formatUserIdentity(user),
+      verifiedByUserId: user.id,
+      verifiedAt: signature.signedAt,
+      verificationSignature: signature,
+    };
+    await db.updateAssessment(verified);
+    set({
+      assessments: get().assessments.map((a) => (a.id === verified.id ? verified : a)),
+    });
+    return verified;
+  },
+
+  // Verified assessments only change through a signed amendment
+  amendAssessment: async (edited, reason, signature) => {
+    const user = useAppStore.getState().currentUser;
+    assertPermission(user, 'amend_assessment');
+    const stored = await db.getAssessment(edited.id);
+    if (!stored) throw new Error('Assessment not found');
+    const amended = amendRecord(stored, edited, {
+      amendedBy: formatUserIdentity(user),
+      amendedByUserId: user.id,
+      reason,
+      signature,
+    });
+    const amendments = amended.amendments!;
+    if (amendments[amendments.length - 1].changes.length === 0) throw new Error('Nothing has been changed');
+    await db.updateAssessment(amended);
+    set({
+      assessments: get().assessments.map((a) => (a.id === amended.id ? amended : a)),
+    });
+    return amended;
+  },
+
   removeAssessment: async (id) => {
     try {
       await db.deleteAssessment(id);
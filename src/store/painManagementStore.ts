@@ -17,15 +17,18 @@ import type {
   PainScaleType,
   PainType,
   DressingSession,
+  DressingWoundAssessment,
   SterileFieldChecklist,
   MaterialsChecklist,
   MaterialItem,
   PostDressingCare,
   LayeredDressing,
   WoundPhase,
+  PainManagementPlan,
 } from '@/types';
 import { generateRiskFlags } from '@/lib/comorbidityEngine';
 import { generateAnalgesicRecommendations, generateProceduralPainPlan } from '@/lib/analgesicEngine';
+import { addDoseCalculations } from '@/lib/analgesicDosing';
 import { generateMonitoringPlan, generateRedFlags } from '@/lib/safetyModule';
 
 // Pain Assessment Workflow Steps
@@ -64,12 +67,14 @@ interface PainManagementState {
   // Generated Results
   riskFlags: RiskFlag[];
   recommendations: AnalgesicRecommendation[];
+  analgesicPlan: PainManagementPlan['analgesicPlan'] | null;
   proceduralPlan: ProceduralPainPlan | null;
   monitoringPlan: MonitoringPlan | null;
   redFlags: RedFlag[];
 
   // Dressing Session State
   currentDressingSession: Partial<DressingSession> | null;
+  dressingWoundAssessment: Partial<DressingWoundAssessment> | null;
   sterileFieldChecklist: Partial<SterileFieldChecklist> | null;
   materialsChecklist: Partial<MaterialsChecklist> | null;
   postDressingCare: Partial<PostDressingCare> | null;
@@ -111,6 +116,8 @@ interface PainManagementState {
   setCurrentDressingSession: (session: Partial<DressingSession>) => void;
   updateDressingSession: (update: Partial<DressingSession>) => void;
   setSelectedWoundPhase: (phase: WoundPhase) => void;
+  setDressingWoundAssessment: (assessment: Partial<DressingWoundAssessment> | null) => void;
+  updateDressingWoundAssessment: (update: Partial<DressingWoundAssessment>) => void;
 
   // Actions - Checklists
   setSterileFieldChecklist: (checklist: Partial<SterileFieldChecklist>) => void;
@@ -166,10 +173,12 @@ export const usePainManagementStore = create<PainManagementState>()(
       comorbidities: [],
       riskFlags: [],
       recommendations: [],
+      analgesicPlan: null,
       proceduralPlan: null,
       monitoringPlan: null,
       redFlags: [],
       currentDressingSession: null,
+      dressingWoundAssessment: null,
       sterileFieldChecklist: null,
       materialsChecklist: null,
       postDressingCare: null,
@@ -296,23 +305,39 @@ export const usePainManagementStore = create<PainManagementState>()(
           createdAt: currentAssessment.createdAt || new Date(),
         };
 
-        // Generate analgesic recommendations
-        const recommendations = generateAnalgesicRecommendations(
+        // Generate analgesic recommendations, with doses for this patient
+        const generated = generateAnalgesicRecommendations(
           assessment,
           riskFlags,
           patientInfo
         );
+        const recommendations = {
+          ...generated,
+          primaryRecommendations: addDoseCalculations(generated.primaryRecommendations, patientInfo, comorbidities),
+          adjunctRecommendations: addDoseCalculations(generated.adjunctRecommendations, patientInfo, comorbidities),
+        };
 
-        // Generate procedural plan if applicable
+        // Generate procedural plan if applicable, with doses for its agents
         let proceduralPlan: ProceduralPainPlan | null = null;
         if (assessment.painContext === 'procedural') {
-          proceduralPlan = generateProceduralPainPlan(
+          const generatedPlan = generateProceduralPainPlan(
             'wound_dressing',
             'Wound dressing change',
             assessment,
             riskFlags,
             patientInfo
           );
+          proceduralPlan = {
+            ...generatedPlan,
+            preEmptiveAnalgesia: {
+              ...generatedPlan.preEmptiveAnalgesia,
+              recommendations: addDoseCalculations(generatedPlan.preEmptiveAnalgesia.recommendations, patientInfo, comorbidities),
+            },
+            intraProceduralAnalgesia: {
+              ...generatedPlan.intraProceduralAnalgesia,
+              systemicOptions: addDoseCalculations(generatedPlan.intraProceduralAnalgesia.systemicOptions, patientInfo, comorbidities),
+            },
+          };
         }
 
         // Generate monitoring plan - extract recommendations array from result
@@ -338,6 +363,7 @@ export const usePainManagementStore = create<PainManagementState>()(
         set({
           riskFlags,
           recommendations: recsArray,
+          analgesicPlan: recommendations,
           proceduralPlan,
           monitoringPlan,
           redFlags,
@@ -355,6 +381,13 @@ export const usePainManagementStore = create<PainManagementState>()(
 
       setSelectedWoundPhase: (phase) => set({ selectedWoundPhase: phase }),
 
+      setDressingWoundAssessment: (assessment) => set({ dressingWoundAssessment: assessment }),
+
+      updateDressingWoundAssessment: (update) => {
+        const current = get().dressingWoundAssessment;
+        set({ dressingWoundAssessment: { ...current, ...update } });
+      },
+
       // Checklist Actions
       setSterileFieldChecklist: (checklist) => set({ sterileFieldChecklist: checklist }),
 
@@ -424,6 +457,7 @@ export const usePainManagementStore = create<PainManagementState>()(
         comorbidities: [],
         riskFlags: [],
         recommendations: [],
+        analgesicPlan: null,
         proceduralPlan: null,
         monitoringPlan: null,
         redFlags: []
@@ -432,6 +466,7 @@ export const usePainManagementStore = create<PainManagementState>()(
       resetDressingSession: () => set({
         currentDressingStep: 'wound_assessment',
         currentDressingSession: null,
+        dressingWoundAssessment: null,
         sterileFieldChecklist: null,
         materialsChecklist: null,
         postDressingCare: null,
@@ -447,10 +482,12 @@ export const usePainManagementStore = create<PainManagementState>()(
         comorbidities: [],
         riskFlags: [],
         recommendations: [],
+        analgesicPlan: null,
         proceduralPlan: null,
         monitoringPlan: null,
         redFlags: [],
         currentDressingSession: null,
+        dressingWoundAssessment: null,
         sterileFieldChecklist: null,
         materialsChecklist: null,
         postDressingCare: null,
@@ -461,14 +498,13 @@ export const usePainManagementStore = create<PainManagementState>()(
     }),
     {
       name: 'astrowound-pain-management',
+      version: 1,
+      // Drafts hold patient details, medications and scores, which must not
+      // sit in localStorage in clear; v0 persisted them
       partialize: (state) => ({
-        patientInfo: state.patientInfo,
-        currentAssessment: state.currentAssessment,
-        comorbidities: state.comorbidities,
-        currentDressingSession: state.currentDressingSession,
-        selectedWoundPhase: state.selectedWoundPhase,
-        linkedCaptureId: state.linkedCaptureId
-      })
+        selectedWoundPhase: state.selectedWoundPhase
+      }),
+      migrate: () => ({})
     }
   )
 );
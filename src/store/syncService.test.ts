@@ -0,0 +1,117 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import type { Patient, SyncConflict, UserIdentity, Wound, WoundAssessment } from '@/types';
+
+// The app store reads navigator.onLine when it is created and persists to localStorage
+vi.hoisted(() => {
+  const items = new Map<string, string>();
+  Object.defineProperty(globalThis, 'navigator', { value: { onLine: false }, configurable: true });
+  Object.defineProperty(globalThis, 'localStorage', {
+    value: {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+      removeItem: (key: string) => items.delete(key),
+    },
+    configurable: true,
+  });
+});
+
+const { useAppStore } = await import('./index');
+const db = await import('./database');
+const { getSyncService } = await import('./syncService');
+
+const nurse: UserIdentity = { id: 'u-nurse', displayName: 'N. Nurse', role: 'nurse' };
+const specialist: UserIdentity = { id: 'u-spec', displayName: 'S. Specialist', credentials: 'RN, CWS', role: 'wound_specialist' };
+
+const openConflict = (id: string, recordId: string): SyncConflict => ({
+  id,
+  table: 'assessments',
+  recordId,
+  recordLabel: 'Assessment',
+  detectedAt: new Date(),
+  localRevision: 1,
+  remoteVersion: 'server-7',
+  fields: [{ path: 'notes', label: 'Notes', local: 'local note', remote: 'server note' }],
+  status: 'open',
+});
+
+async function createVerifiedAssessment(id: string): Promise<void> {
+  await db.createAssessment({
+    id,
+    woundId: 'w1',
+    capturedAt: new Date(),
+    notes: 'local note',
+    clinicianVerified: true,
+    verifiedBy: 'S. Specialist',
+  } as unknown as WoundAssessment);
+}
+
+beforeAll(async () => {
+  await db.setupEncryption('123456');
+  await db.createPatient({ id: 'p1', mrn: 'MRN-1', firstName: 'Ada', lastName: 'Lovelace' } as Patient);
+  await db.createWound({ id: 'w1', patientId: 'p1', status: 'active' } as Wound);
+});
+
+describe('SyncService.resolveConflict', () => {
+  it('refuses a merge into a verified assessment without the amend permission', async () => {
+    await createVerifiedAssessment('a1');
+    await db.saveSyncConflict(openConflict('c1', 'a1'));
+    useAppStore.getState().signIn(nurse);
+    const queued = (await db.getSyncQueue()).length;
+
+    await expect(getSyncService().resolveConflict('c1', { notes: 'remote' })).rejects.toThrow('amend assessment');
+
+    const stored = await db.getAssessment('a1');
+    expect(stored?.notes).toBe('local note');
+    expect(stored?.revision?.serverVersion).toBeUndefined();
+    expect((await db.getSyncConflict('c1'))?.status).toBe('open');
+    expect(await db.getSyncQueue()).toHaveLength(queued);
+  });
+
+  it('records the merge as an amendment by the signed-in user', async () => {
+    await createVerifiedAssessment('a2');
+    await db.saveSyncConflict(openConflict('c2', 'a2'));
+    useAppStore.getState().signIn(specialist);
+
+    const resolved = await getSyncService().resolveConflict('c2', { notes: 'remote' });
+
+    expect(resolved.resolution).toMatchObject({ resolvedBy: 'S. Specialist, RN, CWS', resolvedByUserId: 'u-spec' });
+    const stored = await db.getAssessment('a2');
+    expect(stored?.notes).toBe('server note');
+    expect(stored?.revision?.serverVersion).toBe('server-7');
+    expect(stored?.amendments?.[stored.amendments.length - 1]).toMatchObject({ amendedByUserId: 'u-spec', reason: 'Sync conflict resolved' });
+    expect((await db.getSyncConflict('c2'))?.status).toBe('resolved');
+  });
+
+  it('merges the chosen side of each field and queues the result', async () => {
+    await db.createPatient({
+      id: 'p2', mrn: 'MRN-2', firstName: 'Mary', lastName: 'Seacole', contact: { phone: '0111' },
+    } as Patient);
+    await db.saveSyncConflict({
+      ...openConflict('c4', 'p2'),
+      table: 'patients',
+      fields: [
+        { path: 'lastName', label: 'Last name', local: 'Seacole', remote: 'Grant' },
+        { path: 'contact.phone', label: 'Phone', local: '0111', remote: '0222' },
+      ],
+    });
+    useAppStore.getState().signIn(nurse);
+
+    const resolved = await getSyncService().resolveConflict('c4', { lastName: 'remote' });
+
+    expect(resolved.resolution?.choices).toEqual({ lastName: 'remote', 'contact.phone': 'local' });
+    const stored = await db.getPatient('p2');
+    expect(stored).toMatchObject({ lastName: 'Grant', contact: { phone: '0111' } });
+    expect(stored?.revision?.serverVersion).toBe('server-7');
+    const update = (await db.getSyncQueue()).find(item => item.recordId === 'p2' && item.type === 'update');
+    expect(update?.data).toMatchObject({ lastName: 'Grant', contact: { phone: '0111' } });
+  });
+
+  it('requires a signed-in user', async () => {
+    await createVerifiedAssessment('a3');
+    await db.saveSyncConflict(openConflict('c3', 'a3'));
+    useAppStore.getState().signOut();
+
+    await expect(getSyncService().resolveConflict('c3', {})).rejects.toThrow('Sign in');
+  });
+});
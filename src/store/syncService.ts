@@ -0,0 +1,447 @@
+/**
+ * AstroWound-MEASURE Sync Service
+ * Drains the IndexedDB sync queue to a FHIR R4 server with retry backoff
+ */
+
+import { v4 as uuid } from 'uuid';
+import { format } from 'date-fns';
+import type {
+  ClinicalReport,
+  ConflictTable,
+  FhirBundle,
+  FhirResource,
+  FhirSyncSettings,
+  Patient,
+  SyncConflict,
+  SyncQueueItem,
+  SyncRunResult,
+  Wound,
+  WoundAssessment,
+} from '@/types';
+import {
+  assessmentToFhir,
+  buildSyncBundle,
+  diffConflictFields,
+  isFhirSyncTable,
+  parseVersionTag,
+  patientToFhir,
+  setFieldValue,
+  reportToFhirDocumentReference,
+  woundToFhirCondition,
+} from '@/lib/fhir';
+import { assertPermission, formatUserIdentity } from '@/lib/permissions';
+import { amendAssessment, isAssessmentLocked } from '@/lib/verification';
+import * as db from './database';
+import { useAppStore } from './index';
+
+export const SYNC_RETRY = {
+  baseDelayMs: 30 * 1000,       // first retry after 30 s
+  maxDelayMs: 60 * 60 * 1000,   // back off to at most hourly
+  requestTimeoutMs: 30 * 1000,
+};
+
+// Server resource holding each revision-tracked table
+const CONFLICT_RESOURCE_TYPES: Record<ConflictTable, string> = {
+  patients: 'Patient',
+  wounds: 'Condition',
+  assessments: 'Observation',
+};
+
+type FetchFn = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+
+type RevisionedRecord = Patient | Wound | WoundAssessment;
+
+/**
+ * Non-2xx response from the FHIR server
+ */
+export class FhirRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'FhirRequestError';
+  }
+}
+
+const isConflictTable = (table: string): table is ConflictTable => table in CONFLICT_RESOURCE_TYPES;
+
+/**
+ * Sync Service: sends queued local changes as FHIR transaction bundles
+ */
+export class SyncService {
+  private running: Promise<SyncRunResult | null> | null = null;
+  private lastResult: SyncRunResult | null = null;
+
+  constructor(private fetchFn: FetchFn = (input, init) => fetch(input, init)) {}
+
+  /**
+   * Drain the queue once. Concurrent calls share the run in progress.
+   * Returns null when sync is disabled, unconfigured, the device is offline
+   * or the database is locked.
+   * A manual run can ignore the retry backoff of failed items.
+   */
+  run(options: { ignoreBackoff?: boolean } = {}): Promise<SyncRunResult | null> {
+    if (!this.running) {
+      this.running = this.drain(options.ignoreBackoff ?? false).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  getLastResult(): SyncRunResult | null {
+    return this.lastResult;
+  }
+
+  isRunning(): boolean {
+    return this.running !== null;
+  }
+
+  /**
+   * When a failed item becomes eligible for another attempt
+   */
+  nextRetryAt(item: SyncQueueItem): Date | null {
+    if (item.attempts === 0 || !item.lastAttempt) return null;
+    const delay = Math.min(SYNC_RETRY.baseDelayMs * Math.pow(2, item.attempts - 1), SYNC_RETRY.maxDelayMs);
+    return new Date(new Date(item.lastAttempt).getTime() + delay);
+  }
+
+  /**
+   * Check the endpoint answers as a FHIR server (GET /metadata)
+   */
+  async testConnection(settings: FhirSyncSettings): Promise<{ ok: boolean; message: string }> {
+    try {
+      const response = await this.request(settings, 'metadata', { method: 'GET' });
+      const body = await response.json() as FhirResource;
+      if (body.resourceType !== 'CapabilityStatement') {
+        return { ok: false, message: 'Endpoint did not return a FHIR CapabilityStatement' };
+      }
+      return { ok: true, message: `Connected (FHIR ${String(body.fhirVersion ?? 'unknown version')})` };
+    } catch (error) {
+      return { ok: false, message: (error as Error).message };
+    }
+  }
+
+  /**
+   * Update the pending count shown in the app from the queue
+   */
+  async refreshPendingCount(): Promise<number> {
+    const count = (await db.getSyncQueue()).length;
+    useAppStore.getState().updatePendingSync(count);
+    return count;
+  }
+
+  private async drain(ignoreBackoff: boolean): Promise<SyncRunResult | null> {
+    // The queue is encrypted with the rest of the patient data
+    if (!db.isDatabaseUnlocked()) return null;
+
+    const settings = (await db.getSettings())?.fhirSync;
+    if (!settings?.enabled || !settings.endpoint || !navigator.onLine) {
+      await this.refreshPendingCount();
+      return null;
+    }
+
+    const startedAt = new Date();
+    const result: SyncRunResult = {
+      startedAt,
+      completedAt: startedAt,
+      sent: 0,
+      failed: 0,
+      superseded: 0,
+      skipped: 0,
+      deferred: 0,
+      conflicts: 0,
+      remaining: 0,
+    };
+    const conflicted = new Set(
+      (await db.getOpenSyncConflicts()).map(c => `${c.table}:${c.recordId}`)
+    );
+
+    const queue = (await db.getSyncQueue()).sort(
+      (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+
+    // Only the newest change to a record needs sending
+    const latest = new Map<string, SyncQueueItem>();
+    for (const item of queue) {
+      latest.set(`${item.table}:${item.recordId}`, item);
+    }
+
+    for (const item of queue) {
+      if (latest.get(`${item.table}:${item.recordId}`) !== item) {
+        await db.removeSyncItem(item.id);
+        result.superseded++;
+        continue;
+      }
+
+      if (!isFhirSyncTable(item.table)) {
+        await db.removeSyncItem(item.id);
+        result.skipped++;
+        continue;
+      }
+
+      const retryAt = this.nextRetryAt(item);
+      if (!ignoreBackoff && retryAt && retryAt > startedAt) {
+        result.deferred++;
+        continue;
+      }
+
+      // Held back until a clinician resolves the conflict
+      if (conflicted.has(`${item.table}:${item.recordId}`)) {
+        result.deferred++;
+        continue;
+      }
+
+      await this.push(settings, item, result);
+    }
+
+    result.remaining = await this.refreshPendingCount();
+    result.completedAt = new Date();
+    this.lastResult = result;
+    return result;
+  }
+
+  /**
+   * Resolve a conflict with per-field choices. The merged record becomes a
+   * new local revision based on the server version that caused the
+   * conflict, so the next sync overwrites the server copy. The resolution
+   * is attributed to the signed-in user; merging into a verified
+   * assessment needs the amend permission.
+   */
+  async resolveConflict(
+    conflictId: string,
+    choices: Record<string, 'local' | 'remote'>
+  ): Promise<SyncConflict> {
+    const user = useAppStore.getState().currentUser;
+    if (!user) throw new Error('Sign in to resolve conflicts');
+    const resolvedBy = formatUserIdentity(user);
+
+    const conflict = await db.getSyncConflict(conflictId);
+    if (!conflict || conflict.status !== 'open') {
+      throw new Error('Conflict is no longer open');
+    }
+
+    const current = await db.getRevisionedRecord(conflict.table, conflict.recordId);
+    if (!current) {
+      throw new Error('The local record no longer exists');
+    }
+    // A merge into a verified assessment is recorded as an amendment
+    const amending = conflict.table === 'assessments' && isAssessmentLocked(current as WoundAssessment);
+    if (amending) assertPermission(user, 'amend_assessment');
+
+    const merged = conflict.fields.reduce<RevisionedRecord>(
+      (record, field) => (choices[field.path] === 'remote' ? setFieldValue(record, field.path, field.remote) : record),
+      current
+    );
+
+    const record = amending
+      ? amendAssessment(current as WoundAssessment, merged as WoundAssessment, {
+          amendedBy: resolvedBy,
+          amendedByUserId: user.id,
+          reason: 'Sync conflict resolved',
+        })
+      : merged;
+
+    const resolved: SyncConflict = {
+      ...conflict,
+      status: 'resolved',
+      resolution: {
+        resolvedBy,
+        resolvedByUserId: user.id,
+        resolvedAt: new Date(),
+        choices: Object.fromEntries(conflict.fields.map(f => [f.path, choices[f.path] ?? 'local'])),
+      },
+    };
+    // The merge, its server version and the resolution are written together
+    await db.saveConflictResolution(record, resolved);
+
+    this.run().catch(error => console.error('[Sync] Failed after conflict resolution:', error));
+    return resolved;
+  }
+
+  /**
+   * Send one queue item and record its outcome
+   */
+  private async push(settings: FhirSyncSettings, item: SyncQueueItem, result: SyncRunResult): Promise<void> {
+    const tracked = isConflictTable(item.table) && item.type !== 'delete';
+    const current = tracked ? await db.getRevisionedRecord(item.table as ConflictTable, item.recordId) : undefined;
+
+    try {
+      const resources = item.type === 'delete' ? [] : await this.resourcesFor(item, current ?? item.data);
+      const bundle = buildSyncBundle(item, resources, current?.revision?.serverVersion);
+      const response = await this.send(settings, bundle);
+
+      if (tracked) {
+        const index = bundle.entry?.findIndex(e => e.resource?.id === item.recordId) ?? -1;
+        const version = parseVersionTag(response.entry?.[index]?.response?.etag);
+        if (version) {
+          await db.setServerVersion(item.table as ConflictTable, item.recordId, version);
+        }
+      }
+      await db.removeSyncItem(item.id);
+      result.sent++;
+    } catch (error) {
+      let failure = error as Error;
+
+      if (error instanceof FhirRequestError && error.status === 412 && tracked && current) {
+        // Server copy changed since our last sync; the item stays queued
+        try {
+          if (await this.recordConflict(settings, item.table as ConflictTable, current)) {
+            result.conflicts++;
+          } else {
+            result.deferred++;
+          }
+          return;
+        } catch (fetchError) {
+          failure = fetchError as Error;
+        }
+      }
+
+      await db.updateSyncItem({
+        ...item,
+        attempts: item.attempts + 1,
+        lastAttempt: new Date(),
+        error: failure.message,
+      });
+      result.failed++;
+    }
+  }
+
+  /**
+   * Fetch the server copy and store a conflict for the differing fields.
+   * When nothing that round-trips through FHIR differs, the server version
+   * is adopted so the next run goes through. Returns the new conflict, if any.
+   */
+  private async recordConflict(
+    settings: FhirSyncSettings,
+    table: ConflictTable,
+    local: RevisionedRecord
+  ): Promise<SyncConflict | null> {
+    const response = await this.request(settings, `${CONFLICT_RESOURCE_TYPES[table]}/${local.id}`, { method: 'GET' });
+    const remote = await response.json() as FhirResource;
+    const meta = remote.meta as { versionId?: string; lastUpdated?: string } | undefined;
+    const fields = diffConflictFields(table, local, remote);
+
+    if (fields.length === 0) {
+      if (meta?.versionId) {
+        await db.setServerVersion(table, local.id, meta.versionId);
+      }
+      return null;
+    }
+
+    const conflict: SyncConflict = {
+      id: uuid(),
+      table,
+      recordId: local.id,
+      recordLabel: this.recordLabel(table, local),
+      detectedAt: new Date(),
+      localRevision: local.revision?.revision ?? 0,
+      remoteVersion: meta?.versionId,
+      remoteUpdatedAt: meta?.lastUpdated,
+      fields,
+      status: 'open',
+    };
+    await db.saveSyncConflict(conflict);
+    return conflict;
+  }
+
+  private recordLabel(table: ConflictTable, record: RevisionedRecord): string {
+    switch (table) {
+      case 'patients': {
+        const patient = record as Patient;
+        return `${patient.lastName}, ${patient.firstName} (MRN ${patient.mrn})`;
+      }
+      case 'wounds': {
+        const wound = record as Wound;
+        return `${wound.type.replace(/_/g, ' ')} - ${wound.location}`;
+      }
+      case 'assessments':
+        return `Assessment ${format(new Date((record as WoundAssessment).capturedAt), 'MMM d, yyyy HH:mm')}`;
+    }
+  }
+
+  private async resourcesFor(item: SyncQueueItem, data: unknown): Promise<FhirResource[]> {
+    switch (item.table) {
+      case 'patients':
+        return [patientToFhir(data as Patient)];
+      case 'wounds':
+        return [woundToFhirCondition(data as Wound)];
+      case 'assessments': {
+        const assessment = data as WoundAssessment;
+        const wound = await db.getWound(assessment.woundId);
+        if (!wound) {
+          throw new Error(`Wound ${assessment.woundId} for assessment not found`);
+        }
+        return assessmentToFhir(assessment, wound.patientId);
+      }
+      case 'reports':
+        return [reportToFhirDocumentReference(data as ClinicalReport)];
+      default:
+        return [];
+    }
+  }
+
+  private async send(settings: FhirSyncSettings, bundle: FhirBundle): Promise<FhirBundle> {
+    const response = await this.request(settings, '', {
+      method: 'POST',
+      body: JSON.stringify(bundle),
+    });
+    // Servers may answer a transaction without a body (Prefer: return=minimal)
+    return response.json().catch(() => ({ resourceType: 'Bundle', type: 'transaction-response' }) as FhirBundle);
+  }
+
+  private async request(settings: FhirSyncSettings, path: string, init: RequestInit): Promise<Response> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), SYNC_RETRY.requestTimeoutMs);
+    const base = settings.endpoint.replace(/\/+$/, '');
+
+    try {
+      const response = await this.fetchFn(path ? `${base}/${path}` : base, {
+        ...init,
+        signal: controller.signal,
+        headers: {
+          Accept: 'application/fhir+json',
+          'Content-Type': 'application/fhir+json',
+          ...(settings.authToken ? { Authorization: `Bearer ${settings.authToken}` } : {}),
+        },
+      });
+
+      if (!response.ok) {
+        throw new FhirRequestError(
+          `FHIR server returned ${response.status}${await this.outcomeMessage(response)}`,
+          response.status
+        );
+      }
+      return response;
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        throw new Error('FHIR server did not respond in time');
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  /**
+   * First diagnostic from an OperationOutcome body, if the server sent one
+   */
+  private async outcomeMessage(response: Response): Promise<string> {
+    try {
+      const outcome = await response.json() as { issue?: { diagnostics?: string; details?: { text?: string } }[] };
+      const issue = outcome.issue?.[0];
+      const text = issue?.diagnostics ?? issue?.details?.text;
+      return text ? `: ${text}` : '';
+    } catch {
+      return '';
+    }
+  }
+}
+
+// Singleton instance
+let syncService: SyncService | null = null;
+
+export function getSyncService(): SyncService {
+  if (!syncService) {
+    syncService = new SyncService();
+  }
+  return syncService;
+}
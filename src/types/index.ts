@@ -21,8 +21,10 @@ export interface Patient {
   };
   medicalHistory?: string[];
   allergies?: string[];
+  currentMedications?: string[];
   createdAt: Date;
   updatedAt: Date;
+  revision?: RecordRevision;
 }
 
 // ============================================
@@ -73,6 +75,7 @@ export interface Wound {
   assessments: WoundAssessment[];
   createdAt: Date;
   updatedAt: Date;
+  revision?: RecordRevision;
 }
 
 // ============================================
@@ -84,8 +87,41 @@ export interface WoundMeasurement {
   length: number;         // cm (longest axis)
   width: number;          // cm (perpendicular to length)
   perimeter: number;      // cm
-  depth?: number;         // cm (manual entry)
+  depth?: number;         // cm (deepest probe reading)
   volume?: number;        // cm³ (calculated if depth provided)
+  volumeMethod?: 'single_depth' | 'probe_profile';
+  perspectiveCorrected?: boolean; // measured in the rectified marker plane
+}
+
+// 12 o'clock points toward the patient's head (top of the image)
+export type ClockPosition = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12;
+
+export interface DepthReading {
+  position: ClockPosition | 'centre';
+  depth: number;          // cm
+}
+
+export interface UnderminingExtent {
+  fromClock: ClockPosition;
+  toClock: ClockPosition; // clockwise from fromClock
+  depth: number;          // cm beyond the wound edge
+}
+
+export interface TunnelTract {
+  clock: ClockPosition;
+  depth: number;          // cm
+}
+
+export interface DepthProbeRecord {
+  readings: DepthReading[];
+  undermining: UnderminingExtent[];
+  tunnels: TunnelTract[];
+  maxDepth: number;       // deepest wound bed reading (cm)
+}
+
+export interface WoundRadialProfile {
+  centroid: Point;
+  radii: number[];        // edge distance (px) per angular bin, clockwise from 12 o'clock
 }
 
 export interface CalibrationData {
@@ -94,7 +130,10 @@ export interface CalibrationData {
   confidence: number;
   markerType: 'ruler' | 'circle' | 'qr' | 'grid';
   referencePoints: Point[];
-  homographyMatrix?: number[][];
+  worldPoints?: Point[];          // cm coordinates of referencePoints on the marker plane
+  homographyMatrix?: number[][];  // 3x3, image pixels -> marker plane (cm)
+  markerId?: number;              // encoded ID of a fiducial marker (print batch)
+  orientation?: number;           // marker rotation in the image, degrees
 }
 
 export interface Point {
@@ -126,6 +165,14 @@ export interface TissueAnalysis {
   necrotic: number;       // percentage
 }
 
+export type BoundarySource = 'ai' | 'ai_edited' | 'manual';
+
+export interface TissueClassificationResult {
+  breakdown: TissueAnalysis;
+  overlay: ImageData;       // RGBA, transparent outside the wound mask
+  classifiedPixels: number;
+}
+
 // ============================================
 // Assessment Types
 // ============================================
@@ -148,14 +195,56 @@ export interface QualityCheck {
   perspective: {
     distortion: number;
     corrected: boolean;
+    homographyApplied?: boolean;
+    correctionPercent?: number;   // largest local area-scale change vs. a single pixelsPerCm
   };
 }
 
+export type ExudateAmount = 'none' | 'light' | 'moderate' | 'heavy';
+
+export type ExudateType = 'serous' | 'sanguineous' | 'serosanguineous' | 'purulent';
+
+export type WoundOdor = 'none' | 'mild' | 'moderate' | 'strong';
+
+export type InflammationSign =
+  | 'erythema'
+  | 'warmth'
+  | 'swelling'
+  | 'induration'
+  | 'increasing_pain';
+
+export type WoundEdgeCondition =
+  | 'attached'
+  | 'unattached'
+  | 'rolled'
+  | 'undermined'
+  | 'epithelialising'
+  | 'hyperkeratotic';
+
+export type PeriWoundCondition =
+  | 'intact'
+  | 'macerated'
+  | 'excoriated'
+  | 'erythematous'
+  | 'dry_scaly'
+  | 'callused'
+  | 'oedematous'
+  | 'discoloured';
+
+/**
+ * Structured wound-bed observations entered at capture
+ */
+export type WoundBedObservations = Pick<
+  WoundAssessment,
+  'inflammationSigns' | 'exudate' | 'odor' | 'woundEdge' | 'periWoundCondition' | 'pain'
+>;
+
 export interface WoundAssessment {
   id: string;
   woundId: string;
   capturedAt: Date;
   capturedBy: string;
+  capturedByUserId?: string;
   deviceInfo: DeviceInfo;
   
   // Original image
@@ -164,29 +253,41 @@ export interface WoundAssessment {
   // Processed data
   processedImage?: string;
   segmentationResult: SegmentationResult;
+  segmentationMethod?: SegmentationMethod;
+  modelVersion?: string;   // weights (or classical pipeline) that produced the mask
+  boundarySource?: BoundarySource;
   calibrationData: CalibrationData;
   measurement: WoundMeasurement;
+  depthProbe?: DepthProbeRecord;
+  woundScores?: WoundScore[];
+  infectionScreen?: InfectionScreen;
   qualityCheck: QualityCheck;
   
-  // Clinical observations
+  // Clinical observations (TIME: tissue, infection/inflammation, moisture, edge)
   tissueTypes?: Record<TissueType, number>;
+  inflammationSigns?: InflammationSign[];
   exudate?: {
-    amount: 'none' | 'light' | 'moderate' | 'heavy';
-    type: 'serous' | 'sanguineous' | 'serosanguineous' | 'purulent';
+    amount: ExudateAmount;
+    type: ExudateType;
   };
-  odor?: 'none' | 'mild' | 'moderate' | 'strong';
-  periWoundCondition?: string[];
+  odor?: WoundOdor;
+  woundEdge?: WoundEdgeCondition[];
+  periWoundCondition?: PeriWoundCondition[];
   pain?: number; // 0-10 scale
   
   // Clinical notes
   notes?: string;
   clinicianVerified: boolean;
   verifiedBy?: string;
+  verifiedByUserId?: string;
   verifiedAt?: Date;
+  verificationSignature?: ESignature;
+  amendments?: AssessmentAmendment[];  // changes made after verification
   
   // Metadata
   createdAt: Date;
   updatedAt: Date;
+  revision?: RecordRevision;
 }
 
 export interface DeviceInfo {
@@ -201,6 +302,93 @@ export interface DeviceInfo {
   };
 }
 
+// ============================================
+// Wound Scoring Types
+// ============================================
+
+export type WoundScoreTool = 'push' | 'bwat' | 'resvech';
+
+export interface WoundScoreItemResult {
+  itemId: string;
+  score: number;
+  source: 'auto' | 'clinician';
+  selected?: string[];      // checklist items ticked (RESVECH infection signs)
+}
+
+export interface WoundScore {
+  tool: WoundScoreTool;
+  version: string;
+  items: WoundScoreItemResult[];
+  total: number;            // sum of answered items
+  maxTotal: number;
+  missingItems: string[];   // item IDs still to be answered
+  complete: boolean;
+  scoredAt: Date;
+}
+
+export type InfectionScreenTool = 'nerds' | 'stonees';
+
+// NERDS positive: superficial (critical colonisation); STONEES positive: deep
+export type InfectionRisk = 'none' | 'superficial' | 'deep';
+
+export interface InfectionScreenItemResult {
+  itemId: string;
+  present: boolean;
+  source: 'auto' | 'clinician';
+}
+
+export interface InfectionScreen {
+  items: InfectionScreenItemResult[];
+  totals: Record<InfectionScreenTool, number>;
+  missingItems: string[];   // item IDs still to be answered
+  complete: boolean;
+  risk: InfectionRisk;
+  signals: string[];        // supporting trends seen at screening, e.g. rising pain
+  screenedAt: Date;
+}
+
+// ============================================
+// Device Validation Types
+// ============================================
+
+export type ValidationShape = 'circle' | 'square' | 'rectangle' | 'triangle';
+
+export interface ValidationTarget {
+  id: string;
+  label: string;
+  shape: ValidationShape;
+  widthCm: number;
+  heightCm: number;
+  areaCm2: number;        // true printed area
+}
+
+export interface ValidationShapeResult {
+  targetId: string;
+  expectedAreaCm2: number;
+  measuredAreaCm2: number;
+  absoluteErrorCm2: number;
+  percentError: number;   // signed, relative to the true area
+  calibrationMethod: CalibrationData['markerType'];
+  calibrationConfidence: number;
+  perspectiveCorrected: boolean;
+  segmentationMethod: SegmentationMethod;
+  measuredAt: Date;
+}
+
+export interface DeviceValidationRecord {
+  id: string;
+  performedAt: Date;
+  performedBy: string;
+  deviceInfo: DeviceInfo;
+  modelVersion?: string;
+  results: ValidationShapeResult[];
+  meanAbsolutePercentError: number;
+  maxAbsolutePercentError: number;
+  tolerancePercent: number;
+  passed: boolean;
+  notes?: string;
+}
+
 // ============================================
 // Analytics Types
 // ============================================
@@ -227,6 +415,76 @@ export interface WoundAnalytics {
   daysSinceOnset: number;
   progressHistory: HealingProgress[];
   trend: 'improving' | 'stable' | 'worsening';
+  trajectory?: HealingTrajectory;
+}
+
+export type TrajectoryModel = 'log_linear' | 'gilman';
+
+export interface TrajectoryFit {
+  model: TrajectoryModel;
+  intercept: number;        // ln(cm²) for log-linear, cm for Gilman (area/perimeter)
+  slope: number;            // per day
+  rSquared: number;
+  residualSd: number;
+  areaRmse?: number;        // cm², back-transformed over every assessment; used to pick the model
+  pointCount: number;
+  weeklyAreaChangePercent?: number; // log-linear only
+  edgeAdvanceCmPerWeek?: number;    // Gilman only
+  predictedHealingDate?: Date;
+  healingDateInterval?: {
+    earliest: Date;
+    latest?: Date;          // undefined when beyond the projection horizon
+  };
+}
+
+export interface FourWeekPAR {
+  percentReduction: number;
+  threshold: number;
+  projected: boolean;       // extrapolated from the fit rather than observed
+  unlikelyToHeal: boolean;
+}
+
+export interface TrajectoryCurvePoint {
+  day: number;              // days since the first assessment
+  date: Date;
+  predicted: number;        // cm²
+  lower: number;
+  upper: number;
+}
+
+export interface HealingTrajectory {
+  status: 'healed' | 'on_track' | 'unlikely_to_heal' | 'insufficient_data';
+  selectedModel?: TrajectoryModel;
+  fits: TrajectoryFit[];
+  par4Week?: FourWeekPAR;
+  predictionLevel: number;  // e.g. 0.95
+  baselineDate: Date;
+  curve: TrajectoryCurvePoint[];
+}
+
+// ============================================
+// Comparison Types
+// ============================================
+
+export type AlignmentAnchor = 'marker' | 'wound';
+
+export interface AssessmentAlignment {
+  anchor: AlignmentAnchor;       // anchor actually used (falls back to 'wound')
+  scale: number;                 // follow-up pixels -> baseline pixels
+  rotation: number;              // degrees, follow-up -> baseline
+  scaleFromCalibration: boolean;
+  rotationFromMarker: boolean;
+  matrix: [number, number, number, number, number, number]; // SVG/canvas affine (a b c d e f)
+}
+
+export interface MeasurementDelta {
+  key: 'area' | 'perimeter' | 'length' | 'width' | 'depth' | 'volume';
+  label: string;
+  unit: string;
+  before: number;
+  after: number;
+  change: number;
+  changePercent?: number;        // undefined when the baseline is 0
 }
 
 // ============================================
@@ -251,6 +509,9 @@ export interface ClinicalReport {
     name: string;
     credentials: string;
     signedAt: Date;
+    userId?: string;
+    method?: SignatureMethod;
+    image?: string;          // PNG data URL of a drawn signature
   };
 }
 
@@ -265,11 +526,28 @@ export interface ModelConfig {
   outputChannels: number;
   backend: 'webgl' | 'wasm' | 'cpu';
   quantized: boolean;
+  manifestUrl: string;
+}
+
+export type ModelStatus = 'idle' | 'loading' | 'ready' | 'unavailable';
+
+export type SegmentationMethod = 'model' | 'classical';
+
+export interface ModelManifest {
+  name: string;
+  version: string;
+  format: 'graph' | 'layers';
+  modelPath: string; // relative to the manifest
+  inputSize: [number, number];
+  quantized: boolean;
+  quantizationBytes?: 1 | 2;
 }
 
 export interface InferenceResult {
-  segmentation: SegmentationResult;
+  segmentation: SegmentationResult;       // largest candidate
+  candidates: SegmentationResult[];       // every separate region, largest first
   inferenceTime: number;
+  method: SegmentationMethod;
   modelVersion?: string;
   modelConfig?: ModelConfig;
 }
@@ -284,6 +562,8 @@ export interface AppState {
   isModelLoaded: boolean;
   isOnline: boolean;
   pendingSync: number;
+  encryptionState: EncryptionState | null;  // null until the key vault has been checked
+  currentUser: UserIdentity | null;          // clinician signed in on this device
 }
 
 export interface CaptureState {
@@ -320,6 +600,9 @@ export interface AppSettings {
     maxPerspectiveDistortion: number;
   };
   measurementPrecision: number;
+  fhirSync?: FhirSyncSettings;
+  deviceId?: string;        // generated once per installation, stamps local edits
+  autoLockMinutes?: number; // lock the database after this long without interaction
 }
 
 export interface SyncQueueItem {
@@ -334,6 +617,345 @@ export interface SyncQueueItem {
   error?: string;
 }
 
+// ============================================
+// FHIR Sync Types
+// ============================================
+
+export interface FhirSyncSettings {
+  enabled: boolean;
+  endpoint: string;         // FHIR R4 base URL
+  authToken?: string;       // sent as a Bearer token
+}
+
+export interface FhirResource {
+  resourceType: string;
+  id?: string;
+  [key: string]: unknown;
+}
+
+export interface FhirBundleEntry {
+  fullUrl?: string;
+  resource?: FhirResource;
+  request?: {
+    method: 'PUT' | 'POST' | 'DELETE';
+    url: string;
+    ifMatch?: string;       // W/"versionId" for optimistic locking
+  };
+  response?: {
+    status: string;
+    location?: string;
+    etag?: string;
+  };
+}
+
+export interface FhirBundle extends FhirResource {
+  resourceType: 'Bundle';
+  type: 'transaction' | 'transaction-response' | 'searchset';
+  entry?: FhirBundleEntry[];
+}
+
+export interface SyncRunResult {
+  startedAt: Date;
+  completedAt: Date;
+  sent: number;
+  failed: number;
+  superseded: number;       // older queue entries replaced by a newer change to the same record
+  skipped: number;          // tables with no FHIR mapping
+  deferred: number;         // still waiting out their retry backoff
+  conflicts: number;        // rejected because the server copy changed since our last sync
+  remaining: number;
+}
+
+// ============================================
+// Revision & Conflict Types
+// ============================================
+
+export interface RecordRevision {
+  revision: number;         // local edit counter
+  serverVersion?: string;   // FHIR meta.versionId last acknowledged by the server
+  modifiedBy?: string;      // device that made the latest local edit
+}
+
+export type ConflictTable = 'patients' | 'wounds' | 'assessments';
+
+export interface SyncConflictField {
+  path: string;             // dotted path into the local record, e.g. 'measurement.area'
+  label: string;
+  local: unknown;
+  remote: unknown;
+}
+
+export interface SyncConflict {
+  id: string;
+  table: ConflictTable;
+  recordId: string;
+  recordLabel: string;
+  detectedAt: Date;
+  localRevision: number;
+  remoteVersion?: string;
+  remoteUpdatedAt?: string;
+  fields: SyncConflictField[];
+  status: 'open' | 'resolved';
+  resolution?: {
+    resolvedBy: string;
+    resolvedByUserId?: string;
+    resolvedAt: Date;
+    choices: Record<string, 'local' | 'remote'>;
+  };
+}
+
+// ============================================
+// User & Role Types
+// ============================================
+
+export type UserRole = 'nurse' | 'wound_specialist' | 'physician' | 'admin';
+
+export type Permission =
+  | 'verify_assessment'
+  | 'amend_assessment'
+  | 'delete_patient'
+  | 'clear_data'
+  | 'manage_users'
+  | 'view_audit';
+
+/**
+ * Who is signed in - what clinician fields such as capturedBy are filled from
+ */
+export interface UserIdentity {
+  id: string;
+  displayName: string;
+  credentials?: string;     // e.g. "RN, CWOCN"
+  role: UserRole;
+}
+
+export interface UserAccount extends UserIdentity {
+  pin: {
+    salt: Uint8Array;
+    hash: ArrayBuffer;      // PBKDF2-SHA256 of the user's PIN
+    iterations: number;
+  };
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  lastSignInAt?: Date;
+}
+
+// ============================================
+// Audit Types
+// ============================================
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'clear';
+
+export type AuditValue = string | number | boolean | null;
+
+export interface AuditFieldChange {
+  path: string;             // dotted field path, e.g. "measurement.area"
+  before?: AuditValue;
+  after?: AuditValue;
+}
+
+/**
+ * One append-only audit record. Entries are hash-chained in sequence
+ * order so removing or editing one breaks verification of the rest.
+ */
+export interface AuditEntry {
+  id: string;
+  sequence: number;
+  at: Date;
+  table: string;
+  recordId: string;
+  patientId?: string;
+  action: AuditAction;
+  actor: {
+    userId?: string;
+    name: string;
+  };
+  deviceId: string;
+  changes: AuditFieldChange[];
+  prevHash: string;
+  hash: string;
+}
+
+/**
+ * Set on records removed through the app; they stay in their store for
+ * the audit trail but are hidden from normal reads
+ */
+export interface SoftDeleteMarker {
+  deletedAt?: Date;
+  deletedBy?: string;
+}
+
+// ============================================
+// Verification Types
+// ============================================
+
+export type SignatureMethod = 'drawn' | 'pin';
+
+/**
+ * Electronic signature: who signed, what the signature means, and either
+ * the drawn image or a PIN re-entry as proof of intent
+ */
+export interface ESignature {
+  signerUserId: string;
+  signerName: string;
+  method: SignatureMethod;
+  meaning: string;          // e.g. "Reviewed and verified"
+  signedAt: Date;
+  image?: string;           // PNG data URL, drawn signatures only
+}
+
+/**
+ * Change to an assessment after it was verified. Verified assessments are
+ * locked; each later edit must carry one of these.
+ */
+export interface AssessmentAmendment {
+  id: string;
+  amendedAt: Date;
+  amendedBy: string;
+  amendedByUserId?: string;
+  reason: string;
+  changes: AuditFieldChange[];
+  signature?: ESignature;   // absent only for sync conflict merges
+}
+
+export interface VerificationQueueItem {
+  assessment: WoundAssessment;
+  wound?: Wound;
+  patient?: Patient;
+}
+
+// ============================================
+// Backup Types
+// ============================================
+
+/**
+ * Record stores carried in a backup. Users, the audit log and the sync
+ * queue belong to the device and are not included.
+ */
+export interface BackupData {
+  patients: Patient[];
+  wounds: Wound[];
+  assessments: WoundAssessment[];
+  reports: ClinicalReport[];
+  images: { id: string; data: Blob; type: string }[];
+  dressingSessions: DressingSession[];
+  painAssessments: DressingPainAssessment[];
+  sterileFieldChecklists: SterileFieldChecklist[];
+  materialsChecklists: MaterialsChecklist[];
+  dressingProtocols: DressingProtocol[];
+  postDressingCare: PostDressingCare[];
+  painManagementPlans: PainManagementPlan[];
+  deviceValidations: DeviceValidationRecord[];
+  analgesicAdministrations: AnalgesicAdministration[];
+}
+
+export type BackupTable = keyof BackupData;
+
+export interface BackupArchive {
+  format: 'astrowound-backup';
+  version: number;
+  createdAt: Date;
+  createdBy?: string;
+  deviceId: string;
+  clinicName?: string;
+  data: BackupData;
+}
+
+/**
+ * Password-protected archive: the archive is sealed under a random key,
+ * which is wrapped with a key derived from the backup password
+ */
+export interface EncryptedBackup {
+  format: 'astrowound-backup';
+  version: number;
+  encrypted: true;
+  kdf: KeyVault['kdf'];
+  key: WrappedKey;
+  payload: EncryptedPayload;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+/**
+ * A backup patient whose MRN is already used by a different patient on
+ * this device. Merging skips the backup patient and their records.
+ */
+export interface BackupConflict {
+  mrn: string;
+  backupPatientId: string;
+  backupName: string;
+  existingPatientId: string;
+  existingName: string;
+}
+
+export interface RestorePreview {
+  counts: Record<BackupTable, number>;
+  newPatients: number;
+  existingPatients: number;   // same record id already on this device
+  conflicts: BackupConflict[];
+}
+
+export interface RestoreResult {
+  mode: RestoreMode;
+  restored: Record<BackupTable, number>;
+  skipped: number;
+  conflicts: BackupConflict[];
+}
+
+// ============================================
+// Encryption Types
+// ============================================
+
+export type EncryptionState = 'unconfigured' | 'locked' | 'unlocked';
+
+export interface WrappedKey {
+  iv: Uint8Array;
+  key: ArrayBuffer;         // AES-GCM wrapped raw key bytes
+}
+
+export interface VaultKey {
+  id: string;
+  dataKey: WrappedKey;      // AES-GCM record encryption key
+  indexKey: WrappedKey;     // HMAC key for searchable identifiers
+  createdAt: Date;
+}
+
+/**
+ * Key material protected by the user's PIN/passphrase. Keys other than
+ * the current one are kept only until a re-key has re-encrypted every record.
+ */
+export interface KeyVault {
+  id: 'keys';
+  kdf: {
+    algorithm: 'PBKDF2';
+    hash: 'SHA-256';
+    iterations: number;
+    salt: Uint8Array;
+  };
+  currentKeyId: string;
+  keys: VaultKey[];
+  createdAt: Date;
+  rekeyedAt?: Date;
+}
+
+/**
+ * Marker left by the schema upgrade while records written before
+ * encryption still sit in plain text, or while sealed records still lack
+ * a clear field a newer index needs
+ */
+export interface PlaintextMigration {
+  id: 'migration';
+  fromVersion: number;
+  resealStores?: string[];   // stores whose sealed records are all rewritten
+  createdAt: Date;
+}
+
+export interface EncryptedPayload {
+  kid: string;              // VaultKey id used to seal the record
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
 // ============================================
 // Wound Dressing Protocol Types
 // ============================================
@@ -353,6 +975,7 @@ export interface DressingSession {
   patientId: string;
   woundId?: string;
   clinicianName: string;
+  clinicianUserId?: string;
   facilityName?: string;
   woundAssessmentId?: string;
   painAssessmentId?: string;
@@ -360,6 +983,8 @@ export interface DressingSession {
   materialsChecklistId?: string;
   dressingProtocolId?: string;
   postDressingCareId?: string;
+  woundPhase?: WoundPhase;
+  tissueTypes?: DressingWoundAssessment['tissueType'];
   status: 'in-progress' | 'completed' | 'cancelled';
   startedAt: Date;
   completedAt?: Date;
@@ -484,6 +1109,18 @@ export interface PostDressingCare {
   createdAt: Date;
 }
 
+/**
+ * A stored dressing session with the records it links to
+ */
+export interface DressingSessionRecord {
+  session: DressingSession;
+  sterileField?: SterileFieldChecklist;
+  materials?: MaterialsChecklist;
+  postCare?: PostDressingCare;
+  painAssessment?: DressingPainAssessment;
+  painReassessments?: DressingPainAssessment[];  // scores taken during and after the dressing
+}
+
 // ============================================
 // Pain Management Types
 // ============================================
@@ -540,9 +1177,27 @@ export interface DressingPainAssessment {
   analgesiaTiming?: 'none' | 'pre-procedure' | 'during' | 'post';
   analgesiaClass?: 'mild' | 'moderate' | 'severe';
   analgesiaGuidance: string;
+  itemScores?: PainScaleItemScore[];  // breakdown for itemised scales (FLACC, BPS, CPOT, Wong-Baker)
+  planId?: string;                     // set on reassessments against a saved plan
+  administrationId?: string;           // dose a post-dose reassessment follows
+  reassessmentPoint?: PainReassessmentPoint;
   createdAt: Date;
 }
 
+export type PainReassessmentPoint =
+  | 'baseline'
+  | 'post_dose_30'
+  | 'post_dose_60'
+  | 'during_dressing'
+  | 'post_dressing';
+
+export interface PainScaleItemScore {
+  itemId: string;
+  label: string;
+  score: number;
+  descriptor: string;
+}
+
 export type PatientCategory =
   | 'adult'
   | 'pediatric'
@@ -557,6 +1212,8 @@ export interface PainPatientInfo {
   weight?: number;
   category: PatientCategory;
   gender: 'male' | 'female' | 'other';
+  currentMedications?: string[];   // checked for drug-drug interactions
+  allergies?: string[];            // checked for drug-allergy interactions
 }
 
 export type Comorbidity =
@@ -639,6 +1296,21 @@ export interface AnalgesicRecommendation {
   rationale: string;
   doseAdjustment?: string;
   monitoringRequired?: string[];
+  dosing?: AnalgesicDoseCalculation;
+}
+
+export interface AnalgesicDoseCalculation {
+  class: AnalgesicClass;
+  agent: string;              // representative agent of the class
+  route: AnalgesicRoute;
+  unit: 'mg' | 'g' | '%';
+  dose?: number;              // single dose; withheld when a hard stop applies
+  doseBasis: string;          // e.g. "15 mg/kg × 20 kg"
+  frequency: string;
+  intervalHours?: number;
+  maxDailyDose?: number;
+  adjustments: string[];      // age, weight and organ-function changes applied
+  hardStops: string[];        // any entry means the agent must not be given
 }
 
 export type ProcedureType =
@@ -718,6 +1390,8 @@ export interface RedFlag {
 
 export interface PainManagementPlan {
   id: string;
+  patientId: string;
+  woundId?: string;
   sessionId?: string;
   createdAt: Date;
   updatedAt: Date;
@@ -743,4 +1417,24 @@ export interface PainManagementPlan {
   legalDisclaimer: string;
 }
 
+/**
+ * An analgesic dose given to the patient, logged against the plan that
+ * recommended it
+ */
+export interface AnalgesicAdministration {
+  id: string;
+  patientId: string;
+  planId?: string;
+  sessionId?: string;
+  analgesicClass: AnalgesicClass;
+  agent: string;
+  route: AnalgesicRoute;
+  dose: number;
+  unit: AnalgesicDoseCalculation['unit'];
+  administeredAt: Date;
+  administeredBy: string;
+  notes?: string;
+  createdAt: Date;
+}
+
 export type ClinicalMode = 'standard' | 'advanced';